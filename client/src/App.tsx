@@ -7,13 +7,19 @@ import NotFound from "@/pages/not-found";
 import LoginPage from "@/pages/LoginPage";
 import DashboardPage from "@/pages/DashboardPage";
 import PosPage from "@/pages/PosPage";
+import CashDrawerPage from "@/pages/CashDrawerPage";
 import OrdersPage from "@/pages/OrdersPage";
 import InventoryPage from "@/pages/InventoryPage";
+import PurchasingPage from "@/pages/PurchasingPage";
+import StocktakePage from "@/pages/StocktakePage";
 import ServicesPage from "@/pages/ServicesPage";
 import UsersPage from "@/pages/UsersPage";
 import ExpensesPage from "@/pages/ExpensesPage";
 import ReportsPage from "@/pages/ReportsPage";
+import AuditLogPage from "@/pages/AuditLogPage";
 import CustomersPage from "@/pages/CustomersPage";
+import ProductionPage from "@/pages/ProductionPage";
+import SettingsPage from "@/pages/SettingsPage";
 import Layout from "@/components/layout/Layout";
 import OnlineStorePage from "./pages/online-store/OnlineStorePage";
 
@@ -50,12 +56,36 @@ function Router() {
         </Layout>
       </Route>
       
+      <Route path="/production">
+        <Layout>
+          <ProductionPage />
+        </Layout>
+      </Route>
+      
+      <Route path="/cash-drawer">
+        <Layout>
+          <CashDrawerPage />
+        </Layout>
+      </Route>
+      
       <Route path="/inventory">
         <Layout>
           <InventoryPage />
         </Layout>
       </Route>
       
+      <Route path="/stocktake">
+        <Layout>
+          <StocktakePage />
+        </Layout>
+      </Route>
+      
+      <Route path="/purchasing">
+        <Layout>
+          <PurchasingPage />
+        </Layout>
+      </Route>
+      
       <Route path="/services">
         <Layout>
           <ServicesPage />
@@ -87,6 +117,18 @@ function Router() {
         </Layout>
       </Route>
       
+      <Route path="/audit">
+        <Layout>
+          <AuditLogPage />
+        </Layout>
+      </Route>
+      
+      <Route path="/settings">
+        <Layout>
+          <SettingsPage />
+        </Layout>
+      </Route>
+      
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,136 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { passwordSchema } from "@shared/schema";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+
+const changePasswordFormSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+  confirmPassword: z.string().min(1, "Please confirm the new password"),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+}).refine(data => data.newPassword !== data.currentPassword, {
+  message: "New password must be different from the current password",
+  path: ["newPassword"],
+});
+
+type ChangePasswordFormValues = z.infer<typeof changePasswordFormSchema>;
+
+interface ChangePasswordFormProps {
+  onSuccess?: () => void;
+}
+
+export default function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  
+  const form = useForm<ChangePasswordFormValues>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+  
+  const changePasswordMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: ChangePasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/auth/change-password", { currentPassword, newPassword });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      // Clears the forced-change flag on the cached user
+      queryClient.setQueryData(["/api/auth/me"], data);
+      form.reset();
+      toast({
+        title: "Password Changed",
+        description: "Your password has been updated.",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to change password.",
+      });
+    },
+  });
+  
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => changePasswordMutation.mutate(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormDescription>At least 8 characters, with a letter and a number</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <Button type="submit" className="w-full" disabled={changePasswordMutation.isPending}>
+          {changePasswordMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Change Password"
+          )}
+        </Button>
+      </form>
+    </Form>
+  );
+}
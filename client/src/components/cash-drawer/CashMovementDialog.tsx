@@ -0,0 +1,191 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { EXPENSE_CATEGORIES } from "@/lib/constants";
+import { formatPrice } from "@/lib/utils";
+import type { CashMovementType } from "@shared/cash-sessions";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+interface CashMovementDialogProps {
+  sessionId: number;
+  type: CashMovementType;
+  open: boolean;
+  onClose: () => void;
+}
+
+// Select value for a cash-out that is not an expense, e.g. a cash refund
+const NOT_AN_EXPENSE = "none";
+
+const movementFormSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  reason: z.string().trim().min(1, "Reason is required").max(200),
+  expenseCategory: z.string(),
+});
+
+type MovementFormValues = z.infer<typeof movementFormSchema>;
+
+/**
+ * Put cash into the drawer (e.g. more change) or take it out (e.g. a
+ * paid-out for supplies, also recorded as an expense)
+ */
+export default function CashMovementDialog({ sessionId, type, open, onClose }: CashMovementDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const form = useForm<MovementFormValues>({
+    resolver: zodResolver(movementFormSchema),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({ amount: 0, reason: "", expenseCategory: NOT_AN_EXPENSE });
+  }, [open, type]);
+
+  const movementMutation = useMutation({
+    mutationFn: async (values: MovementFormValues) => {
+      const res = await apiRequest("POST", `/api/cash-sessions/${sessionId}/movements`, {
+        type,
+        amount: values.amount,
+        reason: values.reason,
+        expenseCategory: values.expenseCategory === NOT_AN_EXPENSE ? null : values.expenseCategory,
+      });
+      return res.json();
+    },
+    onSuccess: (_, values) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-sessions/current"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cash-sessions/${sessionId}/reading`] });
+      if (values.expenseCategory !== NOT_AN_EXPENSE) {
+        queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      }
+
+      toast({
+        title: type === "cash_in" ? "Cash In Recorded" : "Cash Out Recorded",
+        description: `${formatPrice(values.amount)} - ${values.reason}`,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to record the cash movement.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{type === "cash_in" ? "Cash In" : "Cash Out"}</DialogTitle>
+          <DialogDescription>
+            {type === "cash_in"
+              ? "Cash added to the drawer that is not a payment, e.g. more change."
+              : "Cash taken out of the drawer that is not change, e.g. a paid-out or a cash refund."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => movementMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount</FormLabel>
+                  <FormControl>
+                    <div className="relative">
+                      <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-neutral-500">₱</span>
+                      <Input type="number" min="0" step="0.01" className="pl-7" {...field} />
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Input placeholder={type === "cash_in" ? "Additional change" : "Bond paper from the corner store"} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {type === "cash_out" && (
+              <FormField
+                control={form.control}
+                name="expenseCategory"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Record as Expense</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NOT_AN_EXPENSE}>Not an expense</SelectItem>
+                        {EXPENSE_CATEGORIES.map(category => (
+                          <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Paid-outs are added to Expenses with the reason as their title
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={movementMutation.isPending}>
+                {movementMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Record
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { CashReading } from "@shared/cash-sessions";
+import { formatDate, formatPrice } from "@/lib/utils";
+import { APP_NAME } from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Printer } from "lucide-react";
+
+interface CashReadingDialogProps {
+  sessionId: number | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const MOVEMENT_LABELS: Record<string, string> = {
+  cash_in: "Cash in",
+  cash_out: "Cash out",
+};
+
+function Row({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+  return (
+    <div className={`flex justify-between py-0.5 ${strong ? "font-bold" : ""}`}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+}
+
+/**
+ * The X-reading of an open drawer session, or the Z-reading taken when it
+ * was closed
+ */
+export default function CashReadingDialog({ sessionId, open, onClose }: CashReadingDialogProps) {
+  const readingRef = useRef<HTMLDivElement>(null);
+
+  const { data, isLoading } = useQuery<{ reading: CashReading | null }>({
+    queryKey: [`/api/cash-sessions/${sessionId}/reading`],
+    enabled: open && sessionId !== null,
+  });
+  const reading = data?.reading;
+
+  const handlePrint = () => {
+    const content = readingRef.current;
+    if (!content) return;
+
+    document.body.innerHTML = content.innerHTML;
+    window.print();
+    window.location.reload();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{reading ? `${reading.type}-Reading` : "Reading"}</DialogTitle>
+          <DialogDescription>
+            {reading?.type === "Z" ? "End of day, taken when the drawer was closed" : "Mid-shift; the drawer stays open"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !reading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-6 w-full" />
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : (
+          <div ref={readingRef} className="text-sm">
+            <div className="border-b pb-3 mb-3 text-center">
+              <h2 className="font-bold text-xl">{APP_NAME}</h2>
+              <p className="text-neutral-500">{reading.type}-Reading - Drawer Session #{reading.sessionId}</p>
+            </div>
+
+            <div className="mb-3">
+              <Row label="Opened:" value={`${formatDate(reading.openedAt, "MMM dd, yyyy HH:mm")} by ${reading.openedByName}`} />
+              {reading.closedAt && (
+                <Row label="Closed:" value={`${formatDate(reading.closedAt, "MMM dd, yyyy HH:mm")} by ${reading.closedByName}`} />
+              )}
+              <Row label="Generated:" value={formatDate(reading.generatedAt, "MMM dd, yyyy HH:mm")} />
+            </div>
+
+            <div className="border-t pt-2 mb-3">
+              <p className="font-semibold mb-1">By Payment Method</p>
+              {reading.byMethod.length === 0 ? (
+                <p className="text-neutral-500">No payments taken</p>
+              ) : (
+                reading.byMethod.map(method => (
+                  <Row
+                    key={method.method}
+                    label={`${method.method.toUpperCase()} (${method.count})`}
+                    value={formatPrice(method.amount)}
+                  />
+                ))
+              )}
+              <Row label="Total payments" value={formatPrice(reading.totalPayments)} strong />
+            </div>
+
+            {reading.byCashier.length > 0 && (
+              <div className="border-t pt-2 mb-3">
+                <p className="font-semibold mb-1">By Cashier</p>
+                {reading.byCashier.map(cashier => (
+                  <div key={cashier.userId} className="py-0.5">
+                    <Row label={`${cashier.name} (${cashier.count})`} value={formatPrice(cashier.total)} />
+                    <div className="flex justify-between pl-3 text-xs text-neutral-500">
+                      <span>of which cash</span>
+                      <span>{formatPrice(cashier.cash)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {reading.movements.length > 0 && (
+              <div className="border-t pt-2 mb-3">
+                <p className="font-semibold mb-1">Cash In / Out</p>
+                {reading.movements.map((movement, index) => (
+                  <div key={index} className="flex justify-between py-0.5">
+                    <span>
+                      {MOVEMENT_LABELS[movement.type]}: {movement.reason}
+                      {movement.expenseId !== null && <span className="text-neutral-500"> (expense)</span>}
+                      {!!movement.reversalId && <span className="text-neutral-500"> (refund)</span>}
+                    </span>
+                    <span>{movement.type === "cash_out" ? "-" : ""}{formatPrice(movement.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="border-t pt-2">
+              <p className="font-semibold mb-1">Drawer</p>
+              <Row label="Opening float" value={formatPrice(reading.openingFloat)} />
+              <Row label="Cash payments" value={formatPrice(reading.cashPayments)} />
+              <Row label="Cash in" value={formatPrice(reading.cashIn)} />
+              <Row label="Cash out" value={`-${formatPrice(reading.cashOut)}`} />
+              {reading.paidOuts > 0 && (
+                <div className="flex justify-between pl-3 text-xs text-neutral-500">
+                  <span>of which paid-outs recorded as expenses</span>
+                  <span>{formatPrice(reading.paidOuts)}</span>
+                </div>
+              )}
+              {reading.refunds > 0 && (
+                <div className="flex justify-between pl-3 text-xs text-neutral-500">
+                  <span>of which handed back on refunds and voids</span>
+                  <span>{formatPrice(reading.refunds)}</span>
+                </div>
+              )}
+              <Row label="Expected cash" value={formatPrice(reading.expectedCash)} strong />
+              {reading.countedCash !== null && (
+                <>
+                  <Row label="Counted cash" value={formatPrice(reading.countedCash)} strong />
+                  <div className={`flex justify-between py-0.5 font-bold ${
+                    (reading.variance || 0) < 0 ? "text-red-600" : (reading.variance || 0) > 0 ? "text-amber-600" : ""
+                  }`}>
+                    <span>Variance</span>
+                    <span>{(reading.variance || 0) > 0 ? "+" : ""}{formatPrice(reading.variance || 0)}</span>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {reading.denominations && (
+              <div className="border-t pt-2 mt-3">
+                <p className="font-semibold mb-1">Closing Count</p>
+                {Object.entries(reading.denominations)
+                  .filter(([, count]) => count > 0)
+                  .sort(([a], [b]) => Number(b) - Number(a))
+                  .map(([denomination, count]) => (
+                    <Row
+                      key={denomination}
+                      label={`${formatPrice(Number(denomination))} x ${count}`}
+                      value={formatPrice(Number(denomination) * count)}
+                    />
+                  ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button onClick={handlePrint} disabled={!reading}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatPrice } from "@/lib/utils";
+import { CASH_DENOMINATIONS, countCash, type DenominationCount } from "@shared/cash-sessions";
+import type { CashSession } from "@/lib/types";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+interface CloseDrawerDialogProps {
+  sessionId: number;
+  expectedCash: number;
+  open: boolean;
+  onClose: () => void;
+  onClosed: (session: CashSession) => void;
+}
+
+/**
+ * Count the drawer bill by bill and close the session, taking its Z-reading
+ */
+export default function CloseDrawerDialog({ sessionId, expectedCash, open, onClose, onClosed }: CloseDrawerDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setCounts({});
+    setNotes("");
+  }, [open]);
+
+  const denominations: DenominationCount = {};
+  for (const denomination of CASH_DENOMINATIONS) {
+    const count = parseInt(counts[String(denomination)] || "", 10);
+    if (count > 0) {
+      denominations[String(denomination)] = count;
+    }
+  }
+  const countedCash = countCash(denominations);
+  const variance = countedCash - expectedCash;
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/cash-sessions/${sessionId}/close`, {
+        denominations,
+        notes: notes || null,
+      });
+      return res.json() as Promise<{ session: CashSession }>;
+    },
+    onSuccess: ({ session }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-sessions/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-sessions"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/cash-sessions/${sessionId}/reading`] });
+
+      toast({
+        title: "Drawer Closed",
+        description: `Counted ${formatPrice(countedCash)} against ${formatPrice(expectedCash)} expected.`,
+      });
+      onClosed(session);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to close the drawer.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Close Drawer</DialogTitle>
+          <DialogDescription>
+            Count the bills and coins in the drawer. Closing takes the Z-reading and cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+          {CASH_DENOMINATIONS.map(denomination => {
+            const key = String(denomination);
+            const count = denominations[key] || 0;
+            return (
+              <div key={key} className="flex items-center gap-2">
+                <Label htmlFor={`denomination-${key}`} className="w-16 text-right">
+                  {formatPrice(denomination)}
+                </Label>
+                <Input
+                  id={`denomination-${key}`}
+                  type="number"
+                  min="0"
+                  step="1"
+                  className="w-20"
+                  value={counts[key] || ""}
+                  onChange={(e) => setCounts(prev => ({ ...prev, [key]: e.target.value }))}
+                />
+                <span className="text-xs text-neutral-500 flex-1 text-right">
+                  {count > 0 ? formatPrice(denomination * count) : ""}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="rounded-md border p-3 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span>Expected cash</span>
+            <span>{formatPrice(expectedCash)}</span>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <span>Counted cash</span>
+            <span>{formatPrice(countedCash)}</span>
+          </div>
+          <div className={`flex justify-between font-semibold ${
+            variance < 0 ? "text-red-600" : variance > 0 ? "text-amber-600" : "text-green-600"
+          }`}>
+            <span>{variance < 0 ? "Short" : variance > 0 ? "Over" : "Balanced"}</span>
+            <span>{variance > 0 ? "+" : ""}{formatPrice(variance)}</span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="closing-notes">Notes</Label>
+          <Textarea
+            id="closing-notes"
+            placeholder="Explain any shortage or overage"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => closeMutation.mutate()} disabled={closeMutation.isPending}>
+            {closeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Close Drawer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
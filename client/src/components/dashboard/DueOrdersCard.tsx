@@ -0,0 +1,70 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Order } from "@/lib/types";
+import { formatDate } from "@/lib/utils";
+import { getDueState } from "@shared/turnaround";
+import OrderStatusBadge from "../orders/OrderStatusBadge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function DueOrdersCard() {
+  const { data, isLoading, error } = useQuery<{ orders: Order[] }>({
+    queryKey: ["/api/dashboard/due-orders"],
+  });
+
+  const now = new Date();
+  const overdueCount = data?.orders.filter(order => getDueState(order, now) === "overdue").length || 0;
+
+  return (
+    <Card>
+      <CardHeader className="border-b border-neutral-200 flex flex-row items-center justify-between py-5">
+        <CardTitle className="text-lg font-medium text-neutral-900">Overdue / Due Today</CardTitle>
+        {overdueCount > 0 && (
+          <Badge className="bg-red-100 text-red-800 hover:bg-red-100">{overdueCount} overdue</Badge>
+        )}
+      </CardHeader>
+      <CardContent className="p-0 divide-y divide-neutral-200">
+        {isLoading ? (
+          Array(3).fill(0).map((_, index) => (
+            <div key={index} className="p-4">
+              <Skeleton className="h-5 w-32 mb-1" />
+              <Skeleton className="h-4 w-40" />
+            </div>
+          ))
+        ) : error ? (
+          <div className="p-4 text-center text-neutral-500">
+            Failed to load due orders
+          </div>
+        ) : data?.orders && data.orders.length > 0 ? (
+          data.orders.map((order) => {
+            const isOverdue = getDueState(order, now) === "overdue";
+            return (
+              <div key={order.id} className="p-4 hover:bg-neutral-50">
+                <div className="flex justify-between">
+                  <div>
+                    <p className="font-medium text-neutral-900">{order.orderNumber}</p>
+                    <p className="text-sm text-neutral-500">{order.customerName}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`text-sm font-medium ${isOverdue ? "text-red-600" : "text-amber-600"}`}>
+                      {isOverdue ? "Was due" : "Due"} {formatDate(order.dueAt, isOverdue ? "MMM d, h:mm a" : "h:mm a")}
+                    </p>
+                    <OrderStatusBadge status={order.status} />
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        ) : (
+          <div className="p-4 text-center text-neutral-500">
+            Nothing is overdue or due today
+          </div>
+        )}
+        <Link href="/orders">
+          <div className="p-3 text-center text-sm text-primary-600 hover:underline cursor-pointer">View all orders</div>
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
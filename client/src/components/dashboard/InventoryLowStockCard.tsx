@@ -1,11 +1,15 @@
 import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
 import { Inventory } from "@/lib/types";
+import { formatQuantity } from "@/lib/utils";
+import { USER_ROLES } from "@/lib/constants";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 
 export default function InventoryLowStockCard() {
+  const { user } = useAuth();
   const { data, isLoading, error } = useQuery<{ inventory: Inventory[] }>({
     queryKey: ["/api/inventory/low-stock"],
   });
@@ -21,9 +25,16 @@ export default function InventoryLowStockCard() {
     <Card>
       <CardHeader className="border-b border-neutral-200 flex flex-row items-center justify-between py-5">
         <CardTitle className="text-lg font-medium text-neutral-900">Low Stock Inventory</CardTitle>
-        <Link href="/inventory">
-          <div className="text-sm text-primary-600 hover:underline cursor-pointer">View all</div>
-        </Link>
+        <div className="flex items-center space-x-4">
+          {user?.role === USER_ROLES.ADMIN && (
+            <Link href="/purchasing">
+              <div className="text-sm text-primary-600 hover:underline cursor-pointer">Reorder</div>
+            </Link>
+          )}
+          <Link href="/inventory">
+            <div className="text-sm text-primary-600 hover:underline cursor-pointer">View all</div>
+          </Link>
+        </div>
       </CardHeader>
       <CardContent className="p-0">
         <div className="overflow-x-auto">
@@ -67,7 +78,7 @@ export default function InventoryLowStockCard() {
                   return (
                     <tr key={item.id}>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-neutral-900">{item.name}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500">{item.currentStock} {item.unit}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500">{formatQuantity(item.currentStock)} {item.unit}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500">{item.lowStockThreshold} {item.unit}</td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <Badge 
@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { Inventory, InventoryMovement } from "@/lib/types";
+import { INVENTORY_MOVEMENT_TYPES } from "@/lib/constants";
+import { formatDate, formatPrice, formatQuantity } from "@/lib/utils";
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface StockHistorySheetProps {
+  item: Inventory | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+// What a movement refers to, e.g. the order that used the stock
+const describeReference = (movement: InventoryMovement) => {
+  if (movement.orderNumber) return `Order ${movement.orderNumber}`;
+  if (movement.transferItemName) {
+    return movement.quantity < 0 ? `To ${movement.transferItemName}` : `From ${movement.transferItemName}`;
+  }
+  return null;
+};
+
+/**
+ * Every change to an item's stock, newest first, with the balance after each
+ */
+export default function StockHistorySheet({ item, open, onClose }: StockHistorySheetProps) {
+  const { data, isLoading } = useQuery<{ movements: InventoryMovement[] }>({
+    queryKey: [`/api/inventory/${item?.id}/movements`],
+    enabled: open && !!item,
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <SheetContent className="sm:max-w-md md:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Stock History: {item?.name}</SheetTitle>
+          <SheetDescription>
+            {item && `${formatQuantity(item.currentStock)} ${item.unit} in stock`}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 overflow-y-auto" style={{ maxHeight: "calc(100vh - 180px)" }}>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array(4).fill(0).map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : !data?.movements.length ? (
+            <div className="text-center p-6 text-neutral-500">
+              No stock movements recorded for this item.
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {data.movements.map(movement => {
+                const type = INVENTORY_MOVEMENT_TYPES.find(t => t.value === movement.type);
+                const reference = describeReference(movement);
+                return (
+                  <li key={movement.id} className="py-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <Badge variant="outline" className={`${type?.color || ""} rounded-full text-xs font-medium`}>
+                          {type?.label || movement.type}
+                        </Badge>
+                        <p className="text-xs text-neutral-500">
+                          {formatDate(movement.createdAt, "MMM dd, yyyy HH:mm")}
+                          {movement.createdByName && ` by ${movement.createdByName}`}
+                        </p>
+                        {reference && <p className="text-sm">{reference}</p>}
+                        {movement.unitCost !== null && (
+                          <p className="text-xs text-neutral-500">{formatPrice(movement.unitCost)} per {item?.unit}</p>
+                        )}
+                        {movement.notes && <p className="text-sm text-neutral-600">{movement.notes}</p>}
+                      </div>
+                      <div className="text-right whitespace-nowrap">
+                        <p className={`font-semibold ${movement.quantity < 0 ? "text-red-600" : "text-green-600"}`}>
+                          {movement.quantity > 0 ? "+" : ""}{formatQuantity(movement.quantity)}
+                        </p>
+                        <p className="text-xs text-neutral-500">
+                          Balance {formatQuantity(movement.balance)}
+                        </p>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <SheetFooter className="mt-4">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -2,6 +2,8 @@ import { ReactNode } from "react";
 import { useLocation, Redirect } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { isRouteAccessible } from "@/lib/utils";
+import { APP_NAME } from "@/lib/constants";
+import ChangePasswordForm from "@/components/auth/ChangePasswordForm";
 import Sidebar from "./Sidebar";
 import MobileHeader from "./MobileHeader";
 
@@ -30,6 +32,21 @@ export default function Layout({ children }: LayoutProps) {
     return <Redirect to="/login" />;
   }
   
+  // A reset password must be replaced before anything else
+  if (user?.mustChangePassword) {
+    return (
+      <div className="fixed inset-0 bg-white z-50 flex items-center justify-center">
+        <div className="w-full max-w-md p-8">
+          <div className="text-center mb-8">
+            <h1 className="text-2xl font-bold text-neutral-900">{APP_NAME}</h1>
+            <p className="text-neutral-500">Your password was reset. Choose a new password to continue.</p>
+          </div>
+          <ChangePasswordForm />
+        </div>
+      </div>
+    );
+  }
+  
   // Check if user has access to the current route
   if (user && !isRouteAccessible(location, user.role)) {
     return <Redirect to="/dashboard" />;
@@ -40,6 +40,12 @@ export default function MobileHeader() {
       label: "POS",
       roles: [USER_ROLES.ADMIN, USER_ROLES.CASHIER]
     },
+    {
+      href: "/cash-drawer",
+      icon: "ri-safe-2-line",
+      label: "Cash Drawer",
+      roles: [USER_ROLES.ADMIN, USER_ROLES.CASHIER]
+    },
     { 
       href: "/orders", 
       icon: "ri-file-list-3-line", 
@@ -52,6 +58,18 @@ export default function MobileHeader() {
       label: "Inventory",
       roles: [USER_ROLES.ADMIN, USER_ROLES.STAFF]
     },
+    {
+      href: "/stocktake",
+      icon: "ri-clipboard-line",
+      label: "Stocktake",
+      roles: [USER_ROLES.ADMIN, USER_ROLES.STAFF]
+    },
+    {
+      href: "/purchasing",
+      icon: "ri-truck-line",
+      label: "Purchasing",
+      roles: [USER_ROLES.ADMIN]
+    },
     { 
       href: "/services", 
       icon: "ri-settings-3-line", 
@@ -84,6 +102,12 @@ export default function MobileHeader() {
       icon: "ri-bar-chart-line", 
       label: "Reports",
       roles: [USER_ROLES.ADMIN]
+    },
+    {
+      href: "/audit",
+      icon: "ri-history-line",
+      label: "Audit Log",
+      roles: [USER_ROLES.ADMIN]
     }
   ];
   
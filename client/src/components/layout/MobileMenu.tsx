@@ -3,11 +3,13 @@ import { useAuth } from "@/hooks/useAuth";
 import { Link, useLocation } from "wouter";
 import { APP_NAME, USER_ROLES } from "@/lib/constants";
 import { cn } from "@/lib/utils";
+import ChangePasswordDialog from "@/components/auth/ChangePasswordDialog";
 
 export default function MobileMenu() {
   const { user, logout } = useAuth();
   const [location] = useLocation();
   const [menuOpen, setMenuOpen] = useState(false);
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
   
   if (!user) return null;
   
@@ -117,6 +119,26 @@ export default function MobileMenu() {
                   </li>
                 )}
                 
+                {/* Cash Drawer - for admin and cashier */}
+                {(user.role === "admin" || user.role === "cashier") && (
+                  <li>
+                    <Link href="/cash-drawer">
+                      <div 
+                        className={cn(
+                          "flex items-center p-2 rounded-md group cursor-pointer",
+                          location === "/cash-drawer" 
+                            ? "bg-primary-800 text-white" 
+                            : "hover:bg-neutral-800 text-white"
+                        )}
+                        onClick={closeMenu}
+                      >
+                        <i className="ri-safe-2-line mr-3 text-lg"></i>
+                        <span>Cash Drawer</span>
+                      </div>
+                    </Link>
+                  </li>
+                )}
+                
                 {/* Orders - for all roles */}
                 <li>
                   <Link href="/orders">
@@ -135,6 +157,26 @@ export default function MobileMenu() {
                   </Link>
                 </li>
                 
+                {/* Production board - for admin and staff */}
+                {(user.role === "admin" || user.role === "staff") && (
+                  <li>
+                    <Link href="/production">
+                      <div 
+                        className={cn(
+                          "flex items-center p-2 rounded-md group cursor-pointer",
+                          location === "/production" 
+                            ? "bg-primary-800 text-white" 
+                            : "hover:bg-neutral-800 text-white"
+                        )}
+                        onClick={closeMenu}
+                      >
+                        <i className="ri-layout-column-line mr-3 text-lg"></i>
+                        <span>Production</span>
+                      </div>
+                    </Link>
+                  </li>
+                )}
+                
                 {/* Inventory - for admin and staff */}
                 {(user.role === "admin" || user.role === "staff") && (
                   <li>
@@ -155,6 +197,46 @@ export default function MobileMenu() {
                   </li>
                 )}
                 
+                {/* Stocktake - for admin and staff */}
+                {(user.role === "admin" || user.role === "staff") && (
+                  <li>
+                    <Link href="/stocktake">
+                      <div 
+                        className={cn(
+                          "flex items-center p-2 rounded-md group cursor-pointer",
+                          location === "/stocktake" 
+                            ? "bg-primary-800 text-white" 
+                            : "hover:bg-neutral-800 text-white"
+                        )}
+                        onClick={closeMenu}
+                      >
+                        <i className="ri-clipboard-line mr-3 text-lg"></i>
+                        <span>Stocktake</span>
+                      </div>
+                    </Link>
+                  </li>
+                )}
+                
+                {/* Purchasing - admin only */}
+                {user.role === "admin" && (
+                  <li>
+                    <Link href="/purchasing">
+                      <div 
+                        className={cn(
+                          "flex items-center p-2 rounded-md group cursor-pointer",
+                          location === "/purchasing" 
+                            ? "bg-primary-800 text-white" 
+                            : "hover:bg-neutral-800 text-white"
+                        )}
+                        onClick={closeMenu}
+                      >
+                        <i className="ri-truck-line mr-3 text-lg"></i>
+                        <span>Purchasing</span>
+                      </div>
+                    </Link>
+                  </li>
+                )}
+                
                 {/* Services - admin only */}
                 {user.role === "admin" && (
                   <li>
@@ -259,6 +341,46 @@ export default function MobileMenu() {
                       </Link>
                     </li>
                   )}
+                  
+                  {/* Audit Log - admin only */}
+                  {user.role === "admin" && (
+                    <li>
+                      <Link href="/audit">
+                        <div 
+                          className={cn(
+                            "flex items-center p-2 rounded-md group cursor-pointer",
+                            location === "/audit" 
+                              ? "bg-primary-800 text-white" 
+                              : "hover:bg-neutral-800 text-white"
+                          )}
+                          onClick={closeMenu}
+                        >
+                          <i className="ri-history-line mr-3 text-lg"></i>
+                          <span>Audit Log</span>
+                        </div>
+                      </Link>
+                    </li>
+                  )}
+                  
+                  {/* Settings - admin only */}
+                  {user.role === "admin" && (
+                    <li>
+                      <Link href="/settings">
+                        <div 
+                          className={cn(
+                            "flex items-center p-2 rounded-md group cursor-pointer",
+                            location === "/settings" 
+                              ? "bg-primary-800 text-white" 
+                              : "hover:bg-neutral-800 text-white"
+                          )}
+                          onClick={closeMenu}
+                        >
+                          <i className="ri-equalizer-line mr-3 text-lg"></i>
+                          <span>Settings</span>
+                        </div>
+                      </Link>
+                    </li>
+                  )}
                 </ul>
               </div>
             )}
@@ -274,6 +396,14 @@ export default function MobileMenu() {
                 <div className="text-sm font-medium">{user.name}</div>
                 <div className="text-xs text-neutral-400">{user.role}</div>
               </div>
+              <button
+                className="text-neutral-400 hover:text-white"
+                onClick={() => setIsChangePasswordOpen(true)}
+                title="Change password"
+                aria-label="Change password"
+              >
+                <i className="ri-lock-password-line text-lg" />
+              </button>
               <button
               className="text-neutral-400 hover:text-white"
               onClick={handleLogout}
@@ -286,6 +416,11 @@ export default function MobileMenu() {
           </div>
         </div>
       </div>
+      
+      <ChangePasswordDialog
+        open={isChangePasswordOpen}
+        onClose={() => setIsChangePasswordOpen(false)}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -4,6 +4,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { APP_NAME, USER_ROLES } from "@/lib/constants";
+import ChangePasswordDialog from "@/components/auth/ChangePasswordDialog";
 
 interface NavItemProps {
   href: string;
@@ -38,6 +39,7 @@ function NavItem({ href, icon, label, active, roles, userRole }: NavItemProps) {
 export default function Sidebar() {
   const { user, logout } = useAuth();
   const [location] = useLocation();
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
   
   if (!user) return null;
   
@@ -54,18 +56,42 @@ export default function Sidebar() {
       label: "POS",
       roles: [USER_ROLES.ADMIN, USER_ROLES.CASHIER]
     },
+    {
+      href: "/cash-drawer",
+      icon: "ri-safe-2-line",
+      label: "Cash Drawer",
+      roles: [USER_ROLES.ADMIN, USER_ROLES.CASHIER]
+    },
     { 
       href: "/orders", 
       icon: "ri-file-list-3-line", 
       label: "Orders",
       roles: [USER_ROLES.ADMIN, USER_ROLES.CASHIER, USER_ROLES.STAFF]
     },
+    {
+      href: "/production",
+      icon: "ri-layout-column-line",
+      label: "Production",
+      roles: [USER_ROLES.ADMIN, USER_ROLES.STAFF]
+    },
     { 
       href: "/inventory", 
       icon: "ri-stack-line", 
       label: "Inventory",
       roles: [USER_ROLES.ADMIN, USER_ROLES.STAFF]
     },
+    {
+      href: "/stocktake",
+      icon: "ri-clipboard-line",
+      label: "Stocktake",
+      roles: [USER_ROLES.ADMIN, USER_ROLES.STAFF]
+    },
+    {
+      href: "/purchasing",
+      icon: "ri-truck-line",
+      label: "Purchasing",
+      roles: [USER_ROLES.ADMIN]
+    },
     { 
       href: "/services", 
       icon: "ri-settings-3-line", 
@@ -98,6 +124,18 @@ export default function Sidebar() {
       icon: "ri-bar-chart-line", 
       label: "Reports",
       roles: [USER_ROLES.ADMIN]
+    },
+    {
+      href: "/audit",
+      icon: "ri-history-line",
+      label: "Audit Log",
+      roles: [USER_ROLES.ADMIN]
+    },
+    {
+      href: "/settings",
+      icon: "ri-equalizer-line",
+      label: "Settings",
+      roles: [USER_ROLES.ADMIN]
     }
   ];
   
@@ -165,6 +203,14 @@ export default function Sidebar() {
             <div className="text-sm font-medium">{user.name}</div>
             <div className="text-xs text-neutral-400">{user.role}</div>
           </div>
+          <button
+            className="text-neutral-400 hover:text-white"
+            onClick={() => setIsChangePasswordOpen(true)}
+            title="Change password"
+            aria-label="Change password"
+          >
+            <i className="ri-lock-password-line text-lg" />
+          </button>
           <button 
             className="text-neutral-400 hover:text-white"
             onClick={handleLogout}
@@ -174,6 +220,11 @@ export default function Sidebar() {
           </button>
         </div>
       </div>
+      
+      <ChangePasswordDialog
+        open={isChangePasswordOpen}
+        onClose={() => setIsChangePasswordOpen(false)}
+      />
     </aside>
   );
 }
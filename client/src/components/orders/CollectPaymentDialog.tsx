@@ -0,0 +1,226 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Order, OrderPayment } from "@/lib/types";
+import { PAYMENT_METHODS } from "@/lib/constants";
+import { formatPrice } from "@/lib/utils";
+import { getBalanceDue } from "@shared/payments";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+interface CollectPaymentDialogProps {
+  order: Order;
+  open: boolean;
+  onClose: () => void;
+}
+
+const paymentFormSchema = z.object({
+  method: z.string().min(1, "Payment method is required"),
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  amountTendered: z.coerce.number().min(0, "Amount must be 0 or greater"),
+  referenceNumber: z.string().optional(),
+}).refine(values => values.method === PAYMENT_METHODS.CASH || !!values.referenceNumber?.trim(), {
+  message: "Reference number is required",
+  path: ["referenceNumber"],
+});
+
+type PaymentFormValues = z.infer<typeof paymentFormSchema>;
+
+/**
+ * Take the balance (or part of it) on an order, typically when a job that
+ * was started on a downpayment is picked up.
+ */
+export default function CollectPaymentDialog({ order, open, onClose }: CollectPaymentDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const balanceDue = getBalanceDue(order);
+
+  const form = useForm<PaymentFormValues>({
+    resolver: zodResolver(paymentFormSchema),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      method: PAYMENT_METHODS.CASH,
+      amount: balanceDue,
+      amountTendered: 0,
+      referenceNumber: "",
+    });
+  }, [open, order.id, balanceDue]);
+
+  const method = form.watch("method");
+  const amount = Number(form.watch("amount")) || 0;
+  const amountTendered = Number(form.watch("amountTendered")) || 0;
+  const change = Math.max(amountTendered - amount, 0);
+  const isAmountValid = amount <= balanceDue &&
+    (method !== PAYMENT_METHODS.CASH || amountTendered >= amount);
+
+  const paymentMutation = useMutation({
+    mutationFn: async (values: PaymentFormValues) => {
+      const res = await apiRequest("POST", `/api/orders/${order.id}/payments`, {
+        method: values.method,
+        amount: values.amount,
+        referenceNumber: values.method === PAYMENT_METHODS.CASH ? null : values.referenceNumber || null,
+      });
+      return res.json();
+    },
+    onSuccess: (result: { payment: OrderPayment; order: Order }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${order.id}/payments`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/recent-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-sessions/current"] });
+
+      toast({
+        title: "Payment Received",
+        description: getBalanceDue(result.order) > 0
+          ? `${formatPrice(getBalanceDue(result.order))} is still due on ${order.orderNumber}.`
+          : `Order ${order.orderNumber} is fully paid.`,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to record payment.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Collect Payment - {order.orderNumber}</DialogTitle>
+          <DialogDescription>
+            {formatPrice(order.amountPaid || 0)} of {formatPrice(order.total)} paid so far
+          </DialogDescription>
+        </DialogHeader>
+
+        {balanceDue <= 0 ? (
+          <p className="text-sm text-neutral-500">This order is already paid in full.</p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => paymentMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <label htmlFor="collect-payment-method" className="text-sm font-medium">
+                      Payment Method
+                    </label>
+                    <select
+                      id="collect-payment-method"
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      value={field.value}
+                      onChange={(e) => field.onChange(e.target.value)}
+                    >
+                      <option value={PAYMENT_METHODS.CASH}>Cash</option>
+                      <option value={PAYMENT_METHODS.CARD}>Card</option>
+                      <option value={PAYMENT_METHODS.GCASH}>GCash</option>
+                    </select>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" max={balanceDue} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {method === PAYMENT_METHODS.CASH ? (
+                <FormField
+                  control={form.control}
+                  name="amountTendered"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount Tendered</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" placeholder="0.00" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="referenceNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reference Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Transaction reference" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <div className="bg-neutral-50 p-4 rounded-md space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-neutral-600">Balance Due</span>
+                  <span className="font-medium">{formatPrice(balanceDue)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-neutral-600">Remaining After Payment</span>
+                  <span className="font-medium">{formatPrice(Math.max(balanceDue - amount, 0))}</span>
+                </div>
+                {method === PAYMENT_METHODS.CASH && (
+                  <div className="flex justify-between pt-2 border-t border-neutral-200">
+                    <span className="font-medium">Change</span>
+                    <span className="font-bold text-lg">{formatPrice(change)}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Close
+                </Button>
+                <Button type="submit" disabled={paymentMutation.isPending || !isAmountValid}>
+                  {paymentMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Record Payment
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
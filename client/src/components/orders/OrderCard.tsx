@@ -1,10 +1,20 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { Order, OrderItem as OrderItemType } from "@/lib/types";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Order, OrderDocument, OrderFile, OrderItem as OrderItemType, OrderLinePricing, OrderNotification, OrderPayment, OrderReversal
+} from "@/lib/types";
 import { apiRequest } from "@/lib/queryClient";
-import { formatPrice, formatDate } from "@/lib/utils";
+import { useAuth } from "@/hooks/useAuth";
+import { formatPrice, formatDate, formatFileSize, getStatusText } from "@/lib/utils";
+import { getAllowedReversalTypes, isOrderClosed } from "@shared/reversals";
+import { getBalanceDue } from "@shared/payments";
+import { getDueState } from "@shared/turnaround";
+import { ORDER_DOCUMENT_TITLES, getDocumentIssueErrors, type OrderDocumentType } from "@shared/invoices";
 import OrderStatusBadge from "./OrderStatusBadge";
 import ReceiptModal from "./ReceiptModal";
+import OrderLinePricingDetails from "./OrderLinePricingDetails";
+import OrderReversalDialog from "./OrderReversalDialog";
+import CollectPaymentDialog from "./CollectPaymentDialog";
 import {
   Card,
   CardHeader,
@@ -26,9 +36,9 @@ import {
   DialogFooter,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Loader2, MoreVertical, Printer, FileText } from "lucide-react";
+import { Loader2, MoreVertical, Printer, FileText, Undo2, Wallet, Download, Eye, Receipt } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { ORDER_STATUS } from "@/lib/constants";
+import { ORDER_STATUS, PREVIEWABLE_FILE_TYPES, PRODUCTION_STAGES, REVERSAL_TYPES, USER_ROLES } from "@/lib/constants";
 
 interface OrderCardProps {
   order: Order;
@@ -39,31 +49,88 @@ interface OrderCardProps {
 export default function OrderCard({ order, items, onStatusChange }: OrderCardProps) {
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [isReceiptOpen, setIsReceiptOpen] = useState(false);
+  const [isReversalOpen, setIsReversalOpen] = useState(false);
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false);
+  const { user } = useAuth();
   const queryClient = useQueryClient();
   const { toast } = useToast();
-
-  const deleteMutation = useMutation({
-  mutationFn: async () => {
-    const res = await apiRequest("DELETE", `/api/orders/${order.id}`);
-    if (!res.ok) throw new Error("Failed to delete order");
-    return res.json();
-  },
-  onSuccess: () => {
-    toast({
-      title: "Order Deleted",
-      description: `Order ${order.orderNumber} was successfully deleted.`,
-    });
-    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
-  },
-  onError: (err: any) => {
-    toast({
-      variant: "destructive",
-      title: "Error",
-      description: err.message || "Failed to delete order.",
-    });
-  },
-});
-
+  
+  // How each line was priced, loaded only when the details are opened
+  const { data: pricingData } = useQuery<{ lines: OrderLinePricing[] }>({
+    queryKey: [`/api/orders/${order.id}/pricing`],
+    enabled: isDetailsOpen,
+  });
+  
+  // Cancellations, voids and refunds of this order
+  const { data: reversalsData } = useQuery<{ reversals: OrderReversal[] }>({
+    queryKey: [`/api/orders/${order.id}/reversals`],
+    enabled: isDetailsOpen,
+  });
+  
+  // Customer files supplied with the order's items
+  const { data: filesData } = useQuery<{ files: OrderFile[] }>({
+    queryKey: [`/api/orders/${order.id}/files`],
+    enabled: isDetailsOpen,
+  });
+  
+  // Deposits and balance payments taken on this order
+  const { data: paymentsData } = useQuery<{ payments: OrderPayment[] }>({
+    queryKey: [`/api/orders/${order.id}/payments`],
+    enabled: isDetailsOpen,
+  });
+  
+  // Invoices and official receipts issued for this order
+  const { data: documentsData } = useQuery<{ documents: OrderDocument[] }>({
+    queryKey: [`/api/orders/${order.id}/documents`],
+    enabled: isDetailsOpen,
+  });
+  
+  // Texts and emails sent to the customer about this order
+  const { data: notificationsData } = useQuery<{ notifications: OrderNotification[] }>({
+    queryKey: [`/api/orders/${order.id}/notifications`],
+    enabled: isDetailsOpen,
+  });
+  
+  const balanceDue = getBalanceDue(order);
+  const canCollectPayment = (user?.role === USER_ROLES.ADMIN || user?.role === USER_ROLES.CASHIER) &&
+    !isOrderClosed(order) && balanceDue > 0;
+  
+  // Document types that can be issued now; one already issued is reprinted
+  const canIssueDocuments = user?.role === USER_ROLES.ADMIN || user?.role === USER_ROLES.CASHIER;
+  const issuableDocumentTypes = (Object.keys(ORDER_DOCUMENT_TITLES) as OrderDocumentType[])
+    .filter(type => canIssueDocuments && getDocumentIssueErrors(order, type).length === 0);
+  
+  const documentMutation = useMutation({
+    mutationFn: async ({ type }: { type: OrderDocumentType; target: Window | null }) => {
+      const res = await apiRequest("POST", `/api/orders/${order.id}/documents`, { type });
+      return res.json();
+    },
+    onSuccess: (data: { document: OrderDocument }, { target }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${order.id}/documents`] });
+      const url = `/api/documents/${data.document.id}/pdf`;
+      if (target) {
+        target.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+    },
+    onError: (err: any, { target }) => {
+      target?.close();
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: err.message || "Failed to issue the document",
+      });
+    }
+  });
+  
+  // The tab is opened before the request so popup blockers allow it
+  const handleIssueDocument = (type: OrderDocumentType) => {
+    documentMutation.mutate({ type, target: window.open("", "_blank") });
+  };
+  
+  const canReverse = (user?.role === USER_ROLES.ADMIN || user?.role === USER_ROLES.CASHIER) &&
+    getAllowedReversalTypes(order).length > 0;
 
   const statusMutation = useMutation({
     mutationFn: async (newStatus: string) => {
@@ -92,13 +159,10 @@ export default function OrderCard({ order, items, onStatusChange }: OrderCardPro
     }
   });
   
-  // Get next status based on current status
+  // Pending and in progress follow the production board; once every item
+  // is done the order can be handed over
   const getNextStatus = () => {
     switch (order.status) {
-      case ORDER_STATUS.PENDING:
-        return { value: ORDER_STATUS.IN_PROGRESS, label: "Start Processing" };
-      case ORDER_STATUS.IN_PROGRESS:
-        return { value: ORDER_STATUS.READY, label: "Mark as Ready" };
       case ORDER_STATUS.READY:
         return { value: ORDER_STATUS.COMPLETED, label: "Complete Order" };
       default:
@@ -106,6 +170,10 @@ export default function OrderCard({ order, items, onStatusChange }: OrderCardPro
     }
   };
   
+  const dueState = getDueState(order);
+  
+  const isInProduction = order.status === ORDER_STATUS.PENDING || order.status === ORDER_STATUS.IN_PROGRESS;
+  
   const nextStatus = getNextStatus();
   
   const handleStatusChange = (newStatus: string) => {
@@ -136,17 +204,6 @@ export default function OrderCard({ order, items, onStatusChange }: OrderCardPro
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem
-                className="text-red-600 focus:text-red-700"
-                onClick={() => {
-                 if (confirm(`Are you sure you want to delete order ${order.orderNumber}?`)) {
-                  deleteMutation.mutate();
-                 }
-                 }}
-                  >
-                   🗑️ Delete Order
-                  </DropdownMenuItem>
-
                 <DropdownMenuItem onClick={() => setIsDetailsOpen(true)}>
                   View Details
                 </DropdownMenuItem>
@@ -161,6 +218,31 @@ export default function OrderCard({ order, items, onStatusChange }: OrderCardPro
                     Print Receipt
                   </DropdownMenuItem>
                 )}
+                {issuableDocumentTypes.map(type => (
+                  <DropdownMenuItem
+                    key={type}
+                    disabled={documentMutation.isPending}
+                    onClick={() => handleIssueDocument(type)}
+                  >
+                    <Receipt className="mr-2 h-4 w-4" />
+                    {ORDER_DOCUMENT_TITLES[type]} (PDF)
+                  </DropdownMenuItem>
+                ))}
+                {canCollectPayment && (
+                  <DropdownMenuItem onClick={() => setIsPaymentOpen(true)}>
+                    <Wallet className="mr-2 h-4 w-4" />
+                    Collect Payment
+                  </DropdownMenuItem>
+                )}
+                {canReverse && (
+                  <DropdownMenuItem
+                    className="text-red-600 focus:text-red-700"
+                    onClick={() => setIsReversalOpen(true)}
+                  >
+                    <Undo2 className="mr-2 h-4 w-4" />
+                    Cancel / Refund
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -181,11 +263,23 @@ export default function OrderCard({ order, items, onStatusChange }: OrderCardPro
               <dd className="text-neutral-900 font-medium mt-0.5">{formatPrice(order.total)}</dd>
             </div>
             <div>
-              <dt className="text-neutral-500">Payment</dt>
-              <dd className="text-neutral-900 font-medium mt-0.5">
-                {order.paymentMethod ? order.paymentMethod.toUpperCase() : "Not specified"}
+              <dt className="text-neutral-500">Balance Due</dt>
+              <dd className={`font-medium mt-0.5 ${balanceDue > 0 ? "text-amber-600" : "text-neutral-900"}`}>
+                {balanceDue > 0 ? formatPrice(balanceDue) : "Paid"}
               </dd>
             </div>
+            {order.dueAt && (
+              <div className="col-span-2">
+                <dt className="text-neutral-500">Pickup</dt>
+                <dd className={`font-medium mt-0.5 ${
+                  dueState === "overdue" ? "text-red-600" : dueState === "due_today" ? "text-amber-600" : "text-neutral-900"
+                }`}>
+                  {formatDate(order.dueAt, "MMM d, h:mm a")}
+                  {dueState === "overdue" && " · Overdue"}
+                  {dueState === "due_today" && " · Due today"}
+                </dd>
+              </div>
+            )}
           </dl>
           
           <div className="mt-4 pt-4 border-t border-neutral-200">
@@ -223,12 +317,28 @@ export default function OrderCard({ order, items, onStatusChange }: OrderCardPro
                 </>
               )}
             </Button>
+          ) : isInProduction ? (
+            <Button variant="secondary" className="flex-1" disabled>
+              <i className="ri-layout-column-line mr-1"></i>
+              In Production
+            </Button>
+          ) : isOrderClosed(order) ? (
+            <Button variant="secondary" className="flex-1" disabled>
+              <i className="ri-close-circle-line mr-1"></i>
+              {getStatusText(order.status)}
+            </Button>
           ) : (
             <Button variant="secondary" className="flex-1" disabled>
               <i className="ri-check-double-line mr-1"></i>
               Completed
             </Button>
           )}
+          {canCollectPayment && (
+            <Button variant="outline" onClick={() => setIsPaymentOpen(true)}>
+              <Wallet className="mr-1 h-4 w-4" />
+              Collect
+            </Button>
+          )}
           <Button variant="outline" onClick={() => setIsDetailsOpen(true)}>
             <i className="ri-file-text-line mr-1"></i>
             Details
@@ -277,6 +387,12 @@ export default function OrderCard({ order, items, onStatusChange }: OrderCardPro
                   <span>Total:</span>
                   <span>{formatPrice(order.total)}</span>
                 </div>
+                {(order.refundedAmount || 0) > 0 && (
+                  <div className="flex justify-between text-red-600">
+                    <span>Refunded:</span>
+                    <span>-{formatPrice(order.refundedAmount || 0)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between mt-2 pt-2 border-t border-neutral-200">
                   <span>Payment Method:</span>
                   <span>{order.paymentMethod ? order.paymentMethod.toUpperCase() : "Not specified"}</span>
@@ -285,9 +401,39 @@ export default function OrderCard({ order, items, onStatusChange }: OrderCardPro
                   <span>Payment Status:</span>
                   <span>{order.paymentStatus.toUpperCase()}</span>
                 </div>
+                <div className="flex justify-between">
+                  <span>Amount Paid:</span>
+                  <span>{formatPrice(order.amountPaid || 0)}</span>
+                </div>
+                {balanceDue > 0 && (
+                  <div className="flex justify-between font-medium text-amber-600">
+                    <span>Balance Due:</span>
+                    <span>{formatPrice(balanceDue)}</span>
+                  </div>
+                )}
               </div>
             </div>
             
+            {!!paymentsData?.payments.length && (
+              <div>
+                <h4 className="text-sm font-medium mb-1">Payments</h4>
+                <div className="bg-neutral-50 rounded p-2 divide-y divide-neutral-200 text-sm">
+                  {paymentsData.payments.map((payment) => (
+                    <div key={payment.id} className="py-2 first:pt-0 last:pb-0">
+                      <div className="flex justify-between font-medium">
+                        <span>
+                          {payment.method.toUpperCase()}
+                          {payment.referenceNumber ? ` · ${payment.referenceNumber}` : ""}
+                        </span>
+                        <span>{formatPrice(payment.amount)}</span>
+                      </div>
+                      <p className="text-xs text-neutral-400">{formatDate(payment.createdAt, "PPP p")}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             <div>
               <h4 className="text-sm font-medium mb-1">Order Items</h4>
               <div className="bg-neutral-50 rounded p-2 divide-y divide-neutral-200">
@@ -302,12 +448,126 @@ export default function OrderCard({ order, items, onStatusChange }: OrderCardPro
                         {item.quantity} x {formatPrice(item.unitPrice)}
                         {item.specifications?.description ? ` (${item.specifications.description})` : ""}
                       </span>
+                      {item.productionStage && (
+                        <span className="shrink-0 ml-2">
+                          {PRODUCTION_STAGES.find(stage => stage.value === item.productionStage)?.label}
+                        </span>
+                      )}
                     </div>
+                    {filesData?.files.filter(file => file.orderItemId === item.id).map(file => (
+                      <div key={file.id} className="flex items-center justify-between text-sm mt-1">
+                        <span className="flex items-center text-neutral-600 truncate">
+                          <FileText className="mr-1 h-4 w-4 shrink-0" />
+                          <span className="truncate">{file.originalName}</span>
+                          <span className="ml-1 text-xs text-neutral-400 shrink-0">{formatFileSize(file.size)}</span>
+                        </span>
+                        {file.purgedAt ? (
+                          <span className="text-xs text-neutral-400 shrink-0">Removed</span>
+                        ) : (
+                          <span className="flex space-x-1 shrink-0">
+                            {PREVIEWABLE_FILE_TYPES.includes(file.mimeType) && (
+                              <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+                                <a href={`/api/files/${file.id}?inline=1`} target="_blank" rel="noreferrer" title="Preview">
+                                  <Eye className="h-4 w-4" />
+                                </a>
+                              </Button>
+                            )}
+                            <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+                              <a href={`/api/files/${file.id}`} title="Download">
+                                <Download className="h-4 w-4" />
+                              </a>
+                            </Button>
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                    <OrderLinePricingDetails
+                      item={item}
+                      pricing={pricingData?.lines.find(line => line.itemId === item.id)}
+                    />
                   </div>
                 ))}
               </div>
             </div>
             
+            {!!reversalsData?.reversals.length && (
+              <div>
+                <h4 className="text-sm font-medium mb-1">Cancellations &amp; Refunds</h4>
+                <div className="bg-neutral-50 rounded p-2 divide-y divide-neutral-200 text-sm">
+                  {reversalsData.reversals.map((reversal) => (
+                    <div key={reversal.id} className="py-2 first:pt-0 last:pb-0">
+                      <div className="flex justify-between font-medium">
+                        <span>
+                          {REVERSAL_TYPES.find(t => t.value === reversal.type)?.label || reversal.type}
+                          {" · "}
+                          {getStatusText(reversal.status)}
+                        </span>
+                        {reversal.amount > 0 && <span>{formatPrice(reversal.amount)}</span>}
+                      </div>
+                      <p className="text-neutral-500">{reversal.reason}</p>
+                      <p className="text-xs text-neutral-400">{formatDate(reversal.requestedAt, "PPP p")}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
+            {!!documentsData?.documents.length && (
+              <div>
+                <h4 className="text-sm font-medium mb-1">Invoices &amp; Official Receipts</h4>
+                <div className="bg-neutral-50 rounded p-2 divide-y divide-neutral-200 text-sm">
+                  {documentsData.documents.map((document) => (
+                    <div key={document.id} className="flex items-center justify-between py-2 first:pt-0 last:pb-0">
+                      <div>
+                        <p className="font-medium">
+                          {ORDER_DOCUMENT_TITLES[document.type as OrderDocumentType] || document.type} {document.documentNumber}
+                        </p>
+                        <p className="text-xs text-neutral-400">{formatDate(document.issuedAt, "PPP p")}</p>
+                      </div>
+                      <span className="flex space-x-1 shrink-0">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+                          <a href={`/api/documents/${document.id}/pdf`} target="_blank" rel="noreferrer" title="View">
+                            <Eye className="h-4 w-4" />
+                          </a>
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+                          <a href={`/api/documents/${document.id}/pdf?download=1`} title="Download">
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
+            {!!notificationsData?.notifications.length && (
+              <div>
+                <h4 className="text-sm font-medium mb-1">Customer Notifications</h4>
+                <div className="bg-neutral-50 rounded p-2 divide-y divide-neutral-200 text-sm">
+                  {notificationsData.notifications.map((notification) => (
+                    <div key={notification.id} className="py-2 first:pt-0 last:pb-0">
+                      <div className="flex justify-between font-medium">
+                        <span>
+                          {notification.channel === "sms" ? "SMS" : "Email"} · {notification.recipient}
+                        </span>
+                        <span className={notification.status === "failed" ? "text-red-600" : undefined}>
+                          {getStatusText(notification.status)}
+                        </span>
+                      </div>
+                      {notification.lastError && notification.status !== "sent" && (
+                        <p className="text-neutral-500">{notification.lastError}</p>
+                      )}
+                      <p className="text-xs text-neutral-400">
+                        {formatDate(notification.sentAt || notification.createdAt, "PPP p")}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             {order.notes && (
               <div>
                 <h4 className="text-sm font-medium mb-1">Notes</h4>
@@ -357,6 +617,21 @@ export default function OrderCard({ order, items, onStatusChange }: OrderCardPro
         </DialogContent>
       </Dialog>
       
+      {/* Collect Payment Dialog */}
+      <CollectPaymentDialog
+        order={order}
+        open={isPaymentOpen}
+        onClose={() => setIsPaymentOpen(false)}
+      />
+      
+      {/* Cancel / Void / Refund Dialog */}
+      <OrderReversalDialog
+        order={order}
+        items={items}
+        open={isReversalOpen}
+        onClose={() => setIsReversalOpen(false)}
+      />
+      
       {/* Receipt Modal */}
       <ReceiptModal
         order={order}
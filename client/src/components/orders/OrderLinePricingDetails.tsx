@@ -0,0 +1,63 @@
+import { OrderItem, OrderLinePricing } from "@/lib/types";
+import { formatDate, formatPrice } from "@/lib/utils";
+import { PRICE_TOLERANCE } from "@shared/pricing";
+
+interface OrderLinePricingDetailsProps {
+  item: OrderItem;
+  pricing?: OrderLinePricing;
+}
+
+// "colorPageRate" -> "Color page rate"
+const formatBreakdownLabel = (key: string) => {
+  const words = key.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatBreakdownValue = (value: unknown) =>
+  typeof value === "number" ? String(Math.round(value * 100) / 100) : String(value);
+
+/**
+ * Shows the price version an order line was sold under and the breakdown
+ * reproduced from it.
+ */
+export default function OrderLinePricingDetails({ item, pricing }: OrderLinePricingDetailsProps) {
+  if (!pricing) return null;
+
+  if (!pricing.version || !pricing.calculation) {
+    return (
+      <p className="text-xs text-neutral-400 mt-1">
+        Sold before price history was kept
+      </p>
+    );
+  }
+
+  const { version, calculation } = pricing;
+  const matches = Math.abs(calculation.total - item.amount) <= PRICE_TOLERANCE;
+
+  return (
+    <div className="mt-2 rounded border border-neutral-200 bg-white p-2 text-xs">
+      <div className="flex justify-between text-neutral-500 mb-1">
+        <span>
+          Price version #{version.id}
+          {new Date(version.effectiveFrom).getTime() !== 0 &&
+            ` from ${formatDate(version.effectiveFrom, "PPP p")}`}
+        </span>
+        <span>Base {formatPrice(version.basePrice)}</span>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4">
+        {Object.entries(calculation.breakdown).map(([key, value]) => (
+          <div key={key} className="flex justify-between">
+            <dt className="text-neutral-500">{formatBreakdownLabel(key)}</dt>
+            <dd className="text-neutral-900">{formatBreakdownValue(value)}</dd>
+          </div>
+        ))}
+      </dl>
+      <div className="flex justify-between mt-1 pt-1 border-t border-neutral-100 font-medium">
+        <span>Reproduced total</span>
+        <span className={matches ? "text-neutral-900" : "text-red-600"}>
+          {formatPrice(calculation.total)}
+        </span>
+      </div>
+    </div>
+  );
+}
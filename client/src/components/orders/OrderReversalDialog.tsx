@@ -0,0 +1,278 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Order, OrderItem, OrderReversal } from "@/lib/types";
+import { REVERSAL_TYPES, USER_ROLES } from "@/lib/constants";
+import { formatPrice } from "@/lib/utils";
+import {
+  REVERSAL_TYPES as REVERSAL_TYPE_VALUES,
+  getAllowedReversalTypes,
+  getRefundableLines,
+  calculateRefundAmount,
+} from "@shared/reversals";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+interface OrderReversalDialogProps {
+  order: Order;
+  items: OrderItem[];
+  open: boolean;
+  onClose: () => void;
+}
+
+const reversalFormSchema = z.object({
+  type: z.enum(REVERSAL_TYPE_VALUES),
+  reason: z.string().trim().min(3, "Please give a reason"),
+  lines: z.array(z.object({
+    orderItemId: z.number(),
+    quantity: z.coerce.number().int().min(0, "Quantity cannot be negative"),
+  })),
+}).refine(values => values.type !== "refund" || values.lines.some(line => line.quantity > 0), {
+  message: "Enter a quantity for at least one item",
+  path: ["lines"],
+});
+
+type ReversalFormValues = z.infer<typeof reversalFormSchema>;
+
+/**
+ * Request a cancellation, void or refund of an order. Every request waits
+ * for the approval of a manager other than the one who asked.
+ */
+export default function OrderReversalDialog({ order, items, open, onClose }: OrderReversalDialogProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const reversalsKey = `/api/orders/${order.id}/reversals`;
+
+  const { data } = useQuery<{ reversals: OrderReversal[] }>({
+    queryKey: [reversalsKey],
+    enabled: open,
+  });
+
+  const allowedTypes = getAllowedReversalTypes(order);
+  const refundedLines = (data?.reversals || [])
+    .filter(reversal => reversal.type === "refund" && reversal.status === "approved")
+    .flatMap(reversal => reversal.items);
+  const refundableLines = getRefundableLines(order, items, refundedLines);
+  const hasPendingReversal = data?.reversals.some(reversal => reversal.status === "pending");
+
+  const form = useForm<ReversalFormValues>({
+    resolver: zodResolver(reversalFormSchema),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      type: allowedTypes[0] || "cancel",
+      reason: "",
+      lines: items.map(item => ({ orderItemId: item.id, quantity: 0 })),
+    });
+  }, [open, order.id, items.length]);
+
+  const type = form.watch("type");
+  const lines = form.watch("lines") || [];
+
+  const refundTotal = lines.reduce((sum, line) => {
+    const refundable = refundableLines.find(l => l.orderItemId === line.orderItemId);
+    return refundable ? sum + calculateRefundAmount(refundable, Number(line.quantity) || 0) : sum;
+  }, 0);
+
+  const reversalMutation = useMutation({
+    mutationFn: async (values: ReversalFormValues) => {
+      const res = await apiRequest("POST", `/api/orders/${order.id}/reversals`, {
+        type: values.type,
+        reason: values.reason,
+        items: values.type === "refund"
+          ? values.lines.filter(line => line.quantity > 0)
+          : [],
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [reversalsKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reversals/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/order-counts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/today-sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-sessions/current"] });
+
+      toast({
+        title: "Sent for Approval",
+        description: "A manager needs to approve this request.",
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to reverse order.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cancel, Void or Refund - {order.orderNumber}</DialogTitle>
+          <DialogDescription>
+            {user?.role === USER_ROLES.ADMIN
+              ? "Your request will be sent to another manager for approval."
+              : "Your request will be sent to a manager for approval."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {allowedTypes.length === 0 ? (
+          <p className="text-sm text-neutral-500">This order is already closed.</p>
+        ) : hasPendingReversal ? (
+          <p className="text-sm text-neutral-500">
+            This order already has a request awaiting a manager's approval.
+          </p>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => reversalMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Action</FormLabel>
+                    <FormControl>
+                      <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-1">
+                        {REVERSAL_TYPES.filter(option => allowedTypes.includes(option.value as typeof allowedTypes[number])).map(option => (
+                          <div key={option.value} className="flex items-start space-x-2">
+                            <RadioGroupItem value={option.value} id={`reversal-${option.value}`} className="mt-1" />
+                            <label htmlFor={`reversal-${option.value}`} className="text-sm">
+                              <span className="font-medium">{option.label}</span>
+                              <span className="block text-neutral-500">{option.description}</span>
+                            </label>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {type === "refund" && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Items to Refund</h4>
+                  {items.map((item, index) => {
+                    const refundable = refundableLines.find(line => line.orderItemId === item.id);
+                    const remaining = refundable?.quantity || 0;
+
+                    return (
+                      <FormField
+                        key={item.id}
+                        control={form.control}
+                        name={`lines.${index}.quantity`}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center justify-between space-y-0 bg-neutral-50 rounded p-2">
+                            <div className="text-sm">
+                              <div className="font-medium">{item.specifications?.serviceName || `Item #${item.id}`}</div>
+                              <div className="text-neutral-500">
+                                {remaining} of {item.quantity} refundable
+                                {refundable && remaining > 0 && ` · ${formatPrice(refundable.amount)} left`}
+                              </div>
+                            </div>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="0"
+                                max={remaining}
+                                className="w-20"
+                                disabled={remaining === 0}
+                                {...field}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    );
+                  })}
+                  {form.formState.errors.lines?.root?.message || form.formState.errors.lines?.message ? (
+                    <p className="text-sm font-medium text-destructive">
+                      {form.formState.errors.lines?.root?.message || form.formState.errors.lines?.message}
+                    </p>
+                  ) : null}
+                  <div className="flex justify-between text-sm font-medium pt-1">
+                    <span>Refund Total:</span>
+                    <span>{formatPrice(refundTotal)}</span>
+                  </div>
+                </div>
+              )}
+
+              {type === "cancel" && (order.amountPaid || 0) > 0 && (
+                <div className="flex justify-between text-sm font-medium bg-neutral-50 rounded p-2">
+                  <span>Deposit to Return:</span>
+                  <span>{formatPrice(order.amountPaid || 0)}</span>
+                </div>
+              )}
+
+              {type === "void" && (
+                <div className="flex justify-between text-sm font-medium bg-neutral-50 rounded p-2">
+                  <span>Amount to Return:</span>
+                  <span>{formatPrice(order.total)}</span>
+                </div>
+              )}
+
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Why is this order being reversed?" {...field} />
+                    </FormControl>
+                    <FormDescription>Kept with the order and shown to the approving manager</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Close
+                </Button>
+                <Button type="submit" variant="destructive" disabled={reversalMutation.isPending}>
+                  {reversalMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Request Approval
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,6 +19,8 @@ export default function OrderStatusBadge({ status, className }: OrderStatusBadge
         return "bg-blue-100 text-blue-800";
       case "amber":
         return "bg-amber-100 text-amber-800";
+      case "red":
+        return "bg-red-100 text-red-800";
       default:
         return "bg-neutral-100 text-neutral-800";
     }
@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { OrderReversal } from "@/lib/types";
+import { REVERSAL_TYPES } from "@/lib/constants";
+import { formatDate, formatPrice } from "@/lib/utils";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Cancellations, voids and refunds waiting for a manager. Requests of your
+ * own can only be rejected. Hidden when nothing is pending.
+ */
+export default function PendingReversalsCard() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ reversals: OrderReversal[] }>({
+    queryKey: ["/api/reversals/pending"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, approve }: { id: number; approve: boolean }) => {
+      const res = await apiRequest("POST", `/api/reversals/${id}/${approve ? "approve" : "reject"}`);
+      return res.json();
+    },
+    onSuccess: (_data, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reversals/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/order-counts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/today-sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-sessions/current"] });
+      toast({
+        title: approve ? "Request Approved" : "Request Rejected",
+        description: approve ? "The order has been updated." : "The order was left unchanged.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to review request.",
+      });
+    },
+  });
+
+  if (!data?.reversals.length) return null;
+
+  return (
+    <Card className="mb-6 border-amber-200">
+      <CardHeader className="pb-3">
+        <CardTitle>Awaiting Approval</CardTitle>
+      </CardHeader>
+      <CardContent className="divide-y divide-neutral-200">
+        {data.reversals.map((reversal) => (
+          <div key={reversal.id} className="py-3 first:pt-0 last:pb-0 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div className="text-sm">
+              <div className="flex items-center space-x-2">
+                <Badge variant="outline" className="bg-amber-100 text-amber-800">
+                  {REVERSAL_TYPES.find(t => t.value === reversal.type)?.label || reversal.type}
+                </Badge>
+                <span className="font-medium">{reversal.order?.orderNumber || `Order #${reversal.orderId}`}</span>
+                {reversal.amount > 0 && <span className="text-neutral-900">{formatPrice(reversal.amount)}</span>}
+              </div>
+              <p className="text-neutral-600 mt-1">{reversal.reason}</p>
+              <p className="text-xs text-neutral-400">
+                {reversal.items.length > 0 && `${reversal.items.length} item(s) · `}
+                Requested {formatDate(reversal.requestedAt, "PPP p")}
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={reviewMutation.isPending}
+                onClick={() => {
+                  if (confirm("Reject this request?")) {
+                    reviewMutation.mutate({ id: reversal.id, approve: false });
+                  }
+                }}
+              >
+                Reject
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={reviewMutation.isPending || reversal.requestedBy === user?.id}
+                title={reversal.requestedBy === user?.id ? "Another manager must approve your own request" : undefined}
+                onClick={() => {
+                  if (confirm("Approve this request? This cannot be undone.")) {
+                    reviewMutation.mutate({ id: reversal.id, approve: true });
+                  }
+                }}
+              >
+                Approve
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
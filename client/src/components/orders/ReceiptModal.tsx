@@ -1,6 +1,12 @@
 import { useState, useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { formatPrice } from "@/lib/utils";
-import { Order, OrderItem, User } from "@/lib/types";
+import { getBalanceDue } from "@shared/payments";
+import { getOrderSubtotal, hasVatBreakdown } from "@shared/tax";
+import type { ReceiptPrinterSettings } from "@shared/receipts";
+import { Order, OrderItem, OrderPayment, User } from "@/lib/types";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import {
@@ -12,6 +18,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { format } from "date-fns";
+import { Download, Loader2, Printer } from "lucide-react";
 import { APP_NAME } from "@/lib/constants";
 
 interface ReceiptModalProps {
@@ -28,9 +35,45 @@ export default function ReceiptModal({
   open,
 }: ReceiptModalProps) {
   const { user } = useAuth();
+  const { toast } = useToast();
   const [isPrinting, setIsPrinting] = useState(false);
   const receiptRef = useRef<HTMLDivElement>(null);
+  
+  // Each tender taken on the order, e.g. part cash and part GCash
+  const { data: paymentsData } = useQuery<{ payments: OrderPayment[] }>({
+    queryKey: [`/api/orders/${order.id}/payments`],
+    enabled: open,
+  });
+  const payments = paymentsData?.payments || [];
+  
+  // Thermal receipts go to the network printer when one is configured
+  const { data: printerData } = useQuery<{ settings: ReceiptPrinterSettings }>({
+    queryKey: ["/api/settings/receipt-printer"],
+    enabled: open,
+  });
+  const hasNetworkPrinter = !!printerData?.settings.printerHost;
+  
+  const thermalPrintMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/orders/${order.id}/receipt/print`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Receipt printed",
+        description: `Receipt for ${order.orderNumber} was sent to the printer.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Printer not reached",
+        description: error.message || "Failed to print the receipt; use Browser Print instead.",
+      });
+    },
+  });
 
+  // Fallback for shops without a thermal printer on the network
   const handlePrint = () => {
     setIsPrinting(true);
     
@@ -108,7 +151,7 @@ export default function ReceiptModal({
           <div className="text-sm mb-4">
             <div className="flex justify-between py-1">
               <span>Subtotal:</span>
-              <span>{formatPrice(order.total)}</span>
+              <span>{formatPrice(getOrderSubtotal(order))}</span>
             </div>
             
             {order.discount > 0 && (
@@ -118,16 +161,64 @@ export default function ReceiptModal({
               </div>
             )}
             
+            {order.vatInclusive === false && (order.vatAmount || 0) > 0 && (
+              <div className="flex justify-between py-1">
+                <span>VAT:</span>
+                <span>{formatPrice(order.vatAmount || 0)}</span>
+              </div>
+            )}
+            
             <div className="flex justify-between font-bold pt-1">
               <span>Total:</span>
-              <span>{formatPrice(order.total - (order.discount || 0))}</span>
+              <span>{formatPrice(order.total)}</span>
             </div>
             
-            <div className="mt-4 pt-2 border-t">
-              <div className="flex justify-between py-1">
-                <span>Payment Method:</span>
-                <span>{order.paymentMethod?.toUpperCase() || "N/A"}</span>
+            {hasVatBreakdown(order) && (
+              <div className="my-2 py-1 border-y border-dashed text-xs">
+                <div className="flex justify-between">
+                  <span>VATable Sales:</span>
+                  <span>{formatPrice(order.vatableSales || 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>VAT Amount:</span>
+                  <span>{formatPrice(order.vatAmount || 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>VAT-Exempt Sales:</span>
+                  <span>{formatPrice(order.exemptSales || 0)}</span>
+                </div>
               </div>
+            )}
+            
+            <div className="flex justify-between py-1">
+              <span>Amount Paid:</span>
+              <span>{formatPrice(order.amountPaid || 0)}</span>
+            </div>
+            
+            {getBalanceDue(order) > 0 && (
+              <div className="flex justify-between font-bold py-1">
+                <span>Balance Due:</span>
+                <span>{formatPrice(getBalanceDue(order))}</span>
+              </div>
+            )}
+            
+            <div className="mt-4 pt-2 border-t">
+              {payments.length > 0 ? (
+                payments.map((payment) => (
+                  <div key={payment.id} className="flex justify-between py-1">
+                    <span>
+                      {payment.method.toUpperCase()}
+                      {payment.referenceNumber ? ` (Ref: ${payment.referenceNumber})` : ""}
+                    </span>
+                    <span>{formatPrice(payment.amount)}</span>
+                  </div>
+                ))
+              ) : (
+                <div className="flex justify-between py-1">
+                  <span>Payment Method:</span>
+                  <span>{order.paymentMethod?.toUpperCase() || "N/A"}</span>
+                </div>
+              )}
               <div className="flex justify-between py-1">
                 <span>Payment Status:</span>
                 <span>{order.paymentStatus?.toUpperCase() || "N/A"}</span>
@@ -141,11 +232,33 @@ export default function ReceiptModal({
           </div>
         </div>
         
-        <DialogFooter className="mt-4">
-          <Button onClick={onClose} variant="outline">Close</Button>
-          <Button onClick={handlePrint} disabled={isPrinting}>
-            {isPrinting ? "Printing..." : "Print Receipt"}
+        <DialogFooter className="mt-4 gap-2">
+          <Button onClick={onClose} variant="outline" className="sm:mr-auto">Close</Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/orders/${order.id}/receipt.bin`} title="ESC/POS file for a thermal printer">
+              <Download className="mr-2 h-4 w-4" />
+              Download .bin
+            </a>
           </Button>
+          {hasNetworkPrinter ? (
+            <>
+              <Button variant="outline" onClick={handlePrint} disabled={isPrinting}>
+                {isPrinting ? "Printing..." : "Browser Print"}
+              </Button>
+              <Button onClick={() => thermalPrintMutation.mutate()} disabled={thermalPrintMutation.isPending}>
+                {thermalPrintMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Printer className="mr-2 h-4 w-4" />
+                )}
+                Print Receipt
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handlePrint} disabled={isPrinting}>
+              {isPrinting ? "Printing..." : "Print Receipt"}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
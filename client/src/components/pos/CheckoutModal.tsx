@@ -1,11 +1,16 @@
-import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useState, useEffect } from "react";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
 import { useCart } from "@/hooks/useCart";
 import { formatPrice } from "@/lib/utils";
+import { roundPrice, PRICE_TOLERANCE } from "@shared/pricing";
+import { calculateChange } from "@shared/payments";
+import { getDefaultDueAt } from "@shared/turnaround";
+import { Service } from "@/lib/types";
 import { PAYMENT_METHODS } from "@/lib/constants";
 import CustomerSelector from "@/components/customers/CustomerSelector";
 
@@ -29,15 +34,31 @@ import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2 } from "lucide-react";
+import { Loader2, Plus, X } from "lucide-react";
+
+const tenderSchema = z.object({
+  method: z.string().min(1, "Payment method is required"),
+  amount: z.coerce.number().min(0, "Amount must be 0 or greater"),
+  referenceNumber: z.string().optional(),
+}).refine(tender => tender.method === PAYMENT_METHODS.CASH || tender.amount === 0 || !!tender.referenceNumber?.trim(), {
+  message: "Reference number is required",
+  path: ["referenceNumber"],
+});
 
 const formSchema = z.object({
-  paymentMethod: z.string().min(1, "Payment method is required"),
+  tenders: z.array(tenderSchema).min(1),
   amountTendered: z.coerce.number().min(0, "Amount must be 0 or greater"),
   customerName: z.string().default("Walk-in Customer"),
   customerId: z.number().optional(),
+  dueAt: z.string().min(1, "Pickup time is required")
+    .refine(value => new Date(value).getTime() > Date.now(), "Pickup time must be in the future"),
 });
 
+// Value for a datetime-local input
+const toDateTimeInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+type Tender = z.infer<typeof tenderSchema>;
+
 interface CheckoutModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -54,12 +75,38 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      paymentMethod: PAYMENT_METHODS.CASH,
+      tenders: [{ method: PAYMENT_METHODS.CASH, amount: 0, referenceNumber: "" }],
       amountTendered: 0,
       customerName: "Walk-in Customer",
+      dueAt: "",
     },
   });
   
+  const { data: servicesData } = useQuery<{ services: Service[] }>({
+    queryKey: ["/api/services"],
+  });
+  
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "tenders",
+  });
+  
+  // Charge the full total in cash unless the cashier splits it or takes a downpayment
+  useEffect(() => {
+    if (isOpen) {
+      form.setValue("tenders", [{ method: PAYMENT_METHODS.CASH, amount: total, referenceNumber: "" }]);
+    }
+  }, [isOpen, total]);
+  
+  // Promise the slowest item's turnaround; the cashier can agree another time
+  useEffect(() => {
+    if (!isOpen) return;
+    const turnaroundHours = items.map(item =>
+      servicesData?.services.find(service => service.id === item.serviceId)?.turnaroundHours
+    );
+    form.setValue("dueAt", toDateTimeInput(getDefaultDueAt(new Date(), turnaroundHours)));
+  }, [isOpen, items, servicesData]);
+  
   // Handle customer selection
   const handleCustomerChange = (customer: any) => {
     setSelectedCustomer(customer);
@@ -72,25 +119,42 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
     }
   };
   
-  // Watch amount tendered to calculate change
-  const amountTendered = form.watch("amountTendered");
-  const paymentMethod = form.watch("paymentMethod");
+  // Watch the tenders and cash handed over to calculate change
+  const amountTendered = form.watch("amountTendered") || 0;
+  const tenders = (form.watch("tenders") || []).map(tender => ({
+    ...tender,
+    amount: Number(tender.amount) || 0,
+  }));
   
-  // Calculate change
-  const change = Math.max(amountTendered - total, 0);
+  const amountToPay = roundPrice(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+  const cashDue = roundPrice(tenders
+    .filter(tender => tender.method === PAYMENT_METHODS.CASH)
+    .reduce((sum, tender) => sum + tender.amount, 0));
   
-  // Check if cash payment and amount is sufficient
-  const isAmountValid = paymentMethod !== PAYMENT_METHODS.CASH || amountTendered >= total;
+  // Change only comes out of the cash portion; card and GCash are charged exactly
+  const change = calculateChange(tenders, amountTendered);
+  const balanceDue = Math.max(roundPrice(total - amountToPay), 0);
+  
+  // Check the tenders cover no more than the total and enough cash was handed over
+  const isAmountValid = amountToPay <= total + PRICE_TOLERANCE && amountTendered >= cashDue;
+  
+  // Set the last tender so the tenders add up to `target`
+  const fillLastTender = (target: number) => {
+    const others = tenders.slice(0, -1).reduce((sum, tender) => sum + tender.amount, 0);
+    form.setValue(`tenders.${tenders.length - 1}.amount`, Math.max(roundPrice(target - others), 0));
+  };
   
   // Create order mutation
   const createOrderMutation = useMutation({
     mutationFn: async (data: {
       orderItems: any[];
       paymentMethod: string;
+      tenders: Tender[];
       total: number;
       discount: number;
       customerName: string;
       customerId?: number;
+      dueAt: string;
     }) => {
       try {
         // Log the order data being sent
@@ -101,7 +165,7 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
           discount: data.discount,
           status: "pending",
           paymentMethod: data.paymentMethod,
-          paymentStatus: "paid",
+          tenderCount: data.tenders.length,
           itemCount: data.orderItems.length
         });
         
@@ -123,9 +187,15 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
           discount: data.discount,
           status: "pending",
           paymentMethod: data.paymentMethod,
-          paymentStatus: "paid",
           notes: null, // Don't store customer details in notes
-          items: data.orderItems
+          dueAt: data.dueAt,
+          items: data.orderItems,
+          // No tenders means the whole balance is collected at pickup
+          payments: data.tenders.length > 0 ? data.tenders.map(tender => ({
+            method: tender.method,
+            amount: tender.amount,
+            referenceNumber: tender.method === PAYMENT_METHODS.CASH ? null : tender.referenceNumber?.trim()
+          })) : undefined
         });
         
         if (!res.ok) {
@@ -148,7 +218,11 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/today-sales"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/order-counts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/recent-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/due-orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-sessions/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
       
       // Simulate receipt printing
       setIsGeneratingReceipt(true);
@@ -181,12 +255,25 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
   const onSubmit = (values: z.infer<typeof formSchema>) => {
     if (items.length === 0) return;
     
-    // Make sure amount tendered is enough for cash payments
-    if (values.paymentMethod === PAYMENT_METHODS.CASH && values.amountTendered < total) {
+    const paidTenders = values.tenders
+      .map(tender => ({ ...tender, amount: roundPrice(tender.amount) }))
+      .filter(tender => tender.amount > 0);
+    
+    if (amountToPay > total + PRICE_TOLERANCE) {
+      toast({
+        variant: "destructive",
+        title: "Amount Too High",
+        description: "The tenders cannot add up to more than the order total.",
+      });
+      return;
+    }
+    
+    // Make sure enough cash was handed over for the cash portion
+    if (values.amountTendered < cashDue) {
       toast({
         variant: "destructive",
         title: "Insufficient Amount",
-        description: "The amount tendered must be at least equal to the total order amount.",
+        description: "The cash tendered must be at least equal to the cash portion of the payment.",
       });
       return;
     }
@@ -201,9 +288,11 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
     
     createOrderMutation.mutate({
       orderItems,
-      paymentMethod: values.paymentMethod,
+      paymentMethod: paidTenders[0]?.method || values.tenders[0].method,
+      tenders: paidTenders,
       customerName: values.customerName,
       customerId: values.customerId, 
+      dueAt: new Date(values.dueAt).toISOString(),
       total,
       discount
     });
@@ -237,34 +326,141 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
 
             <FormField
               control={form.control}
-              name="paymentMethod"
+              name="dueAt"
               render={({ field }) => (
                 <FormItem>
-                <label htmlFor="payment-method" className="text-sm font-medium">
-                Payment Method
-                </label>
-                <select
-                  id="payment-method"
-                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
-                  value={field.value}
-                  onChange={(e) => field.onChange(e.target.value)}
-                >
-                  <option value={PAYMENT_METHODS.CASH}>Cash</option>
-                  <option value={PAYMENT_METHODS.CARD}>Card</option>
-                  <option value={PAYMENT_METHODS.GCASH}>GCash</option>
-                </select>
-              </FormItem>
-
+                  <FormLabel>Pickup Time</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
               )}
             />
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <FormLabel>Payment</FormLabel>
+                <div className="space-x-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => fillLastTender(roundPrice(total / 2))}
+                  >
+                    50% Downpayment
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => fillLastTender(total)}
+                  >
+                    Full
+                  </Button>
+                </div>
+              </div>
+              
+              {fields.map((tenderField, index) => (
+                <div key={tenderField.id} className="rounded-md border border-neutral-200 p-3 space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <FormField
+                      control={form.control}
+                      name={`tenders.${index}.method`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <select
+                            aria-label="Payment method"
+                            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                            value={field.value}
+                            onChange={(e) => field.onChange(e.target.value)}
+                          >
+                            <option value={PAYMENT_METHODS.CASH}>Cash</option>
+                            <option value={PAYMENT_METHODS.CARD}>Card</option>
+                            <option value={PAYMENT_METHODS.GCASH}>GCash</option>
+                          </select>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`tenders.${index}.amount`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <div className="relative rounded-md shadow-sm">
+                              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                                <span className="text-neutral-500 sm:text-sm">₱</span>
+                              </div>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                className="pl-7"
+                                placeholder="0.00"
+                                aria-label="Tender amount"
+                                {...field}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              />
+                            </div>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    {fields.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Remove tender"
+                        onClick={() => remove(index)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  
+                  {tenders[index]?.method !== PAYMENT_METHODS.CASH && (
+                    <FormField
+                      control={form.control}
+                      name={`tenders.${index}.referenceNumber`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Reference number" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              ))}
+              
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append({
+                  method: PAYMENT_METHODS.GCASH,
+                  amount: balanceDue,
+                  referenceNumber: "",
+                })}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Split Payment
+              </Button>
+            </div>
             
-            {paymentMethod === PAYMENT_METHODS.CASH && (
+            {cashDue > 0 && (
               <FormField
                 control={form.control}
                 name="amountTendered"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Amount Tendered</FormLabel>
+                    <FormLabel>Cash Tendered</FormLabel>
                     <FormControl>
                       <div className="relative rounded-md shadow-sm">
                         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -293,10 +489,24 @@ export default function CheckoutModal({ isOpen, onClose }: CheckoutModalProps) {
                 <span className="font-medium">{formatPrice(total)}</span>
               </div>
               
-              {paymentMethod === PAYMENT_METHODS.CASH && (
+              {tenders.length > 1 && (
+                <div className="flex justify-between">
+                  <span className="text-neutral-600">Paying Now</span>
+                  <span className="font-medium">{formatPrice(amountToPay)}</span>
+                </div>
+              )}
+              
+              {balanceDue > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-neutral-600">Balance Due at Pickup</span>
+                  <span className="font-medium text-amber-600">{formatPrice(balanceDue)}</span>
+                </div>
+              )}
+              
+              {cashDue > 0 && (
                 <>
                   <div className="flex justify-between">
-                    <span className="text-neutral-600">Amount Tendered</span>
+                    <span className="text-neutral-600">Cash Tendered</span>
                     <span className="font-medium">{formatPrice(amountTendered)}</span>
                   </div>
                   <div className="flex justify-between pt-2 border-t border-neutral-200">
@@ -4,10 +4,13 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQuery } from "@tanstack/react-query";
 import { useCart } from "@/hooks/useCart";
-import { DocumentPrintingFormData, Service } from "@/lib/types";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, uploadFile } from "@/lib/queryClient";
+import { DocumentPrintingFormData, OrderFile, Service } from "@/lib/types";
 import { formatPrice } from "@/lib/utils";
 import { DOCUMENT_PAPER_SIZES, DOCUMENT_PAPER_TYPES, DOCUMENT_COLOR_MODES, SERVICE_TYPES } from "@/lib/constants";
-import { PDFDocument } from 'pdf-lib';
+import { calculateServicePrice } from "@shared/pricing";
+import type { FileAnalysis } from "@shared/documents";
 import {
   Form,
   FormControl,
@@ -19,6 +22,8 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   Select,
@@ -45,26 +50,34 @@ interface DocumentPrintingFormProps {
 export default function DocumentPrintingForm({ onServiceSelect }: DocumentPrintingFormProps) {
   const [selectedService, setSelectedService] = useState<Service | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploadedFile, setUploadedFile] = useState<OrderFile | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
   const [priceCalculation, setPriceCalculation] = useState<{
     unitPrice: number;
     total: number;
     breakdown: any;
   } | null>(null);
   
-  // Document analysis state
+  // Document analysis state; `pages` is only known when the server analyzed the file.
+  // Anything the server cannot analyze is priced as if every page were colour.
   const [documentAnalysis, setDocumentAnalysis] = useState<{
     pageCount: number;
     colorPages: number;
     bwPages: number;
+    pages?: FileAnalysis["pages"];
     isAnalyzing: boolean;
   }>({
     pageCount: 1,
-    colorPages: 0,
-    bwPages: 1,
+    colorPages: 1,
+    bwPages: 0,
     isAnalyzing: false
   });
+  // Without a server analysis the order is only accepted once staff have counted the pages
+  const [isPageCountConfirmed, setIsPageCountConfirmed] = useState(false);
+  const needsPageCount = !documentAnalysis.pages && !documentAnalysis.isAnalyzing;
   
   const { addItem } = useCart();
+  const { toast } = useToast();
   
   // Form definition
   const form = useForm<DocumentPrintingFormData>({
@@ -107,89 +120,17 @@ export default function DocumentPrintingForm({ onServiceSelect }: DocumentPrinti
     const validCopies = copies > 0 ? copies : 1;
     const validColorMode = colorMode || 'Black & White';
     
-    try {
-      // Hardcode price values for now to ensure prices appear correctly
-      const rules = {
-        colorPageRate: 2.00,      // Base rate for colored page
-        blackPageRate: 1.00,       // Base rate for black page
-        paperTypes: {
-          "Standard": 0.00,        // No additional cost
-          "Glossy": 1.00,          // ₱1 extra per page  
-          "Matte": 1.50,           // ₱1.50 extra per page
-          "High Quality": 2.00     // ₱2 extra per page
-        },
-        paperSizes: { "A4": 1.0, "Letter": 1.05, "Long": 1.2, "A5": 0.7 }
-      };
-      
-      // Auto Detect mode with document analysis
-      if (validColorMode === 'Auto Detect' && documentAnalysis && !documentAnalysis.isAnalyzing) {
-        const validColorPages = documentAnalysis.colorPages || 0;
-        const validBwPages = documentAnalysis.bwPages || 0;
-        const validPageCount = documentAnalysis.pageCount || (validColorPages + validBwPages);
-        
-        // Get paper type surcharge
-        const paperTypeCost = rules.paperTypes[validPaperType as keyof typeof rules.paperTypes] || 0;
-        
-        // Calculate costs for each type of page
-        const colorPageRate = rules.colorPageRate + paperTypeCost;
-        const bwPageRate = rules.blackPageRate + paperTypeCost;
-        
-        // Calculate total costs
-        const colorPagesTotal = validColorPages * colorPageRate;
-        const bwPagesTotal = validBwPages * bwPageRate;
-        const totalPerCopy = colorPagesTotal + bwPagesTotal;
-        const total = totalPerCopy * validCopies;
-        
-        // Calculate average price per page
-        const unitPrice = validPageCount > 0 ? totalPerCopy / validPageCount : 0;
-        
-        setPriceCalculation({
-          unitPrice,
-          total,
-          breakdown: {
-            colorPages: validColorPages,
-            bwPages: validBwPages,
-            colorPageRate,
-            bwPageRate
-          }
-        });
-      } else {
-        // Standard calculation for Color or Black & White mode
-        let baseRate = 0;
-        if (validColorMode === 'Color') {
-          baseRate = rules.colorPageRate;
-        } else {
-          baseRate = rules.blackPageRate;
-        }
-        
-        // Add paper type cost
-        const paperTypeCost = rules.paperTypes[validPaperType as keyof typeof rules.paperTypes] || 0;
-        const ratePerPage = baseRate + paperTypeCost;
-        
-        // For standard calculation, we assume 1 page if no analysis
-        const estimatedPages = documentAnalysis?.pageCount || 1;
-        const total = ratePerPage * estimatedPages * validCopies;
-        
-        setPriceCalculation({
-          unitPrice: ratePerPage,
-          total,
-          breakdown: {
-            baseRate,
-            paperTypeCost,
-            estimatedPages,
-            copies: validCopies
-          }
-        });
-      }
-    } catch (error) {
-      console.error("Error in price calculation:", error);
-      // Set a fallback calculation with fixed values
-      setPriceCalculation({
-        unitPrice: 14.00,
-        total: 14.00 * (copies || 1),
-        breakdown: { error: String(error) }
-      });
-    }
+    // Wait for the analysis to finish before pricing by page count
+    if (documentAnalysis.isAnalyzing) return;
+    
+    const calculation = calculateServicePrice(selectedService, validCopies, {
+      paperSize: validPaperSize,
+      paperType: validPaperType,
+      colorMode: validColorMode,
+      documentAnalysis
+    });
+    
+    setPriceCalculation(calculation);
   }, [selectedService, paperSize, paperType, copies, colorMode, documentAnalysis]);
   
   // Handle file selection and analyze document
@@ -201,63 +142,56 @@ export default function DocumentPrintingForm({ onServiceSelect }: DocumentPrinti
     }
   };
   
-  // Analyze document to detect page count and color/b&w content
+  // Upload the document and have the server count its pages and detect colour
+  // on each one. Word files cannot be rendered, so their page count is estimated.
   const analyzeDocument = async (file: File) => {
-  setDocumentAnalysis(prev => ({ ...prev, isAnalyzing: true }));
-
-  const fileExt = file.name.split('.').pop()?.toLowerCase();
-  let actualPageCount = 1;
-  let estimatedColorPages = 0;
-
-  try {
-    if (fileExt === 'pdf') {
-      const buffer = await file.arrayBuffer();
-      const pdfDoc = await PDFDocument.load(buffer);
-      actualPageCount = pdfDoc.getPageCount();
-
-      // NOTE: Color detection is still heuristic
-      estimatedColorPages = Math.round(actualPageCount * 0.4);
-    } else if (['doc', 'docx'].includes(fileExt || '')) {
-      const fileSizeInKB = file.size / 1024;
-      actualPageCount = Math.max(1, Math.round(fileSizeInKB / 30));
-      estimatedColorPages = Math.round(actualPageCount * 0.4);
-    } else if (['jpg', 'jpeg', 'png'].includes(fileExt || '')) {
-      actualPageCount = 1;
-      estimatedColorPages = 1;
-    }
-
-    setTimeout(() => {
-      setDocumentAnalysis({
-        pageCount: actualPageCount,
-        colorPages: estimatedColorPages,
-        bwPages: actualPageCount - estimatedColorPages,
-        isAnalyzing: false
+    setUploadedFile(null);
+    setIsPageCountConfirmed(false);
+    setDocumentAnalysis(prev => ({ ...prev, pages: undefined, isAnalyzing: true }));
+    
+    let uploaded: OrderFile;
+    try {
+      setIsUploading(true);
+      const res = await uploadFile("/api/files", file);
+      uploaded = (await res.json()).file;
+      setUploadedFile(uploaded);
+    } catch (error: any) {
+      setSelectedFile(null);
+      setDocumentAnalysis({ pageCount: 1, colorPages: 1, bwPages: 0, isAnalyzing: false });
+      toast({
+        variant: "destructive",
+        title: "Upload Failed",
+        description: error.message || "The file could not be uploaded.",
       });
-
+      return;
+    } finally {
+      setIsUploading(false);
+    }
+    
+    const fileExt = file.name.split('.').pop()?.toLowerCase();
+    if (['doc', 'docx'].includes(fileExt || '')) {
+      const pageCount = Math.max(1, Math.round(file.size / 1024 / 30));
+      setDocumentAnalysis({ pageCount, colorPages: pageCount, bwPages: 0, isAnalyzing: false });
+      return;
+    }
+    
+    try {
+      const res = await apiRequest("GET", `/api/files/${uploaded.id}/analysis`);
+      const { analysis }: { analysis: FileAnalysis } = await res.json();
+      setDocumentAnalysis({ ...analysis, isAnalyzing: false });
+      
       if (!form.getValues('copies')) {
         form.setValue('copies', 1);
       }
-    }, 1000);
-  } catch (err) {
-    console.error("Failed to analyze document:", err);
-    setDocumentAnalysis({
-      pageCount: 1,
-      colorPages: 0,
-      bwPages: 1,
-      isAnalyzing: false
-    });
-  }
-};
-
-  
-  // Convert file to base64 for storage
-  const convertFileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = error => reject(error);
-    });
+    } catch (error: any) {
+      console.error("Failed to analyze document:", error);
+      setDocumentAnalysis({ pageCount: 1, colorPages: 1, bwPages: 0, isAnalyzing: false });
+      toast({
+        variant: "destructive",
+        title: "Analysis Failed",
+        description: "Page count and colour could not be detected; please check the pricing.",
+      });
+    }
   };
   
   // Form submission
@@ -267,15 +201,8 @@ export default function DocumentPrintingForm({ onServiceSelect }: DocumentPrinti
     // Create description string
     const description = `${values.paperSize}, ${values.paperType}, ${values.colorMode}`;
     
-    // Process file if uploaded
-    let fileData = null;
-    if (selectedFile) {
-      try {
-        fileData = await convertFileToBase64(selectedFile);
-      } catch (error) {
-        console.error("Error converting file to base64:", error);
-      }
-    }
+    // The file was uploaded when it was selected; the cart item only keeps a reference to it
+    const uploaded = selectedFile ? uploadedFile : null;
     
     // Add to cart
     addItem({
@@ -287,8 +214,14 @@ export default function DocumentPrintingForm({ onServiceSelect }: DocumentPrinti
       amount: priceCalculation.total,
       specifications: {
         ...values,
-        fileName: selectedFile?.name,
-        fileData: fileData,
+        documentAnalysis: {
+          pageCount: documentAnalysis.pageCount,
+          colorPages: documentAnalysis.colorPages,
+          bwPages: documentAnalysis.bwPages,
+          ...(needsPageCount && { pageCountConfirmed: true })
+        },
+        fileName: uploaded?.originalName,
+        fileId: uploaded?.id,
         serviceName: selectedService.name,
         description
       }
@@ -303,6 +236,8 @@ export default function DocumentPrintingForm({ onServiceSelect }: DocumentPrinti
       notes: "",
     });
     setSelectedFile(null);
+    setUploadedFile(null);
+    setIsPageCountConfirmed(false);
   };
   
   return (
@@ -478,14 +413,60 @@ export default function DocumentPrintingForm({ onServiceSelect }: DocumentPrinti
                   {documentAnalysis.isAnalyzing ? (
                     <p className="text-primary animate-pulse">Analyzing document...</p>
                   ) : (
-                    <p>
-                      <span className="font-medium">Pages:</span> {documentAnalysis.pageCount} (Color: {documentAnalysis.colorPages}, B&W: {documentAnalysis.bwPages})
-                    </p>
+                    <>
+                      <p>
+                        <span className="font-medium">Pages:</span> {documentAnalysis.pageCount} (Color: {documentAnalysis.colorPages}, B&W: {documentAnalysis.bwPages})
+                      </p>
+                      {!documentAnalysis.pages && (
+                        <p className="text-xs text-neutral-500">Estimated from the file size and priced as colour; count the pages below</p>
+                      )}
+                      {documentAnalysis.pages?.some(page => page.paperSize !== paperSize) && (
+                        <p className="text-xs text-amber-600">
+                          Some pages are not {paperSize}: {documentAnalysis.pages
+                            .filter(page => page.paperSize !== paperSize)
+                            .map(page => `p${page.page} ${page.paperSize || `${page.width}×${page.height}pt`}`)
+                            .join(", ")}
+                        </p>
+                      )}
+                    </>
                   )}
                 </div>
               )}
             </div>
             
+            {needsPageCount && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3 space-y-2">
+                <p className="text-sm text-neutral-700">
+                  {selectedFile
+                    ? "The pages of this file could not be read, so the page count you enter is what the customer pays for."
+                    : "Without a file, the page count you enter is what the customer pays for."}
+                </p>
+                <div className="flex items-center gap-3">
+                  <Label htmlFor="page-count" className="shrink-0">Pages</Label>
+                  <Input
+                    id="page-count"
+                    type="number"
+                    min="1"
+                    className="w-24"
+                    value={documentAnalysis.pageCount}
+                    onChange={(e) => {
+                      const pageCount = Math.max(1, Math.floor(Number(e.target.value)) || 1);
+                      setDocumentAnalysis(prev => ({ ...prev, pageCount, colorPages: pageCount, bwPages: 0 }));
+                      setIsPageCountConfirmed(false);
+                    }}
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="page-count-confirmed"
+                    checked={isPageCountConfirmed}
+                    onCheckedChange={(checked) => setIsPageCountConfirmed(checked === true)}
+                  />
+                  <Label htmlFor="page-count-confirmed">I have counted the pages with the customer</Label>
+                </div>
+              </div>
+            )}
+            
             <FormField
               control={form.control}
               name="notes"
@@ -530,7 +511,12 @@ export default function DocumentPrintingForm({ onServiceSelect }: DocumentPrinti
                   <Button type="button" variant="outline" size="sm">
                     Adjust Rates
                   </Button>
-                  <Button type="submit">Add to Cart</Button>
+                  <Button
+                    type="submit"
+                    disabled={isUploading || documentAnalysis.isAnalyzing || (needsPageCount && !isPageCountConfirmed)}
+                  >
+                    {isUploading ? "Uploading..." : "Add to Cart"}
+                  </Button>
                 </div>
               </div>
             )}
@@ -5,7 +5,7 @@ import { z } from "zod";
 import { useQuery } from "@tanstack/react-query";
 import { useCart } from "@/hooks/useCart";
 import { LaminationFormData, Service } from "@/lib/types";
-import { calculateLaminationPrice } from "@/lib/pricing";
+import { calculateServicePrice } from "@shared/pricing";
 import { formatPrice } from "@/lib/utils";
 import { LAMINATION_SIZES, SERVICE_TYPES } from "@/lib/constants";
 
@@ -81,13 +81,7 @@ export default function LaminationForm({ onServiceSelect }: LaminationFormProps)
   useEffect(() => {
     if (!selectedService) return;
     
-    const calculation = calculateLaminationPrice(
-      {
-        size,
-        quantity,
-      },
-      selectedService.pricingRules
-    );
+    const calculation = calculateServicePrice(selectedService, Number(quantity) || 1, { size });
     
     setPriceCalculation(calculation);
   }, [selectedService, size, quantity]);
@@ -0,0 +1,69 @@
+import { OrderFile } from "@/lib/types";
+import type { PreflightReport, PreflightStatus } from "@shared/preflight";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface PreflightReportCardProps {
+  file: OrderFile;
+  report: PreflightReport | null;
+  isLoading: boolean;
+  error?: string;
+}
+
+const STATUS_STYLES: Record<PreflightStatus, { label: string; className: string; icon: string }> = {
+  pass: { label: "Pass", className: "bg-green-100 text-green-800 hover:bg-green-100", icon: "ri-checkbox-circle-line text-green-600" },
+  warn: { label: "Warning", className: "bg-amber-100 text-amber-800 hover:bg-amber-100", icon: "ri-error-warning-line text-amber-600" },
+  fail: { label: "Fail", className: "bg-red-100 text-red-800 hover:bg-red-100", icon: "ri-close-circle-line text-red-600" },
+};
+
+/**
+ * Preflight result for an uploaded artwork file, next to a thumbnail of it
+ */
+export default function PreflightReportCard({ file, report, isLoading, error }: PreflightReportCardProps) {
+  return (
+    <div className="border border-neutral-200 rounded-md p-3 flex gap-4">
+      <div className="w-28 h-28 flex-shrink-0 bg-neutral-100 rounded flex items-center justify-center overflow-hidden">
+        {error ? (
+          <i className="ri-file-line text-neutral-400 text-3xl"></i>
+        ) : (
+          <img
+            src={`/api/files/${file.id}/thumbnail`}
+            alt={file.originalName}
+            className="max-w-full max-h-full object-contain"
+          />
+        )}
+      </div>
+
+      <div className="flex-1 space-y-2 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="font-medium truncate">{file.originalName}</span>
+          {report && (
+            <Badge className={STATUS_STYLES[report.status].className}>
+              {STATUS_STYLES[report.status].label}
+            </Badge>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-3/4" />
+          </div>
+        ) : error ? (
+          <p className="text-amber-700">{error}</p>
+        ) : report ? (
+          <ul className="space-y-1">
+            {report.checks.map(check => (
+              <li key={check.name} className="flex items-start gap-2">
+                <i className={`${STATUS_STYLES[check.status].icon} mt-0.5`}></i>
+                <span>
+                  <span className="font-medium">{check.name}:</span> {check.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ export default function ShoppingCart({ onCheckout }: ShoppingCartProps) {
     removeItem, 
     subtotal, 
     discount, 
+    tax, 
     total, 
     setDiscount,
     clearCart
@@ -159,6 +160,13 @@ export default function ShoppingCart({ onCheckout }: ShoppingCartProps) {
             </div>
           )}
           
+          {tax.vatAmount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-neutral-500">{tax.vatInclusive ? "VAT (included)" : "VAT"}</span>
+              <span className="text-neutral-900 font-medium">{formatPrice(tax.vatAmount)}</span>
+            </div>
+          )}
+          
           <Separator />
           
           <div className="flex justify-between pt-2">
@@ -1,11 +1,14 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQuery } from "@tanstack/react-query";
 import { useCart } from "@/hooks/useCart";
-import { TarpaulinPrintingFormData, Service } from "@/lib/types";
-import { calculateTarpaulinPrintingPrice } from "@/lib/pricing";
+import { useToast } from "@/hooks/use-toast";
+import { uploadFile } from "@/lib/queryClient";
+import { TarpaulinPrintingFormData, OrderFile, Service } from "@/lib/types";
+import { calculateServicePrice } from "@shared/pricing";
+import { runPreflight, type ArtworkInfo } from "@shared/preflight";
 import { formatPrice } from "@/lib/utils";
 import { SERVICE_TYPES } from "@/lib/constants";
 
@@ -24,6 +27,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Skeleton } from "@/components/ui/skeleton";
 import ServiceSelector from "./ServiceSelector";
+import PreflightReportCard from "./PreflightReportCard";
 
 const formSchema = z.object({
   width: z.coerce.number().min(0.1, "Width must be at least 0.1 ft"),
@@ -41,6 +45,9 @@ interface TarpaulinPrintingFormProps {
 export default function TarpaulinPrintingForm({ onServiceSelect }: TarpaulinPrintingFormProps) {
   const [selectedService, setSelectedService] = useState<Service | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploadedFile, setUploadedFile] = useState<OrderFile | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [warningsAccepted, setWarningsAccepted] = useState(false);
   const [priceCalculation, setPriceCalculation] = useState<{
     unitPrice: number;
     total: number;
@@ -48,6 +55,7 @@ export default function TarpaulinPrintingForm({ onServiceSelect }: TarpaulinPrin
   } | null>(null);
   
   const { addItem } = useCart();
+  const { toast } = useToast();
   
   // Form definition
   const form = useForm<TarpaulinPrintingFormData>({
@@ -74,6 +82,27 @@ export default function TarpaulinPrintingForm({ onServiceSelect }: TarpaulinPrin
     queryKey: ["/api/services?category=dynamic&type=tarpaulin"],
   });
   
+  // Measure the artwork once it is uploaded; the report itself is worked out
+  // here so it follows the width and height as they are edited
+  const { data: preflightData, isLoading: isPreflighting, error: preflightError } = useQuery<{
+    artwork: ArtworkInfo;
+    minDpi: number;
+  }>({
+    queryKey: [`/api/files/${uploadedFile?.id}/preflight`],
+    enabled: !!uploadedFile,
+    retry: false,
+  });
+  
+  const preflightReport = useMemo(() => {
+    if (!preflightData || !(width > 0) || !(height > 0)) return null;
+    return runPreflight(preflightData.artwork, width, height, preflightData.minDpi);
+  }, [preflightData, width, height]);
+  
+  // Warnings, or artwork that could not be checked, need the cashier's sign-off
+  const needsAcceptance = !!preflightError || preflightReport?.status === "warn";
+  const canAddToCart = !!uploadedFile && !isPreflighting &&
+    preflightReport?.status !== "fail" && (!needsAcceptance || warningsAccepted);
+  
   // Handle service selection
   const handleServiceSelect = (service: Service | null) => {
     setSelectedService(service);
@@ -86,54 +115,54 @@ export default function TarpaulinPrintingForm({ onServiceSelect }: TarpaulinPrin
   useEffect(() => {
     if (!selectedService) return;
     
-    const calculation = calculateTarpaulinPrintingPrice(
-      {
-        width,
-        height,
-        eyelets,
-        rope,
-        stand,
-      },
-      selectedService.pricingRules
-    );
+    // Tarpaulin is usually 1 piece
+    const calculation = calculateServicePrice(selectedService, 1, {
+      width,
+      height,
+      eyelets,
+      rope,
+      stand,
+    });
     
     setPriceCalculation(calculation);
   }, [selectedService, width, height, eyelets, rope, stand]);
   
+  // Upload the design as soon as it is chosen so it can be preflighted
+  const selectFile = async (file: File) => {
+    setSelectedFile(file);
+    setUploadedFile(null);
+    setWarningsAccepted(false);
+    setIsUploading(true);
+    
+    try {
+      const res = await uploadFile("/api/files", file);
+      setUploadedFile((await res.json()).file);
+    } catch (error: any) {
+      setSelectedFile(null);
+      toast({
+        variant: "destructive",
+        title: "Upload Failed",
+        description: error.message || "The file could not be uploaded.",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+  
   // Handle file selection
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
+      selectFile(e.target.files[0]);
     }
   };
   
-  // Convert file to base64 for storage
-  const convertFileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = error => reject(error);
-    });
-  };
-
   // Form submission
   const onSubmit = async (values: TarpaulinPrintingFormData) => {
-    if (!selectedService || !priceCalculation) return;
+    if (!selectedService || !priceCalculation || !uploadedFile || !canAddToCart) return;
     
     // Create description string
     const description = `${values.width} × ${values.height} ft, ${values.eyelets} eyelets${values.rope ? ', with rope' : ''}${values.stand ? ', with stand' : ''}`;
     
-    // Process file if uploaded
-    let fileData = null;
-    if (selectedFile) {
-      try {
-        fileData = await convertFileToBase64(selectedFile);
-      } catch (error) {
-        console.error("Error converting file to base64:", error);
-      }
-    }
-    
     // Add to cart
     addItem({
       serviceId: selectedService.id,
@@ -144,8 +173,9 @@ export default function TarpaulinPrintingForm({ onServiceSelect }: TarpaulinPrin
       amount: priceCalculation.total,
       specifications: {
         ...values,
-        fileName: selectedFile?.name,
-        fileData: fileData,
+        fileName: uploadedFile.originalName,
+        fileId: uploadedFile.id,
+        preflight: preflightReport?.status ?? "unchecked",
         serviceName: selectedService.name,
         description
       }
@@ -161,6 +191,8 @@ export default function TarpaulinPrintingForm({ onServiceSelect }: TarpaulinPrin
       notes: "",
     });
     setSelectedFile(null);
+    setUploadedFile(null);
+    setWarningsAccepted(false);
   };
   
   // Calculate area
@@ -315,7 +347,7 @@ export default function TarpaulinPrintingForm({ onServiceSelect }: TarpaulinPrin
                   e.preventDefault();
                   e.stopPropagation();
                   if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-                    setSelectedFile(e.dataTransfer.files[0]);
+                    selectFile(e.dataTransfer.files[0]);
                   }
                 }}
               >
@@ -336,15 +368,42 @@ export default function TarpaulinPrintingForm({ onServiceSelect }: TarpaulinPrin
                     <p className="pl-1">or drag and drop</p>
                   </div>
                   <p className="text-xs text-neutral-500">
-                    {selectedFile 
-                      ? `Selected: ${selectedFile.name}`
-                      : "JPG, PNG, PDF, or AI files up to 50MB"
+                    {isUploading
+                      ? `Uploading ${selectedFile?.name}...`
+                      : selectedFile 
+                        ? `Selected: ${selectedFile.name}`
+                        : "JPG, PNG, PDF, or AI files up to 200MB"
                     }
                   </p>
                 </div>
               </label>
             </div>
             
+            {uploadedFile && (
+              <div className="space-y-2">
+                <PreflightReportCard
+                  file={uploadedFile}
+                  report={preflightReport}
+                  isLoading={isPreflighting}
+                  error={preflightError ? "This file type cannot be checked automatically; check the artwork size and resolution by hand." : undefined}
+                />
+                {preflightReport?.status === "fail" && (
+                  <p className="text-sm text-red-600">
+                    Adjust the ordered size or ask the customer for corrected artwork before adding this item.
+                  </p>
+                )}
+                {needsAcceptance && preflightReport?.status !== "fail" && (
+                  <label className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={warningsAccepted}
+                      onCheckedChange={(checked) => setWarningsAccepted(checked === true)}
+                    />
+                    <span>The customer accepts the artwork as supplied</span>
+                  </label>
+                )}
+              </div>
+            )}
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <FormLabel>Price Calculation</FormLabel>
@@ -409,10 +468,10 @@ export default function TarpaulinPrintingForm({ onServiceSelect }: TarpaulinPrin
             <div className="flex justify-end">
               <Button 
                 type="submit"
-                disabled={!selectedFile || !priceCalculation}
+                disabled={!canAddToCart || !priceCalculation || isUploading}
               >
                 <i className="ri-add-line mr-2"></i>
-                Add to Cart
+                {isUploading ? "Uploading..." : "Add to Cart"}
               </Button>
             </div>
           </form>
@@ -0,0 +1,366 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Inventory, PurchaseOrder, PurchaseOrderItem, Supplier } from "@/lib/types";
+import { PURCHASE_ORDER_STATUSES } from "@/lib/constants";
+import { formatPrice, formatQuantity } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { getPurchaseOrderTotal } from "@shared/purchasing";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, PlusIcon, SendIcon, Trash2Icon } from "lucide-react";
+
+interface PurchaseOrderDialogProps {
+  // The order to show; null to draft a new one
+  purchaseOrderId: number | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+interface LineRow {
+  inventoryId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+const toRow = (item: PurchaseOrderItem): LineRow => ({
+  inventoryId: String(item.inventoryId),
+  quantity: String(item.quantity),
+  unitCost: String(item.unitCost),
+});
+
+/**
+ * Drafts are edited here and sent to the supplier; once sent the order is
+ * shown as it was sent, with how much of each line has come in
+ */
+export default function PurchaseOrderDialog({ purchaseOrderId, open, onClose }: PurchaseOrderDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [supplierId, setSupplierId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [rows, setRows] = useState<LineRow[]>([]);
+
+  const orderKey = `/api/purchase-orders/${purchaseOrderId}`;
+
+  const { data, isLoading } = useQuery<{ purchaseOrder: PurchaseOrder; items: PurchaseOrderItem[] }>({
+    queryKey: [orderKey],
+    enabled: open && purchaseOrderId !== null,
+  });
+
+  const { data: suppliersData } = useQuery<{ suppliers: Supplier[] }>({
+    queryKey: ["/api/suppliers"],
+    enabled: open,
+  });
+  const suppliers = suppliersData?.suppliers || [];
+
+  const { data: inventoryData } = useQuery<{ inventory: Inventory[] }>({
+    queryKey: ["/api/inventory"],
+    enabled: open,
+  });
+  const inventory = inventoryData?.inventory || [];
+
+  const purchaseOrder = purchaseOrderId !== null ? data?.purchaseOrder : undefined;
+  const isDraft = !purchaseOrder || purchaseOrder.status === "draft";
+  const status = PURCHASE_ORDER_STATUSES.find(s => s.value === purchaseOrder?.status);
+
+  useEffect(() => {
+    if (!open) return;
+    if (purchaseOrderId === null) {
+      setSupplierId("");
+      setNotes("");
+      setRows([{ inventoryId: "", quantity: "1", unitCost: "0" }]);
+    } else if (data) {
+      setSupplierId(String(data.purchaseOrder.supplierId));
+      setNotes(data.purchaseOrder.notes || "");
+      setRows(data.items.map(toRow));
+    }
+  }, [open, purchaseOrderId, data]);
+
+  const updateRow = (index: number, changes: Partial<LineRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    if (purchaseOrderId !== null) {
+      queryClient.invalidateQueries({ queryKey: [orderKey] });
+    }
+  };
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to save the purchase order.",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        supplierId: Number(supplierId),
+        notes: notes || null,
+        items: rows.map(row => ({
+          inventoryId: Number(row.inventoryId),
+          quantity: Number(row.quantity),
+          unitCost: Number(row.unitCost),
+        })),
+      };
+      const res = purchaseOrderId === null
+        ? await apiRequest("POST", "/api/purchase-orders", body)
+        : await apiRequest("PUT", orderKey, body);
+      return res.json();
+    },
+    onSuccess: ({ purchaseOrder: saved }: { purchaseOrder: PurchaseOrder }) => {
+      invalidate();
+      toast({
+        title: "Purchase Order Saved",
+        description: `${saved.poNumber} is saved as a draft.`,
+      });
+      onClose();
+    },
+    onError,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${orderKey}/send`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Purchase Order Sent",
+        description: `${purchaseOrder?.poNumber} is now awaiting delivery.`,
+      });
+      onClose();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", orderKey);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      toast({
+        title: "Purchase Order Deleted",
+        description: `${purchaseOrder?.poNumber} has been deleted.`,
+      });
+      onClose();
+    },
+    onError,
+  });
+
+  const isPending = saveMutation.isPending || sendMutation.isPending || deleteMutation.isPending;
+  const isIncomplete = !supplierId || rows.length === 0 ||
+    rows.some(row => !row.inventoryId || !(Number(row.quantity) > 0) || !(Number(row.unitCost) >= 0));
+  const total = getPurchaseOrderTotal(rows.map(row => ({
+    quantity: Number(row.quantity) || 0,
+    unitCost: Number(row.unitCost) || 0,
+  })));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {purchaseOrder ? `Purchase Order ${purchaseOrder.poNumber}` : "New Purchase Order"}
+            {status && (
+              <Badge variant="outline" className={`${status.color} rounded-full text-xs font-medium`}>
+                {status.label}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {isDraft
+              ? "Drafts can be changed until they are sent to the supplier."
+              : "Sent orders are kept as they were sent; receive the stock as it comes in."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {purchaseOrderId !== null && isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : isDraft ? (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map(supplier => (
+                    <SelectItem key={supplier.id} value={String(supplier.id)}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {rows.map((row, index) => {
+              const item = inventory.find(entry => String(entry.id) === row.inventoryId);
+              return (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label>Inventory item</Label>
+                    <Select value={row.inventoryId} onValueChange={(value) => updateRow(index, { inventoryId: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select item" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {inventory.map(entry => (
+                          <SelectItem key={entry.id} value={String(entry.id)}>{entry.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Quantity{item ? ` (${item.unit})` : ""}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={row.quantity}
+                      onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Unit Cost</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row.unitCost}
+                      onChange={(e) => updateRow(index, { unitCost: e.target.value })}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2Icon className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+
+            <div className="flex items-center justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setRows(prev => [...prev, { inventoryId: "", quantity: "1", unitCost: "0" }])}
+              >
+                <PlusIcon className="mr-2 h-4 w-4" />
+                Add Item
+              </Button>
+              <div className="text-sm">
+                Total: <span className="font-semibold">{formatPrice(total)}</span>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="e.g., deliver before Friday" />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-sm text-neutral-600">
+              Supplier: <span className="font-medium text-neutral-900">{purchaseOrder?.supplierName}</span>
+              {purchaseOrder?.notes && <p className="mt-1">{purchaseOrder.notes}</p>}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data?.items.map(line => {
+                  const item = inventory.find(entry => entry.id === line.inventoryId);
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell>{item?.name || `Item #${line.inventoryId}`}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(line.quantity)} {item?.unit}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(line.receivedQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(line.unitCost)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(line.quantity * line.unitCost)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <div className="text-right text-sm">
+              Total: <span className="font-semibold">{formatPrice(purchaseOrder?.total || 0)}</span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {purchaseOrder && isDraft && (
+            <Button
+              variant="outline"
+              className="text-red-600 sm:mr-auto"
+              onClick={() => deleteMutation.mutate()}
+              disabled={isPending}
+            >
+              Delete Draft
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>{isDraft ? "Cancel" : "Close"}</Button>
+          {isDraft && (
+            <Button onClick={() => saveMutation.mutate()} disabled={isPending || isIncomplete}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Draft
+            </Button>
+          )}
+          {purchaseOrder && isDraft && (
+            <Button onClick={() => sendMutation.mutate()} disabled={isPending}>
+              {sendMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SendIcon className="mr-2 h-4 w-4" />}
+              Mark as Sent
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Inventory, PurchaseOrder, PurchaseOrderItem } from "@/lib/types";
+import { EXPENSE_CATEGORIES } from "@/lib/constants";
+import { formatPrice, formatQuantity } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { getPurchaseOrderTotal } from "@shared/purchasing";
+import { roundQuantity } from "@shared/materials";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2 } from "lucide-react";
+
+interface ReceiveStockDialogProps {
+  purchaseOrder: PurchaseOrder | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const outstanding = (line: PurchaseOrderItem) => roundQuantity(line.quantity - line.receivedQuantity);
+
+/**
+ * Book a delivery against a sent purchase order. Each line defaults to
+ * everything still outstanding; short deliveries leave the rest open.
+ */
+export default function ReceiveStockDialog({ purchaseOrder, open, onClose }: ReceiveStockDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [recordExpense, setRecordExpense] = useState(true);
+  const [expenseCategory, setExpenseCategory] = useState("supplies");
+  const [notes, setNotes] = useState("");
+
+  const orderKey = `/api/purchase-orders/${purchaseOrder?.id}`;
+
+  const { data, isLoading } = useQuery<{ purchaseOrder: PurchaseOrder; items: PurchaseOrderItem[] }>({
+    queryKey: [orderKey],
+    enabled: open && !!purchaseOrder,
+  });
+  const lines = (data?.items || []).filter(line => outstanding(line) > 0);
+
+  const { data: inventoryData } = useQuery<{ inventory: Inventory[] }>({
+    queryKey: ["/api/inventory"],
+    enabled: open,
+  });
+  const inventory = inventoryData?.inventory || [];
+
+  useEffect(() => {
+    if (open && data) {
+      setQuantities(Object.fromEntries(data.items.map(line => [line.id, String(outstanding(line))])));
+      setRecordExpense(true);
+      setExpenseCategory("supplies");
+      setNotes("");
+    }
+  }, [open, data]);
+
+  const received = lines
+    .map(line => ({ line, quantity: Number(quantities[line.id]) || 0 }))
+    .filter(({ quantity }) => quantity > 0);
+  const cost = getPurchaseOrderTotal(received.map(({ line, quantity }) => ({ quantity, unitCost: line.unitCost })));
+  const isOverReceived = received.some(({ line, quantity }) => quantity > outstanding(line));
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${orderKey}/receive`, {
+        lines: received.map(({ line, quantity }) => ({ itemId: line.id, quantity })),
+        expenseCategory: recordExpense ? expenseCategory : null,
+        notes: notes || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: [orderKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      received.forEach(({ line }) => {
+        queryClient.invalidateQueries({ queryKey: [`/api/inventory/${line.inventoryId}/movements`] });
+      });
+      if (recordExpense) {
+        queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/dashboard/recent-expenses"] });
+      }
+      toast({
+        title: "Stock Received",
+        description: `The delivery against ${purchaseOrder?.poNumber} has been added to stock.`,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to receive stock.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Stock: {purchaseOrder?.poNumber}</DialogTitle>
+          <DialogDescription>
+            {purchaseOrder?.supplierName} &middot; enter what was delivered; anything not delivered stays on order.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead className="w-32">Received</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(line => {
+                  const item = inventory.find(entry => entry.id === line.inventoryId);
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        <div className="font-medium">{item?.name || `Item #${line.inventoryId}`}</div>
+                        <div className="text-xs text-neutral-500">{formatPrice(line.unitCost)} per {item?.unit}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatQuantity(outstanding(line))} {item?.unit}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={outstanding(line)}
+                          step="any"
+                          value={quantities[line.id] ?? ""}
+                          onChange={(e) => setQuantities(prev => ({ ...prev, [line.id]: e.target.value }))}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="rounded-md border p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="record-expense"
+                    checked={recordExpense}
+                    onCheckedChange={(checked) => setRecordExpense(checked === true)}
+                  />
+                  <Label htmlFor="record-expense">Record {formatPrice(cost)} as an expense</Label>
+                </div>
+                {recordExpense && (
+                  <Select value={expenseCategory} onValueChange={setExpenseCategory}>
+                    <SelectTrigger className="w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPENSE_CATEGORIES.map(category => (
+                        <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <p className="text-xs text-neutral-500">
+                Leave this off when the supplier has already been paid and the expense recorded elsewhere, e.g. out of the cash drawer.
+              </p>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g., delivery receipt number"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => receiveMutation.mutate()}
+            disabled={receiveMutation.isPending || received.length === 0 || isOverReceived}
+          >
+            {receiveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Receive Stock
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
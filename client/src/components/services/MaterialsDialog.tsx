@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Inventory, Service, ServiceMaterial } from "@/lib/types";
+import { MATERIAL_BASES, MATERIAL_CONDITION_FIELDS } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { getMaterialBasisErrors } from "@shared/materials";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, PlusIcon, Trash2Icon } from "lucide-react";
+
+interface MaterialsDialogProps {
+  service: Service | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+interface MaterialRow {
+  inventoryId: string;
+  quantity: string;
+  basis: string;
+  conditions: Record<string, string>;
+}
+
+// Select value for a condition that matches every order line
+const ANY_OPTION = "any";
+
+const toRow = (material: ServiceMaterial): MaterialRow => ({
+  inventoryId: String(material.inventoryId),
+  quantity: String(material.quantity),
+  basis: material.basis,
+  conditions: material.conditions || {},
+});
+
+/**
+ * The inventory a service uses up, e.g. a sheet of A4 paper per printed
+ * page. Stock is deducted by these when an order is placed.
+ */
+export default function MaterialsDialog({ service, open, onClose }: MaterialsDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [rows, setRows] = useState<MaterialRow[]>([]);
+
+  const materialsKey = `/api/services/${service?.id}/materials`;
+
+  const { data, isLoading } = useQuery<{ materials: ServiceMaterial[] }>({
+    queryKey: [materialsKey],
+    enabled: open && !!service,
+  });
+
+  const { data: inventoryData } = useQuery<{ inventory: Inventory[] }>({
+    queryKey: ["/api/inventory"],
+    enabled: open,
+  });
+  const inventory = inventoryData?.inventory || [];
+
+  useEffect(() => {
+    if (open && data) {
+      setRows(data.materials.map(toRow));
+    }
+  }, [open, data]);
+
+  const bases = MATERIAL_BASES.filter(basis => getMaterialBasisErrors(service?.type || "", basis.value).length === 0);
+  const conditionFields = MATERIAL_CONDITION_FIELDS[service?.type || ""] || [];
+
+  const updateRow = (index: number, changes: Partial<MaterialRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const setCondition = (index: number, key: string, value: string) => {
+    const { [key]: _, ...others } = rows[index].conditions;
+    updateRow(index, { conditions: value === ANY_OPTION ? others : { ...others, [key]: value } });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", materialsKey, {
+        materials: rows.map(row => ({
+          inventoryId: Number(row.inventoryId),
+          quantity: Number(row.quantity),
+          basis: row.basis,
+          conditions: row.conditions,
+        })),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [materialsKey] });
+      toast({
+        title: "Materials Saved",
+        description: `Orders for ${service?.name} will now deduct these from stock.`,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save materials.",
+      });
+    },
+  });
+
+  const isIncomplete = rows.some(row => !row.inventoryId || !(Number(row.quantity) > 0));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Materials: {service?.name}</DialogTitle>
+          <DialogDescription>
+            Stock each order of this service uses up. Placing an order deducts it; cancelling or voiding the order puts it back.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rows.length === 0 && (
+              <p className="text-center py-6 text-neutral-500">
+                No materials yet; orders of this service leave stock unchanged
+              </p>
+            )}
+
+            {rows.map((row, index) => {
+              const item = inventory.find(entry => String(entry.id) === row.inventoryId);
+              return (
+                <div key={index} className="rounded-md border p-3 space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1.5fr_auto] gap-2 items-end">
+                    <div className="space-y-1">
+                      <Label>Inventory item</Label>
+                      <Select value={row.inventoryId} onValueChange={(value) => updateRow(index, { inventoryId: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select item" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {inventory.map(entry => (
+                            <SelectItem key={entry.id} value={String(entry.id)}>{entry.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Quantity{item ? ` (${item.unit})` : ""}</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={row.quantity}
+                        onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Counted</Label>
+                      <Select value={row.basis} onValueChange={(value) => updateRow(index, { basis: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {bases.map(basis => (
+                            <SelectItem key={basis.value} value={basis.value}>{basis.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2Icon className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {conditionFields.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                      {conditionFields.map(field => (
+                        <div key={field.key} className="space-y-1">
+                          <Label className="text-xs text-neutral-500">Only when {field.label.toLowerCase()} is</Label>
+                          <Select
+                            value={row.conditions[field.key] || ANY_OPTION}
+                            onValueChange={(value) => setCondition(index, field.key, value)}
+                          >
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={ANY_OPTION}>Any</SelectItem>
+                              {field.options.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setRows(prev => [...prev, { inventoryId: "", quantity: "1", basis: "unit", conditions: {} }])}
+            >
+              <PlusIcon className="mr-2 h-4 w-4" />
+              Add Material
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || isIncomplete}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Materials
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,319 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { Service, ServicePriceVersion } from "@/lib/types";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate, formatPrice } from "@/lib/utils";
+import { defaultPricingRules, resolvePricingRules, servicePricingSchema } from "@shared/pricing";
+import PricingRulesEditor from "./PricingRulesEditor";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2 } from "lucide-react";
+
+interface PriceHistoryDialogProps {
+  service: Service | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+const priceChangeSchema = z.object({
+  effectiveFrom: z.string()
+    .min(1, "Start date is required")
+    .refine(value => new Date(value) > new Date(), "Start date must be in the future"),
+  basePrice: z.coerce.number().min(0, "Price cannot be negative"),
+  pricingRules: z.any().optional(),
+  notes: z.string().optional(),
+  type: z.string(),
+}).superRefine((values, ctx) => {
+  const result = servicePricingSchema.safeParse(values);
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+    });
+  }
+});
+
+type PriceChangeFormValues = z.infer<typeof priceChangeSchema>;
+
+const getVersionStatus = (version: ServicePriceVersion) => {
+  const now = new Date();
+  if (new Date(version.effectiveFrom) > now) return "scheduled";
+  if (!version.effectiveTo || new Date(version.effectiveTo) > now) return "current";
+  return "past";
+};
+
+const statusStyles: Record<string, string> = {
+  scheduled: "bg-blue-100 text-blue-800",
+  current: "bg-green-100 text-green-800",
+  past: "bg-neutral-100 text-neutral-800",
+};
+
+// Versions recorded before price history was kept start at the epoch
+const formatEffectiveDate = (date: string) =>
+  new Date(date).getTime() === 0 ? "Before versioning" : formatDate(date, "PPP p");
+
+/**
+ * Price list history for a service, with a form to schedule a price change
+ * for a future date. Past and current versions are read-only.
+ */
+export default function PriceHistoryDialog({ service, open, onClose }: PriceHistoryDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const versionsKey = `/api/services/${service?.id}/price-versions`;
+
+  const { data, isLoading } = useQuery<{ versions: ServicePriceVersion[] }>({
+    queryKey: [versionsKey],
+    enabled: open && !!service,
+  });
+
+  const form = useForm<PriceChangeFormValues>({
+    resolver: zodResolver(priceChangeSchema),
+  });
+
+  // Start each scheduled change from the service's current rates
+  useEffect(() => {
+    if (!service || !open) return;
+    form.reset({
+      effectiveFrom: "",
+      basePrice: service.basePrice,
+      pricingRules: service.type in defaultPricingRules
+        ? resolvePricingRules(service.type as keyof typeof defaultPricingRules, service)
+        : null,
+      notes: "",
+      type: service.type,
+    });
+  }, [service, open]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [versionsKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (values: PriceChangeFormValues) => {
+      const res = await apiRequest("POST", `/api/services/${service!.id}/price-versions`, {
+        basePrice: values.basePrice,
+        pricingRules: servicePricingSchema.parse(values).pricingRules,
+        effectiveFrom: new Date(values.effectiveFrom).toISOString(),
+        notes: values.notes || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      form.setValue("effectiveFrom", "");
+      form.setValue("notes", "");
+      toast({
+        title: "Price Change Scheduled",
+        description: "The new prices will apply from the selected date.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to schedule price change.",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (versionId: number) => {
+      const res = await apiRequest("DELETE", `/api/services/${service!.id}/price-versions/${versionId}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Price Change Cancelled",
+        description: "The scheduled price change has been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to cancel price change.",
+      });
+    },
+  });
+
+  if (!service) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price History - {service.name}</DialogTitle>
+          <DialogDescription>
+            Orders keep the price version they were sold under.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : !data?.versions.length ? (
+          <p className="text-sm text-neutral-500">
+            No price changes recorded yet. The current prices will be kept as the first version.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Until</TableHead>
+                  <TableHead>Base Price</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.versions.map(version => {
+                  const status = getVersionStatus(version);
+                  return (
+                    <TableRow key={version.id}>
+                      <TableCell>{formatEffectiveDate(version.effectiveFrom)}</TableCell>
+                      <TableCell>
+                        {version.effectiveTo ? formatDate(version.effectiveTo, "PPP p") : "—"}
+                      </TableCell>
+                      <TableCell>{formatPrice(version.basePrice)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={statusStyles[status]}>
+                          {status.charAt(0).toUpperCase() + status.slice(1)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-neutral-500">{version.notes || "—"}</TableCell>
+                      <TableCell className="text-right">
+                        {status === "scheduled" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={cancelMutation.isPending}
+                            onClick={() => {
+                              if (confirm("Cancel this scheduled price change?")) {
+                                cancelMutation.mutate(version.id);
+                              }
+                            }}
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="border-t border-neutral-200 pt-4">
+          <h3 className="text-sm font-semibold text-neutral-900 mb-4">Schedule a Price Change</h3>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => scheduleMutation.mutate(values))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="effectiveFrom"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Effective From</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="basePrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Base Price</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <span className="text-neutral-500 sm:text-sm">₱</span>
+                          </div>
+                          <Input type="number" step="0.01" min="0" className="pl-7" {...field} />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <PricingRulesEditor type={service.type} />
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Reason for the change" {...field} />
+                    </FormControl>
+                    <FormDescription>Shown in the price history</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={onClose}>
+                  Close
+                </Button>
+                <Button type="submit" disabled={scheduleMutation.isPending}>
+                  {scheduleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Schedule Change
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
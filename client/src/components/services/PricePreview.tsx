@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { calculateServicePrice, servicePricingSchema } from "@shared/pricing";
+import { formatPrice } from "@/lib/utils";
+import {
+  DOCUMENT_COLOR_MODES,
+  DOCUMENT_PAPER_TYPES,
+  LAMINATION_SIZES,
+  SERVICE_TYPES,
+} from "@/lib/constants";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface PricePreviewProps {
+  type: string;
+  basePrice: number;
+  pricingRules: unknown;
+}
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+/**
+ * Live price for a sample job, computed with the same calculator the POS
+ * and the server use, so admins can check a rate card before saving it.
+ */
+export default function PricePreview({ type, basePrice, pricingRules }: PricePreviewProps) {
+  const [quantity, setQuantity] = useState(1);
+  const [pages, setPages] = useState(10);
+  const [paperType, setPaperType] = useState("Standard");
+  const [colorMode, setColorMode] = useState("Black & White");
+  const [width, setWidth] = useState(3);
+  const [height, setHeight] = useState(4);
+  const [eyelets, setEyelets] = useState(6);
+  const [rope, setRope] = useState(false);
+  const [stand, setStand] = useState(false);
+  const [size, setSize] = useState("ID Size");
+
+  const specifications: Record<string, any> = {
+    [SERVICE_TYPES.DOCUMENT]: {
+      paperSize: "A4",
+      paperType,
+      colorMode,
+      documentAnalysis: {
+        pageCount: pages,
+        colorPages: colorMode === "Color" ? pages : 0,
+        bwPages: colorMode === "Color" ? 0 : pages,
+      },
+    },
+    [SERVICE_TYPES.TARPAULIN]: { width, height, eyelets, rope, stand },
+    [SERVICE_TYPES.LAMINATION]: { size },
+  }[type] || {};
+
+  // Form inputs hold strings; price only rule sets that parse cleanly
+  const parsed = servicePricingSchema.safeParse({ type, pricingRules });
+  const calculation = parsed.success
+    ? calculateServicePrice(
+        { type, basePrice: Number(basePrice) || 0, pricingRules: parsed.data.pricingRules },
+        quantity > 0 ? quantity : 1,
+        specifications
+      )
+    : null;
+
+  return (
+    <div className="bg-neutral-50 p-4 rounded-md space-y-4">
+      <h4 className="text-sm font-medium text-neutral-900">Price Preview</h4>
+
+      <div className="grid grid-cols-2 gap-3">
+        {type === SERVICE_TYPES.DOCUMENT && (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="preview-pages">Pages</Label>
+              <Input
+                id="preview-pages"
+                type="number"
+                min="1"
+                value={pages}
+                onChange={(e) => setPages(parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="preview-paper-type">Paper Type</Label>
+              <select
+                id="preview-paper-type"
+                className={selectClassName}
+                value={paperType}
+                onChange={(e) => setPaperType(e.target.value)}
+              >
+                {DOCUMENT_PAPER_TYPES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="preview-color-mode">Color Mode</Label>
+              <select
+                id="preview-color-mode"
+                className={selectClassName}
+                value={colorMode}
+                onChange={(e) => setColorMode(e.target.value)}
+              >
+                {DOCUMENT_COLOR_MODES.filter(option => option.value !== "Auto Detect").map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+
+        {type === SERVICE_TYPES.TARPAULIN && (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="preview-width">Width (ft)</Label>
+              <Input
+                id="preview-width"
+                type="number"
+                min="0"
+                step="0.5"
+                value={width}
+                onChange={(e) => setWidth(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="preview-height">Height (ft)</Label>
+              <Input
+                id="preview-height"
+                type="number"
+                min="0"
+                step="0.5"
+                value={height}
+                onChange={(e) => setHeight(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="preview-eyelets">Eyelets</Label>
+              <Input
+                id="preview-eyelets"
+                type="number"
+                min="0"
+                value={eyelets}
+                onChange={(e) => setEyelets(parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div className="flex items-end space-x-4 pb-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox id="preview-rope" checked={rope} onCheckedChange={(checked) => setRope(!!checked)} />
+                <Label htmlFor="preview-rope">Rope</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox id="preview-stand" checked={stand} onCheckedChange={(checked) => setStand(!!checked)} />
+                <Label htmlFor="preview-stand">Stand</Label>
+              </div>
+            </div>
+          </>
+        )}
+
+        {type === SERVICE_TYPES.LAMINATION && (
+          <div className="space-y-1">
+            <Label htmlFor="preview-size">Size</Label>
+            <select
+              id="preview-size"
+              className={selectClassName}
+              value={size}
+              onChange={(e) => setSize(e.target.value)}
+            >
+              {LAMINATION_SIZES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="preview-quantity">
+            {type === SERVICE_TYPES.DOCUMENT ? "Copies" : "Quantity"}
+          </Label>
+          <Input
+            id="preview-quantity"
+            type="number"
+            min="1"
+            value={quantity}
+            onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+          />
+        </div>
+      </div>
+
+      {calculation ? (
+        <div className="space-y-1 pt-2 border-t border-neutral-200">
+          <div className="flex justify-between text-sm">
+            <span className="text-neutral-600">Unit Price</span>
+            <span>{formatPrice(calculation.unitPrice || 0)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="font-medium">Total</span>
+            <span className="font-bold">{formatPrice(calculation.total || 0)}</span>
+          </div>
+        </div>
+      ) : (
+        <p className="pt-2 border-t border-neutral-200 text-sm text-neutral-500">
+          Fix the highlighted rates to see a preview.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useFormContext } from "react-hook-form";
+import { DOCUMENT_PAPER_TYPES, LAMINATION_SIZES, SERVICE_TYPES } from "@/lib/constants";
+
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+interface RateFieldProps {
+  name: string;
+  label: string;
+  description?: string;
+  prefix?: string;
+}
+
+function RateField({ name, label, description, prefix = "₱" }: RateFieldProps) {
+  const { control } = useFormContext();
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <span className="text-neutral-500 sm:text-sm">{prefix}</span>
+              </div>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                className="pl-7"
+                {...field}
+                value={field.value ?? ""}
+              />
+            </div>
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface PricingRulesEditorProps {
+  type: string;
+}
+
+/**
+ * Structured editor for the `pricingRules` of a dynamic service.
+ * Must be rendered inside the service form's <Form> provider.
+ */
+export default function PricingRulesEditor({ type }: PricingRulesEditorProps) {
+  switch (type) {
+    case SERVICE_TYPES.DOCUMENT:
+      return (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <RateField
+              name="pricingRules.colorPageRate"
+              label="Color Page Rate"
+              description="Per printed color page"
+            />
+            <RateField
+              name="pricingRules.blackPageRate"
+              label="Black & White Page Rate"
+              description="Per printed black page"
+            />
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-neutral-900 mb-2">Paper Type Surcharges</h4>
+            <div className="grid grid-cols-2 gap-4">
+              {DOCUMENT_PAPER_TYPES.map(paperType => (
+                <RateField
+                  key={paperType.value}
+                  name={`pricingRules.paperTypes.${paperType.value}`}
+                  label={paperType.label}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      );
+    case SERVICE_TYPES.TARPAULIN:
+      return (
+        <div className="grid grid-cols-2 gap-4">
+          <RateField
+            name="pricingRules.basePrice"
+            label="Price per sq. ft"
+          />
+          <RateField
+            name="pricingRules.eyelets"
+            label="Price per Eyelet"
+          />
+          <RateField
+            name="pricingRules.rope"
+            label="Rope"
+          />
+          <RateField
+            name="pricingRules.stand"
+            label="Stand"
+          />
+        </div>
+      );
+    case SERVICE_TYPES.LAMINATION:
+      return (
+        <div className="space-y-4">
+          <RateField
+            name="pricingRules.basePrice"
+            label="Price per Piece"
+            description="Multiplied by the size multiplier below"
+          />
+
+          <div>
+            <h4 className="text-sm font-medium text-neutral-900 mb-2">Size Multipliers</h4>
+            <div className="grid grid-cols-2 gap-4">
+              {LAMINATION_SIZES.map(size => (
+                <RateField
+                  key={size.value}
+                  name={`pricingRules.sizes.${size.value}`}
+                  label={size.label}
+                  prefix="×"
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      );
+    default:
+      return (
+        <p className="text-sm text-neutral-500">
+          Standard services are charged at their base price per unit.
+        </p>
+      );
+  }
+}
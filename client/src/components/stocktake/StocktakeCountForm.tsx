@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { INVENTORY_CATEGORIES } from "@/lib/constants";
+import { cn, formatQuantity } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import type { StocktakeLine } from "@shared/stocktakes";
+
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckIcon, Loader2 } from "lucide-react";
+
+interface StocktakeCountFormProps {
+  stocktakeId: number;
+  lines: StocktakeLine[];
+}
+
+const toDraft = (line: StocktakeLine) => line.countedQuantity !== null ? String(line.countedQuantity) : "";
+
+/**
+ * Count the shelves one category at a time. Large touch targets and a
+ * decimal keypad so it can be done from a phone in the stock room; each
+ * category is saved on its own so a count can be picked up later.
+ */
+export default function StocktakeCountForm({ stocktakeId, lines }: StocktakeCountFormProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const categories = Array.from(new Set(lines.map(line => line.category)));
+  const [category, setCategory] = useState(categories[0] || "");
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(lines.map(line => [line.inventoryId, toDraft(line)])));
+  }, [lines]);
+
+  const categoryLines = lines.filter(line => line.category === category);
+  const changed = categoryLines.filter(line => (drafts[line.inventoryId] ?? "") !== toDraft(line));
+  const isInvalid = changed.some(line => {
+    const draft = drafts[line.inventoryId];
+    return draft !== "" && !(Number(draft) >= 0);
+  });
+
+  const categoryLabel = (value: string) =>
+    INVENTORY_CATEGORIES.find(entry => entry.value === value)?.label || value;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/stocktakes/${stocktakeId}/counts`, {
+        counts: changed.map(line => ({
+          inventoryId: line.inventoryId,
+          countedQuantity: drafts[line.inventoryId] === "" ? null : Number(drafts[line.inventoryId]),
+        })),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stocktakes/current"] });
+      toast({
+        title: "Counts Saved",
+        description: `${categoryLabel(category)} counts have been saved.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save counts.",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle>Count Stock</CardTitle>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {categories.map(value => {
+            const inCategory = lines.filter(line => line.category === value);
+            const counted = inCategory.filter(line => line.countedQuantity !== null).length;
+            return (
+              <Button
+                key={value}
+                variant={value === category ? "default" : "outline"}
+                size="sm"
+                onClick={() => setCategory(value)}
+              >
+                {categoryLabel(value)}
+                <span className="ml-2 text-xs opacity-75">{counted}/{inCategory.length}</span>
+              </Button>
+            );
+          })}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {categoryLines.length === 0 ? (
+          <p className="text-center py-8 text-neutral-500">There is no stock to count</p>
+        ) : (
+          categoryLines.map(line => (
+            <div
+              key={line.inventoryId}
+              className={cn(
+                "flex items-center justify-between gap-3 rounded-md border p-3",
+                line.countedQuantity !== null && "bg-neutral-50"
+              )}
+            >
+              <div className="min-w-0">
+                <div className="font-medium flex items-center gap-2">
+                  <span className="truncate">{line.name}</span>
+                  {line.countedQuantity !== null && <CheckIcon className="h-4 w-4 text-green-600 shrink-0" />}
+                </div>
+                <div className="text-xs text-neutral-500">
+                  System: {formatQuantity(line.systemQuantity)} {line.unit}
+                  {line.variance !== null && line.variance !== 0 && (
+                    <Badge variant="outline" className={cn(
+                      "ml-2 rounded-full",
+                      line.variance < 0 ? "text-red-600" : "text-amber-600"
+                    )}>
+                      {line.variance > 0 ? "+" : ""}{formatQuantity(line.variance)}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  className="w-28 h-11 text-right text-base"
+                  placeholder="Count"
+                  value={drafts[line.inventoryId] ?? ""}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [line.inventoryId]: e.target.value }))}
+                />
+                <span className="w-12 text-sm text-neutral-500">{line.unit}</span>
+              </div>
+            </div>
+          ))
+        )}
+
+        <div className="flex items-center justify-between pt-2">
+          <p className="text-xs text-neutral-500">Clear a count to leave the item out of this stocktake.</p>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || changed.length === 0 || isInvalid}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save {categoryLabel(category)}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { Stocktake } from "@/lib/types";
+import { STOCKTAKE_STATUSES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils";
+import type { StocktakeLine, StocktakeSummary } from "@shared/stocktakes";
+import VarianceReport from "./VarianceReport";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface StocktakeReportDialogProps {
+  stocktakeId: number | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * The variance report of a past stocktake, as it was posted
+ */
+export default function StocktakeReportDialog({ stocktakeId, open, onClose }: StocktakeReportDialogProps) {
+  const { data, isLoading } = useQuery<{ stocktake: Stocktake; lines: StocktakeLine[]; summary: StocktakeSummary }>({
+    queryKey: [`/api/stocktakes/${stocktakeId}`],
+    enabled: open && stocktakeId !== null,
+  });
+  const status = STOCKTAKE_STATUSES.find(entry => entry.value === data?.stocktake.status);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stocktake #{stocktakeId}</DialogTitle>
+          {data && (
+            <DialogDescription>
+              {status?.label || data.stocktake.status}
+              {" · started "}{formatDate(data.stocktake.startedAt, "MMM dd, yyyy HH:mm")}
+              {data.stocktake.closedAt && `, closed ${formatDate(data.stocktake.closedAt, "MMM dd, yyyy HH:mm")}`}
+              {data.stocktake.notes && ` · ${data.stocktake.notes}`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : (
+          <VarianceReport stocktake={data.stocktake} lines={data.lines} summary={data.summary} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { exportToCSV, exportToExcel, exportToJSON } from "@/lib/exportUtils";
+import { Stocktake } from "@/lib/types";
+import { INVENTORY_CATEGORIES } from "@/lib/constants";
+import { cn, formatPrice, formatQuantity } from "@/lib/utils";
+import type { StocktakeLine, StocktakeSummary } from "@shared/stocktakes";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { DownloadIcon, FileIcon, FileJsonIcon, FileSpreadsheetIcon } from "lucide-react";
+
+interface VarianceReportProps {
+  stocktake: Stocktake;
+  lines: StocktakeLine[];
+  summary: StocktakeSummary;
+}
+
+function varianceClass(variance: number | null) {
+  if (variance === null || variance === 0) return "";
+  return variance < 0 ? "text-red-600" : "text-amber-600";
+}
+
+const signed = (value: number, format: (value: number) => string) => `${value > 0 ? "+" : ""}${format(value)}`;
+
+/**
+ * Counted against system stock for each item, with what the differences
+ * are worth. Uncounted items are listed but left out of the export.
+ */
+export default function VarianceReport({ stocktake, lines, summary }: VarianceReportProps) {
+  const [isVarianceOnly, setIsVarianceOnly] = useState(false);
+
+  const shown = lines.filter(line => !isVarianceOnly || (line.variance !== null && line.variance !== 0));
+  const filename = `stocktake-${stocktake.id}-variance`;
+  const exportRows = () => lines
+    .filter(line => line.countedQuantity !== null)
+    .map(line => ({
+      item: line.name,
+      category: line.category,
+      unit: line.unit,
+      system: line.systemQuantity,
+      counted: line.countedQuantity,
+      variance: line.variance,
+      unitCost: line.unitCost,
+      costImpact: line.costImpact,
+      countedBy: line.countedByName,
+    }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div className="rounded-md border p-3">
+          <div className="text-neutral-500">Counted</div>
+          <div className="text-lg font-semibold">{summary.countedCount} of {summary.itemCount}</div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-neutral-500">With Variance</div>
+          <div className="text-lg font-semibold">{summary.varianceCount}</div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-neutral-500">Shortage / Surplus</div>
+          <div className="text-lg font-semibold">
+            <span className="text-red-600">{formatPrice(summary.shortage)}</span>
+            {" / "}
+            <span className="text-amber-600">{formatPrice(summary.surplus)}</span>
+          </div>
+        </div>
+        <div className="rounded-md border p-3">
+          <div className="text-neutral-500">Net Cost Impact</div>
+          <div className={cn("text-lg font-semibold", varianceClass(summary.netCostImpact))}>
+            {signed(summary.netCostImpact, formatPrice)}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="variance-only"
+            checked={isVarianceOnly}
+            onCheckedChange={(checked) => setIsVarianceOnly(checked === true)}
+          />
+          <Label htmlFor="variance-only">Only items with a variance</Label>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={summary.countedCount === 0}>
+              <DownloadIcon className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => exportToCSV(exportRows(), `${filename}.csv`)}>
+              <FileIcon className="h-4 w-4 mr-2" />
+              Export as CSV
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => exportToExcel(exportRows(), `${filename}.csv`)}>
+              <FileSpreadsheetIcon className="h-4 w-4 mr-2" />
+              Export as Excel
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => exportToJSON(exportRows(), `${filename}.json`)}>
+              <FileJsonIcon className="h-4 w-4 mr-2" />
+              Export as JSON
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">System</TableHead>
+              <TableHead className="text-right">Counted</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+              <TableHead className="text-right">Unit Cost</TableHead>
+              <TableHead className="text-right">Cost Impact</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-neutral-500">
+                  {isVarianceOnly ? "Every counted item matches the system" : "Nothing has been counted"}
+                </TableCell>
+              </TableRow>
+            ) : (
+              shown.map(line => (
+                <TableRow key={line.inventoryId}>
+                  <TableCell>
+                    <div className="font-medium">{line.name}</div>
+                    <div className="text-xs text-neutral-500">
+                      {INVENTORY_CATEGORIES.find(entry => entry.value === line.category)?.label || line.category}
+                      {line.countedByName && ` · counted by ${line.countedByName}`}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{formatQuantity(line.systemQuantity)} {line.unit}</TableCell>
+                  <TableCell className="text-right">
+                    {line.countedQuantity !== null ? `${formatQuantity(line.countedQuantity)} ${line.unit}` : "-"}
+                  </TableCell>
+                  <TableCell className={cn("text-right font-medium", varianceClass(line.variance))}>
+                    {line.variance !== null ? signed(line.variance, formatQuantity) : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {line.unitCost !== null ? formatPrice(line.unitCost) : "-"}
+                  </TableCell>
+                  <TableCell className={cn("text-right", varianceClass(line.costImpact))}>
+                    {line.costImpact !== null ? signed(line.costImpact, formatPrice) : "-"}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {lines.some(line => line.variance && line.unitCost === null) && (
+        <p className="text-xs text-neutral-500">
+          Items without a unit cost have never been received at a price, so their variance is not valued.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { User, UserSession } from "@/lib/types";
+import { formatDate } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface ActiveSessionsCardProps {
+  users: User[];
+}
+
+// Short "Browser on OS" label from a user agent string
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return "Unknown device";
+  
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Browser";
+  const os =
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "unknown OS";
+  
+  return `${browser} on ${os}`;
+};
+
+/**
+ * Logged-in sessions across all users, with force-logout for each session
+ * or for every session of a user.
+ */
+export default function ActiveSessionsCard({ users }: ActiveSessionsCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  
+  const { data, isLoading } = useQuery<{ sessions: UserSession[] }>({
+    queryKey: ["/api/sessions"],
+    refetchInterval: 60000,
+  });
+  
+  const onLoggedOut = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    toast({ title: "Logged Out", description });
+  };
+  
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to end session.",
+    });
+  };
+  
+  const endSessionMutation = useMutation({
+    mutationFn: async (sid: string) => {
+      const res = await apiRequest("DELETE", `/api/sessions/${encodeURIComponent(sid)}`);
+      return res.json();
+    },
+    onSuccess: () => onLoggedOut("The session has been ended."),
+    onError,
+  });
+  
+  const endUserSessionsMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("DELETE", `/api/users/${userId}/sessions`);
+      return res.json();
+    },
+    onSuccess: (result) => onLoggedOut(`${result.count} session(s) have been ended.`),
+    onError,
+  });
+  
+  const getUser = (userId: number) => users.find(user => user.id === userId);
+  
+  // Group sessions by user, most recently active user first
+  const sessionsByUser = (data?.sessions || [])
+    .slice()
+    .sort((a, b) => (b.lastSeenAt || "").localeCompare(a.lastSeenAt || ""))
+    .reduce<Record<number, UserSession[]>>((groups, userSession) => {
+      (groups[userSession.userId] = groups[userSession.userId] || []).push(userSession);
+      return groups;
+    }, {});
+  const userIds = Object.keys(sessionsByUser).map(Number);
+  
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-3">
+        <CardTitle>Active Sessions</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : userIds.length === 0 ? (
+          <p className="text-sm text-neutral-500 text-center py-6">No active sessions</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Device</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Logged In</TableHead>
+                  <TableHead>Last Seen</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {userIds.map(userId => {
+                  const user = getUser(userId);
+                  const userSessions = sessionsByUser[userId];
+                  const hasOtherSessions = userSessions.some(userSession => !userSession.current);
+                  
+                  return userSessions.map((userSession, index) => (
+                    <TableRow key={userSession.sid}>
+                      {index === 0 && (
+                        <TableCell rowSpan={userSessions.length} className="align-top">
+                          <div className="font-medium">{user?.name || `User #${userId}`}</div>
+                          <div className="text-sm text-neutral-500">{user?.username}</div>
+                          {userSessions.length > 1 && hasOtherSessions && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="px-0 text-red-600"
+                              disabled={endUserSessionsMutation.isPending}
+                              onClick={() => {
+                                if (confirm(`Log ${user?.name || "this user"} out of all other devices?`)) {
+                                  endUserSessionsMutation.mutate(userId);
+                                }
+                              }}
+                            >
+                              Log out everywhere
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                      <TableCell title={userSession.userAgent || undefined}>
+                        {describeDevice(userSession.userAgent)}
+                      </TableCell>
+                      <TableCell>{userSession.ipAddress || "—"}</TableCell>
+                      <TableCell>{formatDate(userSession.loggedInAt, "MMM d, p")}</TableCell>
+                      <TableCell>{formatDate(userSession.lastSeenAt, "MMM d, p")}</TableCell>
+                      <TableCell className="text-right">
+                        {userSession.current ? (
+                          <Badge variant="outline">This Session</Badge>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={endSessionMutation.isPending}
+                            onClick={() => endSessionMutation.mutate(userSession.sid)}
+                          >
+                            Force Logout
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ));
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState, createContext, useContext, ReactNode } from "react";
-import { CartItem } from "@/lib/types";
+import { useQuery } from "@tanstack/react-query";
+import { CartItem, Service } from "@/lib/types";
+import { calculateOrderTax, DEFAULT_TAX_SETTINGS, type OrderTax, type TaxSettings } from "@shared/tax";
 
 interface CartContextType {
   items: CartItem[];
@@ -9,6 +11,7 @@ interface CartContextType {
   clearCart: () => void;
   subtotal: number;
   discount: number;
+  tax: OrderTax;
   total: number;
   setDiscount: (discount: number) => void;
 }
@@ -19,6 +22,14 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
   const [items, setItems] = useState<CartItem[]>([]);
   const [discount, setDiscount] = useState(0);
 
+  const { data: taxData } = useQuery<{ settings: TaxSettings }>({
+    queryKey: ["/api/settings/tax"],
+  });
+
+  const { data: servicesData } = useQuery<{ services: Service[] }>({
+    queryKey: ["/api/services"],
+  });
+
   const addItem = (item: CartItem) => {
     setItems([...items, item]);
   };
@@ -38,9 +49,17 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     setDiscount(0);
   };
 
-  // Calculate subtotal and total
+  // Calculate subtotal and total, with VAT worked out the way checkout will
   const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
-  const total = Math.max(subtotal - discount, 0);
+  const tax = calculateOrderTax(
+    items.map(item => ({
+      amount: item.amount,
+      vatExempt: servicesData?.services.find(service => service.id === item.serviceId)?.vatExempt,
+    })),
+    discount,
+    taxData?.settings || DEFAULT_TAX_SETTINGS
+  );
+  const total = tax.total;
 
   return (
     <CartContext.Provider
@@ -52,6 +71,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
         clearCart,
         subtotal,
         discount,
+        tax,
         total,
         setDiscount
       }}
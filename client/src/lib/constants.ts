@@ -13,8 +13,26 @@ export const ORDER_STATUS = {
   IN_PROGRESS: "in_progress",
   READY: "ready",
   COMPLETED: "completed",
+  CANCELLED: "cancelled",
+  VOIDED: "voided",
+  REFUNDED: "refunded",
 } as const;
 
+export const REVERSAL_TYPES = [
+  { value: "cancel", label: "Cancel", description: "Order that will not be fulfilled; any deposit is returned" },
+  { value: "void", label: "Void", description: "Paid order reversed on the day of sale" },
+  { value: "refund", label: "Refund", description: "Return money for some or all items" },
+];
+
+// Columns of the production board, in workflow order
+export const PRODUCTION_STAGES = [
+  { value: "queued", label: "Queued" },
+  { value: "printing", label: "Printing" },
+  { value: "finishing", label: "Finishing" },
+  { value: "qc", label: "QC" },
+  { value: "done", label: "Done" },
+] as const;
+
 export const PAYMENT_METHODS = {
   CASH: "cash",
   GCASH: "gcash",
@@ -23,9 +41,13 @@ export const PAYMENT_METHODS = {
 
 export const PAYMENT_STATUS = {
   PAID: "paid",
+  PARTIAL: "partial",
   UNPAID: "unpaid",
 } as const;
 
+// Customer files the browser can open in a new tab instead of downloading
+export const PREVIEWABLE_FILE_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/gif", "image/webp"];
+
 export const SERVICE_CATEGORIES = {
   DYNAMIC: "dynamic",
   STANDARD: "standard",
@@ -53,6 +75,27 @@ export const INVENTORY_CATEGORIES = [
   { value: "misc", label: "Miscellaneous" },
 ];
 
+export const INVENTORY_MOVEMENT_TYPES = [
+  { value: "receipt", label: "Receipt", color: "bg-green-100 text-green-800" },
+  { value: "sale", label: "Sale", color: "bg-blue-100 text-blue-800" },
+  { value: "waste", label: "Waste / Spoilage", color: "bg-red-100 text-red-800" },
+  { value: "adjustment", label: "Adjustment", color: "bg-amber-100 text-amber-800" },
+  { value: "transfer", label: "Transfer", color: "bg-purple-100 text-purple-800" },
+];
+
+export const PURCHASE_ORDER_STATUSES = [
+  { value: "draft", label: "Draft", color: "bg-neutral-100 text-neutral-800" },
+  { value: "sent", label: "Sent", color: "bg-blue-100 text-blue-800" },
+  { value: "partially_received", label: "Partially Received", color: "bg-amber-100 text-amber-800" },
+  { value: "received", label: "Received", color: "bg-green-100 text-green-800" },
+];
+
+export const STOCKTAKE_STATUSES = [
+  { value: "counting", label: "Counting", color: "bg-blue-100 text-blue-800" },
+  { value: "posted", label: "Posted", color: "bg-green-100 text-green-800" },
+  { value: "cancelled", label: "Cancelled", color: "bg-neutral-100 text-neutral-800" },
+];
+
 export const DOCUMENT_PAPER_SIZES = [
   { value: "A4", label: "A4" },
   { value: "Letter", label: "Letter" },
@@ -80,3 +123,91 @@ export const LAMINATION_SIZES = [
   { value: "Long", label: "Long" },
   { value: "A5", label: "A5" },
 ];
+
+// What a bill of materials line is counted per
+export const MATERIAL_BASES = [
+  { value: "unit", label: "Per copy / piece" },
+  { value: "page", label: "Per printed page" },
+  { value: "color_page", label: "Per color page" },
+  { value: "bw_page", label: "Per black & white page" },
+  { value: "sq_ft", label: "Per sq. ft" },
+];
+
+// Specification options a bill of materials line can be limited to, by service type
+export const MATERIAL_CONDITION_FIELDS: Record<string, { key: string; label: string; options: { value: string; label: string }[] }[]> = {
+  document: [
+    { key: "paperSize", label: "Paper size", options: DOCUMENT_PAPER_SIZES },
+    { key: "paperType", label: "Paper type", options: DOCUMENT_PAPER_TYPES },
+    { key: "colorMode", label: "Color mode", options: DOCUMENT_COLOR_MODES },
+  ],
+  tarpaulin: [
+    { key: "rope", label: "Rope", options: [{ value: "true", label: "With rope" }] },
+    { key: "stand", label: "Stand", options: [{ value: "true", label: "With stand" }] },
+  ],
+  lamination: [
+    { key: "size", label: "Size", options: LAMINATION_SIZES },
+  ],
+};
+
+export const AUDIT_ENTITY_TYPES = [
+  { value: "order", label: "Orders" },
+  { value: "order_item", label: "Order items" },
+  { value: "service", label: "Services" },
+  { value: "inventory", label: "Inventory" },
+  { value: "supplier", label: "Suppliers" },
+  { value: "purchase_order", label: "Purchase orders" },
+  { value: "stocktake", label: "Stocktakes" },
+  { value: "user", label: "Users" },
+  { value: "session", label: "Sessions" },
+  { value: "customer", label: "Customers" },
+  { value: "expense", label: "Expenses" },
+  { value: "cash_session", label: "Cash drawer" },
+  { value: "reversal", label: "Reversals" },
+  { value: "setting", label: "Settings" },
+];
+
+export const AUDIT_ACTIONS = [
+  { value: "order.create", label: "Order created" },
+  { value: "order.status", label: "Order status changed" },
+  { value: "order.payment", label: "Payment received" },
+  { value: "order.delete", label: "Order deleted" },
+  { value: "order.reversal_request", label: "Cancel, void or refund requested" },
+  { value: "order.document_issue", label: "Invoice or official receipt issued" },
+  { value: "order_item.stage", label: "Production stage changed" },
+  { value: "order_item.assign", label: "Production item assigned" },
+  { value: "service.create", label: "Service created" },
+  { value: "service.update", label: "Service updated" },
+  { value: "service.price_schedule", label: "Price change scheduled" },
+  { value: "service.price_cancel", label: "Price change cancelled" },
+  { value: "service.materials", label: "Bill of materials changed" },
+  { value: "inventory.create", label: "Inventory item added" },
+  { value: "inventory.update", label: "Inventory item updated" },
+  { value: "inventory.stock", label: "Stock adjusted" },
+  { value: "supplier.create", label: "Supplier added" },
+  { value: "supplier.update", label: "Supplier updated" },
+  { value: "purchase_order.create", label: "Purchase order drafted" },
+  { value: "purchase_order.update", label: "Purchase order changed" },
+  { value: "purchase_order.delete", label: "Purchase order deleted" },
+  { value: "purchase_order.send", label: "Purchase order sent" },
+  { value: "purchase_order.receive", label: "Purchase order stock received" },
+  { value: "stocktake.start", label: "Stocktake started" },
+  { value: "stocktake.count", label: "Stock counted" },
+  { value: "stocktake.post", label: "Stocktake posted" },
+  { value: "stocktake.cancel", label: "Stocktake cancelled" },
+  { value: "user.create", label: "User created" },
+  { value: "user.password_reset", label: "Password reset" },
+  { value: "user.logout", label: "User logged out everywhere" },
+  { value: "session.revoke", label: "Session ended" },
+  { value: "customer.create", label: "Customer created" },
+  { value: "customer.update", label: "Customer updated" },
+  { value: "customer.delete", label: "Customer deleted" },
+  { value: "expense.create", label: "Expense recorded" },
+  { value: "cash_session.open", label: "Cash drawer opened" },
+  { value: "cash_session.movement", label: "Cash in or out of the drawer" },
+  { value: "cash_session.close", label: "Cash drawer closed" },
+  { value: "reversal.approve", label: "Reversal approved" },
+  { value: "reversal.reject", label: "Reversal rejected" },
+  { value: "settings.business", label: "Business details changed" },
+  { value: "settings.tax", label: "Tax settings changed" },
+  { value: "settings.receipt_printer", label: "Receipt printer settings changed" },
+];
@@ -23,6 +23,21 @@ export async function apiRequest(
   return res;
 }
 
+// Send a file as multipart form data; the browser sets the boundary header itself
+export async function uploadFile(url: string, file: File): Promise<Response> {
+  const body = new FormData();
+  body.append("file", file);
+
+  const res = await fetch(url, {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
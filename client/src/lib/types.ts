@@ -5,9 +5,21 @@ export interface User {
   username: string;
   name: string;
   role: UserRole;
+  mustChangePassword?: boolean;
   createdAt: string | Date; // ← add this line
 }
 
+export interface UserSession {
+  sid: string;
+  userId: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  loggedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
+
 export type NavItem = {
   href: string;
   label: string;
@@ -27,6 +39,8 @@ export interface Service {
   featured?: boolean;
   displayOrder?: number;
   onlineAvailable?: boolean;
+  turnaroundHours?: number | null;
+  vatExempt?: boolean;
 }
 
 export interface Customer {
@@ -36,6 +50,7 @@ export interface Customer {
   email?: string;
   address?: string;
   notes?: string;
+  notificationsOptOut?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -47,12 +62,64 @@ export interface Order {
   customerId?: number;
   total: number;
   discount: number;
+  vatableSales?: number;
+  vatAmount?: number;
+  exemptSales?: number;
+  vatInclusive?: boolean;
   status: string;
   paymentMethod?: string;
   paymentStatus: string;
+  amountPaid?: number;
+  refundedAmount?: number;
   notes?: string;
   createdBy: number;
   createdAt: string;
+  dueAt?: string | null;
+}
+
+export interface OrderFile {
+  id: number;
+  orderItemId: number | null;
+  sha256: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  uploadedBy: number;
+  createdAt: string;
+  purgedAt: string | null;
+}
+
+export interface OrderPayment {
+  id: number;
+  orderId: number;
+  method: string;
+  amount: number;
+  referenceNumber?: string | null;
+  receivedBy: number;
+  createdAt: string;
+}
+
+export interface OrderDocument {
+  id: number;
+  orderId: number;
+  type: string;
+  number: number;
+  documentNumber: string;
+  issuedBy: number;
+  issuedAt: string;
+}
+
+export interface OrderNotification {
+  id: number;
+  orderId: number;
+  event: string;
+  channel: string;
+  recipient: string;
+  status: string;
+  attempts: number;
+  lastError?: string | null;
+  sentAt?: string | null;
+  createdAt: string;
 }
 
 export interface OrderItem {
@@ -63,6 +130,77 @@ export interface OrderItem {
   unitPrice: number;
   amount: number;
   specifications?: any;
+  priceVersionId?: number | null;
+  productionStage?: string;
+  assignedTo?: number | null;
+  printingAt?: string | null;
+  finishingAt?: string | null;
+  qcAt?: string | null;
+  doneAt?: string | null;
+}
+
+// An order item as shown on the production board
+export interface ProductionItem extends OrderItem {
+  productionStage: string;
+  orderNumber: string;
+  customerName: string | null;
+  orderNotes: string | null;
+  orderCreatedAt: string;
+  orderDueAt: string | null;
+  serviceName: string;
+  serviceType: string;
+}
+
+export interface ProductionStaffMember {
+  id: number;
+  name: string;
+  role: string;
+}
+
+export interface OrderReversalItem {
+  id: number;
+  reversalId: number;
+  orderItemId: number;
+  quantity: number;
+  amount: number;
+}
+
+export interface OrderReversal {
+  id: number;
+  orderId: number;
+  type: string;
+  status: string;
+  reason: string;
+  amount: number;
+  requestedBy: number;
+  requestedAt: string;
+  reviewedBy?: number | null;
+  reviewedAt?: string | null;
+  reviewNotes?: string | null;
+  items: OrderReversalItem[];
+  order?: Order;
+}
+
+export interface ServicePriceVersion {
+  id: number;
+  serviceId: number;
+  basePrice: number;
+  pricingRules?: any;
+  effectiveFrom: string;
+  effectiveTo?: string | null;
+  notes?: string | null;
+  createdBy?: number | null;
+  createdAt: string;
+}
+
+export interface OrderLinePricing {
+  itemId: number;
+  version: ServicePriceVersion | null;
+  calculation: {
+    unitPrice: number;
+    total: number;
+    breakdown: Record<string, any>;
+  } | null;
 }
 
 export interface Inventory {
@@ -73,9 +211,84 @@ export interface Inventory {
   unit: string;
   currentStock: number;
   lowStockThreshold: number;
+  reorderQuantity: number;
+  supplierId: number | null;
+  averageCost: number | null;
   lastRestocked?: string;
 }
 
+export interface InventoryMovement {
+  id: number;
+  inventoryId: number;
+  type: string;
+  quantity: number;
+  unitCost: number | null;
+  balance: number;
+  orderId: number | null;
+  transferInventoryId: number | null;
+  purchaseOrderId: number | null;
+  notes: string | null;
+  createdBy: number | null;
+  createdAt: string;
+  createdByName: string | null;
+  orderNumber: string | null;
+  transferItemName: string | null;
+}
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PurchaseOrder {
+  id: number;
+  poNumber: string;
+  supplierId: number;
+  status: string;
+  notes: string | null;
+  createdBy: number;
+  createdAt: string;
+  sentAt: string | null;
+  receivedAt: string | null;
+  supplierName: string | null;
+  total: number;
+}
+
+export interface PurchaseOrderItem {
+  id: number;
+  purchaseOrderId: number;
+  inventoryId: number;
+  quantity: number;
+  unitCost: number;
+  receivedQuantity: number;
+}
+
+export interface Stocktake {
+  id: number;
+  status: string;
+  notes: string | null;
+  startedBy: number;
+  startedAt: string;
+  closedBy: number | null;
+  closedAt: string | null;
+}
+
+export interface ServiceMaterial {
+  id: number;
+  serviceId: number;
+  inventoryId: number;
+  quantity: number;
+  basis: string;
+  conditions: Record<string, string> | null;
+}
+
 export interface Expense {
   id: number;
   title: string;
@@ -86,6 +299,22 @@ export interface Expense {
   createdAt: string;
 }
 
+export interface CashSession {
+  id: number;
+  status: string;
+  openingFloat: number;
+  openingNotes: string | null;
+  openedBy: number;
+  openedAt: string;
+  closedBy: number | null;
+  closedAt: string | null;
+  denominations: Record<string, number> | null;
+  countedCash: number | null;
+  expectedCash: number | null;
+  variance: number | null;
+  closingNotes: string | null;
+}
+
 export interface CartItem {
   serviceId: number;
   serviceName: string;
@@ -150,3 +379,63 @@ export interface CheckoutFormData {
   customerId?: number;
   customerName: string;
 }
+
+export interface TopServiceReport {
+  serviceId: number;
+  name: string;
+  sales: number;
+  netSales: number;
+  count: number;
+  quantity: number;
+  cost: number;
+  grossMargin: number;
+  marginPercent: number | null;
+}
+
+export interface InventoryUsageReport {
+  inventoryId: number;
+  name: string;
+  used: number;
+  unit: string;
+  currentStock: number;
+  lowStockThreshold: number;
+}
+
+export interface ExpenseCategoryReport {
+  category: string;
+  amount: number;
+}
+
+export interface ReversalReport {
+  type: string;
+  count: number;
+  amount: number;
+}
+
+export interface VatBreakdown {
+  vatableSales: number;
+  vatAmount: number;
+  exemptSales: number;
+  total: number;
+}
+
+export interface VatSummaryReport extends VatBreakdown {
+  orders: number;
+  refunds: VatBreakdown & { count: number };
+  net: VatBreakdown;
+}
+
+export interface AuditEvent {
+  id: number;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  actorId: number | null;
+  actorName: string | null;
+  method: string;
+  path: string;
+  ipAddress: string | null;
+  before: any;
+  after: any;
+  createdAt: string;
+}
@@ -37,6 +37,14 @@ export function formatPrice(amount: number): string {
   }).format(amount);
 }
 
+/**
+ * Formats a stock quantity, which can be fractional once materials are used
+ * up per page or square foot
+ */
+export function formatQuantity(amount: number): string {
+  return new Intl.NumberFormat("en-PH", { maximumFractionDigits: 2 }).format(amount);
+}
+
 /**
  * Formats an order number to be more readable
  */
@@ -82,21 +90,22 @@ export function getStatusColor(status: string): string {
       return "amber";
     case "completed":
       return "green";
+    case "cancelled":
+    case "voided":
+    case "refunded":
+      return "red";
     default:
       return "neutral";
   }
 }
 
 /**
- * Convert a File to Base64 string
+ * Format a file size in bytes for display
  */
-export function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = error => reject(error);
-  });
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 }
 
 /**
@@ -134,9 +143,9 @@ export function getAccessibleRoutes(role: string): string[] {
 import { UserRole } from "@/lib/constants";
 
 const roleBasedAccess: Record<UserRole, string[]> = {
-  admin: ["/dashboard", "/customers", "/reports", "/users", "/expenses", "/orders", "/pos", "/inventory", "/services"],
-  cashier: ["/dashboard", "/orders", "/pos", "/customers"],
-  staff: ["/dashboard","/orders","/inventory"]
+  admin: ["/dashboard", "/customers", "/reports", "/users", "/expenses", "/orders", "/production", "/pos", "/cash-drawer", "/inventory", "/stocktake", "/purchasing", "/services", "/audit", "/settings"],
+  cashier: ["/dashboard", "/orders", "/pos", "/cash-drawer", "/customers"],
+  staff: ["/dashboard","/orders","/production","/inventory","/stocktake"]
 };
 
 export function isRouteAccessible(path: string, role: UserRole): boolean {
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AuditEvent, User } from "@/lib/types";
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface AuditFilters {
+  entityType: string;
+  action: string;
+  actorId: string;
+  entityId: string;
+  from: string;
+  to: string;
+}
+
+const emptyFilters: AuditFilters = {
+  entityType: "all",
+  action: "all",
+  actorId: "all",
+  entityId: "",
+  from: "",
+  to: "",
+};
+
+// Build the audit query string; "all" means no filter
+const getAuditQuery = (filters: AuditFilters) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value && value !== "all") params.set(key, value);
+  });
+  const query = params.toString();
+  return query ? `/api/audit-events?${query}` : "/api/audit-events";
+};
+
+const getActionLabel = (action: string) =>
+  AUDIT_ACTIONS.find(option => option.value === action)?.label || action;
+
+// Flatten a snapshot into dotted field paths so nested records can be compared
+const flatten = (value: unknown, prefix = "", result: Record<string, string> = {}) => {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, entry]) => {
+      flatten(entry, prefix ? `${prefix}.${key}` : key, result);
+    });
+  } else if (prefix) {
+    result[prefix] = value === null || value === undefined
+      ? ""
+      : typeof value === "string" ? value : JSON.stringify(value);
+  }
+  return result;
+};
+
+// Fields that differ between the snapshots; every field for creates and deletes
+const getChanges = (event: AuditEvent) => {
+  const before = flatten(event.before);
+  const after = flatten(event.after);
+  const fields = Array.from(new Set(Object.keys(before).concat(Object.keys(after)))).sort();
+  const changed = fields.filter(field => before[field] !== after[field]);
+
+  return changed.map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [selectedEvent, setSelectedEvent] = useState<AuditEvent | null>(null);
+
+  const { data, isLoading } = useQuery<{ events: AuditEvent[] }>({
+    queryKey: [getAuditQuery(filters)],
+  });
+
+  const { data: usersData } = useQuery<{ users: User[] }>({
+    queryKey: ["/api/users"],
+  });
+
+  const setFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(current => ({
+      ...current,
+      [key]: value,
+      // An action only makes sense within its entity type
+      ...(key === "entityType" ? { action: "all" } : {}),
+    }));
+  };
+
+  const actionOptions = AUDIT_ACTIONS.filter(option =>
+    filters.entityType === "all" || option.value.startsWith(`${filters.entityType}.`)
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-900">Audit Log</h1>
+          <p className="text-neutral-500">Who changed what, and when</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle>Events</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+            <div className="space-y-1">
+              <Label>Area</Label>
+              <Select value={filters.entityType} onValueChange={(value) => setFilter("entityType", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All areas" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Areas</SelectItem>
+                  {AUDIT_ENTITY_TYPES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Action</Label>
+              <Select value={filters.action} onValueChange={(value) => setFilter("action", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All actions" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actions</SelectItem>
+                  {actionOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>User</Label>
+              <Select value={filters.actorId} onValueChange={(value) => setFilter("actorId", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All users" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Users</SelectItem>
+                  {usersData?.users.map(user => (
+                    <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="audit-entity-id">Record ID</Label>
+              <Input
+                id="audit-entity-id"
+                placeholder="Any"
+                value={filters.entityId}
+                onChange={(e) => setFilter("entityId", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilter("from", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilter("to", e.target.value)}
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>IP Address</TableHead>
+                    <TableHead className="text-right">Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!data?.events.length ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <div className="text-neutral-400 mb-2">
+                          <i className="ri-file-search-line text-4xl"></i>
+                        </div>
+                        <h3 className="text-lg font-medium text-neutral-900 mb-1">No events found</h3>
+                        <p className="text-neutral-500">Try adjusting the filters</p>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    data.events.map(event => (
+                      <TableRow key={event.id}>
+                        <TableCell className="whitespace-nowrap">{formatDate(event.createdAt, "MMM d, yyyy p")}</TableCell>
+                        <TableCell>{event.actorName || "System"}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{getActionLabel(event.action)}</Badge>
+                        </TableCell>
+                        <TableCell className="capitalize">
+                          {event.entityType}{event.entityId ? ` #${event.entityId}` : ""}
+                        </TableCell>
+                        <TableCell>{event.ipAddress || "—"}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => setSelectedEvent(event)}>
+                            View
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Event Details Dialog */}
+      <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEvent(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          {selectedEvent && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{getActionLabel(selectedEvent.action)}</DialogTitle>
+                <DialogDescription>
+                  {selectedEvent.actorName || "System"} · {formatDate(selectedEvent.createdAt, "PPP p")} ·{" "}
+                  {selectedEvent.method} {selectedEvent.path}
+                </DialogDescription>
+              </DialogHeader>
+
+              {getChanges(selectedEvent).length === 0 ? (
+                <p className="text-sm text-neutral-500">No field changes were recorded.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead>After</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {getChanges(selectedEvent).map(change => (
+                      <TableRow key={change.field}>
+                        <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                        <TableCell className="text-xs text-red-700 break-all">{change.before || "—"}</TableCell>
+                        <TableCell className="text-xs text-green-700 break-all">{change.after || "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { CashSession } from "@/lib/types";
+import { formatPrice, formatDate } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import type { CashMovementType, CashReading } from "@shared/cash-sessions";
+import CashMovementDialog from "@/components/cash-drawer/CashMovementDialog";
+import CashReadingDialog from "@/components/cash-drawer/CashReadingDialog";
+import CloseDrawerDialog from "@/components/cash-drawer/CloseDrawerDialog";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowDownIcon, ArrowUpIcon, FileTextIcon, Loader2, LockIcon } from "lucide-react";
+
+const openDrawerSchema = z.object({
+  openingFloat: z.coerce.number().min(0, "Opening float cannot be negative"),
+  notes: z.string().optional(),
+});
+
+type OpenDrawerFormValues = z.infer<typeof openDrawerSchema>;
+
+function varianceClass(variance: number | null) {
+  if (variance === null || variance === 0) return "";
+  return variance < 0 ? "text-red-600" : "text-amber-600";
+}
+
+export default function CashDrawerPage() {
+  const [movementType, setMovementType] = useState<CashMovementType | null>(null);
+  const [isCloseDialogOpen, setIsCloseDialogOpen] = useState(false);
+  const [readingSessionId, setReadingSessionId] = useState<number | null>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const openForm = useForm<OpenDrawerFormValues>({
+    resolver: zodResolver(openDrawerSchema),
+    defaultValues: {
+      openingFloat: 0,
+      notes: "",
+    },
+  });
+
+  // The open session and its running X-reading
+  const { data: currentData, isLoading: isCurrentLoading } = useQuery<{
+    session: CashSession | null;
+    reading: CashReading | null;
+  }>({
+    queryKey: ["/api/cash-sessions/current"],
+  });
+  const session = currentData?.session;
+  const reading = currentData?.reading;
+
+  const { data: historyData, isLoading: isHistoryLoading } = useQuery<{ sessions: CashSession[] }>({
+    queryKey: ["/api/cash-sessions"],
+  });
+
+  const openDrawerMutation = useMutation({
+    mutationFn: async (values: OpenDrawerFormValues) => {
+      const res = await apiRequest("POST", "/api/cash-sessions", {
+        openingFloat: values.openingFloat,
+        notes: values.notes || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-sessions/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-sessions"] });
+      openForm.reset({ openingFloat: 0, notes: "" });
+      toast({
+        title: "Drawer Opened",
+        description: "Cash payments can now be taken.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to open the drawer.",
+      });
+    },
+  });
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-900">Cash Drawer</h1>
+          <p className="text-neutral-500">Open and close the drawer, record cash in and out, and take X/Z-readings</p>
+        </div>
+
+        {session && (
+          <div className="mt-4 md:mt-0 flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setMovementType("cash_in")}>
+              <ArrowDownIcon className="mr-2 h-4 w-4" />
+              Cash In
+            </Button>
+            <Button variant="outline" onClick={() => setMovementType("cash_out")}>
+              <ArrowUpIcon className="mr-2 h-4 w-4" />
+              Cash Out
+            </Button>
+            <Button variant="outline" onClick={() => setReadingSessionId(session.id)}>
+              <FileTextIcon className="mr-2 h-4 w-4" />
+              X-Reading
+            </Button>
+            <Button onClick={() => setIsCloseDialogOpen(true)}>
+              <LockIcon className="mr-2 h-4 w-4" />
+              Close Drawer
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isCurrentLoading ? (
+        <Skeleton className="h-40 w-full mb-6" />
+      ) : session && reading ? (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Opening Float</CardDescription>
+              <CardTitle className="text-2xl">{formatPrice(reading.openingFloat)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs text-neutral-500">
+              Opened {formatDate(session.openedAt, "MMM dd, HH:mm")} by {reading.openedByName}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Cash Payments</CardDescription>
+              <CardTitle className="text-2xl">{formatPrice(reading.cashPayments)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs text-neutral-500">
+              {formatPrice(reading.totalPayments)} taken across all methods
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Cash In / Out</CardDescription>
+              <CardTitle className="text-2xl">
+                {formatPrice(reading.cashIn)} / {formatPrice(reading.cashOut)}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs text-neutral-500">
+              {reading.movements.length} movement{reading.movements.length === 1 ? "" : "s"}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Expected in Drawer</CardDescription>
+              <CardTitle className="text-2xl">{formatPrice(reading.expectedCash)}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs text-neutral-500">
+              Float + cash payments + cash in - cash out
+            </CardContent>
+          </Card>
+        </div>
+      ) : (
+        <Card className="mb-6 max-w-lg">
+          <CardHeader>
+            <CardTitle>Open Drawer</CardTitle>
+            <CardDescription>
+              The drawer is closed. Count the change you start with to open it; cash payments need an open drawer.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...openForm}>
+              <form onSubmit={openForm.handleSubmit(values => openDrawerMutation.mutate(values))} className="space-y-4">
+                <FormField
+                  control={openForm.control}
+                  name="openingFloat"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Opening Float</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-neutral-500">₱</span>
+                          <Input type="number" min="0" step="0.01" className="pl-7" {...field} />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={openForm.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={openDrawerMutation.isPending}>
+                  {openDrawerMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Open Drawer
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle>Drawer Sessions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isHistoryLoading ? (
+            <div className="space-y-4">
+              {Array(3).fill(0).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !historyData?.sessions.length ? (
+            <p className="text-center py-8 text-neutral-500">The drawer has not been opened yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Session</TableHead>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead className="text-right">Float</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {historyData.sessions.map(history => (
+                    <TableRow key={history.id}>
+                      <TableCell className="font-medium">
+                        #{history.id}{" "}
+                        {history.status === "open" && <Badge variant="outline">Open</Badge>}
+                      </TableCell>
+                      <TableCell>{formatDate(history.openedAt, "MMM dd, yyyy HH:mm")}</TableCell>
+                      <TableCell>{history.closedAt ? formatDate(history.closedAt, "MMM dd, yyyy HH:mm") : "-"}</TableCell>
+                      <TableCell className="text-right">{formatPrice(history.openingFloat)}</TableCell>
+                      <TableCell className="text-right">
+                        {history.expectedCash !== null ? formatPrice(history.expectedCash) : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {history.countedCash !== null ? formatPrice(history.countedCash) : "-"}
+                      </TableCell>
+                      <TableCell className={`text-right font-medium ${varianceClass(history.variance)}`}>
+                        {history.variance !== null
+                          ? `${history.variance > 0 ? "+" : ""}${formatPrice(history.variance)}`
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setReadingSessionId(history.id)}>
+                          {history.status === "open" ? "X-Reading" : "Z-Reading"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {session && (
+        <>
+          <CashMovementDialog
+            sessionId={session.id}
+            type={movementType || "cash_in"}
+            open={movementType !== null}
+            onClose={() => setMovementType(null)}
+          />
+          <CloseDrawerDialog
+            sessionId={session.id}
+            expectedCash={reading?.expectedCash || 0}
+            open={isCloseDialogOpen}
+            onClose={() => setIsCloseDialogOpen(false)}
+            onClosed={(closed) => {
+              setIsCloseDialogOpen(false);
+              setReadingSessionId(closed.id);
+            }}
+          />
+        </>
+      )}
+
+      <CashReadingDialog
+        sessionId={readingSessionId}
+        open={readingSessionId !== null}
+        onClose={() => setReadingSessionId(null)}
+      />
+    </div>
+  );
+}
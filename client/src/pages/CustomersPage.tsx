@@ -34,6 +34,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -44,6 +45,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Loader2, Search, Plus, Edit, Trash, History, UserPlus } from "lucide-react";
 
 // Customer form schema
@@ -53,6 +55,7 @@ const customerFormSchema = z.object({
   email: z.string().email("Invalid email").optional().or(z.literal("")),
   address: z.string().optional(),
   notes: z.string().optional(),
+  notificationsOptOut: z.boolean().default(false),
 });
 
 type CustomerFormData = z.infer<typeof customerFormSchema>;
@@ -158,6 +161,7 @@ const customersData = data ?? [];
       email: "",
       address: "",
       notes: "",
+      notificationsOptOut: false,
     },
   });
   
@@ -169,6 +173,7 @@ const customersData = data ?? [];
       email: "",
       address: "",
       notes: "",
+      notificationsOptOut: false,
     },
   });
   
@@ -181,6 +186,7 @@ const customersData = data ?? [];
       email: customer.email || "",
       address: customer.address || "",
       notes: customer.notes || "",
+      notificationsOptOut: customer.notificationsOptOut ?? false,
     });
     setIsEditDialogOpen(true);
   };
@@ -286,6 +292,26 @@ const customersData = data ?? [];
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={addForm.control}
+                  name="notificationsOptOut"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between space-x-3 space-y-0 rounded-md border p-4">
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>Opt out of notifications</FormLabel>
+                        <FormDescription>
+                          Don't text or email this customer about their orders
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
                 <DialogFooter>
                   <Button 
                     type="submit" 
@@ -473,6 +499,26 @@ const customersData = data ?? [];
                   </FormItem>
                 )}
               />
+              <FormField
+                control={editForm.control}
+                name="notificationsOptOut"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between space-x-3 space-y-0 rounded-md border p-4">
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Opt out of notifications</FormLabel>
+                      <FormDescription>
+                        Don't text or email this customer about their orders
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
               <DialogFooter>
                 <Button 
                   type="submit" 
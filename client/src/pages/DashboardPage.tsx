@@ -6,6 +6,7 @@ import { USER_ROLES } from "@/lib/constants";
 import StatsCard from "@/components/dashboard/StatsCard";
 import SalesChart from "@/components/dashboard/SalesChart";
 import RecentOrdersCard from "@/components/dashboard/RecentOrdersCard";
+import DueOrdersCard from "@/components/dashboard/DueOrdersCard";
 import InventoryLowStockCard from "@/components/dashboard/InventoryLowStockCard";
 import RecentExpensesCard from "@/components/dashboard/RecentExpensesCard";
 import { Button } from "@/components/ui/button";
@@ -182,13 +183,14 @@ export default function DashboardPage() {
           <RecentOrdersCard />
         </div>
         
-        {/* If not Admin, show an empty column for layout balance */}
-        {user?.role !== USER_ROLES.ADMIN && <div></div>}
+        {/* Orders promised for today, next to recent orders when there is no sales chart */}
+        {user?.role !== USER_ROLES.ADMIN && <DueOrdersCard />}
       </div>
       
-      {/* Low Stock Inventory and Recent Expenses - Only for Admin */}
+      {/* Due Orders, Low Stock Inventory and Recent Expenses - Only for Admin */}
       {user?.role === USER_ROLES.ADMIN && (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <DueOrdersCard />
           <InventoryLowStockCard />
           <RecentExpensesCard />
         </div>
@@ -1,13 +1,16 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
-import { useForm } from "react-hook-form";
+import { useForm, type Control } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
-import { Inventory } from "@/lib/types";
-import { INVENTORY_CATEGORIES } from "@/lib/constants";
+import { Inventory, Supplier } from "@/lib/types";
+import { INVENTORY_CATEGORIES, INVENTORY_MOVEMENT_TYPES } from "@/lib/constants";
 import { USER_ROLES } from "@/lib/constants";
+import { formatPrice, formatQuantity } from "@/lib/utils";
+import { MANUAL_MOVEMENT_TYPES, getStockValue } from "@shared/inventory";
+import StockHistorySheet from "@/components/inventory/StockHistorySheet";
 
 import {
   Table,
@@ -20,6 +23,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -54,17 +58,43 @@ const inventorySchema = z.object({
   category: z.string().min(1, "Category is required"),
   unit: z.string().min(1, "Unit is required"),
   currentStock: z.coerce.number().min(0, "Stock cannot be negative"),
+  unitCost: z.string().optional(),
   lowStockThreshold: z.coerce.number().min(1, "Threshold must be at least 1"),
+  reorderQuantity: z.coerce.number().int().min(0, "Reorder quantity cannot be negative"),
+  supplierId: z.string(),
 });
 
-// Form schema for updating stock
+// Form schema for how an item is restocked
+const restockSettingsSchema = inventorySchema.pick({
+  lowStockThreshold: true,
+  reorderQuantity: true,
+  supplierId: true,
+});
+
+// Select value for an item with no usual supplier
+const NO_SUPPLIER = "none";
+
+const toSupplierId = (value: string) => (value === NO_SUPPLIER ? null : Number(value));
+
+// Form schema for recording a stock movement
 const stockUpdateSchema = z.object({
-  quantity: z.coerce.number().int(),
+  type: z.enum(MANUAL_MOVEMENT_TYPES),
+  quantity: z.coerce.number().refine(quantity => quantity !== 0, "Quantity cannot be zero"),
+  unitCost: z.string().optional(),
+  toInventoryId: z.string().optional(),
   notes: z.string().optional(),
+}).superRefine((values, ctx) => {
+  if (values.type !== "adjustment" && values.quantity < 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["quantity"], message: "Enter the amount moved as a positive number" });
+  }
+  if (values.type === "transfer" && !values.toInventoryId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["toInventoryId"], message: "Choose the item to transfer to" });
+  }
 });
 
 type InventoryFormValues = z.infer<typeof inventorySchema>;
 type StockUpdateFormValues = z.infer<typeof stockUpdateSchema>;
+type RestockSettingsFormValues = z.infer<typeof restockSettingsSchema>;
 
 export default function InventoryPage() {
   const { user } = useAuth();
@@ -75,6 +105,9 @@ export default function InventoryPage() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isUpdateDialogOpen, setIsUpdateDialogOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<Inventory | null>(null);
+  const [historyItem, setHistoryItem] = useState<Inventory | null>(null);
+  const [settingsItem, setSettingsItem] = useState<Inventory | null>(null);
+  const isAdmin = user?.role === USER_ROLES.ADMIN;
   
   // Forms
   const inventoryForm = useForm<InventoryFormValues>({
@@ -85,27 +118,59 @@ export default function InventoryPage() {
       category: "",
       unit: "",
       currentStock: 0,
+      unitCost: "",
+      lowStockThreshold: 10,
+      reorderQuantity: 0,
+      supplierId: NO_SUPPLIER,
+    },
+  });
+  
+  const settingsForm = useForm<RestockSettingsFormValues>({
+    resolver: zodResolver(restockSettingsSchema),
+    defaultValues: {
       lowStockThreshold: 10,
+      reorderQuantity: 0,
+      supplierId: NO_SUPPLIER,
     },
   });
   
   const stockUpdateForm = useForm<StockUpdateFormValues>({
     resolver: zodResolver(stockUpdateSchema),
     defaultValues: {
+      type: "receipt",
       quantity: 0,
+      unitCost: "",
+      toInventoryId: "",
       notes: "",
     },
   });
+  const movementType = stockUpdateForm.watch("type");
   
   // Fetch inventory
   const { data, isLoading } = useQuery<{ inventory: Inventory[] }>({
     queryKey: ["/api/inventory"],
   });
   
+  // What all the stock is worth at its average cost
+  const stockValues = (data?.inventory || []).map(item => getStockValue(item));
+  const totalStockValue = stockValues.reduce<number>((sum, value) => sum + (value || 0), 0);
+  const uncostedCount = stockValues.filter(value => value === null).length;
+  
+  // Suppliers to restock from; purchasing is for admins only
+  const { data: suppliersData } = useQuery<{ suppliers: Supplier[] }>({
+    queryKey: ["/api/suppliers"],
+    enabled: isAdmin,
+  });
+  const suppliers = suppliersData?.suppliers || [];
+  
   // Add inventory mutation
   const addInventoryMutation = useMutation({
-    mutationFn: async (values: InventoryFormValues) => {
-      const res = await apiRequest("POST", "/api/inventory", values);
+    mutationFn: async ({ unitCost, ...values }: InventoryFormValues) => {
+      const res = await apiRequest("POST", "/api/inventory", {
+        ...values,
+        averageCost: unitCost ? Number(unitCost) : null,
+        supplierId: toSupplierId(values.supplierId),
+      });
       return res.json();
     },
     onSuccess: () => {
@@ -127,25 +192,35 @@ export default function InventoryPage() {
     },
   });
   
-  // Update stock mutation
+  // Record stock movement mutation
   const updateStockMutation = useMutation({
-    mutationFn: async (values: { id: number; quantity: number }) => {
+    mutationFn: async ({ id, values }: { id: number; values: StockUpdateFormValues }) => {
       const res = await apiRequest(
-        "PATCH", 
-        `/api/inventory/${values.id}/stock`,
-        { quantity: values.quantity }
+        "POST", 
+        `/api/inventory/${id}/movements`,
+        {
+          type: values.type,
+          quantity: values.quantity,
+          unitCost: values.type === "receipt" && values.unitCost ? Number(values.unitCost) : null,
+          toInventoryId: values.type === "transfer" ? Number(values.toInventoryId) : null,
+          notes: values.notes || null,
+        }
       );
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, { id, values }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
       queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/inventory/${id}/movements`] });
+      if (values.type === "transfer") {
+        queryClient.invalidateQueries({ queryKey: [`/api/inventory/${values.toInventoryId}/movements`] });
+      }
       setIsUpdateDialogOpen(false);
       stockUpdateForm.reset();
       setSelectedItem(null);
       toast({
         title: "Stock Updated",
-        description: "The inventory stock has been updated successfully.",
+        description: "The stock movement has been recorded.",
       });
     },
     onError: (error: any) => {
@@ -157,6 +232,33 @@ export default function InventoryPage() {
     },
   });
   
+  // Restock settings mutation
+  const updateSettingsMutation = useMutation({
+    mutationFn: async ({ id, values }: { id: number; values: RestockSettingsFormValues }) => {
+      const res = await apiRequest("PATCH", `/api/inventory/${id}`, {
+        ...values,
+        supplierId: toSupplierId(values.supplierId),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      setSettingsItem(null);
+      toast({
+        title: "Item Updated",
+        description: "The restocking settings have been saved.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update the item.",
+      });
+    },
+  });
+  
   // Handle form submissions
   const onAddInventory = (values: InventoryFormValues) => {
     addInventoryMutation.mutate(values);
@@ -164,22 +266,32 @@ export default function InventoryPage() {
   
   const onUpdateStock = (values: StockUpdateFormValues) => {
     if (!selectedItem) return;
-    updateStockMutation.mutate({
-      id: selectedItem.id,
-      quantity: values.quantity,
-    });
+    updateStockMutation.mutate({ id: selectedItem.id, values });
   };
   
   // Open update stock dialog
   const openUpdateDialog = (item: Inventory) => {
     setSelectedItem(item);
     stockUpdateForm.reset({
+      type: "receipt",
       quantity: 0,
+      unitCost: "",
+      toInventoryId: "",
       notes: "",
     });
     setIsUpdateDialogOpen(true);
   };
   
+  // Open restock settings dialog
+  const openSettingsDialog = (item: Inventory) => {
+    setSettingsItem(item);
+    settingsForm.reset({
+      lowStockThreshold: item.lowStockThreshold,
+      reorderQuantity: item.reorderQuantity,
+      supplierId: item.supplierId ? String(item.supplierId) : NO_SUPPLIER,
+    });
+  };
+  
   // Filter inventory items
   const getFilteredInventory = () => {
     if (!data?.inventory) return [];
@@ -203,6 +315,57 @@ export default function InventoryPage() {
     return filtered;
   };
   
+  // Items stock can be transferred to: same unit, so the amount carries over as is
+  const transferTargets = (data?.inventory || []).filter(item =>
+    item.id !== selectedItem?.id && item.unit === selectedItem?.unit
+  );
+  
+  // Reorder quantity and usual supplier, shared by the add and edit forms
+  const renderRestockFields = (control: Control<any>) => (
+    <div className="grid grid-cols-2 gap-4">
+      <FormField
+        control={control}
+        name="reorderQuantity"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Reorder Quantity</FormLabel>
+            <FormControl>
+              <Input type="number" min="0" {...field} />
+            </FormControl>
+            <FormDescription>Ordered on top of the threshold</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      
+      <FormField
+        control={control}
+        name="supplierId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Usual Supplier</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={NO_SUPPLIER}>None</SelectItem>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={String(supplier.id)}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+  
   // Get stock status
   const getStockStatus = (current: number, threshold: number) => {
     const ratio = current / threshold;
@@ -220,7 +383,7 @@ export default function InventoryPage() {
         </div>
         
         <div className="mt-4 md:mt-0 flex space-x-4">
-          {user?.role === USER_ROLES.ADMIN && (
+          {isAdmin && (
             <Button onClick={() => setIsAddDialogOpen(true)}>
               <PlusIcon className="mr-2 h-4 w-4" />
               Add Inventory
@@ -230,8 +393,19 @@ export default function InventoryPage() {
       </div>
       
       <Card className="mb-6">
-        <CardHeader className="pb-3">
+        <CardHeader className="pb-3 flex flex-row items-center justify-between">
           <CardTitle>Inventory Items</CardTitle>
+          {!isLoading && (
+            <div className="text-right">
+              <div className="text-sm text-neutral-500">Stock Value</div>
+              <div className="text-lg font-semibold">{formatPrice(totalStockValue)}</div>
+              {uncostedCount > 0 && (
+                <div className="text-xs text-neutral-500">
+                  {uncostedCount} item{uncostedCount === 1 ? " has" : "s have"} no cost yet
+                </div>
+              )}
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           <div className="flex flex-col md:flex-row justify-between mb-6 gap-4">
@@ -278,6 +452,7 @@ export default function InventoryPage() {
                     <TableHead>Item</TableHead>
                     <TableHead>Category</TableHead>
                     <TableHead>Current Stock</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
                     <TableHead>Threshold</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Last Restocked</TableHead>
@@ -287,7 +462,7 @@ export default function InventoryPage() {
                 <TableBody>
                   {getFilteredInventory().length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={7} className="text-center py-8">
+                      <TableCell colSpan={8} className="text-center py-8">
                         <div className="text-neutral-400 mb-2">
                           <i className="ri-inbox-line text-4xl"></i>
                         </div>
@@ -302,6 +477,7 @@ export default function InventoryPage() {
                   ) : (
                     getFilteredInventory().map((item) => {
                       const status = getStockStatus(item.currentStock, item.lowStockThreshold);
+                      const value = getStockValue(item);
                       return (
                         <TableRow key={item.id}>
                           <TableCell>
@@ -315,7 +491,17 @@ export default function InventoryPage() {
                           <TableCell>
                             {INVENTORY_CATEGORIES.find(c => c.value === item.category)?.label || item.category}
                           </TableCell>
-                          <TableCell>{item.currentStock} {item.unit}</TableCell>
+                          <TableCell>{formatQuantity(item.currentStock)} {item.unit}</TableCell>
+                          <TableCell className="text-right">
+                            {value !== null ? (
+                              <>
+                                <div>{formatPrice(value)}</div>
+                                <div className="text-xs text-neutral-500">
+                                  {formatPrice(item.averageCost!)} avg / {item.unit}
+                                </div>
+                              </>
+                            ) : "-"}
+                          </TableCell>
                           <TableCell>{item.lowStockThreshold} {item.unit}</TableCell>
                           <TableCell>
                             <Badge 
@@ -330,7 +516,23 @@ export default function InventoryPage() {
                               ? new Date(item.lastRestocked).toLocaleDateString() 
                               : "N/A"}
                           </TableCell>
-                          <TableCell className="text-right">
+                          <TableCell className="text-right space-x-2 whitespace-nowrap">
+                            <Button 
+                              variant="ghost" 
+                              size="sm"
+                              onClick={() => setHistoryItem(item)}
+                            >
+                              History
+                            </Button>
+                            {isAdmin && (
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => openSettingsDialog(item)}
+                              >
+                                Edit
+                              </Button>
+                            )}
                             <Button 
                               variant="outline" 
                               size="sm"
@@ -448,12 +650,12 @@ export default function InventoryPage() {
                 
                 <FormField
                   control={inventoryForm.control}
-                  name="lowStockThreshold"
+                  name="unitCost"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Low Stock Threshold</FormLabel>
+                      <FormLabel>Unit Cost</FormLabel>
                       <FormControl>
-                        <Input type="number" min="1" {...field} />
+                        <Input type="number" min="0" step="0.0001" placeholder="Optional" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -461,6 +663,22 @@ export default function InventoryPage() {
                 />
               </div>
               
+              <FormField
+                control={inventoryForm.control}
+                name="lowStockThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Low Stock Threshold</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              {renderRestockFields(inventoryForm.control)}
+              
               <DialogFooter className="mt-6">
                 <Button
                   type="button"
@@ -495,7 +713,7 @@ export default function InventoryPage() {
               <div className="bg-neutral-50 p-3 rounded-md space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span>Current Stock:</span>
-                  <span className="font-medium">{selectedItem?.currentStock} {selectedItem?.unit}</span>
+                  <span className="font-medium">{formatQuantity(selectedItem?.currentStock || 0)} {selectedItem?.unit}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Low Stock Threshold:</span>
@@ -505,22 +723,93 @@ export default function InventoryPage() {
               
               <FormField
                 control={stockUpdateForm.control}
-                name="quantity"
+                name="type"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Quantity to Add/Remove</FormLabel>
-                    <FormControl>
-                      <Input 
-                        type="number" 
-                        placeholder="Enter positive number to add, negative to remove" 
-                        {...field}
-                      />
-                    </FormControl>
+                    <FormLabel>Movement</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {INVENTORY_MOVEMENT_TYPES.filter(type => type.value !== "sale").map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <FormMessage />
                   </FormItem>
                 )}
               />
               
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={stockUpdateForm.control}
+                  name="quantity"
+                  render={({ field }) => (
+                    <FormItem className={movementType === "receipt" ? "" : "col-span-2"}>
+                      <FormLabel>Quantity ({selectedItem?.unit})</FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          step="any"
+                          placeholder={movementType === "adjustment" ? "Positive to add, negative to remove" : "Amount moved"} 
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                {movementType === "receipt" && (
+                  <FormField
+                    control={stockUpdateForm.control}
+                    name="unitCost"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Unit Cost (Optional)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+              
+              {movementType === "transfer" && (
+                <FormField
+                  control={stockUpdateForm.control}
+                  name="toInventoryId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Transfer To</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select item" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {transferTargets.map((item) => (
+                            <SelectItem key={item.id} value={String(item.id)}>
+                              {item.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
               <FormField
                 control={stockUpdateForm.control}
                 name="notes"
@@ -529,7 +818,7 @@ export default function InventoryPage() {
                     <FormLabel>Notes (Optional)</FormLabel>
                     <FormControl>
                       <Input 
-                        placeholder="Reason for adjustment" 
+                        placeholder="e.g., supplier, reason for waste" 
                         {...field}
                       />
                     </FormControl>
@@ -550,13 +839,69 @@ export default function InventoryPage() {
                   type="submit"
                   disabled={updateStockMutation.isPending}
                 >
-                  {updateStockMutation.isPending ? "Updating..." : "Update Stock"}
+                  {updateStockMutation.isPending ? "Recording..." : "Record Movement"}
                 </Button>
               </DialogFooter>
             </form>
           </Form>
         </DialogContent>
       </Dialog>
+      
+      {/* Restock Settings Dialog */}
+      <Dialog open={!!settingsItem} onOpenChange={(isOpen) => !isOpen && setSettingsItem(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Edit Item: {settingsItem?.name}
+            </DialogTitle>
+          </DialogHeader>
+          
+          <Form {...settingsForm}>
+            <form
+              onSubmit={settingsForm.handleSubmit((values) => settingsItem && updateSettingsMutation.mutate({ id: settingsItem.id, values }))}
+              className="space-y-4"
+            >
+              <FormField
+                control={settingsForm.control}
+                name="lowStockThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Low Stock Threshold ({settingsItem?.unit})</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              {renderRestockFields(settingsForm.control)}
+              
+              <DialogFooter className="mt-6">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setSettingsItem(null)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={updateSettingsMutation.isPending}
+                >
+                  {updateSettingsMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+      
+      <StockHistorySheet
+        item={historyItem}
+        open={!!historyItem}
+        onClose={() => setHistoryItem(null)}
+      />
     </div>
   );
 }
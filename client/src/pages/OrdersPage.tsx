@@ -2,9 +2,11 @@ import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { Order, OrderItem } from "@/lib/types";
-import { ORDER_STATUS } from "@/lib/constants";
+import { ORDER_STATUS, USER_ROLES } from "@/lib/constants";
+import { getDueState } from "@shared/turnaround";
 
 import OrderCard from "@/components/orders/OrderCard";
+import PendingReversalsCard from "@/components/orders/PendingReversalsCard";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -16,6 +18,8 @@ export default function OrdersPage() {
   const [activeTab, setActiveTab] = useState(ORDER_STATUS.PENDING);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [dueFilter, setDueFilter] = useState("all");
+  const [sortBy, setSortBy] = useState("newest");
   
   // Fetch orders
   const { data: ordersData, isLoading: isLoadingOrders } = useQuery<{ orders: Order[] }>({
@@ -57,6 +61,20 @@ export default function OrdersPage() {
       );
     }
     
+    // Apply due date filter
+    if (dueFilter === "none") {
+      filtered = filtered.filter(order => !order.dueAt);
+    } else if (dueFilter !== "all") {
+      const now = new Date();
+      filtered = filtered.filter(order => getDueState(order, now) === dueFilter);
+    }
+    
+    // Soonest due first; orders without a due date go last
+    if (sortBy === "due") {
+      const dueTime = (order: Order) => order.dueAt ? new Date(order.dueAt).getTime() : Infinity;
+      filtered = [...filtered].sort((a, b) => dueTime(a) - dueTime(b));
+    }
+    
     return filtered;
   };
   
@@ -96,6 +114,9 @@ export default function OrdersPage() {
       case ORDER_STATUS.IN_PROGRESS: return "In Progress";
       case ORDER_STATUS.READY: return "Ready";
       case ORDER_STATUS.COMPLETED: return "Completed";
+      case ORDER_STATUS.CANCELLED: return "Cancelled";
+      case ORDER_STATUS.VOIDED: return "Voided";
+      case ORDER_STATUS.REFUNDED: return "Refunded";
       default: return status;
     }
   };
@@ -138,12 +159,39 @@ export default function OrdersPage() {
                 <SelectItem value={ORDER_STATUS.IN_PROGRESS}>In Progress</SelectItem>
                 <SelectItem value={ORDER_STATUS.READY}>Ready</SelectItem>
                 <SelectItem value={ORDER_STATUS.COMPLETED}>Completed</SelectItem>
+                <SelectItem value={ORDER_STATUS.CANCELLED}>Cancelled</SelectItem>
+                <SelectItem value={ORDER_STATUS.VOIDED}>Voided</SelectItem>
+                <SelectItem value={ORDER_STATUS.REFUNDED}>Refunded</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={dueFilter} onValueChange={setDueFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Filter by due date" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Due Date</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
+                <SelectItem value="due_today">Due Today</SelectItem>
+                <SelectItem value="upcoming">Due Later</SelectItem>
+                <SelectItem value="none">No Due Date</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={sortBy} onValueChange={setSortBy}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">Newest First</SelectItem>
+                <SelectItem value="due">Due Soonest</SelectItem>
               </SelectContent>
             </Select>
           </div>
         </div>
       </div>
       
+      {/* Cashier requests waiting for a manager */}
+      {user?.role === USER_ROLES.ADMIN && <PendingReversalsCard />}
+      
       {/* Order Status Tabs */}
       <div className="bg-white rounded-lg shadow mb-6">
         <Tabs defaultValue={activeTab} value={activeTab} onValueChange={setActiveTab}>
@@ -188,6 +236,36 @@ export default function OrdersPage() {
                   {countOrdersByStatus(ORDER_STATUS.COMPLETED)}
                 </span>
               </TabsTrigger>
+              
+              <TabsTrigger 
+                value={ORDER_STATUS.CANCELLED}
+                className="px-4 py-3 text-sm font-medium data-[state=active]:text-primary-600 data-[state=active]:border-b-2 data-[state=active]:border-primary-600 data-[state=inactive]:text-neutral-500 data-[state=inactive]:border-b-2 data-[state=inactive]:border-transparent rounded-none"
+              >
+                Cancelled{" "}
+                <span className="ml-1 bg-neutral-100 text-neutral-800 px-2 py-0.5 rounded-full text-xs">
+                  {countOrdersByStatus(ORDER_STATUS.CANCELLED)}
+                </span>
+              </TabsTrigger>
+              
+              <TabsTrigger 
+                value={ORDER_STATUS.VOIDED}
+                className="px-4 py-3 text-sm font-medium data-[state=active]:text-primary-600 data-[state=active]:border-b-2 data-[state=active]:border-primary-600 data-[state=inactive]:text-neutral-500 data-[state=inactive]:border-b-2 data-[state=inactive]:border-transparent rounded-none"
+              >
+                Voided{" "}
+                <span className="ml-1 bg-neutral-100 text-neutral-800 px-2 py-0.5 rounded-full text-xs">
+                  {countOrdersByStatus(ORDER_STATUS.VOIDED)}
+                </span>
+              </TabsTrigger>
+              
+              <TabsTrigger 
+                value={ORDER_STATUS.REFUNDED}
+                className="px-4 py-3 text-sm font-medium data-[state=active]:text-primary-600 data-[state=active]:border-b-2 data-[state=active]:border-primary-600 data-[state=inactive]:text-neutral-500 data-[state=inactive]:border-b-2 data-[state=inactive]:border-transparent rounded-none"
+              >
+                Refunded{" "}
+                <span className="ml-1 bg-neutral-100 text-neutral-800 px-2 py-0.5 rounded-full text-xs">
+                  {countOrdersByStatus(ORDER_STATUS.REFUNDED)}
+                </span>
+              </TabsTrigger>
             </TabsList>
           </div>
           
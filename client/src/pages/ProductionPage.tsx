@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ProductionItem, ProductionStaffMember } from "@/lib/types";
+import { PRODUCTION_STAGES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils";
+import { getDueState } from "@shared/turnaround";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+// The board is shared by several machines' operators; keep it current
+const BOARD_REFRESH_MS = 30 * 1000;
+
+// When the item entered its current stage; queued items date from the order
+const getStageEnteredAt = (item: ProductionItem) => {
+  switch (item.productionStage) {
+    case "printing": return item.printingAt;
+    case "finishing": return item.finishingAt;
+    case "qc": return item.qcAt;
+    case "done": return item.doneAt;
+    default: return item.orderCreatedAt;
+  }
+};
+
+interface ProductionCardProps {
+  item: ProductionItem;
+  staff: ProductionStaffMember[];
+  isUpdating: boolean;
+  onMove: (stage: string) => void;
+  onAssign: (assignedTo: number | null) => void;
+}
+
+function ProductionCard({ item, staff, isUpdating, onMove, onAssign }: ProductionCardProps) {
+  const stageIndex = PRODUCTION_STAGES.findIndex(stage => stage.value === item.productionStage);
+  const previous = PRODUCTION_STAGES[stageIndex - 1];
+  const next = PRODUCTION_STAGES[stageIndex + 1];
+  const isOverdue = item.productionStage !== "done" &&
+    getDueState({ status: "in_progress", dueAt: item.orderDueAt }) === "overdue";
+
+  return (
+    <Card
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData("text/plain", String(item.id))}
+      className="cursor-grab active:cursor-grabbing"
+    >
+      <CardContent className="p-3 space-y-2 text-sm">
+        <div className="flex justify-between items-start">
+          <span className="font-medium">{item.orderNumber}</span>
+          <Badge variant="outline" className="capitalize">{item.serviceType}</Badge>
+        </div>
+        <div>
+          <p className="font-medium text-neutral-800">{item.serviceName} × {item.quantity}</p>
+          {item.specifications?.description && (
+            <p className="text-neutral-600">{item.specifications.description}</p>
+          )}
+          {item.specifications?.notes && (
+            <p className="text-neutral-500 italic">{item.specifications.notes}</p>
+          )}
+        </div>
+        <p className="text-xs text-neutral-500">
+          {item.customerName || "Walk-in Customer"} · since {formatDate(getStageEnteredAt(item), "MMM d, h:mm a")}
+        </p>
+        {item.orderDueAt && (
+          <p className={`text-xs font-medium ${isOverdue ? "text-red-600" : "text-neutral-600"}`}>
+            {isOverdue ? "Overdue · was due" : "Due"} {formatDate(item.orderDueAt, "MMM d, h:mm a")}
+          </p>
+        )}
+
+        <Select
+          value={item.assignedTo ? String(item.assignedTo) : "unassigned"}
+          onValueChange={(value) => onAssign(value === "unassigned" ? null : parseInt(value))}
+          disabled={isUpdating}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Unassigned" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+            {staff.map(member => (
+              <SelectItem key={member.id} value={String(member.id)}>{member.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex justify-between">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={!previous || isUpdating}
+            onClick={() => previous && onMove(previous.value)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            {previous?.label}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={!next || isUpdating}
+            onClick={() => next && onMove(next.value)}
+          >
+            {next?.label}
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ProductionPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [onlyMine, setOnlyMine] = useState(false);
+
+  const { data, isLoading } = useQuery<{ items: ProductionItem[] }>({
+    queryKey: ["/api/production"],
+    refetchInterval: BOARD_REFRESH_MS,
+  });
+
+  const { data: staffData } = useQuery<{ staff: ProductionStaffMember[] }>({
+    queryKey: ["/api/production/staff"],
+  });
+
+  const onBoardChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/production"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/order-counts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/recent-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/due-orders"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to update the item.",
+    });
+  };
+
+  const stageMutation = useMutation({
+    mutationFn: async ({ id, stage }: { id: number; stage: string }) => {
+      const res = await apiRequest("PATCH", `/api/order-items/${id}/stage`, { stage });
+      return res.json();
+    },
+    onSuccess: (result: { order: { orderNumber: string; status: string } }, variables) => {
+      onBoardChanged();
+      // Say so when the item was the last one holding up the order
+      const item = data?.items.find(each => each.id === variables.id);
+      if (result.order.status === "ready" && item?.productionStage !== "done") {
+        toast({
+          title: "Order Ready",
+          description: `Every item of ${result.order.orderNumber} is done; it can be picked up.`,
+        });
+      }
+    },
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ id, assignedTo }: { id: number; assignedTo: number | null }) => {
+      const res = await apiRequest("PATCH", `/api/order-items/${id}/assignee`, { assignedTo });
+      return res.json();
+    },
+    onSuccess: onBoardChanged,
+    onError,
+  });
+
+  const isUpdating = stageMutation.isPending || assignMutation.isPending;
+  const staff = staffData?.staff || [];
+  const items = (data?.items || []).filter(item => !onlyMine || item.assignedTo === user?.id);
+
+  const moveItem = (id: number, stage: string) => {
+    const item = data?.items.find(each => each.id === id);
+    if (!item || item.productionStage === stage) return;
+    stageMutation.mutate({ id, stage });
+  };
+
+  return (
+    <div className="max-w-full mx-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-900">Production Board</h1>
+          <p className="text-neutral-500">Move each item through the workshop; orders are ready once all their items are done</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch id="only-mine" checked={onlyMine} onCheckedChange={setOnlyMine} />
+          <Label htmlFor="only-mine">Only my items</Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          {PRODUCTION_STAGES.map(stage => (
+            <Skeleton key={stage.value} className="h-64 w-full" />
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          {PRODUCTION_STAGES.map(stage => {
+            const stageItems = items.filter(item => item.productionStage === stage.value);
+            return (
+              <div
+                key={stage.value}
+                className="bg-neutral-100 rounded-md p-2 min-h-[16rem]"
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  const id = parseInt(e.dataTransfer.getData("text/plain"));
+                  if (!isNaN(id)) moveItem(id, stage.value);
+                }}
+              >
+                <div className="flex justify-between items-center px-1 mb-2">
+                  <h2 className="font-semibold text-neutral-700">{stage.label}</h2>
+                  <Badge variant="secondary">{stageItems.length}</Badge>
+                </div>
+                <div className="space-y-2">
+                  {stageItems.map(item => (
+                    <ProductionCard
+                      key={item.id}
+                      item={item}
+                      staff={staff}
+                      isUpdating={isUpdating}
+                      onMove={(next) => moveItem(item.id, next)}
+                      onAssign={(assignedTo) => assignMutation.mutate({ id: item.id, assignedTo })}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
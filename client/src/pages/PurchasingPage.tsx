@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Inventory, PurchaseOrder, Supplier } from "@/lib/types";
+import { PURCHASE_ORDER_STATUSES } from "@/lib/constants";
+import { formatDate, formatPrice } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import SupplierDialog from "@/components/purchasing/SupplierDialog";
+import PurchaseOrderDialog from "@/components/purchasing/PurchaseOrderDialog";
+import ReceiveStockDialog from "@/components/purchasing/ReceiveStockDialog";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, PackageCheckIcon, PlusIcon, ShoppingCartIcon } from "lucide-react";
+
+export default function PurchasingPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("all");
+  // undefined while closed; null drafts a new order
+  const [openOrderId, setOpenOrderId] = useState<number | null | undefined>(undefined);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [isSupplierDialogOpen, setIsSupplierDialogOpen] = useState(false);
+
+  const { data: ordersData, isLoading: isOrdersLoading } = useQuery<{ purchaseOrders: PurchaseOrder[] }>({
+    queryKey: ["/api/purchase-orders"],
+  });
+  const purchaseOrders = (ordersData?.purchaseOrders || [])
+    .filter(order => statusFilter === "all" || order.status === statusFilter);
+
+  const { data: suppliersData, isLoading: isSuppliersLoading } = useQuery<{ suppliers: Supplier[] }>({
+    queryKey: ["/api/suppliers"],
+  });
+  const suppliers = suppliersData?.suppliers || [];
+
+  const { data: lowStockData } = useQuery<{ inventory: Inventory[] }>({
+    queryKey: ["/api/inventory/low-stock"],
+  });
+  const lowStockCount = lowStockData?.inventory.length || 0;
+
+  const reorderMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/purchase-orders/from-low-stock");
+      return res.json();
+    },
+    onSuccess: ({ purchaseOrders: created, unassigned }: { purchaseOrders: PurchaseOrder[]; unassigned: Inventory[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      const skipped = unassigned.length > 0
+        ? ` Set a usual supplier for ${unassigned.map(item => item.name).join(", ")} to include them.`
+        : "";
+      toast({
+        title: created.length > 0 ? "Purchase Orders Drafted" : "Nothing to Order",
+        description: created.length > 0
+          ? `Drafted ${created.map(order => order.poNumber).join(", ")} for the stock running low.${skipped}`
+          : `Low stock items are already on order or need no more.${skipped}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to draft purchase orders.",
+      });
+    },
+  });
+
+  const openSupplierDialog = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setIsSupplierDialogOpen(true);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-900">Purchasing</h1>
+          <p className="text-neutral-500">Order stock from suppliers and receive it into inventory</p>
+        </div>
+
+        <div className="mt-4 md:mt-0 flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => reorderMutation.mutate()}
+            disabled={reorderMutation.isPending || lowStockCount === 0}
+          >
+            {reorderMutation.isPending
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <ShoppingCartIcon className="mr-2 h-4 w-4" />}
+            Order Low Stock ({lowStockCount})
+          </Button>
+          <Button onClick={() => setOpenOrderId(null)}>
+            <PlusIcon className="mr-2 h-4 w-4" />
+            New Purchase Order
+          </Button>
+        </div>
+      </div>
+
+      <Tabs defaultValue="orders">
+        <TabsList className="mb-4">
+          <TabsTrigger value="orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders">
+          <Card>
+            <CardHeader className="pb-3 flex flex-row items-center justify-between">
+              <CardTitle>Purchase Orders</CardTitle>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {PURCHASE_ORDER_STATUSES.map(status => (
+                    <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {isOrdersLoading ? (
+                <div className="space-y-4">
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>PO Number</TableHead>
+                        <TableHead>Supplier</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Created</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {purchaseOrders.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center py-8 text-neutral-500">
+                            No purchase orders found
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        purchaseOrders.map(order => {
+                          const status = PURCHASE_ORDER_STATUSES.find(s => s.value === order.status);
+                          const canReceive = order.status === "sent" || order.status === "partially_received";
+                          return (
+                            <TableRow key={order.id}>
+                              <TableCell className="font-medium">{order.poNumber}</TableCell>
+                              <TableCell>{order.supplierName}</TableCell>
+                              <TableCell>
+                                <Badge variant="outline" className={`${status?.color || ""} rounded-full text-xs font-medium`}>
+                                  {status?.label || order.status}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>{formatDate(order.createdAt)}</TableCell>
+                              <TableCell className="text-right">{formatPrice(order.total)}</TableCell>
+                              <TableCell className="text-right space-x-2 whitespace-nowrap">
+                                <Button variant="ghost" size="sm" onClick={() => setOpenOrderId(order.id)}>
+                                  {order.status === "draft" ? "Edit" : "View"}
+                                </Button>
+                                {canReceive && (
+                                  <Button variant="outline" size="sm" onClick={() => setReceivingOrder(order)}>
+                                    <PackageCheckIcon className="mr-2 h-4 w-4" />
+                                    Receive
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="suppliers">
+          <Card>
+            <CardHeader className="pb-3 flex flex-row items-center justify-between">
+              <CardTitle>Suppliers</CardTitle>
+              <Button variant="outline" onClick={() => openSupplierDialog(null)}>
+                <PlusIcon className="mr-2 h-4 w-4" />
+                Add Supplier
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {isSuppliersLoading ? (
+                <div className="space-y-4">
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Contact</TableHead>
+                        <TableHead>Phone</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {suppliers.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center py-8 text-neutral-500">
+                            Add the suppliers you buy paper, ink and materials from
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        suppliers.map(supplier => (
+                          <TableRow key={supplier.id}>
+                            <TableCell>
+                              <div className="font-medium">{supplier.name}</div>
+                              {supplier.address && <div className="text-sm text-neutral-500">{supplier.address}</div>}
+                            </TableCell>
+                            <TableCell>{supplier.contactName || "-"}</TableCell>
+                            <TableCell>{supplier.phone || "-"}</TableCell>
+                            <TableCell>{supplier.email || "-"}</TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" onClick={() => openSupplierDialog(supplier)}>
+                                Edit
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <PurchaseOrderDialog
+        purchaseOrderId={openOrderId ?? null}
+        open={openOrderId !== undefined}
+        onClose={() => setOpenOrderId(undefined)}
+      />
+
+      <ReceiveStockDialog
+        purchaseOrder={receivingOrder}
+        open={!!receivingOrder}
+        onClose={() => setReceivingOrder(null)}
+      />
+
+      <SupplierDialog
+        supplier={editingSupplier}
+        open={isSupplierDialogOpen}
+        onClose={() => setIsSupplierDialogOpen(false)}
+      />
+    </div>
+  );
+}
@@ -5,8 +5,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { SalesData } from "@/lib/types";
-import { formatPrice, formatDate } from "@/lib/utils";
+import {
+  SalesData, TopServiceReport, InventoryUsageReport, ExpenseCategoryReport, ReversalReport, VatSummaryReport
+} from "@/lib/types";
+import { EXPENSE_CATEGORIES, REVERSAL_TYPES } from "@/lib/constants";
+import { formatPrice, formatDate, formatQuantity } from "@/lib/utils";
 import { exportToCSV, exportToExcel, exportToJSON } from "@/lib/exportUtils";
 import { 
   BarChart, 
@@ -46,6 +49,24 @@ const CHART_COLORS = [
   "hsl(var(--chart-5))"
 ];
 
+// Number of days covered by each report period
+const PERIOD_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+  quarterly: 90,
+  yearly: 365
+};
+
+// Build the from/to query string for the selected period
+const getPeriodQuery = (period: string) => {
+  const to = new Date();
+  const from = new Date();
+  from.setDate(from.getDate() - ((PERIOD_DAYS[period] || 7) - 1));
+  
+  return `from=${formatDate(from, "yyyy-MM-dd")}&to=${formatDate(to, "yyyy-MM-dd")}`;
+};
+
 // Custom tooltip component for charts
 interface CustomTooltipProps {
   active?: boolean;
@@ -74,25 +95,36 @@ export default function ReportsPage() {
     queryKey: ["/api/dashboard/sales"],
   });
   
+  const periodQuery = getPeriodQuery(period);
+  
   // Fetch top services data
-  const { data: topServicesData, isLoading: isLoadingTopServices } = useQuery<{ services: { name: string; sales: number; count: number }[] }>({
-    queryKey: ["/api/reports/top-services"],
-    // In a real app, we would have an actual API endpoint for this
-    enabled: false,
+  const { data: topServicesData, isLoading: isLoadingTopServices } = useQuery<{ services: TopServiceReport[] }>({
+    queryKey: [`/api/reports/top-services?${periodQuery}`],
+    enabled: reportType === "top-services",
   });
   
   // Fetch inventory usage data
-  const { data: inventoryUsageData, isLoading: isLoadingInventory } = useQuery<{ items: { name: string; used: number; unit: string }[] }>({
-    queryKey: ["/api/reports/inventory-usage"],
-    // In a real app, we would have an actual API endpoint for this
-    enabled: false,
+  const { data: inventoryUsageData, isLoading: isLoadingInventory } = useQuery<{ items: InventoryUsageReport[] }>({
+    queryKey: [`/api/reports/inventory-usage?${periodQuery}`],
+    enabled: reportType === "inventory",
   });
   
   // Fetch expense data
-  const { data: expenseData, isLoading: isLoadingExpenses } = useQuery<{ expenses: { category: string; amount: number }[] }>({
-    queryKey: ["/api/reports/expenses-by-category"],
-    // In a real app, we would have an actual API endpoint for this
-    enabled: false,
+  const { data: expenseData, isLoading: isLoadingExpenses } = useQuery<{ expenses: ExpenseCategoryReport[] }>({
+    queryKey: [`/api/reports/expenses-by-category?${periodQuery}`],
+    enabled: reportType === "expenses",
+  });
+  
+  // Fetch approved cancellations, voids and refunds
+  const { data: reversalData, isLoading: isLoadingReversals } = useQuery<{ reversals: ReversalReport[] }>({
+    queryKey: [`/api/reports/reversals?${periodQuery}`],
+    enabled: reportType === "reversals",
+  });
+  
+  // Fetch the VAT split of paid sales
+  const { data: vatData, isLoading: isLoadingVat } = useQuery<{ summary: VatSummaryReport }>({
+    queryKey: [`/api/reports/vat?${periodQuery}`],
+    enabled: reportType === "sales",
   });
   
   // Processed sales data for display
@@ -101,30 +133,11 @@ export default function ReportsPage() {
     date: formatDate(item.date, "MMM d")
   })) || [];
   
-  // Mock data for demonstration 
-  // In a real implementation, these would come from API endpoints
-  const mockTopServices = [
-    { name: "Document Printing", sales: 42500, count: 350 },
-    { name: "Lamination", sales: 18750, count: 250 },
-    { name: "Tarpaulin Printing", sales: 65000, count: 75 },
-    { name: "PVC ID", sales: 31250, count: 125 },
-    { name: "Mug Printing", sales: 15000, count: 50 }
-  ];
-  
-  const mockInventoryUsage = [
-    { name: "A4 Paper", used: 1500, unit: "sheets" },
-    { name: "A4 Glossy", used: 750, unit: "sheets" },
-    { name: "Black Ink", used: 3, unit: "bottles" },
-    { name: "Color Ink", used: 2, unit: "sets" },
-    { name: "PVC Cards", used: 125, unit: "pcs" }
-  ];
-  
-  const mockExpensesByCategory = [
-    { category: "Supplies", amount: 45000 },
-    { category: "Equipment", amount: 15000 },
-    { category: "Utilities", amount: 8500 },
-    { category: "Miscellaneous", amount: 5000 }
-  ];
+  // Show expense categories with their display labels
+  const processedExpenseData = expenseData?.expenses?.map(item => ({
+    ...item,
+    category: EXPENSE_CATEGORIES.find(c => c.value === item.category)?.label || item.category
+  })) || [];
   
   // Get the data to display based on the selected report type
   const getReportData = () => {
@@ -137,22 +150,28 @@ export default function ReportsPage() {
         };
       case "top-services":
         return {
-          data: topServicesData?.services || mockTopServices,
+          data: topServicesData?.services || [],
           isLoading: isLoadingTopServices,
           emptyMessage: "No service data available"
         };
       case "inventory":
         return {
-          data: inventoryUsageData?.items || mockInventoryUsage,
+          data: inventoryUsageData?.items || [],
           isLoading: isLoadingInventory,
           emptyMessage: "No inventory usage data available"
         };
       case "expenses":
         return {
-          data: expenseData?.expenses || mockExpensesByCategory,
+          data: processedExpenseData,
           isLoading: isLoadingExpenses,
           emptyMessage: "No expense data available"
         };
+      case "reversals":
+        return {
+          data: reversalData?.reversals || [],
+          isLoading: isLoadingReversals,
+          emptyMessage: "No cancellations, voids or refunds in the selected period"
+        };
       default:
         return {
           data: [],
@@ -204,6 +223,7 @@ export default function ReportsPage() {
           <TabsTrigger value="top-services">Top Services</TabsTrigger>
           <TabsTrigger value="inventory">Inventory Usage</TabsTrigger>
           <TabsTrigger value="expenses">Expenses</TabsTrigger>
+          <TabsTrigger value="reversals">Reversals</TabsTrigger>
         </TabsList>
         
         {/* Sales Reports Tab */}
@@ -329,6 +349,58 @@ export default function ReportsPage() {
               </CardContent>
             </Card>
           </div>
+          
+          {/* VAT Breakdown */}
+          <Card className="mt-6">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg">VAT Breakdown ({period})</CardTitle>
+              <p className="text-sm text-neutral-500">
+                Paid orders placed in the period, less refunds given in it in the same VAT proportions as their orders
+              </p>
+            </CardHeader>
+            <CardContent>
+              {isLoadingVat ? (
+                <Skeleton className="h-16 w-full" />
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-neutral-200">
+                    <thead className="bg-neutral-50">
+                      <tr>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider"></th>
+                        <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                          VATable Sales
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                          VAT Amount
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                          VAT-Exempt Sales
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                          Total
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-neutral-200">
+                      {[
+                        { label: `Sales (${vatData?.summary.orders || 0} orders)`, breakdown: vatData?.summary, sign: 1 },
+                        { label: `Refunds (${vatData?.summary.refunds.count || 0})`, breakdown: vatData?.summary.refunds, sign: -1 },
+                        { label: "Net", breakdown: vatData?.summary.net, sign: 1 },
+                      ].map(({ label, breakdown, sign }) => (
+                        <tr key={label} className={label === "Net" ? "font-semibold text-neutral-900" : "text-neutral-500"}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm">{label}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{formatPrice(sign * (breakdown?.vatableSales || 0))}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{formatPrice(sign * (breakdown?.vatAmount || 0))}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{formatPrice(sign * (breakdown?.exemptSales || 0))}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{formatPrice(sign * (breakdown?.total || 0))}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
         
         {/* Top Services Tab */}
@@ -418,6 +490,7 @@ export default function ReportsPage() {
           <Card className="mt-6">
             <CardHeader className="pb-3">
               <CardTitle>Service Performance</CardTitle>
+              <p className="text-sm text-neutral-500">Margins are on sales net of discounts, VAT and refunds</p>
             </CardHeader>
             <CardContent>
               <div className="overflow-x-auto">
@@ -436,6 +509,15 @@ export default function ReportsPage() {
                       <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
                         Avg. Price
                       </th>
+                      <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                        Net of VAT
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                        Material Cost
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                        Gross Margin
+                      </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-neutral-200">
@@ -454,11 +536,20 @@ export default function ReportsPage() {
                           <td className="px-6 py-4 whitespace-nowrap text-right">
                             <Skeleton className="h-5 w-20 ml-auto" />
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right">
+                            <Skeleton className="h-5 w-24 ml-auto" />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right">
+                            <Skeleton className="h-5 w-20 ml-auto" />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right">
+                            <Skeleton className="h-5 w-24 ml-auto" />
+                          </td>
                         </tr>
                       ))
                     ) : reportData.data.length === 0 ? (
                       <tr>
-                        <td colSpan={4} className="px-6 py-4 text-center text-neutral-500">
+                        <td colSpan={7} className="px-6 py-4 text-center text-neutral-500">
                           No service data available
                         </td>
                       </tr>
@@ -469,13 +560,25 @@ export default function ReportsPage() {
                             {service.name}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500 text-right">
-                            {service.count} orders
+                            {service.quantity} ({service.count} orders)
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-900 text-right font-medium">
                             {formatPrice(service.sales)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500 text-right">
-                            {formatPrice(service.sales / service.count)}
+                            {formatPrice(service.quantity > 0 ? service.sales / service.quantity : 0)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500 text-right">
+                            {formatPrice(service.netSales)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500 text-right">
+                            {formatPrice(service.cost)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-900 text-right font-medium">
+                            {formatPrice(service.grossMargin)}
+                            {service.marginPercent !== null && (
+                              <span className="ml-1 text-neutral-500 font-normal">({service.marginPercent}%)</span>
+                            )}
                           </td>
                         </tr>
                       ))
@@ -608,16 +711,15 @@ export default function ReportsPage() {
                             {item.used} {item.unit}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-900 text-right">
-                            {/* Current stock would come from actual data */}
-                            {item.used > 1000 ? "Low" : "Normal"}
+                            {formatQuantity(item.currentStock)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right">
                             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                              item.used > 1000 
+                              item.currentStock <= item.lowStockThreshold 
                                 ? "bg-amber-100 text-amber-800" 
                                 : "bg-green-100 text-green-800"
                             }`}>
-                              {item.used > 1000 ? "Reorder Soon" : "Adequate"}
+                              {item.currentStock <= item.lowStockThreshold ? "Reorder Soon" : "Adequate"}
                             </span>
                           </td>
                         </tr>
@@ -770,6 +872,74 @@ export default function ReportsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+        
+        {/* Reversals Tab */}
+        <TabsContent value="reversals">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle>Cancellations, Voids &amp; Refunds</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-neutral-200">
+                  <thead className="bg-neutral-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                        Type
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                        Orders
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                        Amount Returned
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-neutral-200">
+                    {reportData.isLoading ? (
+                      [...Array(3)].map((_, i) => (
+                        <tr key={i}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <Skeleton className="h-5 w-32" />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right">
+                            <Skeleton className="h-5 w-16 ml-auto" />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right">
+                            <Skeleton className="h-5 w-24 ml-auto" />
+                          </td>
+                        </tr>
+                      ))
+                    ) : reportData.data.length === 0 ? (
+                      <tr>
+                        <td colSpan={3} className="px-6 py-4 text-center text-neutral-500">
+                          {reportData.emptyMessage}
+                        </td>
+                      </tr>
+                    ) : (
+                      reportData.data.map((item: any) => (
+                        <tr key={item.type}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-neutral-900">
+                            {REVERSAL_TYPES.find(t => t.value === item.type)?.label || item.type}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500 text-right">
+                            {item.count}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-900 text-right font-medium">
+                            {formatPrice(item.amount)}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-neutral-500 mt-4">
+                Voided and cancelled orders are left out of sales; refunds are deducted from sales on the day they are given.
+              </p>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
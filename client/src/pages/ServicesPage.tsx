@@ -8,6 +8,12 @@ import { Service } from "@/lib/types";
 import { useToast } from "@/hooks/use-toast";
 import { SERVICE_CATEGORIES, SERVICE_TYPES } from "@/lib/constants";
 import { formatPrice } from "@/lib/utils";
+import { defaultPricingRules, resolvePricingRules, servicePricingSchema } from "@shared/pricing";
+import { DEFAULT_TURNAROUND_HOURS } from "@shared/turnaround";
+import PricingRulesEditor from "@/components/services/PricingRulesEditor";
+import PricePreview from "@/components/services/PricePreview";
+import PriceHistoryDialog from "@/components/services/PriceHistoryDialog";
+import MaterialsDialog from "@/components/services/MaterialsDialog";
 
 import {
   Table,
@@ -63,15 +69,42 @@ const serviceSchema = z.object({
   type: z.string().min(1, "Type is required"),
   basePrice: z.coerce.number().min(0, "Price cannot be negative"),
   active: z.boolean().default(true),
-  pricingRules: z.any().optional(), // This would be more specifically typed in a real app
+  turnaroundHours: z.coerce.number().int("Use whole hours").min(0, "Turnaround cannot be negative").nullable().optional(),
+  vatExempt: z.boolean().default(false),
+  pricingRules: z.any().optional(),
+}).superRefine((values, ctx) => {
+  // Check the pricing rules against the schema for the selected type
+  const result = servicePricingSchema.safeParse(values);
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+    });
+  }
 });
 
 type ServiceFormValues = z.infer<typeof serviceSchema>;
 
+// Pricing rules to start from for a service type (null for standard services)
+const getPricingRulesFor = (type: string, service?: Service) => {
+  if (!(type in defaultPricingRules)) return null;
+  const key = type as keyof typeof defaultPricingRules;
+  return service
+    ? resolvePricingRules(key, service)
+    : structuredClone(defaultPricingRules[key]);
+};
+
+// Send the rules with numeric rates rather than raw input strings
+const toServicePayload = (values: ServiceFormValues) => ({
+  ...values,
+  pricingRules: servicePricingSchema.parse(values).pricingRules,
+});
+
 export default function ServicesPage() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedService, setSelectedService] = useState<Service | null>(null);
+  const [historyService, setHistoryService] = useState<Service | null>(null);
+  const [materialsService, setMaterialsService] = useState<Service | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("all");
   const [activeTab, setActiveTab] = useState<string>("all");
@@ -89,7 +122,9 @@ export default function ServicesPage() {
       type: SERVICE_TYPES.DOCUMENT,
       basePrice: 0,
       active: true,
-      pricingRules: {},
+      turnaroundHours: null,
+      vatExempt: false,
+      pricingRules: getPricingRulesFor(SERVICE_TYPES.DOCUMENT),
     },
   });
   
@@ -101,7 +136,7 @@ export default function ServicesPage() {
   // Add service mutation
   const addServiceMutation = useMutation({
     mutationFn: async (values: ServiceFormValues) => {
-      const res = await apiRequest("POST", "/api/services", values);
+      const res = await apiRequest("POST", "/api/services", toServicePayload(values));
       return res.json();
     },
     onSuccess: () => {
@@ -126,7 +161,7 @@ export default function ServicesPage() {
   const updateServiceMutation = useMutation({
     mutationFn: async (values: ServiceFormValues & { id: number }) => {
       const { id, ...serviceData } = values;
-      const res = await apiRequest("PATCH", `/api/services/${id}`, serviceData);
+      const res = await apiRequest("PATCH", `/api/services/${id}`, toServicePayload(serviceData));
       return res.json();
     },
     onSuccess: () => {
@@ -170,7 +205,9 @@ export default function ServicesPage() {
       type: service.type,
       basePrice: service.basePrice,
       active: service.active,
-      pricingRules: service.pricingRules || {},
+      turnaroundHours: service.turnaroundHours ?? null,
+      vatExempt: service.vatExempt ?? false,
+      pricingRules: getPricingRulesFor(service.type, service),
     });
     setIsEditDialogOpen(true);
   };
@@ -231,7 +268,9 @@ export default function ServicesPage() {
               type: SERVICE_TYPES.DOCUMENT,
               basePrice: 0,
               active: true,
-              pricingRules: {},
+              turnaroundHours: null,
+              vatExempt: false,
+              pricingRules: getPricingRulesFor(SERVICE_TYPES.DOCUMENT),
             });
             setIsAddDialogOpen(true);
           }}>
@@ -344,7 +383,21 @@ export default function ServicesPage() {
                             {service.active ? "Active" : "Inactive"}
                           </Badge>
                         </TableCell>
-                        <TableCell className="text-right">
+                        <TableCell className="text-right space-x-2">
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => setHistoryService(service)}
+                          >
+                            Price History
+                          </Button>
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => setMaterialsService(service)}
+                          >
+                            Materials
+                          </Button>
                           <Button 
                             variant="outline" 
                             size="sm"
@@ -374,7 +427,7 @@ export default function ServicesPage() {
             }
           }}
         >
-          <DialogContent className="sm:max-w-md">
+          <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {isAddDialogOpen ? "Add New Service" : "Edit Service"}
@@ -455,7 +508,10 @@ export default function ServicesPage() {
                       <FormItem>
                         <FormLabel>Service Type</FormLabel>
                         <Select
-                          onValueChange={field.onChange}
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            serviceForm.setValue("pricingRules", getPricingRulesFor(value));
+                          }}
                           defaultValue={field.value}
                           value={field.value}
                         >
@@ -530,8 +586,60 @@ export default function ServicesPage() {
                   />
                 </div>
                 
-                {/* Pricing rules would go here in a full implementation */}
-                {/* This would be different based on the service type */}
+                <FormField
+                  control={serviceForm.control}
+                  name="turnaroundHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Turnaround (hours)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          placeholder={String(DEFAULT_TURNAROUND_HOURS)}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : e.target.value)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Sets the default pickup time at checkout; blank uses {DEFAULT_TURNAROUND_HOURS} hours
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={serviceForm.control}
+                  name="vatExempt"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between space-x-3 space-y-0 rounded-md border p-4">
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>VAT Exempt</FormLabel>
+                        <FormDescription>
+                          Sell this service without VAT; recorded as exempt sales on receipts
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                
+                <div className="space-y-4 border-t border-neutral-200 pt-4">
+                  <h3 className="text-sm font-semibold text-neutral-900">Pricing Rules</h3>
+                  <PricingRulesEditor type={serviceForm.watch("type")} />
+                  <PricePreview
+                    type={serviceForm.watch("type")}
+                    basePrice={serviceForm.watch("basePrice")}
+                    pricingRules={serviceForm.watch("pricingRules")}
+                  />
+                </div>
                 
                 <DialogFooter className="mt-6">
                   <Button
@@ -558,6 +666,20 @@ export default function ServicesPage() {
           </DialogContent>
         </Dialog>
       )}
+      
+      {/* Price History Dialog */}
+      <PriceHistoryDialog
+        service={historyService}
+        open={!!historyService}
+        onClose={() => setHistoryService(null)}
+      />
+      
+      {/* Bill of Materials Dialog */}
+      <MaterialsDialog
+        service={materialsService}
+        open={!!materialsService}
+        onClose={() => setMaterialsService(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,585 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  receiptPrinterSettingsSchema, DEFAULT_RECEIPT_PRINTER_SETTINGS, MAX_RECEIPT_LOGO_BYTES,
+  RECEIPT_PAPER_WIDTHS, type ReceiptPrinterSettings
+} from "@shared/receipts";
+import { businessSettingsSchema, DEFAULT_BUSINESS_SETTINGS, type BusinessSettings } from "@shared/invoices";
+import { taxSettingsSchema, DEFAULT_TAX_SETTINGS, type TaxSettings } from "@shared/tax";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Printer } from "lucide-react";
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Who the shop is, as printed on invoices and official receipts
+function BusinessSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ settings: BusinessSettings }>({
+    queryKey: ["/api/settings/business"],
+  });
+
+  const form = useForm<BusinessSettings>({
+    resolver: zodResolver(businessSettingsSchema),
+    defaultValues: DEFAULT_BUSINESS_SETTINGS,
+    values: data?.settings,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: BusinessSettings) => {
+      const res = await apiRequest("PUT", "/api/settings/business", settings);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/business"] });
+      toast({
+        title: "Settings saved",
+        description: "New invoices and official receipts will show these details.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save settings.",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Business Details</CardTitle>
+        <CardDescription>
+          Printed on invoices and official receipts. Documents already issued keep the details they were issued with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="businessName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Business Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>TIN</FormLabel>
+                      <FormControl>
+                        <Input placeholder="000-000-000-000" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Whether and how VAT is charged on sales
+function TaxSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ settings: TaxSettings }>({
+    queryKey: ["/api/settings/tax"],
+  });
+
+  const form = useForm<TaxSettings>({
+    resolver: zodResolver(taxSettingsSchema),
+    defaultValues: DEFAULT_TAX_SETTINGS,
+    values: data?.settings,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: TaxSettings) => {
+      const res = await apiRequest("PUT", "/api/settings/tax", settings);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/tax"] });
+      toast({
+        title: "Settings saved",
+        description: "New orders will be taxed with these settings.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save settings.",
+      });
+    },
+  });
+
+  const vatRegistered = form.watch("vatRegistered");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tax</CardTitle>
+        <CardDescription>
+          VAT applies to orders placed after saving; existing orders keep the VAT they were sold with.
+          Exempt services are marked on the Services page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="vatRegistered"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between space-x-3 space-y-0 rounded-md border p-4">
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>VAT-Registered</FormLabel>
+                      <FormDescription>
+                        Charge VAT and show the VAT breakdown on receipts and invoices
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="vatRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>VAT Rate (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={100} step="0.01" disabled={!vatRegistered} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="pricesIncludeVat"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between space-x-3 space-y-0 rounded-md border p-4">
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Prices Include VAT</FormLabel>
+                      <FormDescription>
+                        On: VAT is part of the listed prices. Off: VAT is added to the total at checkout.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        disabled={!vatRegistered}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Where and how thermal receipts are printed
+function ReceiptPrinterSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ settings: ReceiptPrinterSettings }>({
+    queryKey: ["/api/settings/receipt-printer"],
+  });
+
+  const form = useForm<ReceiptPrinterSettings>({
+    resolver: zodResolver(receiptPrinterSettingsSchema),
+    defaultValues: DEFAULT_RECEIPT_PRINTER_SETTINGS,
+    values: data?.settings,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: ReceiptPrinterSettings) => {
+      const res = await apiRequest("PUT", "/api/settings/receipt-printer", settings);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/receipt-printer"] });
+      toast({
+        title: "Settings saved",
+        description: "Receipts will print with the new settings.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save settings.",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/settings/receipt-printer/test");
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Test page sent",
+        description: "Check the printer for the test receipt.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Printer not reached",
+        description: error.message || "Failed to print the test page.",
+      });
+    },
+  });
+
+  const handleLogoSelected = async (file: File | undefined, onChange: (value: string | null) => void) => {
+    if (!file) return;
+    if (file.size > MAX_RECEIPT_LOGO_BYTES) {
+      toast({
+        variant: "destructive",
+        title: "Logo too large",
+        description: "Choose an image under 256 KB.",
+      });
+      return;
+    }
+    onChange(await readAsDataUrl(file));
+  };
+
+  const isSaved = !!data?.settings.printerHost && !form.formState.isDirty;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Receipt Printer</CardTitle>
+        <CardDescription>
+          Thermal receipts are sent to a network printer on its raw printing port. Without
+          one, receipts can be downloaded as ESC/POS files or printed from the browser.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="printerHost"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Printer Address</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. 192.168.1.50" {...field} />
+                      </FormControl>
+                      <FormDescription>Leave empty if the printer is not on the network</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="printerPort"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Port</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={65535} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="paperWidth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Paper Width</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {RECEIPT_PAPER_WIDTHS.map(width => (
+                          <SelectItem key={width} value={width}>{width} mm</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="shopName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Shop Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="headerLines"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Header</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Address, phone number, TIN" rows={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="footerMessage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Footer Message</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="logo"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Logo</FormLabel>
+                    {field.value && (
+                      <div className="flex items-center space-x-4">
+                        <img src={field.value} alt="Receipt logo" className="h-16 object-contain border rounded p-1" />
+                        <Button type="button" variant="outline" size="sm" onClick={() => field.onChange(null)}>
+                          Remove
+                        </Button>
+                      </div>
+                    )}
+                    <FormControl>
+                      <Input
+                        type="file"
+                        accept="image/png,image/jpeg"
+                        onChange={(e) => handleLogoSelected(e.target.files?.[0], field.onChange)}
+                      />
+                    </FormControl>
+                    <FormDescription>Printed in black and white above the shop name</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="printQrCode"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between space-x-3 space-y-0 rounded-md border p-4">
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>QR Code</FormLabel>
+                      <FormDescription>
+                        Print the order number as a QR code to scan at pickup
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={!isSaved || testMutation.isPending}
+                  onClick={() => testMutation.mutate()}
+                  title={isSaved ? undefined : "Save a printer address first"}
+                >
+                  {testMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Printer className="mr-2 h-4 w-4" />
+                  )}
+                  Print Test Page
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SettingsPage() {
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-neutral-900">Settings</h1>
+        <p className="text-neutral-500">Business details, tax and the shop's receipt printer</p>
+      </div>
+
+      <BusinessSettingsCard />
+      <TaxSettingsCard />
+      <ReceiptPrinterSettingsCard />
+    </div>
+  );
+}
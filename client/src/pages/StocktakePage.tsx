@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Stocktake } from "@/lib/types";
+import { STOCKTAKE_STATUSES, USER_ROLES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { StocktakeLine, StocktakeSummary } from "@shared/stocktakes";
+import StocktakeCountForm from "@/components/stocktake/StocktakeCountForm";
+import VarianceReport from "@/components/stocktake/VarianceReport";
+import StocktakeReportDialog from "@/components/stocktake/StocktakeReportDialog";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircleIcon, ClipboardListIcon, Loader2, XIcon } from "lucide-react";
+
+export default function StocktakePage() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [notes, setNotes] = useState("");
+  const [reportStocktakeId, setReportStocktakeId] = useState<number | null>(null);
+
+  const isAdmin = user?.role === USER_ROLES.ADMIN;
+
+  // The stocktake being counted, with every item and its variance so far
+  const { data: currentData, isLoading: isCurrentLoading } = useQuery<{
+    stocktake: Stocktake | null;
+    lines: StocktakeLine[] | null;
+    summary: StocktakeSummary | null;
+  }>({
+    queryKey: ["/api/stocktakes/current"],
+  });
+  const stocktake = currentData?.stocktake;
+
+  const { data: historyData, isLoading: isHistoryLoading } = useQuery<{ stocktakes: Stocktake[] }>({
+    queryKey: ["/api/stocktakes"],
+  });
+
+  const invalidateStocktakes = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/stocktakes/current"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stocktakes"] });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || fallback,
+    });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/stocktakes", { notes: notes || null });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateStocktakes();
+      setNotes("");
+      toast({
+        title: "Stocktake Started",
+        description: "Count each category and save as you go.",
+      });
+    },
+    onError: onError("Failed to start the stocktake."),
+  });
+
+  const postMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/stocktakes/${id}/post`);
+      return res.json();
+    },
+    onSuccess: ({ stocktake: posted, lines, summary }: {
+      stocktake: Stocktake;
+      lines: StocktakeLine[];
+      summary: StocktakeSummary;
+    }) => {
+      invalidateStocktakes();
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      lines.filter(line => line.variance).forEach(line => {
+        queryClient.invalidateQueries({ queryKey: [`/api/inventory/${line.inventoryId}/movements`] });
+      });
+      setReportStocktakeId(posted.id);
+      toast({
+        title: "Stocktake Posted",
+        description: `${summary.varianceCount} item${summary.varianceCount === 1 ? "" : "s"} adjusted to the count.`,
+      });
+    },
+    onError: onError("Failed to post the stocktake."),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/stocktakes/${id}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateStocktakes();
+      toast({
+        title: "Stocktake Cancelled",
+        description: "No stock was adjusted.",
+      });
+    },
+    onError: onError("Failed to cancel the stocktake."),
+  });
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-900">Stocktake</h1>
+          <p className="text-neutral-500">Count what is on the shelves and correct stock to match</p>
+        </div>
+
+        {stocktake && isAdmin && (
+          <div className="mt-4 md:mt-0 flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (confirm("Cancel this stocktake? The counts will be kept but no stock will be adjusted.")) {
+                  cancelMutation.mutate(stocktake.id);
+                }
+              }}
+              disabled={cancelMutation.isPending || postMutation.isPending}
+            >
+              <XIcon className="mr-2 h-4 w-4" />
+              Cancel Stocktake
+            </Button>
+            <Button
+              onClick={() => {
+                const summary = currentData?.summary;
+                if (confirm(`Post this stocktake? Stock of the ${summary?.varianceCount || 0} items that differ will be adjusted to the count.`)) {
+                  postMutation.mutate(stocktake.id);
+                }
+              }}
+              disabled={postMutation.isPending || cancelMutation.isPending || !currentData?.summary?.countedCount}
+            >
+              {postMutation.isPending
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <CheckCircleIcon className="mr-2 h-4 w-4" />}
+              Post Adjustments
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isCurrentLoading ? (
+        <Skeleton className="h-40 w-full mb-6" />
+      ) : stocktake && currentData?.lines && currentData.summary ? (
+        <div className="mb-6">
+          <p className="text-sm text-neutral-500 mb-4">
+            Stocktake #{stocktake.id} started {formatDate(stocktake.startedAt, "MMM dd, HH:mm")}
+            {stocktake.notes && ` · ${stocktake.notes}`}
+            {!isAdmin && " · an administrator will review and post it"}
+          </p>
+          <Tabs defaultValue="count">
+            <TabsList className="mb-4">
+              <TabsTrigger value="count">Count</TabsTrigger>
+              <TabsTrigger value="review">Review Variance ({currentData.summary.varianceCount})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="count">
+              <StocktakeCountForm stocktakeId={stocktake.id} lines={currentData.lines} />
+            </TabsContent>
+            <TabsContent value="review">
+              <Card>
+                <CardContent className="pt-6">
+                  <VarianceReport stocktake={stocktake} lines={currentData.lines} summary={currentData.summary} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </div>
+      ) : (
+        <Card className="mb-6 max-w-lg">
+          <CardHeader>
+            <CardTitle>Start a Stocktake</CardTitle>
+            <CardDescription>
+              Stock keeps moving while you count; each item's system quantity is taken when it is counted.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g., October month-end count"
+              />
+            </div>
+            <Button onClick={() => startMutation.mutate()} disabled={startMutation.isPending}>
+              {startMutation.isPending
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <ClipboardListIcon className="mr-2 h-4 w-4" />}
+              Start Stocktake
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle>Stocktakes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isHistoryLoading ? (
+            <div className="space-y-4">
+              {Array(3).fill(0).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !historyData?.stocktakes.length ? (
+            <p className="text-center py-8 text-neutral-500">No stock has been counted yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stocktake</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {historyData.stocktakes.map(history => {
+                    const status = STOCKTAKE_STATUSES.find(entry => entry.value === history.status);
+                    return (
+                      <TableRow key={history.id}>
+                        <TableCell className="font-medium">#{history.id}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={`${status?.color || ""} rounded-full text-xs font-medium`}>
+                            {status?.label || history.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{formatDate(history.startedAt, "MMM dd, yyyy HH:mm")}</TableCell>
+                        <TableCell>{history.closedAt ? formatDate(history.closedAt, "MMM dd, yyyy HH:mm") : "-"}</TableCell>
+                        <TableCell className="max-w-xs truncate">{history.notes || "-"}</TableCell>
+                        <TableCell className="text-right">
+                          {history.status !== "counting" && (
+                            <Button variant="ghost" size="sm" onClick={() => setReportStocktakeId(history.id)}>
+                              Report
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <StocktakeReportDialog
+        stocktakeId={reportStocktakeId}
+        open={reportStocktakeId !== null}
+        onClose={() => setReportStocktakeId(null)}
+      />
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { User } from "@/lib/types";
 import { USER_ROLES } from "@/lib/constants";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { passwordSchema } from "@shared/schema";
+import ActiveSessionsCard from "@/components/users/ActiveSessionsCard";
 
 import {
   Table,
@@ -50,7 +52,7 @@ import { PlusIcon, SearchIcon } from "lucide-react";
 // Form schema for adding/editing users
 const userSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: passwordSchema,
   name: z.string().min(1, "Name is required"),
   role: z.string().min(1, "Role is required"),
 });
@@ -62,6 +64,7 @@ export default function UsersPage() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [roleFilter, setRoleFilter] = useState("all");
+  const [resetResult, setResetResult] = useState<{ user: User; temporaryPassword: string } | null>(null);
   
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -106,6 +109,26 @@ export default function UsersPage() {
     },
   });
   
+  // Reset password mutation
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const res = await apiRequest("POST", `/api/users/${user.id}/reset-password`);
+      const data = await res.json();
+      return { user, temporaryPassword: data.temporaryPassword as string };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setResetResult(result);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to reset password.",
+      });
+    },
+  });
+  
   // Handle form submission
   const onAddUser = (values: UserFormValues) => {
     addUserMutation.mutate(values);
@@ -245,7 +268,14 @@ export default function UsersPage() {
                             )}
                           </div>
                         </TableCell>
-                        <TableCell>{user.username}</TableCell>
+                        <TableCell>
+                          {user.username}
+                          {user.mustChangePassword && (
+                            <Badge variant="outline" className="ml-2 bg-amber-100 text-amber-800">
+                              Password reset
+                            </Badge>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <Badge 
                             variant="outline" 
@@ -267,13 +297,27 @@ export default function UsersPage() {
                         </TableCell>
                         <TableCell className="text-right">
                           {user.id !== currentUser?.id ? (
-                            <Button 
-                              variant="outline" 
-                              size="sm"
-                              disabled={true} // In a real app, this would open an edit dialog
-                            >
-                              Edit
-                            </Button>
+                            <div className="flex justify-end space-x-2">
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                disabled={resetPasswordMutation.isPending}
+                                onClick={() => {
+                                  if (confirm(`Reset the password for ${user.name}? They will have to choose a new one at next login.`)) {
+                                    resetPasswordMutation.mutate(user);
+                                  }
+                                }}
+                              >
+                                Reset Password
+                              </Button>
+                              <Button 
+                                variant="outline" 
+                                size="sm"
+                                disabled={true} // In a real app, this would open an edit dialog
+                              >
+                                Edit
+                              </Button>
+                            </div>
                           ) : (
                             <Badge variant="outline">Current User</Badge>
                           )}
@@ -288,6 +332,8 @@ export default function UsersPage() {
         </CardContent>
       </Card>
       
+      <ActiveSessionsCard users={data?.users || []} />
+      
       {/* Add User Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
         <DialogContent className="sm:max-w-md">
@@ -401,6 +447,31 @@ export default function UsersPage() {
           </Form>
         </DialogContent>
       </Dialog>
+      
+      {/* Temporary Password Dialog */}
+      <Dialog open={!!resetResult} onOpenChange={(open) => !open && setResetResult(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Password Reset</DialogTitle>
+          </DialogHeader>
+          
+          {resetResult && (
+            <div className="space-y-4">
+              <p className="text-sm text-neutral-600">
+                Give this temporary password to {resetResult.user.name}. It will not be shown again,
+                and they must change it when they next log in.
+              </p>
+              <div className="bg-neutral-50 rounded p-3 text-center font-mono text-lg tracking-wider">
+                {resetResult.temporaryPassword}
+              </div>
+            </div>
+          )}
+          
+          <DialogFooter>
+            <Button onClick={() => setResetResult(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,134 @@
+import type { Request, Response, NextFunction } from "express";
+import type { IStorage } from "./storage";
+import { parseLocalDate } from "./reports";
+
+export interface AuditEventFilter {
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  actorId?: number;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+export interface AuditOptions {
+  action: string;
+  entityType: string;
+  // Loads the entity named by the route's `:id` for the before/after snapshots
+  load?: (id: number) => Promise<unknown>;
+}
+
+const DEFAULT_AUDIT_LIMIT = 200;
+const MAX_AUDIT_LIMIT = 1000;
+
+// Never copy credentials into the audit log
+const REDACTED_KEYS = ["password", "temporaryPassword"];
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (!value || typeof value !== "object" || value instanceof Date) return value ?? null;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = REDACTED_KEYS.includes(key) ? "[redacted]" : redact(entry);
+  }
+  return result;
+}
+
+// Response bodies wrap the entity, e.g. { order } or { service }
+function findEntityId(body: unknown): string | null {
+  if (!body || typeof body !== "object") return null;
+  for (const value of Object.values(body)) {
+    if (value && typeof value === "object" && "id" in value) {
+      return String((value as { id: unknown }).id);
+    }
+  }
+  return null;
+}
+
+/**
+ * Middleware that records an audit event for a mutating route. The entity
+ * is snapshotted before the handler runs and again once the response has
+ * been sent; routes without a loader (creates) use the response body as the
+ * after snapshot. Failed requests are not recorded.
+ */
+export function audit(storage: IStorage, options: AuditOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const id = req.params.id !== undefined ? parseInt(req.params.id) : undefined;
+    const actor = req.user as any;
+
+    let before: unknown = null;
+    try {
+      if (options.load && id !== undefined && !isNaN(id)) {
+        before = await options.load(id);
+      }
+    } catch (err) {
+      console.error("Audit snapshot failed:", err);
+    }
+
+    let responseBody: unknown;
+    const originalJson = res.json;
+    res.json = function (body) {
+      responseBody = body;
+      return originalJson.call(this, body);
+    };
+
+    res.on("finish", async () => {
+      if (res.statusCode >= 400) return;
+
+      try {
+        const after = options.load && id !== undefined && !isNaN(id)
+          ? await options.load(id)
+          : responseBody;
+
+        await storage.createAuditEvent({
+          action: options.action,
+          entityType: options.entityType,
+          entityId: id !== undefined && !isNaN(id) ? String(id) : findEntityId(responseBody),
+          actorId: actor?.id ?? null,
+          actorName: actor?.name ?? null,
+          method: req.method,
+          path: req.originalUrl,
+          ipAddress: req.ip ?? null,
+          before: redact(before ?? null) as any,
+          after: redact(after ?? null) as any,
+        });
+      } catch (err) {
+        console.error("Failed to record audit event:", err);
+      }
+    });
+
+    next();
+  };
+}
+
+/**
+ * Parse audit viewer filters from a query string (dates as YYYY-MM-DD)
+ */
+export function parseAuditFilter(query: Record<string, unknown>): AuditEventFilter {
+  const text = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+  const date = (value: unknown) => {
+    const parsed = text(value) ? parseLocalDate(value as string) : undefined;
+    return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+  };
+
+  const actorId = parseInt(String(query.actorId));
+  const limit = parseInt(String(query.limit));
+
+  // Both ends are whole days, as in report ranges
+  const from = date(query.from);
+  const to = date(query.to);
+  from?.setHours(0, 0, 0, 0);
+  to?.setHours(23, 59, 59, 999);
+
+  return {
+    entityType: text(query.entityType),
+    entityId: text(query.entityId),
+    action: text(query.action),
+    actorId: isNaN(actorId) ? undefined : actorId,
+    from,
+    to,
+    limit: isNaN(limit) ? DEFAULT_AUDIT_LIMIT : Math.min(Math.max(limit, 1), MAX_AUDIT_LIMIT),
+  };
+}
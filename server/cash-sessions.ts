@@ -0,0 +1,142 @@
+import type { IStorage } from "./storage";
+import type { CashSession, InsertCashMovement, Order, OrderReversal } from "@shared/schema";
+import { roundPrice } from "@shared/pricing";
+import type { ReversalType } from "@shared/reversals";
+import { countCash, getCashRefundAmount, type CashReading, type CashReadingType, type DenominationCount } from "@shared/cash-sessions";
+
+// What closing a session records
+export type CashSessionClosing = Pick<
+  CashSession,
+  "closedBy" | "denominations" | "countedCash" | "expectedCash" | "variance" | "closingNotes" | "zReading"
+>;
+
+/**
+ * Tenders that need an open drawer: cash goes into the drawer, so it cannot
+ * be taken while no session is open to account for it
+ */
+export function getCashSessionErrors(session: CashSession | undefined, tenders: { method: string }[]): string[] {
+  if (!session && tenders.some(tender => tender.method === "cash")) {
+    return ["Open the cash drawer before taking cash payments"];
+  }
+  return [];
+}
+
+const REVERSAL_MOVEMENT_LABELS: Record<ReversalType, string> = {
+  cancel: "Cancellation",
+  void: "Void",
+  refund: "Refund",
+};
+
+/**
+ * The cash a reversal hands back out of the drawer, as a movement for the
+ * open session; whatever was not paid in cash goes back the way it was paid.
+ */
+export async function getReversalCashRefund(
+  storage: IStorage,
+  order: Order,
+  reversal: Pick<OrderReversal, "type" | "amount">,
+  session: CashSession | undefined,
+  createdBy: number,
+): Promise<{ movement: InsertCashMovement | null; errors: string[] }> {
+  const [payments, returned] = await Promise.all([
+    storage.getOrderPayments(order.id),
+    storage.getOrderCashRefunds(order.id),
+  ]);
+  const amount = getCashRefundAmount(reversal, payments, returned, session?.id);
+  if (amount <= 0) return { movement: null, errors: [] };
+  if (!session) return { movement: null, errors: ["Open the cash drawer before handing back cash"] };
+
+  return {
+    movement: {
+      sessionId: session.id,
+      type: "cash_out",
+      amount,
+      reason: `${REVERSAL_MOVEMENT_LABELS[reversal.type as ReversalType]} of ${order.orderNumber}`,
+      createdBy,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Read a session's takings by payment method and cashier, the cash moved
+ * in and out of the drawer and the cash it should hold. A Z-reading also
+ * carries the closing count and its variance.
+ */
+export async function buildCashReading(
+  storage: IStorage,
+  session: CashSession,
+  type: CashReadingType,
+  count?: DenominationCount,
+): Promise<CashReading> {
+  const [sessionPayments, movements, users, voided] = await Promise.all([
+    storage.getCashSessionPayments(session.id),
+    storage.getCashMovements(session.id),
+    storage.getUsers(),
+    storage.getOrders("voided"),
+  ]);
+  // A voided sale never happened, so its tenders are left out of the takings
+  const voidedIds = new Set(voided.map(order => order.id));
+  const payments = sessionPayments.filter(payment => !voidedIds.has(payment.orderId));
+  const userName = (id: number | null) =>
+    users.find(user => user.id === id)?.name || (id ? `User #${id}` : "");
+
+  const byMethod = new Map<string, { method: string; count: number; amount: number }>();
+  const byCashier = new Map<number, CashReading["byCashier"][number]>();
+  for (const payment of payments) {
+    const method = byMethod.get(payment.method) || { method: payment.method, count: 0, amount: 0 };
+    method.count += 1;
+    method.amount = roundPrice(method.amount + payment.amount);
+    byMethod.set(payment.method, method);
+
+    const cashier = byCashier.get(payment.receivedBy) ||
+      { userId: payment.receivedBy, name: userName(payment.receivedBy), count: 0, cash: 0, total: 0 };
+    cashier.count += 1;
+    cashier.total = roundPrice(cashier.total + payment.amount);
+    if (payment.method === "cash") {
+      cashier.cash = roundPrice(cashier.cash + payment.amount);
+    }
+    byCashier.set(payment.receivedBy, cashier);
+  }
+
+  const sum = (amounts: number[]) => roundPrice(amounts.reduce((total, amount) => total + amount, 0));
+  const cashPayments = byMethod.get("cash")?.amount || 0;
+  const cashIn = sum(movements.filter(movement => movement.type === "cash_in").map(movement => movement.amount));
+  const cashOut = sum(movements.filter(movement => movement.type === "cash_out").map(movement => movement.amount));
+  const paidOuts = sum(movements.filter(movement => movement.expenseId !== null).map(movement => movement.amount));
+  const refunds = sum(movements.filter(movement => movement.reversalId !== null).map(movement => movement.amount));
+  const expectedCash = roundPrice(session.openingFloat + cashPayments + cashIn - cashOut);
+  const countedCash = count ? countCash(count) : null;
+
+  return {
+    type,
+    sessionId: session.id,
+    generatedAt: new Date().toISOString(),
+    openedAt: session.openedAt ? session.openedAt.toISOString() : null,
+    openedByName: userName(session.openedBy),
+    closedAt: session.closedAt ? session.closedAt.toISOString() : null,
+    closedByName: session.closedBy ? userName(session.closedBy) : null,
+    openingFloat: session.openingFloat,
+    byMethod: Array.from(byMethod.values()).sort((a, b) => b.amount - a.amount),
+    byCashier: Array.from(byCashier.values()).sort((a, b) => b.total - a.total),
+    totalPayments: sum(payments.map(payment => payment.amount)),
+    cashPayments,
+    cashIn,
+    cashOut,
+    paidOuts,
+    refunds,
+    movements: movements.map(movement => ({
+      type: movement.type as CashReading["movements"][number]["type"],
+      amount: movement.amount,
+      reason: movement.reason,
+      expenseId: movement.expenseId,
+      reversalId: movement.reversalId,
+      createdByName: userName(movement.createdBy),
+      createdAt: movement.createdAt ? movement.createdAt.toISOString() : null,
+    })),
+    expectedCash,
+    countedCash,
+    variance: countedCash === null ? null : roundPrice(countedCash - expectedCash),
+    denominations: count || null,
+  };
+}
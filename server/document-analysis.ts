@@ -0,0 +1,80 @@
+import { detectPaperSize, summarizePages, type FileAnalysis, type PageAnalysis } from "@shared/documents";
+
+// File types the renderer can open; Word documents are not among them
+export const ANALYZABLE_TYPES = ["application/pdf", "image/png", "image/jpeg"];
+
+// Pages are rendered at 36 dpi: enough to see colour, cheap enough for long documents
+const RENDER_SCALE = 0.5;
+
+// A pixel counts as coloured when its channels differ by more than this (0-255)
+const CHROMA_THRESHOLD = 40;
+
+// A page is colour once this share of its pixels is coloured; below it, scanner
+// noise and anti-aliasing on black text would tip grayscale pages into colour
+const COLOR_PIXEL_RATIO = 0.002;
+
+/**
+ * Share of an RGB pixmap's pixels whose channels differ enough to read as colour
+ */
+function colorPixelRatio(pixels: Uint8ClampedArray, width: number, height: number, stride: number): number {
+  let colored = 0;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    for (let x = 0; x < width; x++) {
+      const offset = row + x * 3;
+      const r = pixels[offset];
+      const g = pixels[offset + 1];
+      const b = pixels[offset + 2];
+      if (Math.max(r, g, b) - Math.min(r, g, b) > CHROMA_THRESHOLD) {
+        colored++;
+      }
+    }
+  }
+
+  return width * height > 0 ? colored / (width * height) : 0;
+}
+
+/**
+ * Count a document's pages, measure each one and classify it as colour or
+ * grayscale by rendering it and measuring pixel chroma. Throws when the
+ * file cannot be opened.
+ */
+export async function analyzeDocument(contents: Buffer, mimeType: string): Promise<FileAnalysis> {
+  // The renderer is WebAssembly; load it only when a document is first analyzed
+  const mupdf = await import("mupdf");
+  const document = mupdf.Document.openDocument(contents, mimeType);
+  const pages: PageAnalysis[] = [];
+
+  try {
+    if (document.needsPassword()) {
+      throw new Error("Document is password protected");
+    }
+
+    const pageCount = document.countPages();
+    for (let index = 0; index < pageCount; index++) {
+      const page = document.loadPage(index);
+      const [x0, y0, x1, y1] = page.getBounds();
+      const pixmap = page.toPixmap(mupdf.Matrix.scale(RENDER_SCALE, RENDER_SCALE), mupdf.ColorSpace.DeviceRGB, false);
+
+      const ratio = colorPixelRatio(pixmap.getPixels(), pixmap.getWidth(), pixmap.getHeight(), pixmap.getStride());
+      const width = Math.round(x1 - x0);
+      const height = Math.round(y1 - y0);
+
+      pages.push({
+        page: index + 1,
+        width,
+        height,
+        paperSize: detectPaperSize(width, height),
+        color: ratio > COLOR_PIXEL_RATIO,
+      });
+
+      pixmap.destroy();
+      page.destroy();
+    }
+  } finally {
+    document.destroy();
+  }
+
+  return summarizePages(pages);
+}
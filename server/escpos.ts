@@ -0,0 +1,183 @@
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Rows sent per raster command; large images in one command overflow the
+// input buffer of cheaper printers
+const RASTER_BAND_ROWS = 128;
+
+export type Alignment = "left" | "center" | "right";
+
+const ALIGNMENTS: Record<Alignment, number> = { left: 0, center: 1, right: 2 };
+
+// A 1-bit image, one byte per 8 horizontal dots, most significant bit first
+export interface RasterImage {
+  width: number; // dots, a multiple of 8
+  height: number;
+  data: Buffer;
+}
+
+/**
+ * Builds an ESC/POS job for a thermal receipt printer. Text is sent in the
+ * printer's default code page (PC437), so anything outside plain ASCII is
+ * transliterated or replaced.
+ */
+export class EscPosBuilder {
+  private chunks: Buffer[] = [];
+
+  constructor(public readonly columns: number) {
+    this.raw([ESC, 0x40]); // Reset
+    this.raw([ESC, 0x74, 0]); // PC437
+  }
+
+  private raw(bytes: number[] | Buffer): this {
+    this.chunks.push(Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes));
+    return this;
+  }
+
+  align(alignment: Alignment): this {
+    return this.raw([ESC, 0x61, ALIGNMENTS[alignment]]);
+  }
+
+  bold(on: boolean): this {
+    return this.raw([ESC, 0x45, on ? 1 : 0]);
+  }
+
+  // Double width and height, for the shop name and the total
+  large(on: boolean): this {
+    return this.raw([GS, 0x21, on ? 0x11 : 0x00]);
+  }
+
+  text(value: string): this {
+    return this.raw(Buffer.from(toPrintable(value), "ascii"));
+  }
+
+  line(value = ""): this {
+    return this.text(value).raw([LF]);
+  }
+
+  // Text wrapped at the line width, breaking between words where possible
+  wrapped(value: string, columns = this.columns): this {
+    for (const each of wrapText(toPrintable(value), columns)) {
+      this.line(each);
+    }
+    return this;
+  }
+
+  // Label on the left and value on the right of one line. The label gives up
+  // at most half the line; a value too long for the rest is wrapped below it.
+  pair(left: string, right: string, columns = this.columns): this {
+    const [name, value] = [toPrintable(left), toPrintable(right)];
+    const room = columns - value.length - 1;
+    if (room < Math.min(name.length, Math.floor(columns / 2))) {
+      if (name) this.line(name.slice(0, columns));
+      return this.wrapped(value, columns);
+    }
+
+    const label = name.length > room ? name.slice(0, room) : name;
+    return this.line(label + " ".repeat(Math.max(1, columns - label.length - value.length)) + value);
+  }
+
+  divider(character = "-"): this {
+    return this.line(character.repeat(this.columns));
+  }
+
+  feed(lines = 1): this {
+    return this.raw([ESC, 0x64, lines]);
+  }
+
+  image(image: RasterImage): this {
+    const bytesPerRow = image.width / 8;
+
+    for (let top = 0; top < image.height; top += RASTER_BAND_ROWS) {
+      const rows = Math.min(RASTER_BAND_ROWS, image.height - top);
+      this.raw([GS, 0x76, 0x30, 0, bytesPerRow & 0xff, bytesPerRow >> 8, rows & 0xff, rows >> 8]);
+      this.raw(image.data.subarray(top * bytesPerRow, (top + rows) * bytesPerRow));
+    }
+    return this;
+  }
+
+  // Printed by the printer's own QR encoder (model 2, error correction M)
+  qrCode(value: string, moduleSize = 6): this {
+    const data = Buffer.from(toPrintable(value), "ascii");
+    const length = data.length + 3;
+
+    this.raw([GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0]);
+    this.raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, moduleSize]);
+    this.raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31]);
+    this.raw([GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30]);
+    this.raw(data);
+    return this.raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30]);
+  }
+
+  // Feed past the cutter and make a partial cut
+  cut(): this {
+    return this.raw([GS, 0x56, 0x42, 3]);
+  }
+
+  build(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+// Strip accents (e.g. "Peña" prints as "Pena") and replace what PC437 cannot show
+function toPrintable(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\u20b1/g, "P")
+    .replace(/[^\x20-\x7e\n]/g, "?");
+}
+
+function wrapText(value: string, columns: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of value.split("\n")) {
+    let current = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (current && current.length + 1 + word.length > columns) {
+        lines.push(current);
+        current = "";
+      }
+      let rest = word;
+      while (rest.length > columns) {
+        lines.push(rest.slice(0, columns));
+        rest = rest.slice(columns);
+      }
+      current = current ? `${current} ${rest}` : rest;
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Convert an 8-bit grayscale image (0 black, 255 white) to a 1-bit raster
+ * with Floyd-Steinberg dithering, padding each row to a whole byte
+ */
+export function ditherToRaster(gray: Float32Array, width: number, height: number): RasterImage {
+  const paddedWidth = Math.ceil(width / 8) * 8;
+  const data = Buffer.alloc((paddedWidth / 8) * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const value = gray[index];
+      const black = value < 128;
+      const error = value - (black ? 0 : 255);
+
+      if (black) {
+        data[y * (paddedWidth / 8) + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+      if (x + 1 < width) gray[index + 1] += error * 7 / 16;
+      if (y + 1 < height) {
+        if (x > 0) gray[index + width - 1] += error * 3 / 16;
+        gray[index + width] += error * 5 / 16;
+        if (x + 1 < width) gray[index + width + 1] += error / 16;
+      }
+    }
+  }
+
+  return { width: paddedWidth, height, data };
+}
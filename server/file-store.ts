@@ -0,0 +1,72 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { pipeline } from "stream/promises";
+import type { Readable } from "stream";
+
+/**
+ * Where customer file contents are kept. Files are addressed by the SHA-256
+ * of their contents, so the same artwork uploaded twice is stored once and
+ * a driver never has to handle renames or overwrites.
+ */
+export interface FileStoreDriver {
+  write(sha256: string, contents: Readable): Promise<void>;
+  read(sha256: string): Promise<Readable | null>;
+  remove(sha256: string): Promise<void>;
+}
+
+/**
+ * Stores files on local disk, fanned out by hash prefix
+ * (e.g. uploads/ab/cd/abcd1234...) to keep directories small.
+ */
+export class LocalDiskDriver implements FileStoreDriver {
+  constructor(private root: string) {}
+
+  private pathFor(sha256: string): string {
+    if (!/^[0-9a-f]{64}$/.test(sha256)) {
+      throw new Error(`Invalid file hash "${sha256}"`);
+    }
+    return path.join(this.root, sha256.slice(0, 2), sha256.slice(2, 4), sha256);
+  }
+
+  async write(sha256: string, contents: Readable): Promise<void> {
+    const target = this.pathFor(sha256);
+    if (fs.existsSync(target)) {
+      contents.resume();
+      return;
+    }
+
+    // Write beside the target and rename so a half-written file is never served
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    const partial = `${target}.${crypto.randomBytes(6).toString("hex")}.partial`;
+    try {
+      await pipeline(contents, fs.createWriteStream(partial));
+      await fs.promises.rename(partial, target);
+    } catch (err) {
+      await fs.promises.rm(partial, { force: true });
+      throw err;
+    }
+  }
+
+  async read(sha256: string): Promise<Readable | null> {
+    const target = this.pathFor(sha256);
+    return fs.existsSync(target) ? fs.createReadStream(target) : null;
+  }
+
+  async remove(sha256: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(sha256), { force: true });
+  }
+}
+
+function createFileStore(): FileStoreDriver {
+  const driver = process.env.FILE_STORE_DRIVER || "local";
+
+  switch (driver) {
+    case "local":
+      return new LocalDiskDriver(path.resolve(process.env.FILE_STORE_DIR || "uploads"));
+    default:
+      throw new Error(`Unknown FILE_STORE_DRIVER "${driver}"`);
+  }
+}
+
+export const fileStore = createFileStore();
@@ -0,0 +1,219 @@
+import fs from "fs";
+import crypto from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { IStorage } from "./storage";
+import type { OrderFile } from "@shared/schema";
+import type { FileAnalysis } from "@shared/documents";
+import { fileStore } from "./file-store";
+import { analyzeDocument, ANALYZABLE_TYPES } from "./document-analysis";
+
+// Largest customer file accepted by the upload endpoint
+export const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+// Files are kept this many days after their order is completed, cancelled, voided or refunded
+export const FILE_RETENTION_DAYS = Number(process.env.FILE_RETENTION_DAYS) || 30;
+
+// Uploads never attached to an order (e.g. an abandoned cart) are kept a day
+const UNATTACHED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Largest file the document analyzer will load into memory
+const MAX_ANALYSIS_BYTES = 100 * 1024 * 1024;
+
+// Types a browser can show safely inline; anything else is only downloaded
+const PREVIEWABLE_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/gif", "image/webp"];
+
+export interface UploadedFile {
+  path: string;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+export function isPreviewable(file: OrderFile): boolean {
+  return PREVIEWABLE_TYPES.includes(file.mimeType);
+}
+
+// Stores and purges of the same contents, one at a time per hash (the server runs as a single process)
+const contentLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a task while no other store or purge of the same contents is under
+ * way, so a purge never removes a blob that a new record has just claimed
+ */
+async function withContentLock<T>(sha256: string, task: () => Promise<T>): Promise<T> {
+  const run = (contentLocks.get(sha256) || Promise.resolve()).catch(() => undefined).then(task);
+  contentLocks.set(sha256, run);
+  try {
+    return await run;
+  } finally {
+    if (contentLocks.get(sha256) === run) contentLocks.delete(sha256);
+  }
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest("hex");
+}
+
+/**
+ * Move an upload from multer's temp directory into the file store and
+ * record it. The file stays unattached until an order item claims it.
+ */
+export async function storeUploadedFile(
+  storage: IStorage,
+  upload: UploadedFile,
+  uploadedBy: number
+): Promise<OrderFile> {
+  try {
+    const sha256 = await hashFile(upload.path);
+    return await withContentLock(sha256, async () => {
+      await fileStore.write(sha256, fs.createReadStream(upload.path));
+      return await storage.createOrderFile({
+        sha256,
+        originalName: upload.originalname,
+        mimeType: upload.mimetype || "application/octet-stream",
+        size: upload.size,
+        uploadedBy
+      });
+    });
+  } finally {
+    await fs.promises.rm(upload.path, { force: true });
+  }
+}
+
+export function isAnalyzable(file: OrderFile): boolean {
+  return ANALYZABLE_TYPES.includes(file.mimeType) && file.size <= MAX_ANALYSIS_BYTES;
+}
+
+/**
+ * Load a stored file into memory for the renderer; null once purged
+ */
+export async function readFileContents(file: OrderFile): Promise<Buffer | null> {
+  if (file.purgedAt) return null;
+
+  const stream = await fileStore.read(file.sha256);
+  if (!stream) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Page count and colour analysis of a stored file. The result is saved on
+ * the file so each upload is only rendered once; null when the file cannot
+ * be analyzed (e.g. a Word document, or contents already purged).
+ */
+export async function analyzeOrderFile(storage: IStorage, file: OrderFile): Promise<FileAnalysis | null> {
+  if (file.analysis) return file.analysis as FileAnalysis;
+  if (!isAnalyzable(file)) return null;
+
+  const contents = await readFileContents(file);
+  if (!contents) return null;
+
+  const analysis = await analyzeDocument(contents, file.mimeType);
+  await storage.setOrderFileAnalysis(file.id, analysis);
+  return analysis;
+}
+
+/**
+ * Check the files referenced by submitted order items before anything is
+ * written; problems are listed in the returned errors.
+ */
+export async function validateOrderItemFiles(
+  storage: IStorage,
+  items: { specifications?: any }[]
+): Promise<string[]> {
+  const errors: string[] = [];
+  const claimed = new Set<number>();
+
+  for (let index = 0; index < items.length; index++) {
+    const specifications = items[index].specifications || {};
+
+    if (specifications.fileData) {
+      errors.push(`Item ${index + 1}: upload the file instead of embedding it in the order`);
+      continue;
+    }
+    if (specifications.fileId === undefined || specifications.fileId === null) continue;
+
+    const file = await storage.getOrderFile(Number(specifications.fileId));
+    if (!file || file.purgedAt) {
+      errors.push(`Item ${index + 1}: file ${specifications.fileId} not found`);
+    } else if (file.orderItemId !== null || claimed.has(file.id)) {
+      errors.push(`Item ${index + 1}: file ${file.originalName} already belongs to an order`);
+    } else {
+      claimed.add(file.id);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Remove the contents of files past the retention period. A file's record
+ * is kept (marked purged) so order history still shows what was supplied;
+ * shared contents are only deleted once no live record points at them.
+ */
+export async function purgeExpiredFiles(storage: IStorage, now: Date = new Date()): Promise<number> {
+  const closedBefore = new Date(now.getTime() - FILE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const uploadedBefore = new Date(now.getTime() - UNATTACHED_RETENTION_MS);
+  const expired = await storage.getExpiredOrderFiles(closedBefore, uploadedBefore);
+
+  for (const file of expired) {
+    await withContentLock(file.sha256, async () => {
+      await storage.markOrderFilePurged(file.id);
+      if (!(await storage.isFileContentInUse(file.sha256))) {
+        await fileStore.remove(file.sha256);
+      }
+    });
+  }
+
+  return expired.length;
+}
+
+/**
+ * One-time migration: move files embedded in order item specifications as
+ * base64 data URLs into the file store, leaving a `fileId` in their place.
+ * Anything that cannot be read as a data URL is left on its item untouched
+ * and counted as skipped, so no customer file is thrown away.
+ */
+export async function migrateInlineFiles(storage: IStorage): Promise<{ moved: number; skipped: number }> {
+  const items = await storage.getOrderItemsWithInlineFiles();
+  let skipped = 0;
+
+  for (const item of items) {
+    const { fileData, ...specifications } = item.specifications as Record<string, any>;
+    const match = /^data:([^;,]*)(;base64)?,([\s\S]*)$/.exec(String(fileData));
+    const order = await storage.getOrder(item.orderId);
+
+    if (!match || !order) {
+      skipped++;
+      continue;
+    }
+
+    const contents = match[2]
+      ? Buffer.from(match[3], "base64")
+      : Buffer.from(decodeURIComponent(match[3]));
+    const sha256 = crypto.createHash("sha256").update(contents).digest("hex");
+    const file = await withContentLock(sha256, async () => {
+      await fileStore.write(sha256, Readable.from(contents));
+      return await storage.createOrderFile({
+        orderItemId: item.id,
+        sha256,
+        originalName: specifications.fileName || `order-item-${item.id}`,
+        mimeType: match[1] || "application/octet-stream",
+        size: contents.length,
+        uploadedBy: order.createdBy,
+        createdAt: order.createdAt
+      });
+    });
+
+    await storage.updateOrderItemSpecifications(item.id, { ...specifications, fileId: file.id });
+  }
+
+  return { moved: items.length - skipped, skipped };
+}
@@ -3,12 +3,24 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { db } from "./db";
+import { storage } from "./storage";
+import { migratePlaintextPasswords } from "./passwords";
+import { backfillOrderPayments } from "./payments";
+import { migrateInlineFiles, purgeExpiredFiles } from "./files";
+import { backfillProductionStages } from "./production";
+import { dispatchNotifications } from "./notifications";
 import "./seed";
 
+// How often expired customer files are purged
+const FILE_PURGE_INTERVAL = 6 * 60 * 60 * 1000;
+
+// How often queued customer notifications are sent
+const NOTIFICATION_DISPATCH_INTERVAL = 30 * 1000;
+
 const app = express();
-// Increase JSON payload limit to 50MB for file uploads
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: false, limit: '50mb' }));
+// Customer files are uploaded separately, so request bodies stay small
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -41,6 +53,61 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  const migrated = await migratePlaintextPasswords(storage);
+  if (migrated > 0) {
+    log(`hashed ${migrated} plaintext password(s)`);
+  }
+  
+  const backfilled = await backfillOrderPayments(storage);
+  if (backfilled > 0) {
+    log(`recorded payments for ${backfilled} paid order(s)`);
+  }
+  
+  const { moved, skipped } = await migrateInlineFiles(storage);
+  if (moved > 0) {
+    log(`moved ${moved} embedded file(s) into the file store`);
+  }
+  if (skipped > 0) {
+    log(`left ${skipped} embedded file(s) that are not data URLs on their order items`);
+  }
+  
+  const staged = await backfillProductionStages(storage);
+  if (staged > 0) {
+    log(`moved ${staged} item(s) of finished orders to done`);
+  }
+  
+  // Apply the file retention policy now and every few hours after
+  const purgeFiles = async () => {
+    try {
+      const purged = await purgeExpiredFiles(storage);
+      if (purged > 0) {
+        log(`purged ${purged} expired file(s)`);
+      }
+    } catch (err) {
+      log(`file purge failed: ${(err as Error).message}`);
+    }
+  };
+  await purgeFiles();
+  setInterval(purgeFiles, FILE_PURGE_INTERVAL).unref();
+  
+  // Send queued notifications; a slow run is never overlapped, so nothing is sent twice
+  let dispatching = false;
+  const sendNotifications = async () => {
+    if (dispatching) return;
+    dispatching = true;
+    try {
+      const { sent, failed } = await dispatchNotifications(storage);
+      if (sent > 0 || failed > 0) {
+        log(`sent ${sent} notification(s), ${failed} failed`);
+      }
+    } catch (err) {
+      log(`notification dispatch failed: ${(err as Error).message}`);
+    } finally {
+      dispatching = false;
+    }
+  };
+  setInterval(sendNotifications, NOTIFICATION_DISPATCH_INTERVAL).unref();
+  
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
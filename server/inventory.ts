@@ -0,0 +1,37 @@
+import type { IStorage } from "./storage";
+import type { InventoryMovement } from "@shared/schema";
+
+export interface InventoryMovementDetails extends InventoryMovement {
+  createdByName: string | null;
+  orderNumber: string | null;
+  transferItemName: string | null;
+}
+
+/**
+ * Add who recorded each movement and what it refers to, for the stock history
+ */
+export async function describeMovements(
+  storage: IStorage,
+  movements: InventoryMovement[],
+): Promise<InventoryMovementDetails[]> {
+  const [users, items] = await Promise.all([storage.getUsers(), storage.getAllInventory()]);
+
+  const orderIds = Array.from(new Set(movements.map(movement => movement.orderId).filter((id): id is number => id !== null)));
+  const orders = await Promise.all(orderIds.map(id => storage.getOrder(id)));
+
+  return movements.map(movement => ({
+    ...movement,
+    createdByName: users.find(user => user.id === movement.createdBy)?.name || null,
+    orderNumber: orders.find(order => order?.id === movement.orderId)?.orderNumber || null,
+    transferItemName: items.find(item => item.id === movement.transferInventoryId)?.name || null,
+  }));
+}
+
+/**
+ * Unit cost of the item's most recent priced receipt, or null when it has
+ * never been received at a price
+ */
+export async function getLastUnitCost(storage: IStorage, inventoryId: number): Promise<number | null> {
+  const movements = await storage.getInventoryMovements(inventoryId, 50);
+  return movements.find(movement => movement.type === "receipt" && movement.unitCost !== null)?.unitCost ?? null;
+}
@@ -0,0 +1,327 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import type { IStorage } from "./storage";
+import type { Order, OrderDocument } from "@shared/schema";
+import { getBalanceDue } from "@shared/payments";
+import { getOrderSubtotal, hasVatBreakdown } from "@shared/tax";
+import {
+  BUSINESS_SETTINGS_KEY, DEFAULT_BUSINESS_SETTINGS, ORDER_DOCUMENT_TITLES,
+  businessSettingsSchema, type BusinessSettings, type OrderDocumentSnapshot, type OrderDocumentType
+} from "@shared/invoices";
+
+// A4 portrait, in PDF points
+const PAGE_SIZE: [number, number] = [595.28, 841.89];
+const MARGIN = 50;
+
+// Right edges of the line item columns
+const QUANTITY_RIGHT = 370;
+const UNIT_PRICE_RIGHT = 460;
+const AMOUNT_RIGHT = PAGE_SIZE[0] - MARGIN;
+const DESCRIPTION_WIDTH = 260;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.75, 0.75, 0.75);
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: string | Date | null) =>
+  value ? new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }) : "N/A";
+
+/**
+ * The saved business details, with defaults for anything not set yet
+ */
+export async function getBusinessSettings(storage: IStorage): Promise<BusinessSettings> {
+  const setting = await storage.getSetting(BUSINESS_SETTINGS_KEY);
+  if (!setting) return DEFAULT_BUSINESS_SETTINGS;
+
+  const parsed = businessSettingsSchema.safeParse(setting.value);
+  return parsed.success ? parsed.data : DEFAULT_BUSINESS_SETTINGS;
+}
+
+/**
+ * Collect what an invoice or official receipt for the order shows, as it
+ * stands now
+ */
+export async function buildDocumentSnapshot(storage: IStorage, order: Order): Promise<OrderDocumentSnapshot> {
+  const [business, items, payments, customer] = await Promise.all([
+    getBusinessSettings(storage),
+    storage.getOrderItems(order.id),
+    storage.getOrderPayments(order.id),
+    order.customerId ? storage.getCustomer(order.customerId) : Promise.resolve(undefined),
+  ]);
+
+  return {
+    business,
+    customer: {
+      name: customer?.name || order.customerName || "Walk-in Customer",
+      address: customer?.address || null,
+      phone: customer?.phone || null,
+      email: customer?.email || null,
+    },
+    order: {
+      orderNumber: order.orderNumber,
+      createdAt: order.createdAt ? order.createdAt.toISOString() : null,
+      subtotal: getOrderSubtotal(order),
+      discount: order.discount || 0,
+      tax: order.vatAmount || 0,
+      vatableSales: order.vatableSales || 0,
+      exemptSales: order.exemptSales || 0,
+      vatInclusive: order.vatInclusive !== false,
+      total: order.total,
+      amountPaid: order.amountPaid || 0,
+      balanceDue: getBalanceDue(order),
+    },
+    lines: items.map(item => {
+      const specifications = (item.specifications || {}) as { serviceName?: string; description?: string; notes?: string };
+      const details = [specifications.description, specifications.notes].filter(Boolean).join(" - ");
+      return {
+        description: specifications.serviceName || `Service #${item.serviceId}`,
+        details: details || null,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        amount: item.amount,
+      };
+    }),
+    payments: payments.map(payment => ({
+      method: payment.method,
+      referenceNumber: payment.referenceNumber,
+      amount: payment.amount,
+      receivedAt: payment.createdAt ? payment.createdAt.toISOString() : null,
+    })),
+  };
+}
+
+// The standard fonts only cover WinAnsi; transliterate or replace the rest
+function toWinAnsi(value: string): string {
+  return value
+    .replace(/\u20b1/g, "PHP ")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+function wrapText(value: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of value.split(/\r?\n/).map(toWinAnsi)) {
+    let current = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Lays text out top to bottom, starting a new page when one fills up
+ */
+class PdfWriter {
+  page: PDFPage;
+  y: number;
+
+  constructor(private pdf: PDFDocument, public font: PDFFont, public bold: PDFFont, public onNewPage: () => void = () => {}) {
+    this.page = pdf.addPage(PAGE_SIZE);
+    this.y = PAGE_SIZE[1] - MARGIN;
+  }
+
+  // Start a new page unless the next `height` points fit on this one
+  ensureRoom(height: number) {
+    if (this.y - height >= MARGIN) return;
+    this.page = this.pdf.addPage(PAGE_SIZE);
+    this.y = PAGE_SIZE[1] - MARGIN;
+    this.onNewPage();
+  }
+
+  text(value: string, x: number, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; align?: "left" | "right" } = {}) {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.bold : this.font;
+    const text = toWinAnsi(value);
+    const left = options.align === "right" ? x - font.widthOfTextAtSize(text, size) : x;
+    this.page.drawText(text, { x: left, y: this.y - size, size, font, color: options.color ?? TEXT_COLOR });
+  }
+
+  rule() {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_SIZE[0] - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    });
+  }
+}
+
+/**
+ * Render an issued invoice or official receipt as a PDF, from the snapshot
+ * taken when it was issued
+ */
+export async function renderDocumentPdf(document: OrderDocument): Promise<Buffer> {
+  const snapshot = document.snapshot as OrderDocumentSnapshot;
+  const title = ORDER_DOCUMENT_TITLES[document.type as OrderDocumentType];
+  const { business, customer, order } = snapshot;
+
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${title} ${document.documentNumber}`);
+  pdf.setAuthor(business.businessName);
+  pdf.setCreationDate(document.issuedAt || new Date());
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  const drawTableHeader = () => {
+    writer.text("Description", MARGIN, { bold: true, size: 9 });
+    writer.text("Qty", QUANTITY_RIGHT, { bold: true, size: 9, align: "right" });
+    writer.text("Unit Price", UNIT_PRICE_RIGHT, { bold: true, size: 9, align: "right" });
+    writer.text("Amount", AMOUNT_RIGHT, { bold: true, size: 9, align: "right" });
+    writer.y -= 14;
+    writer.rule();
+    writer.y -= 6;
+  };
+  const writer: PdfWriter = new PdfWriter(pdf, font, bold, drawTableHeader);
+  const right = PAGE_SIZE[0] - MARGIN;
+
+  // Business block on the left, document number and dates on the right
+  const top = writer.y;
+  writer.text(business.businessName, MARGIN, { size: 16, bold: true });
+  writer.y -= 22;
+  const businessLines = [
+    ...(business.address ? wrapText(business.address, font, 9, 280) : []),
+    business.tin ? `TIN: ${business.tin}` : "",
+    [business.phone, business.email].filter(Boolean).join(" | "),
+  ].filter(Boolean);
+  for (const line of businessLines) {
+    writer.text(line, MARGIN, { size: 9, color: MUTED_COLOR });
+    writer.y -= 12;
+  }
+  const businessBottom = writer.y;
+
+  writer.y = top;
+  writer.text(title.toUpperCase(), right, { size: 14, bold: true, align: "right" });
+  writer.y -= 20;
+  for (const [label, value] of [
+    ["No.", document.documentNumber],
+    ["Date issued", formatDate(document.issuedAt)],
+    ["Order", order.orderNumber],
+    ["Order date", formatDate(order.createdAt)],
+  ]) {
+    writer.text(`${label}: ${value}`, right, { size: 9, align: "right" });
+    writer.y -= 12;
+  }
+
+  writer.y = Math.min(writer.y, businessBottom) - 14;
+  writer.rule();
+  writer.y -= 10;
+
+  // Customer
+  writer.text(document.type === "official_receipt" ? "Received from" : "Bill to", MARGIN, { size: 9, bold: true, color: MUTED_COLOR });
+  writer.y -= 13;
+  writer.text(customer.name, MARGIN, { size: 11, bold: true });
+  writer.y -= 14;
+  const customerLines = [
+    ...(customer.address ? wrapText(customer.address, font, 9, 300) : []),
+    [customer.phone, customer.email].filter(Boolean).join(" | "),
+  ].filter(Boolean);
+  for (const line of customerLines) {
+    writer.text(line, MARGIN, { size: 9 });
+    writer.y -= 12;
+  }
+  writer.y -= 12;
+
+  // Line items
+  drawTableHeader();
+  for (const line of snapshot.lines) {
+    const descriptionLines = wrapText(line.description, font, 10, DESCRIPTION_WIDTH);
+    const detailLines = line.details ? wrapText(line.details, font, 8, DESCRIPTION_WIDTH) : [];
+    writer.ensureRoom(descriptionLines.length * 13 + detailLines.length * 10 + 6);
+
+    writer.text(String(line.quantity), QUANTITY_RIGHT, { align: "right" });
+    writer.text(formatAmount(line.unitPrice), UNIT_PRICE_RIGHT, { align: "right" });
+    writer.text(formatAmount(line.amount), AMOUNT_RIGHT, { align: "right" });
+    for (const text of descriptionLines) {
+      writer.text(text, MARGIN);
+      writer.y -= 13;
+    }
+    for (const text of detailLines) {
+      writer.text(text, MARGIN + 8, { size: 8, color: MUTED_COLOR });
+      writer.y -= 10;
+    }
+    writer.y -= 6;
+  }
+  writer.rule();
+  writer.y -= 8;
+  writer.onNewPage = () => {};
+
+  // Totals
+  const totals: [string, string, boolean][] = [
+    ["Subtotal", formatAmount(order.subtotal), false],
+    ...(order.discount > 0 ? [["Discount", `-${formatAmount(order.discount)}`, false] as [string, string, boolean]] : []),
+    ...(order.vatInclusive === false && order.tax > 0
+      ? [["VAT", formatAmount(order.tax), false] as [string, string, boolean]]
+      : []),
+    ["Total (PHP)", formatAmount(order.total), true],
+    ["Amount paid", formatAmount(order.amountPaid), false],
+    ...(document.type === "invoice" && order.balanceDue > 0
+      ? [["Balance due", formatAmount(order.balanceDue), true] as [string, string, boolean]]
+      : []),
+  ];
+  writer.ensureRoom(totals.length * 14 + 10);
+  for (const [label, value, strong] of totals) {
+    writer.text(label, UNIT_PRICE_RIGHT, { bold: strong, align: "right" });
+    writer.text(value, AMOUNT_RIGHT, { bold: strong, align: "right" });
+    writer.y -= 14;
+  }
+
+  // How the total splits for VAT
+  if (hasVatBreakdown(order)) {
+    const breakdown: [string, number][] = [
+      ["VATable sales", order.vatableSales || 0],
+      ["VAT amount", order.tax],
+      ["VAT-exempt sales", order.exemptSales || 0],
+    ];
+    writer.y -= 6;
+    writer.ensureRoom(breakdown.length * 12 + 10);
+    for (const [label, value] of breakdown) {
+      writer.text(label, UNIT_PRICE_RIGHT, { size: 9, color: MUTED_COLOR, align: "right" });
+      writer.text(formatAmount(value), AMOUNT_RIGHT, { size: 9, color: MUTED_COLOR, align: "right" });
+      writer.y -= 12;
+    }
+  }
+
+  // Payments acknowledged by an official receipt
+  if (document.type === "official_receipt" && snapshot.payments.length > 0) {
+    writer.y -= 10;
+    writer.ensureRoom(snapshot.payments.length * 12 + 16);
+    writer.text("Payments received", MARGIN, { size: 9, bold: true, color: MUTED_COLOR });
+    writer.y -= 13;
+    for (const payment of snapshot.payments) {
+      const reference = payment.referenceNumber ? ` (Ref: ${payment.referenceNumber})` : "";
+      writer.text(`${formatDate(payment.receivedAt)} - ${payment.method.toUpperCase()}${reference}`, MARGIN, { size: 9 });
+      writer.text(formatAmount(payment.amount), AMOUNT_RIGHT, { size: 9, align: "right" });
+      writer.y -= 12;
+    }
+  }
+
+  // Every page is numbered so a missing page is obvious
+  const pages = pdf.getPages();
+  pages.forEach((page, index) => {
+    const footer = `${document.documentNumber} - Page ${index + 1} of ${pages.length}`;
+    page.drawText(footer, {
+      x: PAGE_SIZE[0] - MARGIN - font.widthOfTextAtSize(footer, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED_COLOR,
+    });
+  });
+
+  return Buffer.from(await pdf.save());
+}
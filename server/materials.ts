@@ -0,0 +1,60 @@
+import type { IStorage } from "./storage";
+import type { InsertOrderItem, Service, ServiceMaterial } from "@shared/schema";
+import {
+  calculateMaterialUsage, getMaterialBasisErrors, type MaterialUsage, type ServiceMaterialRequest
+} from "@shared/materials";
+
+/**
+ * Check a service's bill of materials before it is saved: every line must
+ * be a known inventory item measured in a way the service can be
+ */
+export async function getServiceMaterialErrors(
+  storage: IStorage,
+  service: Service,
+  materials: ServiceMaterialRequest[],
+): Promise<string[]> {
+  const items = await storage.getAllInventory();
+  const errors: string[] = [];
+
+  materials.forEach((material, index) => {
+    if (!items.some(item => item.id === material.inventoryId)) {
+      errors.push(`Material ${index + 1}: inventory item not found`);
+    }
+    errors.push(...getMaterialBasisErrors(service.type, material.basis)
+      .map(error => `Material ${index + 1}: ${error}`));
+  });
+
+  return errors;
+}
+
+// A line of a new order with the stock it will use, ready to be placed
+export interface PlannedOrderLine {
+  item: Omit<InsertOrderItem, "orderId">;
+  materials: MaterialUsage[];
+}
+
+/**
+ * The stock each line of a new order uses, from its service's bill of
+ * materials as it stands when the order is placed
+ */
+export async function planOrderLines(
+  storage: IStorage,
+  items: Omit<InsertOrderItem, "orderId">[],
+): Promise<PlannedOrderLine[]> {
+  const rules = new Map<number, ServiceMaterial[]>();
+  const lines: PlannedOrderLine[] = [];
+
+  for (const item of items) {
+    if (!rules.has(item.serviceId)) {
+      rules.set(item.serviceId, await storage.getServiceMaterials(item.serviceId));
+    }
+
+    const materials = calculateMaterialUsage(
+      { quantity: item.quantity, specifications: item.specifications as Record<string, any> | null },
+      rules.get(item.serviceId)!,
+    );
+    lines.push({ item, materials });
+  }
+
+  return lines;
+}
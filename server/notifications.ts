@@ -0,0 +1,116 @@
+import type { IStorage } from "./storage";
+import type { Notification, Order } from "@shared/schema";
+import { getBalanceDue } from "@shared/payments";
+import { notificationTransports, type NotificationChannel } from "./notification-transports";
+
+// Name customers see on messages
+const SHOP_NAME = process.env.SHOP_NAME || "PrintSphere";
+
+// A message that still fails after this many sends is given up on
+const MAX_ATTEMPTS = 5;
+
+// First retry waits this long; each later retry waits twice as long as the last
+const RETRY_BASE_MS = 60 * 1000;
+
+// Messages sent per dispatcher run, so one run never holds up the next
+const DISPATCH_BATCH_SIZE = 20;
+
+interface NotificationTemplate {
+  subject: string;
+  sms: string;
+  email: string;
+}
+
+const formatAmount = (amount: number) => `PHP ${amount.toFixed(2)}`;
+
+// Messages sent when an order reaches a status; other statuses send nothing
+const TEMPLATES: Record<string, (order: Order) => NotificationTemplate> = {
+  ready: (order) => {
+    const balance = getBalanceDue(order);
+    const balanceLine = balance > 0 ? ` Balance due on pickup: ${formatAmount(balance)}.` : "";
+    return {
+      subject: `Order ${order.orderNumber} is ready for pickup`,
+      sms: `${SHOP_NAME}: Your order ${order.orderNumber} is ready for pickup.${balanceLine}`,
+      email: `Hi ${order.customerName},\n\nYour order ${order.orderNumber} is ready for pickup.${balanceLine}\n\nThank you,\n${SHOP_NAME}`,
+    };
+  },
+  cancelled: (order) => ({
+    subject: `Order ${order.orderNumber} has been cancelled`,
+    sms: `${SHOP_NAME}: Your order ${order.orderNumber} has been cancelled. Please contact us if you have questions.`,
+    email: `Hi ${order.customerName},\n\nYour order ${order.orderNumber} has been cancelled. Please contact us if you have any questions.\n\nThank you,\n${SHOP_NAME}`,
+  }),
+  refunded: (order) => ({
+    subject: `Order ${order.orderNumber} has been refunded`,
+    sms: `${SHOP_NAME}: ${formatAmount(order.refundedAmount || 0)} has been refunded on your order ${order.orderNumber}.`,
+    email: `Hi ${order.customerName},\n\n${formatAmount(order.refundedAmount || 0)} has been refunded on your order ${order.orderNumber}.\n\nThank you,\n${SHOP_NAME}`,
+  }),
+};
+
+/**
+ * Queues the customer's messages for the status an order has just reached,
+ * one per configured channel they have contact details for. Walk-in orders
+ * and customers who opted out get nothing.
+ */
+export async function notifyOrderStatus(storage: IStorage, order: Order): Promise<Notification[]> {
+  const template = TEMPLATES[order.status];
+  if (!template || !order.customerId) return [];
+
+  const customer = await storage.getCustomer(order.customerId);
+  if (!customer || customer.notificationsOptOut) return [];
+
+  const message = template(order);
+  const recipients: Record<NotificationChannel, string | null> = {
+    sms: customer.phone,
+    email: customer.email,
+  };
+
+  const queued: Notification[] = [];
+  for (const channel of Object.keys(recipients) as NotificationChannel[]) {
+    const recipient = recipients[channel]?.trim();
+    if (!recipient || !notificationTransports[channel]) continue;
+
+    queued.push(await storage.createNotification({
+      orderId: order.id,
+      customerId: customer.id,
+      event: `order.${order.status}`,
+      channel,
+      recipient,
+      subject: channel === "email" ? message.subject : null,
+      body: channel === "email" ? message.email : message.sms,
+    }));
+  }
+
+  return queued;
+}
+
+/**
+ * Sends queued messages that are due. A failed send is retried with
+ * exponential backoff until MAX_ATTEMPTS, then left as failed.
+ */
+export async function dispatchNotifications(storage: IStorage, now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+  const due = await storage.getDueNotifications(now, DISPATCH_BATCH_SIZE);
+  let sent = 0;
+  let failed = 0;
+
+  for (const notification of due) {
+    const transport = notificationTransports[notification.channel as NotificationChannel];
+
+    try {
+      if (!transport) {
+        throw new Error(`No ${notification.channel} transport is configured`);
+      }
+      await transport.send(notification);
+      await storage.markNotificationSent(notification.id);
+      sent++;
+    } catch (err) {
+      const attempts = notification.attempts + 1;
+      const nextAttemptAt = attempts < MAX_ATTEMPTS
+        ? new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1))
+        : null;
+      await storage.markNotificationFailed(notification.id, (err as Error).message, nextAttemptAt);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,72 @@
+import { randomBytes, randomInt, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { IStorage } from "./storage";
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+const HASH_SCHEME = "scrypt";
+
+// Letters and digits that are hard to misread when a reset password is read out
+const TEMPORARY_PASSWORD_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+/**
+ * Hash a password as `scrypt$<salt>$<key>` with a random salt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const key = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${HASH_SCHEME}$${salt}$${key.toString("hex")}`;
+}
+
+/**
+ * Whether a stored password is already hashed (rather than legacy plaintext)
+ */
+export function isPasswordHash(stored: string): boolean {
+  const parts = stored.split("$");
+  return parts.length === 3 && parts[0] === HASH_SCHEME;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) return false;
+
+  const [, salt, keyHex] = stored.split("$");
+  const expected = Buffer.from(keyHex, "hex");
+  const key = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+/**
+ * Random password for admin resets; always satisfies the password policy
+ */
+export function generateTemporaryPassword(length = 10): string {
+  let password = "";
+  while (!/[a-z]/.test(password) || !/[0-9]/.test(password)) {
+    password = "";
+    for (let i = 0; i < length; i++) {
+      password += TEMPORARY_PASSWORD_ALPHABET[randomInt(TEMPORARY_PASSWORD_ALPHABET.length)];
+    }
+  }
+  return password;
+}
+
+/**
+ * One-time migration: hash any password still stored in plaintext. Users
+ * keep their current password; rows that are already hashed are skipped.
+ */
+export async function migratePlaintextPasswords(storage: IStorage): Promise<number> {
+  const users = await storage.getUsers();
+  let migrated = 0;
+
+  for (const user of users) {
+    if (isPasswordHash(user.password)) continue;
+
+    await storage.updateUserPassword(user.id, await hashPassword(user.password), !!user.mustChangePassword);
+    migrated++;
+  }
+
+  return migrated;
+}
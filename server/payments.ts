@@ -0,0 +1,55 @@
+import type { IStorage } from "./storage";
+import type { Order } from "@shared/schema";
+import { roundPrice, PRICE_TOLERANCE } from "@shared/pricing";
+import { getBalanceDue, type OrderPaymentRequest } from "@shared/payments";
+import { isOrderClosed } from "@shared/reversals";
+
+/**
+ * Check the tenders of a payment against the order they are taken for;
+ * problems are listed rather than thrown so the route can return them all
+ * at once.
+ */
+export function validateOrderPayments(
+  order: Pick<Order, "status" | "total" | "amountPaid">,
+  payments: OrderPaymentRequest[]
+): string[] {
+  const errors: string[] = [];
+
+  if (isOrderClosed(order)) {
+    errors.push(`Order is ${order.status}`);
+    return errors;
+  }
+
+  const balance = getBalanceDue(order);
+  const amount = roundPrice(payments.reduce((sum, payment) => sum + payment.amount, 0));
+  if (balance <= 0) {
+    errors.push("Order is already paid in full");
+  } else if (amount > balance + PRICE_TOLERANCE) {
+    errors.push(`Payment cannot exceed the balance due of ${balance}`);
+  }
+
+  return errors;
+}
+
+/**
+ * One-time migration: orders marked paid before payments were recorded get
+ * a single payment for their total, dated when the order was taken.
+ */
+export async function backfillOrderPayments(storage: IStorage): Promise<number> {
+  const orders = await storage.getPaidOrdersWithoutPayments();
+  let backfilled = 0;
+
+  for (const order of orders) {
+    const payment = await storage.createOrderPayment({
+      orderId: order.id,
+      method: order.paymentMethod || "cash",
+      amount: order.total,
+      referenceNumber: null,
+      receivedBy: order.createdBy,
+      createdAt: order.createdAt
+    });
+    if (payment) backfilled++;
+  }
+
+  return backfilled;
+}
@@ -0,0 +1,81 @@
+import type { ArtworkInfo } from "@shared/preflight";
+import { DEFAULT_MIN_PRINT_DPI } from "@shared/preflight";
+
+// Minimum print resolution the POS warns below; shops printing for close
+// viewing (e.g. indoor posters) raise it
+export const MIN_PRINT_DPI = Number(process.env.PREFLIGHT_MIN_DPI) || DEFAULT_MIN_PRINT_DPI;
+
+// Longest side of a preflight thumbnail, in pixels
+const THUMBNAIL_SIZE = 320;
+
+/**
+ * Measure the first page of an artwork file and the resolution of the
+ * raster images on it. Throws when the file cannot be opened.
+ */
+export async function inspectArtwork(contents: Buffer, mimeType: string): Promise<ArtworkInfo> {
+  const mupdf = await import("mupdf");
+  const document = mupdf.Document.openDocument(contents, mimeType);
+
+  try {
+    if (document.needsPassword()) {
+      throw new Error("Document is password protected");
+    }
+
+    const page = document.loadPage(0);
+    const [x0, y0, x1, y1] = page.getBounds();
+    const text = page.toStructuredText("preserve-images");
+    let imagePpi: number | null = null;
+
+    // Each placed image's pixels over the inches it covers on the page;
+    // the least detailed one is what limits the print
+    text.walk({
+      onImageBlock(bbox, _transform, image) {
+        const widthIn = (bbox[2] - bbox[0]) / 72;
+        const heightIn = (bbox[3] - bbox[1]) / 72;
+        if (widthIn <= 0 || heightIn <= 0) return;
+
+        const ppi = Math.min(image.getWidth() / widthIn, image.getHeight() / heightIn);
+        imagePpi = imagePpi === null ? ppi : Math.min(imagePpi, ppi);
+      },
+    });
+
+    const info: ArtworkInfo = {
+      pageCount: document.countPages(),
+      width: Math.round(x1 - x0),
+      height: Math.round(y1 - y0),
+      imagePpi: imagePpi === null ? null : Math.round(imagePpi),
+    };
+
+    text.destroy();
+    page.destroy();
+    return info;
+  } finally {
+    document.destroy();
+  }
+}
+
+/**
+ * Render the first page of an artwork file as a small PNG
+ */
+export async function renderThumbnail(contents: Buffer, mimeType: string): Promise<Buffer> {
+  const mupdf = await import("mupdf");
+  const document = mupdf.Document.openDocument(contents, mimeType);
+
+  try {
+    if (document.needsPassword()) {
+      throw new Error("Document is password protected");
+    }
+
+    const page = document.loadPage(0);
+    const [x0, y0, x1, y1] = page.getBounds();
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(x1 - x0, y1 - y0));
+    const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB, false);
+    const png = Buffer.from(pixmap.asPNG());
+
+    pixmap.destroy();
+    page.destroy();
+    return png;
+  } finally {
+    document.destroy();
+  }
+}
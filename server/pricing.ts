@@ -0,0 +1,223 @@
+import type { IStorage } from "./storage";
+import type { OrderItem, Service, ServicePriceVersion, InsertServicePriceVersion } from "@shared/schema";
+import { calculateServicePrice, serviceSpecificationsSchema, roundPrice, PRICE_TOLERANCE, type PriceCalculation } from "@shared/pricing";
+import { TAX_SETTINGS_KEY, DEFAULT_TAX_SETTINGS, taxSettingsSchema, calculateOrderTax, type TaxSettings, type OrderTax } from "@shared/tax";
+import { analyzeOrderFile } from "./files";
+
+// An order item as submitted by the POS or the online store
+export interface SubmittedOrderItem {
+  serviceId: number;
+  quantity: number;
+  unitPrice?: number;
+  amount?: number;
+  specifications?: any;
+  [key: string]: unknown;
+}
+
+export interface PricedOrderItem extends SubmittedOrderItem {
+  unitPrice: number;
+  amount: number;
+  priceVersionId: number | null;
+}
+
+export interface OrderPricing {
+  items: PricedOrderItem[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  tax: OrderTax;
+  errors: string[];
+}
+
+// How an order line was priced, reproduced from the rate card it was sold under
+export interface OrderLinePricing {
+  itemId: number;
+  version: ServicePriceVersion | null;
+  calculation: PriceCalculation | null;
+}
+
+/**
+ * The saved VAT configuration, with defaults for anything not set yet
+ */
+export async function getTaxSettings(storage: IStorage): Promise<TaxSettings> {
+  const setting = await storage.getSetting(TAX_SETTINGS_KEY);
+  if (!setting) return DEFAULT_TAX_SETTINGS;
+
+  const parsed = taxSettingsSchema.safeParse(setting.value);
+  return parsed.success ? parsed.data : DEFAULT_TAX_SETTINGS;
+}
+
+function differs(submitted: unknown, expected: number): boolean {
+  return typeof submitted !== "number" || Math.abs(submitted - expected) > PRICE_TOLERANCE;
+}
+
+/**
+ * Replace a document's client-side page analysis with the server's own
+ * analysis of the uploaded file. Without a file the server can analyze, only
+ * a page count staff confirmed they counted is taken, priced as if every page
+ * were colour; otherwise undefined is returned.
+ */
+async function withServerAnalysis(storage: IStorage, specifications: any): Promise<any | undefined> {
+  const { documentAnalysis, ...rest } = specifications;
+  const fileId = specifications.fileId;
+
+  const file = fileId !== undefined && fileId !== null ? await storage.getOrderFile(Number(fileId)) : undefined;
+  const analysis = file && await analyzeOrderFile(storage, file).catch(() => null);
+  if (analysis) {
+    const { pageCount, colorPages, bwPages } = analysis;
+    return { ...rest, documentAnalysis: { pageCount, colorPages, bwPages } };
+  }
+
+  if (documentAnalysis?.pageCountConfirmed !== true) return undefined;
+
+  const { pageCount } = documentAnalysis;
+  return { ...rest, documentAnalysis: { pageCount, colorPages: pageCount, bwPages: 0, pageCountConfirmed: true } };
+}
+
+/**
+ * Recompute every order item from the price version in effect for its
+ * service and check the submitted prices, discount and total against the
+ * result. The total includes any VAT added under the tax settings. The
+ * returned items carry the server-computed prices and the version used;
+ * any mismatch is listed in `errors`.
+ */
+export async function priceOrder(
+  storage: IStorage,
+  items: SubmittedOrderItem[],
+  submitted: { total?: unknown; discount?: unknown },
+): Promise<OrderPricing> {
+  const errors: string[] = [];
+  const pricedItems: PricedOrderItem[] = [];
+  const taxableLines: { amount: number; vatExempt: boolean | null }[] = [];
+  const now = new Date();
+
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index];
+    const quantity = Number(item.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      errors.push(`Item ${index + 1}: quantity must be a positive whole number`);
+      continue;
+    }
+
+    const service = await storage.getService(Number(item.serviceId));
+    if (!service) {
+      errors.push(`Item ${index + 1}: service ${item.serviceId} not found`);
+      continue;
+    }
+
+    // Services without any price history are priced from the service itself
+    const version = await storage.getEffectivePriceVersion(service.id, now);
+    const pricedService = version
+      ? { type: service.type, basePrice: version.basePrice, pricingRules: version.pricingRules }
+      : service;
+
+    const parsed = serviceSpecificationsSchema(pricedService).safeParse(item.specifications);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "specifications"} ${issue.message}`);
+      errors.push(`Item ${index + 1} (${service.name}): invalid specifications: ${issues.join("; ")}`);
+      continue;
+    }
+
+    // Documents are priced from the server's analysis of the file, not the page counts the client sent
+    const specifications = service.type === "document"
+      ? await withServerAnalysis(storage, parsed.data)
+      : parsed.data;
+    if (!specifications) {
+      errors.push(`Item ${index + 1} (${service.name}): no file the server can read gives the page count; count the pages and confirm them`);
+      continue;
+    }
+
+    const calculation = calculateServicePrice(pricedService, quantity, specifications);
+    const unitPrice = roundPrice(calculation.unitPrice);
+    const amount = roundPrice(calculation.total);
+
+    if (differs(item.amount, amount)) {
+      errors.push(`Item ${index + 1} (${service.name}): submitted amount ${item.amount} does not match ${amount}`);
+    }
+
+    pricedItems.push({ ...item, specifications, quantity, unitPrice, amount, priceVersionId: version ? version.id : null });
+    taxableLines.push({ amount, vatExempt: service.vatExempt });
+  }
+
+  const subtotal = roundPrice(pricedItems.reduce((sum, item) => sum + item.amount, 0));
+  const discount = roundPrice(Number(submitted.discount) || 0);
+
+  if (discount < 0 || discount > subtotal) {
+    errors.push(`Discount must be between 0 and ${subtotal}`);
+  }
+
+  const tax = calculateOrderTax(taxableLines, discount, await getTaxSettings(storage));
+  const total = tax.total;
+
+  if (differs(submitted.total, total)) {
+    errors.push(`Submitted total ${submitted.total} does not match ${total}`);
+  }
+
+  return { items: pricedItems, subtotal, discount, total, tax, errors };
+}
+
+/**
+ * Overlay the price version currently in effect onto each service, so a
+ * scheduled price change applies from its start date without a rewrite.
+ */
+export async function withCurrentPricing<T extends Service>(storage: IStorage, services: T[]): Promise<T[]> {
+  const versions = await storage.getCurrentPriceVersions(new Date());
+  
+  return services.map(service => {
+    const version = versions.find(candidate => candidate.serviceId === service.id);
+    return version
+      ? { ...service, basePrice: version.basePrice, pricingRules: version.pricingRules }
+      : service;
+  });
+}
+
+/**
+ * Add a price version for a service. Services priced before versioning
+ * first get their current rates recorded as the opening version.
+ */
+export async function recordPriceVersion(
+  storage: IStorage,
+  service: Service,
+  version: Omit<InsertServicePriceVersion, "serviceId">,
+): Promise<ServicePriceVersion> {
+  const history = await storage.getServicePriceVersions(service.id);
+  
+  if (history.length === 0) {
+    await storage.createServicePriceVersion({
+      serviceId: service.id,
+      basePrice: service.basePrice,
+      pricingRules: service.pricingRules as InsertServicePriceVersion["pricingRules"],
+      effectiveFrom: new Date(0),
+      notes: "Price list before versioning",
+    });
+  }
+  
+  return storage.createServicePriceVersion({ ...version, serviceId: service.id });
+}
+
+/**
+ * Reproduce the price of each order line from the version it was sold
+ * under. Lines sold before versioning have no version to reproduce.
+ */
+export async function explainOrderPricing(storage: IStorage, items: OrderItem[]): Promise<OrderLinePricing[]> {
+  const lines: OrderLinePricing[] = [];
+  
+  for (const item of items) {
+    const version = item.priceVersionId ? await storage.getServicePriceVersion(item.priceVersionId) : undefined;
+    const service = await storage.getService(item.serviceId);
+    
+    if (!version || !service) {
+      lines.push({ itemId: item.id, version: version || null, calculation: null });
+      continue;
+    }
+    
+    const calculation = calculateServicePrice(
+      { type: service.type, basePrice: version.basePrice, pricingRules: version.pricingRules },
+      item.quantity,
+      item.specifications as Record<string, any> | null
+    );
+    lines.push({ itemId: item.id, version, calculation });
+  }
+  
+  return lines;
+}
@@ -0,0 +1,28 @@
+import type { IStorage } from "./storage";
+import type { OrderItem } from "@shared/schema";
+
+// An order item as shown on the production board
+export interface ProductionItem extends OrderItem {
+  orderNumber: string;
+  customerName: string | null;
+  orderNotes: string | null;
+  orderCreatedAt: Date | null;
+  orderDueAt: Date | null;
+  serviceName: string;
+  serviceType: string;
+}
+
+/**
+ * One-time migration: items of orders that were already marked ready or
+ * completed before items had stages are moved to done, so the board and
+ * the derived order status agree with the order's history.
+ */
+export async function backfillProductionStages(storage: IStorage): Promise<number> {
+  const items = await storage.getQueuedItemsOfFinishedOrders();
+
+  for (const item of items) {
+    await storage.updateOrderItemStage(item.id, "done");
+  }
+
+  return items.length;
+}
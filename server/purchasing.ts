@@ -0,0 +1,111 @@
+import type { IStorage } from "./storage";
+import { getLastUnitCost } from "./inventory";
+import type { Inventory, InsertPurchaseOrderItem, PurchaseOrder, PurchaseOrderItem } from "@shared/schema";
+import { roundQuantity } from "@shared/materials";
+import {
+  OPEN_PURCHASE_ORDER_STATUSES, getReorderQuantity, getPurchaseOrderTotal,
+  type PurchaseOrderRequest, type ReceivePurchaseOrderRequest
+} from "@shared/purchasing";
+
+// What receiving a delivery against a purchase order records
+export interface PurchaseOrderReceipt {
+  lines: ReceivePurchaseOrderRequest["lines"];
+  receivedBy: number;
+  notes: string | null;
+}
+
+/**
+ * Check a purchase order before it is saved: it must be for a known
+ * supplier and every line a known inventory item
+ */
+export async function getPurchaseOrderErrors(storage: IStorage, request: PurchaseOrderRequest): Promise<string[]> {
+  const [supplier, items] = await Promise.all([storage.getSupplier(request.supplierId), storage.getAllInventory()]);
+  const errors: string[] = [];
+
+  if (!supplier) {
+    errors.push("Supplier not found");
+  }
+  request.items.forEach((line, index) => {
+    if (!items.some(item => item.id === line.inventoryId)) {
+      errors.push(`Item ${index + 1}: inventory item not found`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Check a delivery against what is still outstanding on the order's lines
+ */
+export function getReceiptErrors(items: PurchaseOrderItem[], lines: ReceivePurchaseOrderRequest["lines"]): string[] {
+  const errors: string[] = [];
+
+  for (const line of lines) {
+    const item = items.find(entry => entry.id === line.itemId);
+    if (!item) {
+      errors.push(`Line #${line.itemId} is not on this purchase order`);
+      continue;
+    }
+    const outstanding = roundQuantity(item.quantity - item.receivedQuantity);
+    if (roundQuantity(line.quantity) > outstanding) {
+      errors.push(`Line #${line.itemId}: only ${outstanding} still to be received`);
+    }
+  }
+  if (new Set(lines.map(line => line.itemId)).size !== lines.length) {
+    errors.push("Enter each line of the purchase order once");
+  }
+
+  return errors;
+}
+
+/**
+ * Draft orders for the stock running low, one per usual supplier. Items
+ * already on an open purchase order are left out so they are not ordered
+ * twice; items with no usual supplier are returned for ordering by hand.
+ */
+export async function planLowStockPurchaseOrders(storage: IStorage): Promise<{
+  orders: { supplierId: number; items: Omit<InsertPurchaseOrderItem, "purchaseOrderId">[] }[];
+  unassigned: Inventory[];
+}> {
+  const [lowStock, purchaseOrders] = await Promise.all([storage.getLowStockItems(), storage.getPurchaseOrders()]);
+  const openOrders = purchaseOrders.filter(order => OPEN_PURCHASE_ORDER_STATUSES.includes(order.status));
+  const onOrder = new Set((await storage.getPurchaseOrderItems(openOrders.map(order => order.id)))
+    .map(item => item.inventoryId));
+
+  const bySupplier = new Map<number, Omit<InsertPurchaseOrderItem, "purchaseOrderId">[]>();
+  const unassigned: Inventory[] = [];
+
+  for (const item of lowStock) {
+    const quantity = getReorderQuantity(item);
+    if (onOrder.has(item.id) || quantity === 0) continue;
+    if (item.supplierId === null) {
+      unassigned.push(item);
+      continue;
+    }
+
+    const lines = bySupplier.get(item.supplierId) || [];
+    lines.push({ inventoryId: item.id, quantity, unitCost: await getLastUnitCost(storage, item.id) ?? 0 });
+    bySupplier.set(item.supplierId, lines);
+  }
+
+  return {
+    orders: Array.from(bySupplier.entries()).map(([supplierId, items]) => ({ supplierId, items })),
+    unassigned,
+  };
+}
+
+/**
+ * Add the supplier's name and the order's value, for the purchase order list
+ */
+export async function describePurchaseOrders(storage: IStorage, orders: PurchaseOrder[]) {
+  const [suppliers, items] = await Promise.all([
+    storage.getSuppliers(),
+    storage.getPurchaseOrderItems(orders.map(order => order.id)),
+  ]);
+
+  return orders.map(order => ({
+    ...order,
+    supplierName: suppliers.find(supplier => supplier.id === order.supplierId)?.name || null,
+    total: getPurchaseOrderTotal(items.filter(item => item.purchaseOrderId === order.id)),
+  }));
+}
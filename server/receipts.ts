@@ -0,0 +1,231 @@
+import net from "net";
+import { format } from "date-fns";
+import type { IStorage } from "./storage";
+import type { Order, OrderItem, OrderPayment } from "@shared/schema";
+import { getBalanceDue } from "@shared/payments";
+import { getOrderSubtotal, hasVatBreakdown } from "@shared/tax";
+import {
+  RECEIPT_PRINTER_SETTINGS_KEY, RECEIPT_PAPER_LAYOUTS, DEFAULT_RECEIPT_PRINTER_SETTINGS,
+  receiptPrinterSettingsSchema, type ReceiptPrinterSettings
+} from "@shared/receipts";
+import { EscPosBuilder, ditherToRaster, type RasterImage } from "./escpos";
+
+// How long to wait on a network printer before giving up
+const PRINTER_TIMEOUT_MS = 10 * 1000;
+
+// Logos are scaled down to fit this share of the paper width and this height
+const LOGO_WIDTH_SHARE = 0.75;
+const LOGO_MAX_HEIGHT_DOTS = 160;
+
+export interface ReceiptData {
+  order: Order;
+  items: OrderItem[];
+  payments: OrderPayment[];
+  cashierName: string;
+}
+
+/**
+ * Gather what an order's receipt shows; undefined when the order is missing
+ */
+export async function loadReceipt(storage: IStorage, orderId: number, cashierName: string): Promise<ReceiptData | undefined> {
+  const order = await storage.getOrder(orderId);
+  if (!order) return undefined;
+
+  const [items, payments] = await Promise.all([
+    storage.getOrderItems(orderId),
+    storage.getOrderPayments(orderId),
+  ]);
+  return { order, items, payments, cashierName };
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * The saved receipt printer configuration, with defaults for anything not
+ * set yet
+ */
+export async function getReceiptPrinterSettings(storage: IStorage): Promise<ReceiptPrinterSettings> {
+  const setting = await storage.getSetting(RECEIPT_PRINTER_SETTINGS_KEY);
+  if (!setting) return DEFAULT_RECEIPT_PRINTER_SETTINGS;
+
+  const parsed = receiptPrinterSettingsSchema.safeParse(setting.value);
+  return parsed.success ? parsed.data : DEFAULT_RECEIPT_PRINTER_SETTINGS;
+}
+
+/**
+ * Decode a logo data URL and dither it to a raster the printer can show,
+ * scaled down to fit the paper
+ */
+async function rasterizeLogo(dataUrl: string, paperDots: number): Promise<RasterImage> {
+  const mupdf = await import("mupdf");
+  const image = new mupdf.Image(Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64"));
+  const source = image.toPixmap();
+  const pixmap = source.convertToColorSpace(mupdf.ColorSpace.DeviceGray, true);
+
+  try {
+    const sourceWidth = pixmap.getWidth();
+    const sourceHeight = pixmap.getHeight();
+    const components = pixmap.getNumberOfComponents() + pixmap.getAlpha();
+    const stride = pixmap.getStride();
+    const pixels = pixmap.getPixels();
+
+    const scale = Math.min(1, (paperDots * LOGO_WIDTH_SHARE) / sourceWidth, LOGO_MAX_HEIGHT_DOTS / sourceHeight);
+    const width = Math.max(1, Math.round(sourceWidth * scale));
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+    const gray = new Float32Array(width * height);
+
+    // Average the source pixels under each dot; transparency prints as paper
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.floor(y / scale);
+      const y1 = Math.max(y0 + 1, Math.min(sourceHeight, Math.floor((y + 1) / scale)));
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.floor(x / scale);
+        const x1 = Math.max(x0 + 1, Math.min(sourceWidth, Math.floor((x + 1) / scale)));
+        let sum = 0;
+        for (let sy = y0; sy < y1; sy++) {
+          for (let sx = x0; sx < x1; sx++) {
+            const offset = sy * stride + sx * components;
+            const alpha = pixmap.getAlpha() ? pixels[offset + 1] / 255 : 1;
+            sum += pixels[offset] * alpha + 255 * (1 - alpha);
+          }
+        }
+        gray[y * width + x] = sum / ((y1 - y0) * (x1 - x0));
+      }
+    }
+
+    return ditherToRaster(gray, width, height);
+  } finally {
+    pixmap.destroy();
+    source.destroy();
+    image.destroy();
+  }
+}
+
+// Shop name, logo and header lines common to every printout
+async function printHeader(builder: EscPosBuilder, settings: ReceiptPrinterSettings) {
+  builder.align("center");
+
+  if (settings.logo) {
+    try {
+      builder.image(await rasterizeLogo(settings.logo, RECEIPT_PAPER_LAYOUTS[settings.paperWidth].dots));
+      builder.feed(1);
+    } catch (err) {
+      // A logo the printer cannot show should never stop the receipt
+      console.error("Failed to render receipt logo:", err);
+    }
+  }
+
+  builder.bold(true).large(true).wrapped(settings.shopName, Math.floor(builder.columns / 2)).large(false).bold(false);
+  if (settings.headerLines.trim()) {
+    builder.wrapped(settings.headerLines.trim());
+  }
+  builder.align("left");
+}
+
+/**
+ * Render an order's receipt as an ESC/POS job, laid out like the HTML receipt
+ */
+export async function renderReceipt(receipt: ReceiptData, settings: ReceiptPrinterSettings): Promise<Buffer> {
+  const { order, items, payments } = receipt;
+  const builder = new EscPosBuilder(RECEIPT_PAPER_LAYOUTS[settings.paperWidth].columns);
+
+  await printHeader(builder, settings);
+  builder.align("center").line("Receipt / Invoice").align("left").divider();
+
+  builder
+    .pair("Order:", order.orderNumber)
+    .pair("Date:", order.createdAt ? format(new Date(order.createdAt), "MMM dd, yyyy HH:mm") : "N/A")
+    .pair("Customer:", order.customerName || "Walk-in Customer")
+    .pair("Cashier:", receipt.cashierName)
+    .divider();
+
+  for (const item of items) {
+    const specifications = item.specifications as { serviceName?: string } | null;
+    builder.wrapped(specifications?.serviceName || `Service #${item.serviceId}`);
+    builder.pair(`  ${item.quantity} x ${formatAmount(item.unitPrice)}`, formatAmount(item.amount));
+  }
+  builder.divider();
+
+  builder.pair("Subtotal:", formatAmount(getOrderSubtotal(order)));
+  if ((order.discount || 0) > 0) {
+    builder.pair("Discount:", `-${formatAmount(order.discount || 0)}`);
+  }
+  if (order.vatInclusive === false && (order.vatAmount || 0) > 0) {
+    builder.pair("VAT:", formatAmount(order.vatAmount || 0));
+  }
+  builder.bold(true).pair("TOTAL:", `PHP ${formatAmount(order.total)}`).bold(false);
+  if (hasVatBreakdown(order)) {
+    builder
+      .pair("VATable Sales:", formatAmount(order.vatableSales || 0))
+      .pair("VAT Amount:", formatAmount(order.vatAmount || 0))
+      .pair("VAT-Exempt Sales:", formatAmount(order.exemptSales || 0));
+  }
+  builder.pair("Amount Paid:", formatAmount(order.amountPaid || 0));
+
+  const balanceDue = getBalanceDue(order);
+  if (balanceDue > 0) {
+    builder.bold(true).pair("Balance Due:", formatAmount(balanceDue)).bold(false);
+  }
+  builder.divider();
+
+  if (payments.length > 0) {
+    for (const payment of payments) {
+      const reference = payment.referenceNumber ? ` (Ref: ${payment.referenceNumber})` : "";
+      builder.pair(`${payment.method.toUpperCase()}${reference}`, formatAmount(payment.amount));
+    }
+  } else {
+    builder.pair("Payment Method:", order.paymentMethod?.toUpperCase() || "N/A");
+  }
+  builder.pair("Payment Status:", order.paymentStatus?.toUpperCase() || "N/A");
+
+  builder.feed(1).align("center");
+  if (settings.footerMessage.trim()) {
+    builder.wrapped(settings.footerMessage.trim());
+  }
+  if (settings.printQrCode) {
+    builder.feed(1).qrCode(order.orderNumber).line(order.orderNumber);
+  }
+
+  return builder.feed(3).cut().build();
+}
+
+/**
+ * A short printout to check the printer, paper width and logo
+ */
+export async function renderTestPage(settings: ReceiptPrinterSettings): Promise<Buffer> {
+  const builder = new EscPosBuilder(RECEIPT_PAPER_LAYOUTS[settings.paperWidth].columns);
+
+  await printHeader(builder, settings);
+  builder
+    .divider()
+    .line("Printer test")
+    .pair("Paper width:", `${settings.paperWidth} mm`)
+    .pair("Printed:", format(new Date(), "MMM dd, yyyy HH:mm"))
+    .divider("=");
+
+  if (settings.printQrCode) {
+    builder.align("center").qrCode("TEST").line("TEST");
+  }
+
+  return builder.feed(3).cut().build();
+}
+
+/**
+ * Send a raw job to a network printer's port 9100 listener. Resolves once
+ * the job has been handed to the network; the printer sends no reply.
+ */
+export function sendToPrinter(host: string, port: number, job: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+
+    socket.setTimeout(PRINTER_TIMEOUT_MS);
+    socket.once("connect", () => socket.end(job));
+    socket.once("finish", () => {
+      socket.destroy();
+      resolve();
+    });
+    socket.once("timeout", () => socket.destroy(new Error(`Printer at ${host}:${port} did not respond`)));
+    socket.once("error", reject);
+  });
+}
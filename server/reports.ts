@@ -0,0 +1,332 @@
+import type { Inventory } from "@shared/schema";
+import { roundPrice } from "@shared/pricing";
+import { getOrderSubtotal } from "@shared/tax";
+
+// Date range a report is computed over (both ends inclusive)
+export interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+export interface TopServiceReport {
+  serviceId: number;
+  name: string;
+  sales: number;
+  // The same sales after order discounts and without VAT
+  netSales: number;
+  count: number;
+  quantity: number;
+}
+
+// What the stock used by a service's sold order lines cost
+export interface ServiceCost {
+  serviceId: number;
+  cost: number;
+}
+
+// A service's sales against the cost of the stock it used
+export interface ServiceMarginReport extends TopServiceReport {
+  cost: number;
+  grossMargin: number;
+  marginPercent: number | null;
+}
+
+export interface InventoryUsageReport {
+  inventoryId: number;
+  name: string;
+  used: number;
+  unit: string;
+  currentStock: number;
+  lowStockThreshold: number;
+}
+
+export interface ExpenseCategoryReport {
+  category: string;
+  amount: number;
+}
+
+export interface ReversalReport {
+  type: string;
+  count: number;
+  amount: number;
+}
+
+// VAT split of an amount of sales
+export interface VatBreakdown {
+  vatableSales: number;
+  vatAmount: number;
+  exemptSales: number;
+  total: number;
+}
+
+// VAT split of the paid sales in a range, the refunds given in it and what is left
+export interface VatSummaryReport extends VatBreakdown {
+  orders: number;
+  refunds: VatBreakdown & { count: number };
+  net: VatBreakdown;
+}
+
+// An approved refund with the VAT split of the order it was given on
+export interface VatRefund {
+  amount: number;
+  order: VatBreakdown;
+}
+
+export interface DailyTotal {
+  date: string;
+  total: number;
+}
+
+// Approved refunds of one service's order lines
+export interface ServiceRefund {
+  serviceId: number;
+  name: string;
+  amount: number;
+  netAmount: number;
+  quantity: number;
+}
+
+// An order's takings and VAT, as needed to take the VAT out of its lines
+interface VatOrder {
+  total: number;
+  discount?: number | null;
+  vatAmount?: number | null;
+  vatInclusive?: boolean | null;
+}
+
+/**
+ * What an order line sold for after the order discount and without VAT:
+ * its share of the order's VATable and exempt sales
+ */
+export function getNetLineSales(amount: number, order: VatOrder): number {
+  const subtotal = getOrderSubtotal(order);
+  return subtotal > 0 ? amount * (order.total - (order.vatAmount || 0)) / subtotal : 0;
+}
+
+/**
+ * A refund of part of an order total without the VAT it carried
+ */
+export function getNetRefund(amount: number, order: VatOrder): number {
+  return order.total > 0 ? amount * (order.total - (order.vatAmount || 0)) / order.total : 0;
+}
+
+// An order line as needed to estimate material consumption
+export interface UsageLine {
+  serviceType: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+  specifications: unknown;
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const SHEETS_PER_REAM = 500;
+
+/**
+ * Read a YYYY-MM-DD date as midnight in server time. `new Date()` would read
+ * it as UTC midnight, which falls on the day before west of UTC.
+ */
+export function parseLocalDate(value: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(NaN);
+}
+
+/**
+ * Parse the `from` / `to` query parameters (YYYY-MM-DD) of a report request.
+ * Defaults to the last 30 days. Returns undefined for an invalid range.
+ */
+export function parseReportRange(query: Record<string, unknown>): ReportRange | undefined {
+  const to = typeof query.to === "string" ? parseLocalDate(query.to) : new Date();
+  let from: Date;
+
+  if (typeof query.from === "string") {
+    from = parseLocalDate(query.from);
+  } else {
+    from = new Date(to);
+    from.setDate(from.getDate() - DEFAULT_RANGE_DAYS);
+  }
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+    return undefined;
+  }
+
+  from.setHours(0, 0, 0, 0);
+  to.setHours(23, 59, 59, 999);
+
+  return { from, to };
+}
+
+/**
+ * Check whether a timestamp falls within a report range
+ */
+export function isInRange(date: Date | string | null, range: ReportRange): boolean {
+  if (!date) return false;
+  const time = new Date(date).getTime();
+  return time >= range.from.getTime() && time <= range.to.getTime();
+}
+
+/**
+ * Net daily sales: paid sales by order date less refunds by the day they were given
+ */
+export function deductDailyRefunds(sales: DailyTotal[], refunds: DailyTotal[]): DailyTotal[] {
+  const totals = new Map<string, number>();
+  
+  sales.forEach(day => totals.set(day.date, (totals.get(day.date) || 0) + Number(day.total)));
+  refunds.forEach(day => totals.set(day.date, (totals.get(day.date) || 0) - Number(day.total)));
+  
+  return Array.from(totals.keys())
+    .sort()
+    .map(date => ({ date, total: roundPrice(totals.get(date) || 0) }));
+}
+
+/**
+ * Take the refunds given in a report range off its VAT summary. Each refund
+ * is split across VATable, VAT and exempt sales in the same proportions as
+ * the order it was given on.
+ */
+export function deductVatRefunds(sales: VatBreakdown & { orders: number }, refunds: VatRefund[]): VatSummaryReport {
+  const refunded = { count: refunds.length, vatableSales: 0, vatAmount: 0, exemptSales: 0, total: 0 };
+  
+  for (const refund of refunds) {
+    const share = refund.order.total > 0 ? refund.amount / refund.order.total : 0;
+    refunded.vatableSales += refund.order.vatableSales * share;
+    refunded.vatAmount += refund.order.vatAmount * share;
+    refunded.exemptSales += refund.order.exemptSales * share;
+    refunded.total += refund.amount;
+  }
+  
+  const round = (breakdown: VatBreakdown): VatBreakdown => ({
+    vatableSales: roundPrice(breakdown.vatableSales),
+    vatAmount: roundPrice(breakdown.vatAmount),
+    exemptSales: roundPrice(breakdown.exemptSales),
+    total: roundPrice(breakdown.total),
+  });
+  
+  return {
+    orders: sales.orders,
+    ...round(sales),
+    refunds: { count: refunded.count, ...round(refunded) },
+    net: round({
+      vatableSales: sales.vatableSales - refunded.vatableSales,
+      vatAmount: sales.vatAmount - refunded.vatAmount,
+      exemptSales: sales.exemptSales - refunded.exemptSales,
+      total: sales.total - refunded.total,
+    }),
+  };
+}
+
+/**
+ * Take refunds given in a report range off each service's sales
+ */
+export function deductServiceRefunds(report: TopServiceReport[], refunds: ServiceRefund[]): TopServiceReport[] {
+  const entries = report.map(entry => ({ ...entry }));
+  
+  for (const refund of refunds) {
+    let entry = entries.find(e => e.serviceId === refund.serviceId);
+    if (!entry) {
+      entry = { serviceId: refund.serviceId, name: refund.name, sales: 0, netSales: 0, count: 0, quantity: 0 };
+      entries.push(entry);
+    }
+    entry.sales = roundPrice(entry.sales - Number(refund.amount));
+    entry.netSales = roundPrice(entry.netSales - Number(refund.netAmount));
+    entry.quantity -= Number(refund.quantity);
+  }
+  
+  return entries.sort((a, b) => b.sales - a.sales);
+}
+
+/**
+ * Set each service's material cost against its sales net of discounts, VAT
+ * and refunds. Services whose materials were never costed show no cost, so
+ * their margin is the whole sale.
+ */
+export function addServiceMargins(report: TopServiceReport[], costs: ServiceCost[]): ServiceMarginReport[] {
+  return report.map(entry => {
+    const cost = costs.find(c => c.serviceId === entry.serviceId)?.cost || 0;
+    const grossMargin = roundPrice(entry.netSales - cost);
+    return {
+      ...entry,
+      cost,
+      grossMargin,
+      marginPercent: entry.netSales > 0 ? Math.round((grossMargin / entry.netSales) * 1000) / 10 : null,
+    };
+  });
+}
+
+// Find the paper stock a document line was printed on
+function findPaper(items: Inventory[], specs: Record<string, any>): Inventory | undefined {
+  const papers = items.filter(item => item.category === "paper");
+  const size = String(specs.paperSize || "A4").toLowerCase();
+  const type = String(specs.paperType || "Standard").toLowerCase();
+  const sized = papers.filter(item => item.name.toLowerCase().includes(size));
+
+  if (type !== "standard") {
+    return sized.find(item => item.name.toLowerCase().includes(type));
+  }
+
+  return sized.find(item => !/glossy|matte|high quality/i.test(item.name)) || sized[0];
+}
+
+function findByName(items: Inventory[], keyword: string): Inventory | undefined {
+  return items.find(item => item.name.toLowerCase().includes(keyword));
+}
+
+// Express a consumed amount in the item's stock unit where a conversion is known
+function toStockUnit(item: Inventory, amount: number, unit: string): { amount: number; unit: string } {
+  if (unit === "sheets" && item.unit.toLowerCase().startsWith("ream")) {
+    return { amount: amount / SHEETS_PER_REAM, unit: item.unit };
+  }
+  return { amount, unit };
+}
+
+/**
+ * Estimate how much of each inventory item a set of order lines consumed.
+ * Document lines use one sheet per printed page, tarpaulin lines their area
+ * in square feet and lamination lines one sheet of film per piece.
+ */
+export function estimateInventoryUsage(lines: UsageLine[], items: Inventory[]): InventoryUsageReport[] {
+  const usage = new Map<number, { amount: number; unit: string }>();
+
+  const consume = (item: Inventory | undefined, amount: number, unit: string) => {
+    if (!item || !(amount > 0)) return;
+    const converted = toStockUnit(item, amount, unit);
+    const current = usage.get(item.id);
+    usage.set(item.id, {
+      amount: (current?.amount || 0) + converted.amount,
+      unit: converted.unit,
+    });
+  };
+
+  for (const line of lines) {
+    const specs = (line.specifications || {}) as Record<string, any>;
+
+    switch (line.serviceType) {
+      case "document": {
+        // amount / unitPrice recovers pages × copies for every color mode
+        const sheets = line.unitPrice > 0 ? Math.round(line.amount / line.unitPrice) : line.quantity;
+        consume(findPaper(items, specs), sheets, "sheets");
+        break;
+      }
+      case "tarpaulin": {
+        const area = (Number(specs.width) || 0) * (Number(specs.height) || 0);
+        consume(findByName(items, "tarpaulin"), area * line.quantity, "sq ft");
+        break;
+      }
+      case "lamination":
+        consume(findByName(items, "lamination"), line.quantity, "pcs");
+        break;
+    }
+  }
+
+  return items
+    .filter(item => usage.has(item.id))
+    .map(item => ({
+      inventoryId: item.id,
+      name: item.name,
+      used: Math.round(usage.get(item.id)!.amount * 100) / 100,
+      unit: usage.get(item.id)!.unit,
+      currentStock: item.currentStock,
+      lowStockThreshold: item.lowStockThreshold,
+    }))
+    .sort((a, b) => b.used - a.used);
+}
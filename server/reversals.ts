@@ -0,0 +1,110 @@
+import type { IStorage } from "./storage";
+import type { Order, OrderReversal, OrderReversalItem, InsertOrderReversalItem } from "@shared/schema";
+import { roundPrice, PRICE_TOLERANCE } from "@shared/pricing";
+import {
+  getAllowedReversalTypes, getRefundableLines, calculateRefundAmount,
+  type OrderReversalRequest, type RefundedLine
+} from "@shared/reversals";
+
+// A reversal together with the order lines it refunds
+export type OrderReversalWithItems = OrderReversal & { items: OrderReversalItem[] };
+
+export interface PreparedReversal {
+  amount: number;
+  items: Omit<InsertOrderReversalItem, "reversalId">[];
+  errors: string[];
+}
+
+/**
+ * Attach the refunded lines to each reversal
+ */
+export async function withReversalItems(
+  storage: IStorage,
+  reversals: OrderReversal[]
+): Promise<OrderReversalWithItems[]> {
+  const items = await storage.getOrderReversalItems(reversals.map(reversal => reversal.id));
+  return reversals.map(reversal => ({
+    ...reversal,
+    items: items.filter(item => item.reversalId === reversal.id)
+  }));
+}
+
+/**
+ * Order lines already refunded by approved reversals
+ */
+export async function getRefundedLines(storage: IStorage, orderId: number): Promise<RefundedLine[]> {
+  const approved = (await storage.getOrderReversals(orderId))
+    .filter(reversal => reversal.type === "refund" && reversal.status === "approved");
+  return await storage.getOrderReversalItems(approved.map(reversal => reversal.id));
+}
+
+/**
+ * Check a reversal request against the order and work out the money to
+ * return. Refund amounts are computed here, never taken on trust from the
+ * client beyond a smaller goodwill amount; problems are listed in `errors`.
+ */
+export async function prepareOrderReversal(
+  storage: IStorage,
+  order: Order,
+  request: OrderReversalRequest
+): Promise<PreparedReversal> {
+  const errors: string[] = [];
+
+  const reversals = await storage.getOrderReversals(order.id);
+  if (reversals.some(reversal => reversal.status === "pending")) {
+    errors.push("This order already has a reversal awaiting approval");
+  }
+
+  const allowed = getAllowedReversalTypes(order);
+  if (!allowed.includes(request.type)) {
+    errors.push(allowed.length === 0
+      ? `Order is already ${order.status}`
+      : `This order can only be reversed by: ${allowed.join(", ")}`);
+  }
+
+  if (errors.length > 0 || request.type !== "refund") {
+    // Cancelling a part-paid order hands back the deposit taken so far
+    const amount = request.type === "void" ? order.total : roundPrice(order.amountPaid || 0);
+    return { amount, items: [], errors };
+  }
+
+  const lines = getRefundableLines(
+    order,
+    await storage.getOrderItems(order.id),
+    await getRefundedLines(storage, order.id)
+  );
+
+  const items: PreparedReversal["items"] = [];
+  request.items.forEach((requested, index) => {
+    const line = lines.find(l => l.orderItemId === requested.orderItemId);
+
+    if (!line) {
+      errors.push(`Item ${index + 1}: not part of this order`);
+      return;
+    }
+    if (items.some(item => item.orderItemId === requested.orderItemId)) {
+      errors.push(`Item ${index + 1}: listed more than once`);
+      return;
+    }
+    if (requested.quantity > line.quantity) {
+      errors.push(`Item ${index + 1}: only ${line.quantity} can still be refunded`);
+      return;
+    }
+
+    const maximum = calculateRefundAmount(line, requested.quantity);
+    const amount = requested.amount ?? maximum;
+    if (amount > maximum + PRICE_TOLERANCE) {
+      errors.push(`Item ${index + 1}: refund cannot exceed ${maximum}`);
+      return;
+    }
+
+    items.push({ orderItemId: requested.orderItemId, quantity: requested.quantity, amount: roundPrice(amount) });
+  });
+
+  const amount = roundPrice(items.reduce((sum, item) => sum + item.amount, 0));
+  if (errors.length === 0 && amount <= 0) {
+    errors.push("Nothing left to refund on the selected items");
+  }
+
+  return { amount, items, errors };
+}
@@ -1,49 +1,90 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import os from "os";
+import multer from "multer";
 import { storage } from "./storage";
+import { parseReportRange, addServiceMargins } from "./reports";
+import { audit, parseAuditFilter } from "./audit";
+import { hashPassword, verifyPassword, generateTemporaryPassword } from "./passwords";
+import { priceOrder, withCurrentPricing, recordPriceVersion, explainOrderPricing, getTaxSettings } from "./pricing";
+import { withReversalItems, prepareOrderReversal } from "./reversals";
+import { validateOrderPayments } from "./payments";
+import { buildCashReading, getCashSessionErrors, getReversalCashRefund } from "./cash-sessions";
+import { getServiceMaterialErrors, planOrderLines } from "./materials";
+import { describeMovements } from "./inventory";
+import {
+  getPurchaseOrderErrors, getReceiptErrors, planLowStockPurchaseOrders, describePurchaseOrders
+} from "./purchasing";
+import { getStocktakeCountErrors, buildStocktakeLines } from "./stocktakes";
+import { fileStore } from "./file-store";
+import {
+  MAX_UPLOAD_BYTES, storeUploadedFile, validateOrderItemFiles, isPreviewable, isAnalyzable, analyzeOrderFile,
+  readFileContents
+} from "./files";
+import { inspectArtwork, renderThumbnail, MIN_PRINT_DPI } from "./preflight";
+import { notifyOrderStatus } from "./notifications";
+import { getReceiptPrinterSettings, loadReceipt, renderReceipt, renderTestPage, sendToPrinter } from "./receipts";
+import { getBusinessSettings, buildDocumentSnapshot, renderDocumentPdf } from "./invoices";
+import { servicePricingSchema } from "@shared/pricing";
+import { orderReversalRequestSchema, isOrderClosed, canApproveReversal } from "@shared/reversals";
+import { orderPaymentRequestSchema, orderTendersSchema } from "@shared/payments";
+import { getDefaultDueAt } from "@shared/turnaround";
+import { RECEIPT_PRINTER_SETTINGS_KEY, receiptPrinterSettingsSchema } from "@shared/receipts";
+import { TAX_SETTINGS_KEY, taxSettingsSchema } from "@shared/tax";
+import { serviceMaterialsRequestSchema } from "@shared/materials";
+import { inventoryMovementRequestSchema, getStockChange } from "@shared/inventory";
+import {
+  purchaseOrderRequestSchema, receivePurchaseOrderRequestSchema, getPurchaseOrderTotal,
+  RECEIVABLE_PURCHASE_ORDER_STATUSES
+} from "@shared/purchasing";
+import { startStocktakeRequestSchema, stocktakeCountsRequestSchema, summarizeStocktake } from "@shared/stocktakes";
+import {
+  openCashSessionRequestSchema, cashMovementRequestSchema, closeCashSessionRequestSchema, countCash
+} from "@shared/cash-sessions";
+import {
+  BUSINESS_SETTINGS_KEY, businessSettingsSchema, orderDocumentRequestSchema, getDocumentIssueErrors
+} from "@shared/invoices";
+import {
+  productionStageRequestSchema, productionAssignmentRequestSchema, isInProduction
+} from "@shared/production";
 import { z } from "zod";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
-import session from "express-session";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import MemoryStore from "memorystore";
+import {
+  sessionMiddleware, recordSessionLogin, recordSessionActivity,
+  getActiveSessions, destroySession, destroyUserSessions
+} from "./sessions";
 import { 
   insertUserSchema, insertServiceSchema, insertOrderSchema, 
   insertOrderItemSchema, insertInventorySchema, insertExpenseSchema,
-  insertCustomerSchema,
+  insertCustomerSchema, insertServicePriceVersionSchema, changePasswordSchema, insertOrderReversalSchema,
+  insertOrderPaymentSchema, insertSupplierSchema,
   services
 } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { db } from "./db";
 
-// Create session store
-const MemoryStoreSession = MemoryStore(session);
-
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
-  // Increase the request size limit for file uploads
-  app.use(express.json({ limit: '50mb' }));
-  app.use(express.urlencoded({ limit: '50mb', extended: true }));
-  
   // Set up session middleware
-  app.use(
-    session({
-      cookie: { maxAge: 86400000 }, // 1 day
-      store: new MemoryStoreSession({
-        checkPeriod: 86400000, // prune expired entries every 24h
-      }),
-      resave: false,
-      saveUninitialized: false,
-      secret: "printsphere-secret",
-    })
-  );
+  // Sessions are stored in Postgres so logins survive restarts
+  app.use(sessionMiddleware);
   
   // Initialize passport for authentication
   app.use(passport.initialize());
   app.use(passport.session());
   
+  // Keep each session's last-seen time current for the sessions panel
+  app.use((req, res, next) => {
+    if (req.isAuthenticated()) {
+      recordSessionActivity(req);
+    }
+    next();
+  });
+  
   // Configure passport to use local strategy
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -54,8 +95,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return done(null, false, { message: "Incorrect username." });
         }
         
-        // In a real app, we'd compare hashed passwords
-        if (user.password !== password) {
+        if (!(await verifyPassword(password, user.password))) {
           return done(null, false, { message: "Incorrect password." });
         }
         
@@ -81,11 +121,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Utility middleware to check if user is authenticated
+  // Users with a reset password may only change it until they do
   const isAuthenticated = (req: Request, res: Response, next: Function) => {
-    if (req.isAuthenticated()) {
-      return next();
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
-    res.status(401).json({ message: "Unauthorized" });
+    if ((req.user as any).mustChangePassword) {
+      return res.status(403).json({ message: "Password change required" });
+    }
+    next();
   };
   
   // Utility middleware to check user role
@@ -96,6 +140,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const user = req.user as any;
+      if (user.mustChangePassword) {
+        return res.status(403).json({ message: "Password change required" });
+      }
       if (!roles.includes(user.role)) {
         return res.status(403).json({ message: "Forbidden" });
       }
@@ -116,6 +163,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return res.status(500).json({ message: "Internal server error" });
   };
   
+  // Customer files arrive as multipart uploads, spooled to a temp file before hashing
+  const upload = multer({ dest: os.tmpdir(), limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 } });
+  const receiveFile = (req: Request, res: Response, next: Function) => {
+    upload.single("file")(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        return res.status(err.code === "LIMIT_FILE_SIZE" ? 413 : 400).json({
+          message: err.code === "LIMIT_FILE_SIZE"
+            ? `File is larger than ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB`
+            : err.message
+        });
+      }
+      if (err) {
+        return res.status(500).json({ message: "Failed to receive file" });
+      }
+      next();
+    });
+  };
+  
+  // Audit snapshot of a drawer session, without its frozen reading
+  const loadCashSession = async (id: number) => {
+    const session = await storage.getCashSession(id);
+    if (!session) return null;
+    const { zReading, ...rest } = session;
+    return rest;
+  };
+  
+  // Audit snapshot of a purchase order together with its lines
+  const loadPurchaseOrder = async (id: number) => {
+    const purchaseOrder = await storage.getPurchaseOrder(id);
+    return purchaseOrder ? { purchaseOrder, items: await storage.getPurchaseOrderItems([id]) } : null;
+  };
+  
+  // Audit snapshot of an order together with its line items
+  const loadOrderWithItems = async (id: number) => {
+    const order = await storage.getOrder(id);
+    return order ? { order, items: await storage.getOrderItems(id) } : null;
+  };
+  
+  // Audit snapshot of a reversal together with the order it reverses
+  const loadReversalWithOrder = async (id: number) => {
+    const reversal = await storage.getOrderReversal(id);
+    return reversal ? { reversal, order: await storage.getOrder(reversal.orderId) } : null;
+  };
+  
   // Authentication Routes
   app.post("/api/auth/login", (req, res, next) => {
     passport.authenticate("local", (err, user, info) => {
@@ -132,6 +223,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return next(err);
         }
         
+        recordSessionLogin(req);
+        
         // Don't include password in the response
         const { password, ...userWithoutPassword } = user;
         return res.json({ user: userWithoutPassword });
@@ -145,6 +238,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
   
+  app.post("/api/auth/change-password", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = await storage.getUser((req.user as any).id);
+      
+      if (!user || !(await verifyPassword(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+      
+      const updated = await storage.updateUserPassword(user.id, await hashPassword(newPassword), false);
+      
+      const { password, ...userWithoutPassword } = updated!;
+      res.json({ user: userWithoutPassword });
+    } catch (err) {
+      handleZodError(err, res);
+    }
+  });
+  
   app.get("/api/auth/me", (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Not authenticated" });
@@ -183,7 +298,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       onlyOnline ? eq(services.onlineAvailable, true) : undefined
     );
 
-    res.json({ services: allServices });
+    res.json({ services: await withCurrentPricing(storage, allServices) });
   } catch (err) {
     res.status(500).json({ message: "Failed to fetch services" });
   }
@@ -193,10 +308,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "/api/users",
     isAuthenticated,
     hasRole(["admin"]),
+    audit(storage, { action: "user.create", entityType: "user" }),
     async (req, res) => {
       try {
         const userData = insertUserSchema.parse(req.body);
-        const user = await storage.createUser(userData);
+        const user = await storage.createUser({
+          ...userData,
+          password: await hashPassword(userData.password)
+        });
         
         // Don't include password in the response
         const { password, ...userWithoutPassword } = user;
@@ -207,385 +326,1938 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
   
-  // Service Management Routes
-  app.get("/api/services", isAuthenticated, async (req, res) => {
-    try {
-      const { category, type } = req.query;
-      const services = await storage.getServices(
-        typeof category === "string" ? category : undefined,
-        typeof type === "string" ? type : undefined
-      );
-      
-      res.json({ services });
-    } catch (err) {
-      res.status(500).json({ message: "Failed to fetch services" });
-    }
-  });
-  
-  app.get("/api/services/:id", isAuthenticated, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const service = await storage.getService(id);
-      
-      if (!service) {
-        return res.status(404).json({ message: "Service not found" });
+  // Replace a user's password with a temporary one they must change at next login
+  app.post(
+    "/api/users/:id/reset-password",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "user.password_reset", entityType: "user", load: id => storage.getUser(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        
+        if (id === (req.user as any).id) {
+          return res.status(400).json({ message: "Use change password for your own account" });
+        }
+        
+        const temporaryPassword = generateTemporaryPassword();
+        const user = await storage.updateUserPassword(id, await hashPassword(temporaryPassword), true);
+        
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        
+        // Log the user out everywhere so the old password stops working at once
+        await destroyUserSessions(id);
+        
+        // The temporary password is only ever shown in this response
+        res.json({ temporaryPassword });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to reset password" });
       }
-      
-      res.json({ service });
-    } catch (err) {
-      res.status(500).json({ message: "Failed to fetch service" });
     }
-  });
+  );
   
-app.delete(
-  "/api/orders/:id",
-  isAuthenticated,
-  hasRole(["admin"]),
-  async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const deleted = await storage.deleteOrder(id);
-
-      if (!deleted) {
-        return res.status(404).json({ message: "Order not found" });
-      }
-
-      res.json({ message: "Order deleted successfully" });
-    } catch (err) {
-      console.error("Route error:", err);
-      res.status(500).json({ message: "Failed to delete order" });
-    }
-  }
-);
-
-
-
-  app.post(
-    "/api/services",
+  // Session Management Routes
+  app.get(
+    "/api/sessions",
     isAuthenticated,
     hasRole(["admin"]),
     async (req, res) => {
       try {
-        const serviceData = insertServiceSchema.parse(req.body);
-        const service = await storage.createService(serviceData);
+        const sessions = (await getActiveSessions()).map(userSession => ({
+          ...userSession,
+          current: userSession.sid === req.sessionID
+        }));
         
-        res.status(201).json({ service });
+        res.json({ sessions });
       } catch (err) {
-        handleZodError(err, res);
+        res.status(500).json({ message: "Failed to fetch sessions" });
       }
     }
   );
   
-  app.patch(
-    "/api/services/:id",
+  app.delete(
+    "/api/sessions/:sid",
     isAuthenticated,
     hasRole(["admin"]),
+    audit(storage, { action: "session.revoke", entityType: "session" }),
     async (req, res) => {
       try {
-        const id = parseInt(req.params.id);
-        const serviceData = req.body;
-        
-        const service = await storage.updateService(id, serviceData);
-        
-        if (!service) {
-          return res.status(404).json({ message: "Service not found" });
+        if (req.params.sid === req.sessionID) {
+          return res.status(400).json({ message: "Use logout to end your own session" });
         }
         
-        res.json({ service });
+        // Returned so the audit log shows whose session was ended
+        const session = (await getActiveSessions()).find(userSession => userSession.sid === req.params.sid);
+        await destroySession(req.params.sid);
+        res.json({ success: true, session: session ?? null });
       } catch (err) {
-        res.status(500).json({ message: "Failed to update service" });
+        res.status(500).json({ message: "Failed to end session" });
       }
     }
   );
   
-  // Customer Management Routes
-  app.get("/api/customers", isAuthenticated, async (req, res) => {
-    try {
-      const customers = await storage.getCustomers();
-      res.json({ customers });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch customers" });
-    }
-  });
-  
-  app.get("/api/customers/:id", isAuthenticated, async (req, res) => {
-    try {
-      const customer = await storage.getCustomer(parseInt(req.params.id));
-      if (!customer) {
-        return res.status(404).json({ message: "Customer not found" });
+  app.delete(
+    "/api/users/:id/sessions",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "user.logout", entityType: "user" }),
+    async (req, res) => {
+      try {
+        const count = await destroyUserSessions(parseInt(req.params.id), req.sessionID);
+        res.json({ count });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to end sessions" });
       }
-      res.json({ customer });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch customer" });
-    }
-  });
-  
-  app.get("/api/customers/:id/orders", isAuthenticated, async (req, res) => {
-    try {
-      const customerId = parseInt(req.params.id);
-      const orders = await storage.getOrdersByCustomerId(customerId);
-      res.json({ orders });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch customer orders" });
     }
-  });
+  );
   
-  app.post("/api/customers", isAuthenticated, async (req, res) => {
-    try {
-      const customerData = insertCustomerSchema.parse(req.body);
-      const customer = await storage.createCustomer(customerData);
-      res.status(201).json({ customer });
-    } catch (error) {
-      handleZodError(error, res);
+  // Audit Log Routes
+  app.get(
+    "/api/audit-events",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const events = await storage.getAuditEvents(parseAuditFilter(req.query));
+        res.json({ events });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch audit events" });
+      }
     }
-  });
+  );
   
-  app.patch("/api/customers/:id", isAuthenticated, async (req, res) => {
+  // Settings Routes
+  app.get("/api/settings/business", isAuthenticated, async (req, res) => {
     try {
-      const customerId = parseInt(req.params.id);
-      const customerData = insertCustomerSchema.partial().parse(req.body);
-      const customer = await storage.updateCustomer(customerId, customerData);
-      if (!customer) {
-        return res.status(404).json({ message: "Customer not found" });
-      }
-      res.json({ customer });
-    } catch (error) {
-      handleZodError(error, res);
+      const settings = await getBusinessSettings(storage);
+      
+      res.json({ settings });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch business settings" });
     }
   });
   
-  app.delete("/api/customers/:id", isAuthenticated, async (req, res) => {
-    try {
-      const customerId = parseInt(req.params.id);
-      const success = await storage.deleteCustomer(customerId);
-      if (!success) {
-        return res.status(404).json({ message: "Customer not found" });
+  app.put(
+    "/api/settings/business",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "settings.business", entityType: "setting" }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const settings = businessSettingsSchema.parse(req.body);
+        await storage.saveSetting(BUSINESS_SETTINGS_KEY, settings, user.id);
+        
+        res.json({ settings });
+      } catch (err) {
+        handleZodError(err, res);
       }
-      res.json({ success });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to delete customer" });
     }
-  });
+  );
   
-  // Order Management Routes
-  app.get("/api/orders", isAuthenticated, async (req, res) => {
+  // Cashiers need the VAT settings to total the cart the same way checkout will
+  app.get("/api/settings/tax", isAuthenticated, async (req, res) => {
     try {
-      const { status } = req.query;
-      const orders = await storage.getOrders(
-        typeof status === "string" ? status : undefined
-      );
+      const settings = await getTaxSettings(storage);
       
-      res.json({ orders });
+      res.json({ settings });
     } catch (err) {
-      res.status(500).json({ message: "Failed to fetch orders" });
+      res.status(500).json({ message: "Failed to fetch tax settings" });
     }
   });
   
-  app.get("/api/orders/:id", isAuthenticated, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const order = await storage.getOrder(id);
-      
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
+  app.put(
+    "/api/settings/tax",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "settings.tax", entityType: "setting" }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const settings = taxSettingsSchema.parse(req.body);
+        await storage.saveSetting(TAX_SETTINGS_KEY, settings, user.id);
+        
+        res.json({ settings });
+      } catch (err) {
+        handleZodError(err, res);
       }
-      
-      const orderItems = await storage.getOrderItems(order.id);
-      
-      res.json({ order, items: orderItems });
-    } catch (err) {
-      res.status(500).json({ message: "Failed to fetch order" });
     }
-  });
+  );
   
-  // Separate endpoint to get order items by order ID
-  app.get("/api/orders/:id/items", isAuthenticated, async (req, res) => {
+  app.get("/api/settings/receipt-printer", isAuthenticated, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const order = await storage.getOrder(id);
+      const settings = await getReceiptPrinterSettings(storage);
       
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
-      }
-      
-      const items = await storage.getOrderItems(order.id);
-      
-      res.json({ items });
+      res.json({ settings });
     } catch (err) {
-      res.status(500).json({ message: "Failed to fetch order items" });
+      res.status(500).json({ message: "Failed to fetch receipt printer settings" });
     }
   });
   
-  app.post(
-    "/api/orders",
+  app.put(
+    "/api/settings/receipt-printer",
     isAuthenticated,
-    hasRole(["admin", "cashier"]),
+    hasRole(["admin"]),
+    audit(storage, { action: "settings.receipt_printer", entityType: "setting" }),
     async (req, res) => {
       try {
-        // Get the current user from the session
         const user = req.user as any;
+        const settings = receiptPrinterSettingsSchema.parse(req.body);
+        await storage.saveSetting(RECEIPT_PRINTER_SETTINGS_KEY, settings, user.id);
         
-        const { items, ...orderData } = req.body;
-        
-        // Set the created by field to the current user's ID
-        orderData.createdBy = user.id;
-        
-        // Validate order data
-        const validatedOrderData = insertOrderSchema.parse(orderData);
-        
-        // Create the order
-        const order = await storage.createOrder(validatedOrderData);
-        
-        // Create order items if provided
-        const orderItems = [];
-        if (Array.isArray(items) && items.length > 0) {
-          for (const item of items) {
-            // Set the order ID
-            item.orderId = order.id;
-            
-            // Validate item data
-            const validatedItemData = insertOrderItemSchema.parse(item);
-            
-            // Create the order item
-            const orderItem = await storage.createOrderItem(validatedItemData);
-            orderItems.push(orderItem);
-          }
-        }
-        
-        res.status(201).json({ order, items: orderItems });
+        res.json({ settings });
       } catch (err) {
         handleZodError(err, res);
       }
     }
   );
   
-  app.patch(
-    "/api/orders/:id/status",
+  // Print a test page on the saved network printer
+  app.post(
+    "/api/settings/receipt-printer/test",
     isAuthenticated,
-    hasRole(["admin", "cashier", "staff"]),
+    hasRole(["admin"]),
     async (req, res) => {
       try {
-        const id = parseInt(req.params.id);
-        const { status } = req.body;
+        const settings = await getReceiptPrinterSettings(storage);
+        if (!settings.printerHost) {
+          return res.status(400).json({ message: "No network printer is configured" });
+        }
         
-        // Validate status
-        if (!["pending", "in_progress", "ready", "completed"].includes(status)) {
-          return res.status(400).json({ message: "Invalid status" });
+        try {
+          await sendToPrinter(settings.printerHost, settings.printerPort, await renderTestPage(settings));
+        } catch (err) {
+          return res.status(502).json({ message: `Could not reach the printer: ${(err as Error).message}` });
         }
         
-        const order = await storage.updateOrderStatus(id, status);
+        res.json({ message: "Test page sent" });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to print test page" });
+      }
+    }
+  );
+  
+  // Service Management Routes
+  app.get("/api/services", isAuthenticated, async (req, res) => {
+    try {
+      const { category, type } = req.query;
+      const services = await storage.getServices(
+        typeof category === "string" ? category : undefined,
+        typeof type === "string" ? type : undefined
+      );
+      
+      res.json({ services: await withCurrentPricing(storage, services) });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch services" });
+    }
+  });
+  
+  app.get("/api/services/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const service = await storage.getService(id);
+      
+      if (!service) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      const [current] = await withCurrentPricing(storage, [service]);
+      res.json({ service: current });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch service" });
+    }
+  });
+  
+  app.get("/api/services/:id/price-versions", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const service = await storage.getService(id);
+      
+      if (!service) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      
+      const versions = await storage.getServicePriceVersions(id);
+      res.json({ versions });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch price versions" });
+    }
+  });
+  
+  app.post(
+    "/api/services/:id/price-versions",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "service.price_schedule", entityType: "service", load: id => storage.getServicePriceVersions(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const user = req.user as any;
+        const service = await storage.getService(id);
+        
+        if (!service) {
+          return res.status(404).json({ message: "Service not found" });
+        }
+        
+        // Changes without a start date take effect immediately
+        const now = new Date();
+        const versionData = insertServicePriceVersionSchema
+          .omit({ serviceId: true, createdBy: true })
+          .partial({ effectiveFrom: true })
+          .parse(req.body);
+        const effectiveFrom = versionData.effectiveFrom ?? now;
+        
+        if (effectiveFrom < now) {
+          return res.status(400).json({ message: "Price changes cannot be backdated" });
+        }
+        
+        const history = await storage.getServicePriceVersions(id);
+        if (history.some(version => version.effectiveFrom.getTime() === effectiveFrom.getTime())) {
+          return res.status(400).json({ message: "Another price change starts at that time" });
+        }
+        
+        const { pricingRules } = servicePricingSchema.parse({
+          type: service.type,
+          pricingRules: versionData.pricingRules
+        });
+        
+        const version = await recordPriceVersion(storage, service, {
+          ...versionData,
+          pricingRules,
+          effectiveFrom,
+          createdBy: user.id
+        });
+        
+        // Keep the service row on the rates in effect now
+        if (effectiveFrom <= now) {
+          await storage.updateService(id, { basePrice: version.basePrice, pricingRules });
+        }
+        
+        res.status(201).json({ version });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  app.delete(
+    "/api/services/:id/price-versions/:versionId",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "service.price_cancel", entityType: "service", load: id => storage.getServicePriceVersions(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const version = await storage.getServicePriceVersion(parseInt(req.params.versionId));
+        
+        if (!version || version.serviceId !== id) {
+          return res.status(404).json({ message: "Price version not found" });
+        }
+        
+        // Versions that have taken effect may already have priced orders
+        if (version.effectiveFrom <= new Date()) {
+          return res.status(400).json({ message: "Only scheduled price changes can be cancelled" });
+        }
+        
+        await storage.deleteServicePriceVersion(version.id);
+        res.json({ success: true });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to cancel price change" });
+      }
+    }
+  );
+  
+  // Bill of materials: the inventory a service uses up, deducted when it is ordered
+  app.get(
+    "/api/services/:id/materials",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const service = await storage.getService(id);
+        
+        if (!service) {
+          return res.status(404).json({ message: "Service not found" });
+        }
+        
+        const materials = await storage.getServiceMaterials(id);
+        res.json({ materials });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch service materials" });
+      }
+    }
+  );
+  
+  app.put(
+    "/api/services/:id/materials",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "service.materials", entityType: "service", load: id => storage.getServiceMaterials(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const service = await storage.getService(id);
+        
+        if (!service) {
+          return res.status(404).json({ message: "Service not found" });
+        }
+        
+        const { materials } = serviceMaterialsRequestSchema.parse(req.body);
+        const errors = await getServiceMaterialErrors(storage, service, materials);
+        if (errors.length > 0) {
+          return res.status(400).json({ message: "Invalid materials", errors });
+        }
+        
+        const saved = await storage.saveServiceMaterials(id, materials.map(material => ({
+          ...material,
+          serviceId: id,
+          conditions: material.conditions && Object.keys(material.conditions).length > 0 ? material.conditions : null
+        })));
+        
+        res.json({ materials: saved });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  app.post(
+    "/api/services",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "service.create", entityType: "service" }),
+    async (req, res) => {
+      try {
+        const serviceData = insertServiceSchema.parse(req.body);
+        
+        // Pricing rules must match the shape expected for the service type
+        const { pricingRules } = servicePricingSchema.parse(serviceData);
+        const service = await storage.createService({ ...serviceData, pricingRules });
+        
+        // Open the service's price history with its starting rates
+        await storage.createServicePriceVersion({
+          serviceId: service.id,
+          basePrice: service.basePrice,
+          pricingRules,
+          effectiveFrom: new Date(),
+          createdBy: (req.user as any).id
+        });
+        
+        res.status(201).json({ service });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  app.patch(
+    "/api/services/:id",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "service.update", entityType: "service", load: id => storage.getService(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const serviceData = insertServiceSchema.partial().parse(req.body);
+        
+        const existing = await storage.getService(id);
+        
+        if (!existing) {
+          return res.status(404).json({ message: "Service not found" });
+        }
+        
+        // Re-validate the pricing rules whenever the type or the rules change
+        if (serviceData.type !== undefined || serviceData.pricingRules !== undefined) {
+          const { pricingRules } = servicePricingSchema.parse({
+            type: serviceData.type ?? existing.type,
+            pricingRules: serviceData.pricingRules ?? existing.pricingRules
+          });
+          serviceData.pricingRules = pricingRules;
+        }
+        
+        const service = await storage.updateService(id, serviceData);
+        
+        // Price edits start a new price version right away
+        const priceChanged =
+          (serviceData.basePrice !== undefined && serviceData.basePrice !== existing.basePrice) ||
+          (serviceData.pricingRules !== undefined &&
+            JSON.stringify(serviceData.pricingRules) !== JSON.stringify(existing.pricingRules));
+        if (service && priceChanged) {
+          await recordPriceVersion(storage, existing, {
+            basePrice: service.basePrice,
+            pricingRules: serviceData.pricingRules ?? existing.pricingRules as typeof serviceData.pricingRules,
+            effectiveFrom: new Date(),
+            createdBy: (req.user as any).id
+          });
+        }
+        
+        res.json({ service });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // Customer Management Routes
+  app.get("/api/customers", isAuthenticated, async (req, res) => {
+    try {
+      const customers = await storage.getCustomers();
+      res.json({ customers });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch customers" });
+    }
+  });
+  
+  app.get("/api/customers/:id", isAuthenticated, async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(parseInt(req.params.id));
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json({ customer });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch customer" });
+    }
+  });
+  
+  app.get("/api/customers/:id/orders", isAuthenticated, async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const orders = await storage.getOrdersByCustomerId(customerId);
+      res.json({ orders });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch customer orders" });
+    }
+  });
+  
+  app.post("/api/customers", isAuthenticated, audit(storage, { action: "customer.create", entityType: "customer" }), async (req, res) => {
+    try {
+      const customerData = insertCustomerSchema.parse(req.body);
+      const customer = await storage.createCustomer(customerData);
+      res.status(201).json({ customer });
+    } catch (error) {
+      handleZodError(error, res);
+    }
+  });
+  
+  app.patch("/api/customers/:id", isAuthenticated, audit(storage, { action: "customer.update", entityType: "customer", load: id => storage.getCustomer(id) }), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const customerData = insertCustomerSchema.partial().parse(req.body);
+      const customer = await storage.updateCustomer(customerId, customerData);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json({ customer });
+    } catch (error) {
+      handleZodError(error, res);
+    }
+  });
+  
+  app.delete("/api/customers/:id", isAuthenticated, audit(storage, { action: "customer.delete", entityType: "customer", load: id => storage.getCustomer(id) }), async (req, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const success = await storage.deleteCustomer(customerId);
+      if (!success) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json({ success });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete customer" });
+    }
+  });
+  
+  // Customer File Routes
+  app.post(
+    "/api/files",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    receiveFile,
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+        
+        const file = await storeUploadedFile(storage, req.file, user.id);
+        
+        res.status(201).json({ file });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to store file" });
+      }
+    }
+  );
+  
+  // Download a customer file, or show it in the browser with ?inline=1
+  app.get("/api/files/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getOrderFile(id);
+      
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      if (file.purgedAt) {
+        return res.status(410).json({ message: "File was removed under the retention policy" });
+      }
+      
+      const contents = await fileStore.read(file.sha256);
+      if (!contents) {
+        return res.status(404).json({ message: "File contents are missing" });
+      }
+      
+      const disposition = req.query.inline && isPreviewable(file) ? "inline" : "attachment";
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Content-Length", String(file.size));
+      res.setHeader("Content-Disposition", `${disposition}; filename*=UTF-8''${encodeURIComponent(file.originalName)}`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      
+      contents.on("error", () => res.destroy());
+      contents.pipe(res);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch file" });
+    }
+  });
+  
+  // Page count and per-page colour of an uploaded PDF or image, used to price "Auto Detect" jobs
+  app.get("/api/files/:id/analysis", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getOrderFile(id);
+      
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      if (!file.analysis && !isAnalyzable(file)) {
+        return res.status(422).json({ message: "Only PDF and image files can be analyzed" });
+      }
+      
+      const analysis = await analyzeOrderFile(storage, file);
+      if (!analysis) {
+        return res.status(410).json({ message: "File was removed under the retention policy" });
+      }
+      
+      res.json({ analysis });
+    } catch (err) {
+      res.status(422).json({ message: "The file could not be read as a document" });
+    }
+  });
+  
+  // Size and image resolution of a tarpaulin artwork file, for the preflight report
+  app.get("/api/files/:id/preflight", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getOrderFile(id);
+      
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      if (!isAnalyzable(file)) {
+        return res.status(422).json({ message: "Only PDF and image files can be preflighted" });
+      }
+      
+      const contents = await readFileContents(file);
+      if (!contents) {
+        return res.status(410).json({ message: "File was removed under the retention policy" });
+      }
+      
+      const artwork = await inspectArtwork(contents, file.mimeType);
+      res.json({ artwork, minDpi: MIN_PRINT_DPI });
+    } catch (err) {
+      res.status(422).json({ message: "The file could not be read as artwork" });
+    }
+  });
+  
+  // First page of a PDF or image as a small PNG
+  app.get("/api/files/:id/thumbnail", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const file = await storage.getOrderFile(id);
+      
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      if (!isAnalyzable(file)) {
+        return res.status(422).json({ message: "Only PDF and image files have thumbnails" });
+      }
+      
+      const contents = await readFileContents(file);
+      if (!contents) {
+        return res.status(410).json({ message: "File was removed under the retention policy" });
+      }
+      
+      const thumbnail = await renderThumbnail(contents, file.mimeType);
+      res.setHeader("Content-Type", "image/png");
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.send(thumbnail);
+    } catch (err) {
+      res.status(422).json({ message: "The file could not be read as artwork" });
+    }
+  });
+  
+  // Order Management Routes
+  app.get("/api/orders", isAuthenticated, async (req, res) => {
+    try {
+      const { status } = req.query;
+      const orders = await storage.getOrders(
+        typeof status === "string" ? status : undefined
+      );
+      
+      res.json({ orders });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+  
+  app.get("/api/orders/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getOrder(id);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const orderItems = await storage.getOrderItems(order.id);
+      
+      res.json({ order, items: orderItems });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch order" });
+    }
+  });
+  
+  // Separate endpoint to get order items by order ID
+  app.get("/api/orders/:id/items", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getOrder(id);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const items = await storage.getOrderItems(order.id);
+      
+      res.json({ items });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch order items" });
+    }
+  });
+  
+  // Reproduce each line's price from the rate card it was sold under
+  app.get("/api/orders/:id/pricing", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getOrder(id);
+      
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const items = await storage.getOrderItems(order.id);
+      const lines = await explainOrderPricing(storage, items);
+      
+      res.json({ lines });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch order pricing" });
+    }
+  });
+  
+  app.post(
+    "/api/orders",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    audit(storage, { action: "order.create", entityType: "order" }),
+    async (req, res) => {
+      try {
+        // Get the current user from the session
+        const user = req.user as any;
+        
+        const { items, payments, ...orderData } = req.body;
+        
+        // Recompute every item from the service pricing rules; never trust client prices
+        const pricing = await priceOrder(storage, Array.isArray(items) ? items : [], orderData);
+        if (pricing.errors.length > 0) {
+          return res.status(400).json({
+            message: "Order prices do not match the current price list",
+            errors: pricing.errors
+          });
+        }
+        
+        // Set the created by field to the current user's ID
+        orderData.createdBy = user.id;
+        orderData.discount = pricing.discount;
+        orderData.total = pricing.total;
+        orderData.vatableSales = pricing.tax.vatableSales;
+        orderData.vatAmount = pricing.tax.vatAmount;
+        orderData.exemptSales = pricing.tax.exemptSales;
+        orderData.vatInclusive = pricing.tax.vatInclusive;
+        
+        // Payment status follows the payments recorded against the order
+        orderData.paymentStatus = "unpaid";
+        orderData.amountPaid = 0;
+        
+        // Status follows the items on the production board, which start queued
+        orderData.status = "pending";
+        
+        // Validate order data
+        const validatedOrderData = insertOrderSchema.parse(orderData);
+        
+        // Promise the slowest service's turnaround unless the cashier set a pickup time
+        if (!validatedOrderData.dueAt) {
+          const itemServices = await Promise.all(pricing.items.map(item => storage.getService(item.serviceId)));
+          validatedOrderData.dueAt = getDefaultDueAt(new Date(), itemServices.map(service => service?.turnaroundHours));
+        } else if (validatedOrderData.dueAt.getTime() < Date.now()) {
+          return res.status(400).json({ message: "Due date cannot be in the past" });
+        }
+        
+        // Anything taken at the counter, e.g. a downpayment split across cash and GCash
+        const validatedPayments = payments ? orderTendersSchema.parse(payments) : [];
+        const cashSession = await storage.getOpenCashSession();
+        if (validatedPayments.length > 0) {
+          const errors = [
+            ...validateOrderPayments(
+              { status: "pending", total: validatedOrderData.total, amountPaid: 0 },
+              validatedPayments
+            ),
+            ...getCashSessionErrors(cashSession, validatedPayments)
+          ];
+          if (errors.length > 0) {
+            return res.status(400).json({ message: "Invalid payment", errors });
+          }
+        }
+        
+        // Customer files must already be uploaded and not claimed by another order
+        const fileErrors = await validateOrderItemFiles(storage, pricing.items);
+        if (fileErrors.length > 0) {
+          return res.status(400).json({ message: "Invalid order files", errors: fileErrors });
+        }
+        
+        // Validate item data before anything is written
+        const validatedItems = pricing.items.map(item =>
+          insertOrderItemSchema.omit({ orderId: true }).parse(item)
+        );
+        
+        // The order, its items, file claims, stock taken and tenders are saved together
+        const placed = await storage.placeOrder(
+          validatedOrderData,
+          await planOrderLines(storage, validatedItems),
+          validatedPayments.map(payment => insertOrderPaymentSchema.omit({ orderId: true }).parse({
+            ...payment,
+            receivedBy: user.id,
+            cashSessionId: cashSession?.id ?? null
+          })),
+          user.id
+        );
+        if (!placed) {
+          return res.status(409).json({ message: "A file on this order was taken by another order; upload it again" });
+        }
+        
+        res.status(201).json(placed);
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  app.patch(
+    "/api/orders/:id/status",
+    isAuthenticated,
+    hasRole(["admin", "cashier", "staff"]),
+    audit(storage, { action: "order.status", entityType: "order", load: id => storage.getOrder(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const { status } = req.body;
+        
+        // Pending, in progress and ready follow the items on the production
+        // board; the only status set by hand is the customer picking up
+        if (status !== "completed") {
+          return res.status(400).json({ message: "Order status follows its items on the production board" });
+        }
+        
+        const existing = await storage.getOrder(id);
+        
+        if (!existing) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        
+        if (isOrderClosed(existing)) {
+          return res.status(400).json({ message: `Order is ${existing.status}` });
+        }
+        
+        if (existing.status !== "ready") {
+          return res.status(400).json({ message: "Every item must be done before the order is completed" });
+        }
+        
+        const order = await storage.updateOrderStatus(id, status);
+        
+        res.json({ order });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to update order status" });
+      }
+    }
+  );
+  
+  // Production Board Routes
+  app.get(
+    "/api/production",
+    isAuthenticated,
+    hasRole(["admin", "staff"]),
+    async (req, res) => {
+      try {
+        const items = await storage.getProductionItems();
+        
+        res.json({ items });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch production items" });
+      }
+    }
+  );
+  
+  // People items can be assigned to on the board
+  app.get(
+    "/api/production/staff",
+    isAuthenticated,
+    hasRole(["admin", "staff"]),
+    async (req, res) => {
+      try {
+        const users = await storage.getUsers();
+        const staff = users
+          .filter(user => user.role === "staff" || user.role === "admin")
+          .map(user => ({ id: user.id, name: user.name, role: user.role }));
+        
+        res.json({ staff });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch staff" });
+      }
+    }
+  );
+  
+  app.patch(
+    "/api/order-items/:id/stage",
+    isAuthenticated,
+    hasRole(["admin", "staff"]),
+    audit(storage, { action: "order_item.stage", entityType: "order_item", load: id => storage.getOrderItem(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const { stage } = productionStageRequestSchema.parse(req.body);
+        
+        const item = await storage.getOrderItem(id);
+        if (!item) {
+          return res.status(404).json({ message: "Order item not found" });
+        }
+        
+        const order = await storage.getOrder(item.orderId);
+        if (!order || !isInProduction(order)) {
+          return res.status(400).json({ message: `Order is ${order?.status ?? "missing"}` });
+        }
+        
+        const result = await storage.updateOrderItemStage(id, stage);
+        
+        // Tell the customer once the last item is done
+        if (result && result.order.status !== order.status) {
+          await notifyOrderStatus(storage, result.order);
+        }
+        
+        res.json(result);
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  app.patch(
+    "/api/order-items/:id/assignee",
+    isAuthenticated,
+    hasRole(["admin", "staff"]),
+    audit(storage, { action: "order_item.assign", entityType: "order_item", load: id => storage.getOrderItem(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const { assignedTo } = productionAssignmentRequestSchema.parse(req.body);
+        
+        if (assignedTo !== null) {
+          const assignee = await storage.getUser(assignedTo);
+          if (!assignee || !["admin", "staff"].includes(assignee.role)) {
+            return res.status(400).json({ message: "Items can only be assigned to production staff" });
+          }
+        }
+        
+        const item = await storage.assignOrderItem(id, assignedTo);
+        if (!item) {
+          return res.status(404).json({ message: "Order item not found" });
+        }
+        
+        res.json({ item });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // Files supplied for each item of an order
+  app.get("/api/orders/:id/files", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const files = await storage.getOrderFiles(id);
+      
+      res.json({ files });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch order files" });
+    }
+  });
+
+  // ESC/POS receipt, for printers reached some other way than the network
+  app.get("/api/orders/:id/receipt.bin", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const receipt = await loadReceipt(storage, parseInt(req.params.id), user.name);
+      
+      if (!receipt) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const job = await renderReceipt(receipt, await getReceiptPrinterSettings(storage));
+      res.setHeader("Content-Type", "application/octet-stream");
+      res.setHeader("Content-Length", String(job.length));
+      res.setHeader("Content-Disposition", `attachment; filename="receipt-${receipt.order.orderNumber}.bin"`);
+      res.send(job);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to render receipt" });
+    }
+  });
+  
+  app.post(
+    "/api/orders/:id/receipt/print",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const settings = await getReceiptPrinterSettings(storage);
+        
+        if (!settings.printerHost) {
+          return res.status(400).json({ message: "No network printer is configured" });
+        }
+        
+        const receipt = await loadReceipt(storage, parseInt(req.params.id), user.name);
+        if (!receipt) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        
+        try {
+          await sendToPrinter(settings.printerHost, settings.printerPort, await renderReceipt(receipt, settings));
+        } catch (err) {
+          return res.status(502).json({ message: `Could not reach the printer: ${(err as Error).message}` });
+        }
+        
+        res.json({ message: "Receipt sent to the printer" });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to print receipt" });
+      }
+    }
+  );
+  
+  // Invoices and official receipts issued for an order
+  app.get("/api/orders/:id/documents", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const documents = await storage.getOrderDocuments(id);
+      
+      res.json({ documents: documents.map(({ snapshot, ...document }) => document) });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch order documents" });
+    }
+  });
+  
+  // Issuing is idempotent: an order has at most one document of each type,
+  // and asking again returns the one already issued
+  app.post(
+    "/api/orders/:id/documents",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    audit(storage, { action: "order.document_issue", entityType: "order" }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const id = parseInt(req.params.id);
+        const { type } = orderDocumentRequestSchema.parse(req.body);
+        
+        const order = await storage.getOrder(id);
+        if (!order) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        
+        const existing = (await storage.getOrderDocuments(id)).find(document => document.type === type);
+        if (!existing) {
+          const errors = getDocumentIssueErrors(order, type);
+          if (errors.length > 0) {
+            return res.status(400).json({ message: errors[0], errors });
+          }
+        }
+        
+        const { snapshot, ...document } = existing ||
+          await storage.issueOrderDocument(id, type, user.id, await buildDocumentSnapshot(storage, order));
+        
+        res.status(existing ? 200 : 201).json({ document });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  app.get("/api/documents/:id/pdf", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const document = await storage.getOrderDocument(id);
+      
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      const pdf = await renderDocumentPdf(document);
+      const disposition = req.query.download ? "attachment" : "inline";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Length", String(pdf.length));
+      res.setHeader("Content-Disposition", `${disposition}; filename="${document.documentNumber}.pdf"`);
+      res.send(pdf);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to render document" });
+    }
+  });
+  
+  // Messages sent or queued to the customer about an order
+  app.get("/api/orders/:id/notifications", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const notifications = await storage.getOrderNotifications(id);
+
+      res.json({ notifications });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch order notifications" });
+    }
+  });
+
+  // Order Payment Routes (deposits and balances collected at pickup)
+  app.get("/api/orders/:id/payments", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payments = await storage.getOrderPayments(id);
+      
+      res.json({ payments });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch order payments" });
+    }
+  });
+  
+  app.post(
+    "/api/orders/:id/payments",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    audit(storage, { action: "order.payment", entityType: "order", load: id => storage.getOrder(id) }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const id = parseInt(req.params.id);
+        const existing = await storage.getOrder(id);
+        
+        if (!existing) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        
+        const request = orderPaymentRequestSchema.parse(req.body);
+        const cashSession = await storage.getOpenCashSession();
+        const errors = [
+          ...validateOrderPayments(existing, [request]),
+          ...getCashSessionErrors(cashSession, [request])
+        ];
+        if (errors.length > 0) {
+          return res.status(400).json({ message: "Invalid payment", errors });
+        }
+        
+        const payment = await storage.createOrderPayment(insertOrderPaymentSchema.parse({
+          ...request,
+          orderId: existing.id,
+          receivedBy: user.id,
+          cashSessionId: cashSession?.id ?? null
+        }));
+        if (!payment) {
+          return res.status(409).json({ message: "The order was paid or closed while the payment was being taken" });
+        }
+        const order = await storage.getOrder(id);
+        
+        res.status(201).json({ payment, order });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // Order Reversal Routes (cancel, void and refund instead of deleting sales)
+  app.get("/api/orders/:id/reversals", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const reversals = await storage.getOrderReversals(id);
+      
+      res.json({ reversals: await withReversalItems(storage, reversals) });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch order reversals" });
+    }
+  });
+  
+  app.post(
+    "/api/orders/:id/reversals",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    audit(storage, { action: "order.reversal_request", entityType: "order", load: loadOrderWithItems }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const id = parseInt(req.params.id);
+        const order = await storage.getOrder(id);
+        
+        if (!order) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        
+        const request = orderReversalRequestSchema.parse(req.body);
+        const prepared = await prepareOrderReversal(storage, order, request);
+        if (prepared.errors.length > 0) {
+          return res.status(400).json({
+            message: "Order cannot be reversed",
+            errors: prepared.errors
+          });
+        }
+        
+        const reversalData = insertOrderReversalSchema.parse({
+          orderId: order.id,
+          type: request.type,
+          reason: request.reason,
+          amount: prepared.amount,
+          requestedBy: user.id
+        });
+        
+        // Every request waits for a manager, and no one approves their own
+        const reversal = await storage.createOrderReversal(reversalData, prepared.items);
+        if (!reversal) {
+          return res.status(409).json({ message: "This order already has a reversal awaiting approval" });
+        }
+        
+        res.status(201).json({
+          reversal: (await withReversalItems(storage, [reversal]))[0],
+          order
+        });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  app.get(
+    "/api/reversals/pending",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const pending = await withReversalItems(storage, await storage.getPendingOrderReversals());
+        const reversals = await Promise.all(pending.map(async reversal => ({
+          ...reversal,
+          order: await storage.getOrder(reversal.orderId)
+        })));
+        
+        res.json({ reversals });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch pending reversals" });
+      }
+    }
+  );
+  
+  app.post(
+    "/api/reversals/:id/approve",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "reversal.approve", entityType: "reversal", load: loadReversalWithOrder }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const id = parseInt(req.params.id);
+        const pending = await storage.getOrderReversal(id);
+        
+        if (!pending || pending.status !== "pending") {
+          return res.status(404).json({ message: "Pending reversal not found" });
+        }
+        if (pending.requestedBy === user.id) {
+          return res.status(403).json({ message: "Another manager must approve a reversal you requested" });
+        }
+        
+        const order = await storage.getOrder(pending.orderId);
+        if (!order || !canApproveReversal(order, pending)) {
+          return res.status(400).json({ message: "The order has changed since this was requested; reject it instead" });
+        }
+        
+        const cashSession = await storage.getOpenCashSession();
+        const cashRefund = await getReversalCashRefund(storage, order, pending, cashSession, user.id);
+        if (cashRefund.errors.length > 0) {
+          return res.status(400).json({ message: "Reversal cannot be approved", errors: cashRefund.errors });
+        }
+        
+        const reversal = await storage.reviewOrderReversal(id, true, user.id, req.body?.notes || null, cashRefund.movement);
+        
+        if (!reversal) {
+          // Still pending means the order, its payments or the drawer changed under the checks above
+          const current = await storage.getOrderReversal(id);
+          return current?.status === "pending"
+            ? res.status(409).json({ message: "The order changed while the reversal was being approved; check it and try again" })
+            : res.status(404).json({ message: "Pending reversal not found" });
+        }
+        
+        const updated = await storage.getOrder(reversal.orderId);
+        if (updated && updated.status !== order.status) {
+          await notifyOrderStatus(storage, updated);
+        }
+        
+        res.json({ reversal, order: updated });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to approve reversal" });
+      }
+    }
+  );
+  
+  app.post(
+    "/api/reversals/:id/reject",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "reversal.reject", entityType: "reversal", load: loadReversalWithOrder }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const id = parseInt(req.params.id);
+        const reversal = await storage.reviewOrderReversal(id, false, user.id, req.body?.notes || null);
         
-        if (!order) {
-          return res.status(404).json({ message: "Order not found" });
+        if (!reversal) {
+          return res.status(404).json({ message: "Pending reversal not found" });
+        }
+        
+        res.json({ reversal });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to reject reversal" });
+      }
+    }
+  );
+  
+  // Inventory Management Routes
+  app.get(
+    "/api/inventory",
+    isAuthenticated,
+    hasRole(["admin", "staff"]),
+    async (req, res) => {
+      try {
+        const inventory = await storage.getAllInventory();
+        res.json({ inventory });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch inventory" });
+      }
+    }
+  );
+  
+  app.get(
+    "/api/inventory/low-stock",
+    isAuthenticated,
+    hasRole(["admin", "staff"]),
+    async (req, res) => {
+      try {
+        const lowStockItems = await storage.getLowStockItems();
+        res.json({ inventory: lowStockItems });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch low stock items" });
+      }
+    }
+  );
+  
+  app.post(
+    "/api/inventory",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "inventory.create", entityType: "inventory" }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const inventoryData = insertInventorySchema.parse(req.body);
+        const item = await storage.createInventory(inventoryData, user.id);
+        
+        res.status(201).json({ item });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // Usual supplier and reorder quantity; stock and its cost only change through movements
+  app.patch(
+    "/api/inventory/:id",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "inventory.update", entityType: "inventory", load: id => storage.getInventory(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const itemData = insertInventorySchema.omit({ currentStock: true, averageCost: true }).partial().parse(req.body);
+        
+        if (itemData.supplierId && !(await storage.getSupplier(itemData.supplierId))) {
+          return res.status(400).json({ message: "Supplier not found" });
+        }
+        
+        const item = await storage.updateInventory(id, itemData);
+        if (!item) {
+          return res.status(404).json({ message: "Inventory item not found" });
+        }
+        
+        res.json({ item });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // Stock history, newest first
+  app.get(
+    "/api/inventory/:id/movements",
+    isAuthenticated,
+    hasRole(["admin", "staff"]),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+        const item = await storage.getInventory(id);
+        
+        if (!item) {
+          return res.status(404).json({ message: "Inventory item not found" });
+        }
+        
+        const movements = await storage.getInventoryMovements(id, limit);
+        res.json({ movements: await describeMovements(storage, movements) });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch stock movements" });
+      }
+    }
+  );
+  
+  app.post(
+    "/api/inventory/:id/movements",
+    isAuthenticated,
+    hasRole(["admin", "staff"]),
+    audit(storage, { action: "inventory.stock", entityType: "inventory", load: id => storage.getInventory(id) }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const id = parseInt(req.params.id);
+        const request = inventoryMovementRequestSchema.parse(req.body);
+        const item = await storage.getInventory(id);
+        
+        if (!item) {
+          return res.status(404).json({ message: "Inventory item not found" });
+        }
+        
+        // Transfers carry the stock across at what it cost this item
+        const movement = {
+          inventoryId: id,
+          type: request.type,
+          quantity: getStockChange(request.type, request.quantity),
+          unitCost: request.type === "transfer" ? item.averageCost : request.unitCost ?? null,
+          notes: request.notes || null,
+          createdBy: user.id
+        };
+        
+        // A transfer moves the stock out of this item and into the other in one go
+        if (request.type === "transfer") {
+          const target = await storage.getInventory(request.toInventoryId!);
+          if (!target || target.id === id) {
+            return res.status(400).json({ message: "Choose another inventory item to transfer to" });
+          }
+          if (target.unit !== item.unit) {
+            return res.status(400).json({ message: `Both items must be counted in ${item.unit} to transfer between them` });
+          }
+          
+          const movements = await storage.recordInventoryMovements([
+            { ...movement, transferInventoryId: target.id },
+            { ...movement, inventoryId: target.id, quantity: -movement.quantity, transferInventoryId: id }
+          ]);
+          return res.status(201).json({ item: await storage.getInventory(id), movements });
+        }
+        
+        const movements = await storage.recordInventoryMovements([movement]);
+        res.status(201).json({ item: await storage.getInventory(id), movements });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // Supplier Routes
+  app.get(
+    "/api/suppliers",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const suppliers = await storage.getSuppliers();
+        res.json({ suppliers });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch suppliers" });
+      }
+    }
+  );
+  
+  app.post(
+    "/api/suppliers",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "supplier.create", entityType: "supplier" }),
+    async (req, res) => {
+      try {
+        const supplierData = insertSupplierSchema.parse(req.body);
+        const supplier = await storage.createSupplier(supplierData);
+        
+        res.status(201).json({ supplier });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  app.patch(
+    "/api/suppliers/:id",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "supplier.update", entityType: "supplier", load: id => storage.getSupplier(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const supplierData = insertSupplierSchema.partial().parse(req.body);
+        const supplier = await storage.updateSupplier(id, supplierData);
+        
+        if (!supplier) {
+          return res.status(404).json({ message: "Supplier not found" });
+        }
+        
+        res.json({ supplier });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // Purchase Order Routes (draft, then sent to the supplier, then received as the stock comes in)
+  app.get(
+    "/api/purchase-orders",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const { status } = req.query;
+        const purchaseOrders = await storage.getPurchaseOrders(
+          typeof status === "string" ? status : undefined
+        );
+        
+        res.json({ purchaseOrders: await describePurchaseOrders(storage, purchaseOrders) });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch purchase orders" });
+      }
+    }
+  );
+  
+  app.get(
+    "/api/purchase-orders/:id",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const purchaseOrder = await storage.getPurchaseOrder(id);
+        
+        if (!purchaseOrder) {
+          return res.status(404).json({ message: "Purchase order not found" });
+        }
+        
+        const [described] = await describePurchaseOrders(storage, [purchaseOrder]);
+        res.json({ purchaseOrder: described, items: await storage.getPurchaseOrderItems([id]) });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch purchase order" });
+      }
+    }
+  );
+  
+  app.post(
+    "/api/purchase-orders",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "purchase_order.create", entityType: "purchase_order" }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const request = purchaseOrderRequestSchema.parse(req.body);
+        const errors = await getPurchaseOrderErrors(storage, request);
+        if (errors.length > 0) {
+          return res.status(400).json({ message: "Invalid purchase order", errors });
+        }
+        
+        const purchaseOrder = await storage.createPurchaseOrder({
+          supplierId: request.supplierId,
+          notes: request.notes || null,
+          createdBy: user.id
+        }, request.items);
+        
+        res.status(201).json({ purchaseOrder });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // Draft an order to each usual supplier for the stock running low
+  app.post(
+    "/api/purchase-orders/from-low-stock",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "purchase_order.create", entityType: "purchase_order" }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const { orders, unassigned } = await planLowStockPurchaseOrders(storage);
+        
+        const purchaseOrders = [];
+        for (const order of orders) {
+          purchaseOrders.push(await storage.createPurchaseOrder({
+            supplierId: order.supplierId,
+            notes: "Raised from low stock",
+            createdBy: user.id
+          }, order.items));
+        }
+        
+        res.status(201).json({ purchaseOrders, unassigned });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to create purchase orders" });
+      }
+    }
+  );
+  
+  app.put(
+    "/api/purchase-orders/:id",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "purchase_order.update", entityType: "purchase_order", load: loadPurchaseOrder }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (!(await storage.getPurchaseOrder(id))) {
+          return res.status(404).json({ message: "Purchase order not found" });
+        }
+        
+        const request = purchaseOrderRequestSchema.parse(req.body);
+        const errors = await getPurchaseOrderErrors(storage, request);
+        if (errors.length > 0) {
+          return res.status(400).json({ message: "Invalid purchase order", errors });
+        }
+        
+        const purchaseOrder = await storage.updatePurchaseOrder(id, {
+          supplierId: request.supplierId,
+          notes: request.notes || null
+        }, request.items);
+        if (!purchaseOrder) {
+          return res.status(409).json({ message: "Only draft purchase orders can be changed" });
+        }
+        
+        res.json({ purchaseOrder });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  app.delete(
+    "/api/purchase-orders/:id",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "purchase_order.delete", entityType: "purchase_order", load: loadPurchaseOrder }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (!(await storage.getPurchaseOrder(id))) {
+          return res.status(404).json({ message: "Purchase order not found" });
+        }
+        
+        const success = await storage.deletePurchaseOrder(id);
+        if (!success) {
+          return res.status(409).json({ message: "Only draft purchase orders can be deleted" });
+        }
+        
+        res.json({ success });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to delete purchase order" });
+      }
+    }
+  );
+  
+  app.post(
+    "/api/purchase-orders/:id/send",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "purchase_order.send", entityType: "purchase_order", load: id => storage.getPurchaseOrder(id) }),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        if (!(await storage.getPurchaseOrder(id))) {
+          return res.status(404).json({ message: "Purchase order not found" });
+        }
+        
+        const purchaseOrder = await storage.sendPurchaseOrder(id);
+        if (!purchaseOrder) {
+          return res.status(409).json({ message: "The purchase order has already been sent" });
         }
         
-        res.json({ order });
+        res.json({ purchaseOrder });
       } catch (err) {
-        res.status(500).json({ message: "Failed to update order status" });
+        res.status(500).json({ message: "Failed to send purchase order" });
       }
     }
   );
   
-  app.patch(
-    "/api/orders/:id/payment",
+  // Book a delivery into stock at the ordered price, optionally recording what it cost as an expense
+  app.post(
+    "/api/purchase-orders/:id/receive",
     isAuthenticated,
-    hasRole(["admin", "cashier"]),
+    hasRole(["admin"]),
+    audit(storage, { action: "purchase_order.receive", entityType: "purchase_order", load: loadPurchaseOrder }),
     async (req, res) => {
       try {
+        const user = req.user as any;
         const id = parseInt(req.params.id);
-        const { paymentMethod, paymentStatus } = req.body;
+        const order = await storage.getPurchaseOrder(id);
         
-        // Validate payment method
-        if (!["cash", "gcash", "card"].includes(paymentMethod)) {
-          return res.status(400).json({ message: "Invalid payment method" });
+        if (!order) {
+          return res.status(404).json({ message: "Purchase order not found" });
+        }
+        if (!RECEIVABLE_PURCHASE_ORDER_STATUSES.includes(order.status)) {
+          return res.status(409).json({ message: "Send the purchase order before receiving stock against it" });
         }
         
-        // Validate payment status
-        if (!["paid", "unpaid"].includes(paymentStatus)) {
-          return res.status(400).json({ message: "Invalid payment status" });
+        const request = receivePurchaseOrderRequestSchema.parse(req.body);
+        const items = await storage.getPurchaseOrderItems([id]);
+        const errors = getReceiptErrors(items, request.lines);
+        if (errors.length > 0) {
+          return res.status(400).json({ message: "Invalid delivery", errors });
         }
         
-        const order = await storage.updateOrderPayment(id, paymentMethod, paymentStatus);
+        const supplier = await storage.getSupplier(order.supplierId);
+        const cost = getPurchaseOrderTotal(request.lines.map(line => ({
+          quantity: line.quantity,
+          unitCost: items.find(item => item.id === line.itemId)!.unitCost
+        })));
+        const expense = request.expenseCategory && cost > 0
+          ? insertExpenseSchema.parse({
+              title: `${order.poNumber}${supplier ? ` from ${supplier.name}` : ""}`,
+              amount: cost,
+              category: request.expenseCategory,
+              notes: `Stock received against purchase order ${order.poNumber}`,
+              createdBy: user.id
+            })
+          : undefined;
         
-        if (!order) {
-          return res.status(404).json({ message: "Order not found" });
+        const purchaseOrder = await storage.receivePurchaseOrder(id, {
+          lines: request.lines,
+          receivedBy: user.id,
+          notes: request.notes || null
+        }, expense);
+        if (!purchaseOrder) {
+          return res.status(409).json({ message: "Stock was received against the purchase order in the meantime; check what is still outstanding" });
         }
         
-        res.json({ order });
+        res.json({ purchaseOrder, items: await storage.getPurchaseOrderItems([id]) });
       } catch (err) {
-        res.status(500).json({ message: "Failed to update payment information" });
+        handleZodError(err, res);
       }
     }
   );
   
-  // Inventory Management Routes
+  // Stocktake Routes (one count of the shelves at a time, posted as adjustments)
   app.get(
-    "/api/inventory",
+    "/api/stocktakes",
     isAuthenticated,
     hasRole(["admin", "staff"]),
     async (req, res) => {
       try {
-        const inventory = await storage.getAllInventory();
-        res.json({ inventory });
+        const limit = req.query.limit ? parseInt(req.query.limit as string) : 30;
+        const stocktakes = await storage.getStocktakes(limit);
+        
+        res.json({ stocktakes });
       } catch (err) {
-        res.status(500).json({ message: "Failed to fetch inventory" });
+        res.status(500).json({ message: "Failed to fetch stocktakes" });
       }
     }
   );
   
+  // The stocktake being counted, if any, with every item and its variance so far
   app.get(
-    "/api/inventory/low-stock",
+    "/api/stocktakes/current",
     isAuthenticated,
     hasRole(["admin", "staff"]),
     async (req, res) => {
       try {
-        const lowStockItems = await storage.getLowStockItems();
-        res.json({ inventory: lowStockItems });
+        const stocktake = await storage.getCountingStocktake();
+        if (!stocktake) {
+          return res.json({ stocktake: null, lines: null, summary: null });
+        }
+        
+        const lines = await buildStocktakeLines(storage, stocktake);
+        res.json({ stocktake, lines, summary: summarizeStocktake(lines) });
       } catch (err) {
-        res.status(500).json({ message: "Failed to fetch low stock items" });
+        res.status(500).json({ message: "Failed to fetch the stocktake" });
+      }
+    }
+  );
+  
+  app.get(
+    "/api/stocktakes/:id",
+    isAuthenticated,
+    hasRole(["admin", "staff"]),
+    async (req, res) => {
+      try {
+        const stocktake = await storage.getStocktake(parseInt(req.params.id));
+        if (!stocktake) {
+          return res.status(404).json({ message: "Stocktake not found" });
+        }
+        
+        const lines = await buildStocktakeLines(storage, stocktake);
+        res.json({ stocktake, lines, summary: summarizeStocktake(lines) });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch the stocktake" });
       }
     }
   );
   
   app.post(
-    "/api/inventory",
+    "/api/stocktakes",
     isAuthenticated,
-    hasRole(["admin"]),
+    hasRole(["admin", "staff"]),
+    audit(storage, { action: "stocktake.start", entityType: "stocktake" }),
     async (req, res) => {
       try {
-        const inventoryData = insertInventorySchema.parse(req.body);
-        const item = await storage.createInventory(inventoryData);
+        const user = req.user as any;
+        const request = startStocktakeRequestSchema.parse(req.body);
         
-        res.status(201).json({ item });
+        const stocktake = await storage.startStocktake({
+          notes: request.notes || null,
+          startedBy: user.id
+        });
+        if (!stocktake) {
+          return res.status(409).json({ message: "A stocktake is already being counted" });
+        }
+        
+        res.status(201).json({ stocktake });
       } catch (err) {
         handleZodError(err, res);
       }
     }
   );
   
-  app.patch(
-    "/api/inventory/:id/stock",
+  // Save a batch of counts; counting an item again replaces its count
+  app.put(
+    "/api/stocktakes/:id/counts",
     isAuthenticated,
     hasRole(["admin", "staff"]),
+    audit(storage, { action: "stocktake.count", entityType: "stocktake" }),
     async (req, res) => {
       try {
+        const user = req.user as any;
         const id = parseInt(req.params.id);
-        const { quantity } = req.body;
+        if (!(await storage.getStocktake(id))) {
+          return res.status(404).json({ message: "Stocktake not found" });
+        }
         
-        // Validate quantity
-        if (typeof quantity !== "number") {
-          return res.status(400).json({ message: "Quantity must be a number" });
+        const request = stocktakeCountsRequestSchema.parse(req.body);
+        const errors = await getStocktakeCountErrors(storage, request.counts);
+        if (errors.length > 0) {
+          return res.status(400).json({ message: "Invalid counts", errors });
         }
         
-        const item = await storage.updateInventoryStock(id, quantity);
+        const counts = await storage.saveStocktakeCounts(id, request.counts, user.id);
+        if (!counts) {
+          return res.status(409).json({ message: "The stocktake is no longer being counted" });
+        }
         
-        if (!item) {
-          return res.status(404).json({ message: "Inventory item not found" });
+        res.json({ counts });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // Adjust stock to the counts in one go, valuing each variance at the item's current cost
+  app.post(
+    "/api/stocktakes/:id/post",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "stocktake.post", entityType: "stocktake", load: id => storage.getStocktake(id) }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const id = parseInt(req.params.id);
+        const current = await storage.getStocktake(id);
+        if (!current) {
+          return res.status(404).json({ message: "Stocktake not found" });
         }
         
-        res.json({ item });
+        const lines = await buildStocktakeLines(storage, current);
+        if (!lines.some(line => line.countedQuantity !== null)) {
+          return res.status(400).json({ message: "Count at least one item before posting the stocktake" });
+        }
+        
+        const unitCosts = new Map(lines.map(line => [line.inventoryId, line.unitCost]));
+        const stocktake = await storage.postStocktake(id, user.id, unitCosts);
+        if (!stocktake) {
+          return res.status(409).json({ message: "The stocktake has already been closed" });
+        }
+        
+        const posted = await buildStocktakeLines(storage, stocktake);
+        res.json({ stocktake, lines: posted, summary: summarizeStocktake(posted) });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to post the stocktake" });
+      }
+    }
+  );
+  
+  app.post(
+    "/api/stocktakes/:id/cancel",
+    isAuthenticated,
+    hasRole(["admin"]),
+    audit(storage, { action: "stocktake.cancel", entityType: "stocktake", load: id => storage.getStocktake(id) }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const id = parseInt(req.params.id);
+        if (!(await storage.getStocktake(id))) {
+          return res.status(404).json({ message: "Stocktake not found" });
+        }
+        
+        const stocktake = await storage.cancelStocktake(id, user.id);
+        if (!stocktake) {
+          return res.status(409).json({ message: "The stocktake has already been closed" });
+        }
+        
+        res.json({ stocktake });
       } catch (err) {
-        res.status(500).json({ message: "Failed to update inventory stock" });
+        res.status(500).json({ message: "Failed to cancel the stocktake" });
       }
     }
   );
@@ -613,6 +2285,7 @@ app.delete(
     "/api/expenses",
     isAuthenticated,
     hasRole(["admin"]),
+    audit(storage, { action: "expense.create", entityType: "expense" }),
     async (req, res) => {
       try {
         // Get the current user from the session
@@ -634,6 +2307,184 @@ app.delete(
     }
   );
   
+  // Cash Drawer Routes (one session per shift of the shop's drawer)
+  app.get(
+    "/api/cash-sessions",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    async (req, res) => {
+      try {
+        const limit = req.query.limit ? parseInt(req.query.limit as string) : 30;
+        const sessions = await storage.getCashSessions(limit);
+        
+        res.json({ sessions: sessions.map(({ zReading, ...session }) => session) });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch cash drawer sessions" });
+      }
+    }
+  );
+  
+  // The open session, if any, with its running X-reading
+  app.get(
+    "/api/cash-sessions/current",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    async (req, res) => {
+      try {
+        const session = await storage.getOpenCashSession();
+        if (!session) {
+          return res.json({ session: null, reading: null });
+        }
+        
+        res.json({ session, reading: await buildCashReading(storage, session, "X") });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch the cash drawer" });
+      }
+    }
+  );
+  
+  app.post(
+    "/api/cash-sessions",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    audit(storage, { action: "cash_session.open", entityType: "cash_session" }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const request = openCashSessionRequestSchema.parse(req.body);
+        
+        const session = await storage.openCashSession({
+          openingFloat: request.openingFloat,
+          openingNotes: request.notes || null,
+          openedBy: user.id
+        });
+        if (!session) {
+          return res.status(409).json({ message: "The cash drawer is already open" });
+        }
+        
+        res.status(201).json({ session });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  app.post(
+    "/api/cash-sessions/:id/movements",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    audit(storage, { action: "cash_session.movement", entityType: "cash_session", load: loadCashSession }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const id = parseInt(req.params.id);
+        const session = await storage.getCashSession(id);
+        
+        if (!session) {
+          return res.status(404).json({ message: "Cash drawer session not found" });
+        }
+        if (session.status !== "open") {
+          return res.status(400).json({ message: "The cash drawer session is closed" });
+        }
+        
+        const request = cashMovementRequestSchema.parse(req.body);
+        const expense = request.expenseCategory
+          ? insertExpenseSchema.parse({
+              title: request.reason,
+              amount: request.amount,
+              category: request.expenseCategory,
+              notes: `Paid out of cash drawer session #${session.id}`,
+              createdBy: user.id
+            })
+          : undefined;
+        
+        const movement = await storage.createCashMovement({
+          sessionId: session.id,
+          type: request.type,
+          amount: request.amount,
+          reason: request.reason,
+          createdBy: user.id
+        }, expense);
+        
+        res.status(201).json({ movement });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // Close the drawer with the counted cash, freezing the session's Z-reading
+  app.post(
+    "/api/cash-sessions/:id/close",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    audit(storage, { action: "cash_session.close", entityType: "cash_session", load: loadCashSession }),
+    async (req, res) => {
+      try {
+        const user = req.user as any;
+        const id = parseInt(req.params.id);
+        const session = await storage.getCashSession(id);
+        
+        if (!session) {
+          return res.status(404).json({ message: "Cash drawer session not found" });
+        }
+        if (session.status !== "open") {
+          return res.status(400).json({ message: "The cash drawer session is already closed" });
+        }
+        
+        const request = closeCashSessionRequestSchema.parse(req.body);
+        const reading = await buildCashReading(
+          storage,
+          { ...session, closedBy: user.id, closedAt: new Date() },
+          "Z",
+          request.denominations
+        );
+        
+        const closed = await storage.closeCashSession(id, {
+          closedBy: user.id,
+          denominations: request.denominations,
+          countedCash: countCash(request.denominations),
+          expectedCash: reading.expectedCash,
+          variance: reading.variance,
+          closingNotes: request.notes || null,
+          zReading: reading
+        });
+        if (!closed) {
+          return res.status(409).json({ message: "The cash drawer session was closed by someone else" });
+        }
+        
+        const { zReading, ...rest } = closed;
+        res.json({ session: rest, reading });
+      } catch (err) {
+        handleZodError(err, res);
+      }
+    }
+  );
+  
+  // X-reading of an open session, or the Z-reading taken when it was closed
+  app.get(
+    "/api/cash-sessions/:id/reading",
+    isAuthenticated,
+    hasRole(["admin", "cashier"]),
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const session = await storage.getCashSession(id);
+        
+        if (!session) {
+          return res.status(404).json({ message: "Cash drawer session not found" });
+        }
+        
+        const reading = session.status === "open"
+          ? await buildCashReading(storage, session, "X")
+          : session.zReading;
+        res.json({ reading });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch the reading" });
+      }
+    }
+  );
+  
   // Dashboard Data Routes
   app.get(
     "/api/dashboard/sales",
@@ -692,6 +2543,24 @@ app.delete(
     }
   );
   
+  // Open orders that are overdue or due before the end of today
+  app.get(
+    "/api/dashboard/due-orders",
+    isAuthenticated,
+    hasRole(["admin", "cashier", "staff"]),
+    async (req, res) => {
+      try {
+        const endOfToday = new Date();
+        endOfToday.setHours(23, 59, 59, 999);
+        
+        const orders = await storage.getOrdersDueBy(endOfToday);
+        res.json({ orders });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch due orders" });
+      }
+    }
+  );
+  
   app.get(
     "/api/dashboard/recent-expenses",
     isAuthenticated,
@@ -707,6 +2576,103 @@ app.delete(
     }
   );
   
+  // Report Routes
+  app.get(
+    "/api/reports/top-services",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const range = parseReportRange(req.query);
+        if (!range) {
+          return res.status(400).json({ message: "Invalid date range" });
+        }
+        
+        // Gross margin per service: net sales less what the stock they used cost
+        const [services, costs] = await Promise.all([storage.getTopServices(range), storage.getServiceCosts(range)]);
+        res.json({ services: addServiceMargins(services, costs) });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch top services" });
+      }
+    }
+  );
+  
+  app.get(
+    "/api/reports/inventory-usage",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const range = parseReportRange(req.query);
+        if (!range) {
+          return res.status(400).json({ message: "Invalid date range" });
+        }
+        
+        const items = await storage.getInventoryUsage(range);
+        res.json({ items });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch inventory usage" });
+      }
+    }
+  );
+  
+  app.get(
+    "/api/reports/expenses-by-category",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const range = parseReportRange(req.query);
+        if (!range) {
+          return res.status(400).json({ message: "Invalid date range" });
+        }
+        
+        const expenses = await storage.getExpensesByCategory(range);
+        res.json({ expenses });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch expenses by category" });
+      }
+    }
+  );
+  
+  app.get(
+    "/api/reports/reversals",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const range = parseReportRange(req.query);
+        if (!range) {
+          return res.status(400).json({ message: "Invalid date range" });
+        }
+        
+        const reversals = await storage.getReversalSummary(range);
+        res.json({ reversals });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch reversals" });
+      }
+    }
+  );
+  
+  app.get(
+    "/api/reports/vat",
+    isAuthenticated,
+    hasRole(["admin"]),
+    async (req, res) => {
+      try {
+        const range = parseReportRange(req.query);
+        if (!range) {
+          return res.status(400).json({ message: "Invalid date range" });
+        }
+        
+        const summary = await storage.getVatSummary(range);
+        res.json({ summary });
+      } catch (err) {
+        res.status(500).json({ message: "Failed to fetch VAT summary" });
+      }
+    }
+  );
+  
   // Customer Management Routes
   app.get(
     "/api/customers", 
@@ -764,6 +2730,7 @@ app.delete(
     "/api/customers", 
     isAuthenticated, 
     hasRole(["admin", "cashier"]), 
+    audit(storage, { action: "customer.create", entityType: "customer" }),
     async (req, res) => {
       try {
         const customerData = insertCustomerSchema.parse(req.body);
@@ -779,6 +2746,7 @@ app.delete(
     "/api/customers/:id", 
     isAuthenticated, 
     hasRole(["admin", "cashier"]), 
+    audit(storage, { action: "customer.update", entityType: "customer", load: id => storage.getCustomer(id) }),
     async (req, res) => {
       try {
         const id = parseInt(req.params.id);
@@ -796,7 +2764,7 @@ app.delete(
     }
   );
   
-  app.delete("/api/customers/:id", isAuthenticated, hasRole(["admin", "cashier"]), async (req, res) => {
+  app.delete("/api/customers/:id", isAuthenticated, hasRole(["admin", "cashier"]), audit(storage, { action: "customer.delete", entityType: "customer", load: id => storage.getCustomer(id) }), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const success = await storage.deleteCustomer(id);
@@ -1,6 +1,7 @@
 import { db } from './db';
-import { users, services, inventory } from '@shared/schema';
-import { defaultPricingRules } from '@/lib/pricing';
+import { users, services, servicePriceVersions, inventory } from '@shared/schema';
+import { defaultPricingRules } from '@shared/pricing';
+import { hashPassword } from './passwords';
 
 /**
  * Seed initial data into the database
@@ -22,19 +23,19 @@ async function seedDatabase() {
     await db.insert(users).values([
       {
         username: "admin",
-        password: "admin123",
+        password: await hashPassword("admin123"),
         name: "Administrator",
         role: "admin"
       },
       {
         username: "cashier",
-        password: "cashier123",
+        password: await hashPassword("cashier123"),
         name: "Cashier User",
         role: "cashier"
       },
       {
         username: "staff",
-        password: "staff123",
+        password: await hashPassword("staff123"),
         name: "Staff Member",
         role: "staff"
       }
@@ -42,7 +43,7 @@ async function seedDatabase() {
     
     // Seed services
     console.log("Seeding services...");
-    await db.insert(services).values([
+    const seededServices = await db.insert(services).values([
       {
         name: "A4 Document Printing",
         description: "Standard A4 document printing service",
@@ -50,7 +51,8 @@ async function seedDatabase() {
         type: "document",
         basePrice: 8,
         pricingRules: defaultPricingRules.document,
-        active: true
+        active: true,
+        turnaroundHours: 1
       },
       {
         name: "Tarpaulin Printing",
@@ -59,7 +61,8 @@ async function seedDatabase() {
         type: "tarpaulin",
         basePrice: 25,
         pricingRules: defaultPricingRules.tarpaulin,
-        active: true
+        active: true,
+        turnaroundHours: 48
       },
       {
         name: "ID Lamination",
@@ -68,7 +71,8 @@ async function seedDatabase() {
         type: "lamination",
         basePrice: 25,
         pricingRules: defaultPricingRules.lamination,
-        active: true
+        active: true,
+        turnaroundHours: 1
       },
       {
         name: "Photocopying Service",
@@ -76,7 +80,8 @@ async function seedDatabase() {
         category: "standard",
         type: "standard",
         basePrice: 2,
-        active: true
+        active: true,
+        turnaroundHours: 1
       },
       {
         name: "Business Card Printing",
@@ -84,9 +89,21 @@ async function seedDatabase() {
         category: "standard",
         type: "standard",
         basePrice: 150,
-        active: true
+        active: true,
+        turnaroundHours: 72
       }
-    ]);
+    ]).returning();
+    
+    // Seed the opening price version of each service
+    console.log("Seeding price versions...");
+    await db.insert(servicePriceVersions).values(
+      seededServices.map(service => ({
+        serviceId: service.id,
+        basePrice: service.basePrice,
+        pricingRules: service.pricingRules,
+        effectiveFrom: new Date()
+      }))
+    );
     
     // Seed inventory
     console.log("Seeding inventory...");
@@ -0,0 +1,116 @@
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import type { Request } from "express";
+import { gt } from "drizzle-orm";
+import { sessions } from "@shared/schema";
+import { db, pool } from "./db";
+
+// Extra details kept on each login session for the session management panel
+declare module "express-session" {
+  interface SessionData {
+    userAgent?: string;
+    ipAddress?: string;
+    loggedInAt?: string;
+    lastSeenAt?: string;
+  }
+}
+
+export interface UserSession {
+  sid: string;
+  userId: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  loggedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: Date;
+}
+
+// Write last-seen at most once a minute so sessions are not saved on every request
+const LAST_SEEN_INTERVAL = 60 * 1000;
+
+if (!process.env.SESSION_SECRET) {
+  throw new Error(
+    "SESSION_SECRET must be set. Did you forget to add it to the environment?",
+  );
+}
+
+const PgSession = connectPgSimple(session);
+
+export const sessionStore = new PgSession({
+  pool,
+  tableName: "session",
+  createTableIfMissing: true,
+});
+
+export const sessionMiddleware = session({
+  cookie: { maxAge: 86400000 }, // 1 day
+  store: sessionStore,
+  resave: false,
+  saveUninitialized: false,
+  secret: process.env.SESSION_SECRET,
+});
+
+/**
+ * Record the device and address a session logged in from
+ */
+export function recordSessionLogin(req: Request) {
+  const now = new Date().toISOString();
+  req.session.userAgent = req.get("user-agent") || undefined;
+  req.session.ipAddress = req.ip;
+  req.session.loggedInAt = now;
+  req.session.lastSeenAt = now;
+}
+
+/**
+ * Refresh the last-seen time of an authenticated session
+ */
+export function recordSessionActivity(req: Request) {
+  const lastSeen = req.session.lastSeenAt ? new Date(req.session.lastSeenAt).getTime() : 0;
+  if (Date.now() - lastSeen > LAST_SEEN_INTERVAL) {
+    req.session.lastSeenAt = new Date().toISOString();
+  }
+}
+
+/**
+ * All unexpired sessions that belong to a logged-in user
+ */
+export async function getActiveSessions(): Promise<UserSession[]> {
+  const rows = await db.select().from(sessions).where(gt(sessions.expire, new Date()));
+
+  return rows
+    .map(row => ({ sid: row.sid, data: row.sess as Record<string, any>, expire: row.expire }))
+    .filter(({ data }) => data?.passport?.user !== undefined)
+    .map(({ sid, data, expire }) => ({
+      sid,
+      userId: Number(data.passport.user),
+      userAgent: data.userAgent || null,
+      ipAddress: data.ipAddress || null,
+      loggedInAt: data.loggedInAt || null,
+      lastSeenAt: data.lastSeenAt || null,
+      expiresAt: expire,
+    }));
+}
+
+/**
+ * End a session; its user is logged out on their next request
+ */
+export function destroySession(sid: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    sessionStore.destroy(sid, err => (err ? reject(err) : resolve()));
+  });
+}
+
+/**
+ * End every session of a user, optionally keeping one (e.g. the caller's own)
+ */
+export async function destroyUserSessions(userId: number, exceptSid?: string): Promise<number> {
+  const userSessions = (await getActiveSessions()).filter(
+    userSession => userSession.userId === userId && userSession.sid !== exceptSid
+  );
+
+  for (const userSession of userSessions) {
+    await destroySession(userSession.sid);
+  }
+
+  return userSessions.length;
+}
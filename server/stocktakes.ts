@@ -0,0 +1,60 @@
+import type { IStorage } from "./storage";
+import type { Stocktake } from "@shared/schema";
+import { roundPrice } from "@shared/pricing";
+import { getStocktakeVariance, type StocktakeCountRequest, type StocktakeLine } from "@shared/stocktakes";
+
+/**
+ * Check counts before they are saved: each must be for a known item, once
+ */
+export async function getStocktakeCountErrors(storage: IStorage, counts: StocktakeCountRequest[]): Promise<string[]> {
+  const items = await storage.getAllInventory();
+  const errors: string[] = [];
+
+  counts.forEach((count, index) => {
+    if (!items.some(item => item.id === count.inventoryId)) {
+      errors.push(`Count ${index + 1}: inventory item not found`);
+    }
+  });
+  if (new Set(counts.map(count => count.inventoryId)).size !== counts.length) {
+    errors.push("Enter each item's count once");
+  }
+
+  return errors;
+}
+
+/**
+ * The stocktake item by item. While counting, every item is listed so the
+ * uncounted ones show, and variances are valued at today's average cost; once
+ * posted, only the counted items are, at the cost they were posted at.
+ */
+export async function buildStocktakeLines(storage: IStorage, stocktake: Stocktake): Promise<StocktakeLine[]> {
+  const [counts, items, users] = await Promise.all([
+    storage.getStocktakeCounts(stocktake.id),
+    storage.getAllInventory(),
+    storage.getUsers(),
+  ]);
+  const isCounting = stocktake.status === "counting";
+
+  const lines: StocktakeLine[] = [];
+  for (const item of items) {
+    const count = counts.find(entry => entry.inventoryId === item.id);
+    if (!count && !isCounting) continue;
+
+    const variance = count ? getStocktakeVariance(count.systemQuantity, count.countedQuantity) : null;
+    const unitCost = isCounting ? item.averageCost : count!.unitCost;
+    lines.push({
+      inventoryId: item.id,
+      name: item.name,
+      category: item.category,
+      unit: item.unit,
+      systemQuantity: count ? count.systemQuantity : item.currentStock,
+      countedQuantity: count ? count.countedQuantity : null,
+      variance,
+      unitCost,
+      costImpact: variance !== null && unitCost !== null ? roundPrice(variance * unitCost) : null,
+      countedByName: users.find(user => user.id === count?.countedBy)?.name || null,
+    });
+  }
+
+  return lines.sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+}
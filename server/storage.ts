@@ -1,12 +1,60 @@
 import { 
   users, User, InsertUser, 
   services, Service, InsertService,
+  servicePriceVersions, ServicePriceVersion, InsertServicePriceVersion,
   orders, Order, InsertOrder, 
   orderItems, OrderItem, InsertOrderItem,
+  orderFiles, OrderFile, InsertOrderFile,
+  orderPayments, OrderPayment, InsertOrderPayment,
+  orderReversals, OrderReversal, InsertOrderReversal,
+  orderReversalItems, OrderReversalItem, InsertOrderReversalItem,
+  documentSequences, orderDocuments, OrderDocument,
+  suppliers, Supplier, InsertSupplier,
   inventory, Inventory, InsertInventory,
+  serviceMaterials, ServiceMaterial, InsertServiceMaterial,
+  orderItemMaterials, OrderItemMaterial, InsertOrderItemMaterial,
+  inventoryMovements, InventoryMovement, InsertInventoryMovement,
+  purchaseOrders, PurchaseOrder, InsertPurchaseOrder,
+  purchaseOrderItems, PurchaseOrderItem, InsertPurchaseOrderItem,
+  stocktakes, Stocktake, InsertStocktake,
+  stocktakeCounts, StocktakeCount,
   expenses, Expense, InsertExpense,
-  customers, Customer, InsertCustomer
+  cashSessions, CashSession, InsertCashSession,
+  cashMovements, CashMovement, InsertCashMovement,
+  customers, Customer, InsertCustomer,
+  notificationOutbox, Notification, InsertNotification,
+  settings, Setting,
+  auditEvents, AuditEvent, InsertAuditEvent
 } from "@shared/schema";
+import {
+  ReportRange, TopServiceReport, InventoryUsageReport, ExpenseCategoryReport, ReversalReport, ServiceRefund,
+  ServiceCost, VatSummaryReport, VatRefund,
+  estimateInventoryUsage, isInRange, getNetLineSales, getNetRefund,
+  deductDailyRefunds, deductServiceRefunds, deductVatRefunds
+} from "./reports";
+import type { AuditEventFilter } from "./audit";
+import type { ProductionItem } from "./production";
+import type { CashSessionClosing } from "./cash-sessions";
+import type { PurchaseOrderReceipt } from "./purchasing";
+import type { PlannedOrderLine } from "./materials";
+import { defaultPricingRules, roundPrice, PRICE_TOLERANCE } from "@shared/pricing";
+import { derivePaymentStatus, getBalanceDue } from "@shared/payments";
+import { roundQuantity } from "@shared/materials";
+import { getAverageCost } from "@shared/inventory";
+import { DUE_TRACKED_STATUSES } from "@shared/turnaround";
+import { formatDocumentNumber, type OrderDocumentType } from "@shared/invoices";
+import {
+  PURCHASE_ORDER_SERIES, RECEIVABLE_PURCHASE_ORDER_STATUSES, formatPurchaseOrderNumber, getReceivedStatus
+} from "@shared/purchasing";
+import { getStocktakeVariance, type StocktakeCountRequest } from "@shared/stocktakes";
+import {
+  deriveOrderStatus, isInProduction, stageTimestampChanges, PRODUCTION_ORDER_STATUSES, type ProductionStage
+} from "@shared/production";
+import {
+  REVERSED_ORDER_STATUS, UNSOLD_ORDER_STATUSES, CLOSED_ORDER_STATUSES, isFullyRefunded, isOrderClosed,
+  canApproveReversal, getRefundableLines, type RefundedLine, type ReversalType
+} from "@shared/reversals";
+import { getCashRefundAmount } from "@shared/cash-sessions";
 
 export interface IStorage {
   // User Management
@@ -14,6 +62,7 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   getUsers(): Promise<User[]>;
+  updateUserPassword(id: number, password: string, mustChangePassword: boolean): Promise<User | undefined>;
   
   // Services Management
   getService(id: number): Promise<Service | undefined>;
@@ -22,29 +71,120 @@ export interface IStorage {
   updateService(id: number, service: Partial<InsertService>): Promise<Service | undefined>;
   deleteService(id: number): Promise<boolean>;
   
+  // Service Price Versions
+  getServicePriceVersions(serviceId: number): Promise<ServicePriceVersion[]>;
+  getServicePriceVersion(id: number): Promise<ServicePriceVersion | undefined>;
+  getEffectivePriceVersion(serviceId: number, at: Date): Promise<ServicePriceVersion | undefined>;
+  getCurrentPriceVersions(at: Date): Promise<ServicePriceVersion[]>;
+  createServicePriceVersion(version: InsertServicePriceVersion): Promise<ServicePriceVersion>;
+  deleteServicePriceVersion(id: number): Promise<boolean>;
+  
   // Order Management
   getOrder(id: number): Promise<Order | undefined>;
   getOrderByNumber(orderNumber: string): Promise<Order | undefined>;
   getOrders(status?: string): Promise<Order[]>;
   getOrdersByCustomerId(customerId: number): Promise<Order[]>;
   createOrder(order: InsertOrder): Promise<Order>;
-  deleteOrder(orderId: number): Promise<boolean>;
+  placeOrder(
+    order: InsertOrder,
+    lines: PlannedOrderLine[],
+    payments: Omit<InsertOrderPayment, "orderId">[],
+    createdBy: number
+  ): Promise<{ order: Order; items: OrderItem[]; payments: OrderPayment[] } | undefined>;
   updateOrderStatus(id: number, status: string): Promise<Order | undefined>;
-  updateOrderPayment(id: number, paymentMethod: string, paymentStatus: string): Promise<Order | undefined>;
   
   // Order Items Management
   getOrderItems(orderId: number): Promise<OrderItem[]>;
   createOrderItem(orderItem: InsertOrderItem): Promise<OrderItem>;
+  getOrderItemsWithInlineFiles(): Promise<OrderItem[]>;
+  updateOrderItemSpecifications(id: number, specifications: unknown): Promise<OrderItem | undefined>;
+  
+  // Production Board
+  getOrderItem(id: number): Promise<OrderItem | undefined>;
+  getProductionItems(): Promise<ProductionItem[]>;
+  updateOrderItemStage(id: number, stage: ProductionStage): Promise<{ item: OrderItem; order: Order } | undefined>;
+  assignOrderItem(id: number, assignedTo: number | null): Promise<OrderItem | undefined>;
+  getQueuedItemsOfFinishedOrders(): Promise<OrderItem[]>;
+  
+  // Order Files
+  getOrderFile(id: number): Promise<OrderFile | undefined>;
+  getOrderFiles(orderId: number): Promise<OrderFile[]>;
+  createOrderFile(file: InsertOrderFile): Promise<OrderFile>;
+  getExpiredOrderFiles(closedBefore: Date, uploadedBefore: Date): Promise<OrderFile[]>;
+  markOrderFilePurged(id: number): Promise<OrderFile | undefined>;
+  setOrderFileAnalysis(id: number, analysis: unknown): Promise<OrderFile | undefined>;
+  isFileContentInUse(sha256: string): Promise<boolean>;
+  
+  // Order Payments
+  getOrderPayments(orderId: number): Promise<OrderPayment[]>;
+  getPaidOrdersWithoutPayments(): Promise<Order[]>;
+  createOrderPayment(payment: InsertOrderPayment): Promise<OrderPayment | undefined>;
+  
+  // Order Reversals
+  getOrderReversal(id: number): Promise<OrderReversal | undefined>;
+  getOrderReversals(orderId: number): Promise<OrderReversal[]>;
+  getPendingOrderReversals(): Promise<OrderReversal[]>;
+  getOrderReversalItems(reversalIds: number[]): Promise<OrderReversalItem[]>;
+  createOrderReversal(
+    reversal: InsertOrderReversal,
+    items: Omit<InsertOrderReversalItem, "reversalId">[]
+  ): Promise<OrderReversal | undefined>;
+  reviewOrderReversal(
+    id: number,
+    approved: boolean,
+    reviewedBy: number,
+    reviewNotes?: string | null,
+    cashRefund?: InsertCashMovement | null
+  ): Promise<OrderReversal | undefined>;
+  
+  // Invoices and Official Receipts
+  getOrderDocument(id: number): Promise<OrderDocument | undefined>;
+  getOrderDocuments(orderId: number): Promise<OrderDocument[]>;
+  issueOrderDocument(orderId: number, type: OrderDocumentType, issuedBy: number, snapshot: unknown): Promise<OrderDocument>;
   
   // Inventory Management
   getInventory(id: number): Promise<Inventory | undefined>;
   getAllInventory(): Promise<Inventory[]>;
-  createInventory(item: InsertInventory): Promise<Inventory>;
+  createInventory(item: InsertInventory, createdBy?: number | null): Promise<Inventory>;
   updateInventory(id: number, item: Partial<InsertInventory>): Promise<Inventory | undefined>;
-  updateInventoryStock(id: number, quantity: number): Promise<Inventory | undefined>;
   deleteInventory(id: number): Promise<boolean>;
   getLowStockItems(): Promise<Inventory[]>;
   
+  // Bills of Materials
+  getServiceMaterials(serviceId: number): Promise<ServiceMaterial[]>;
+  saveServiceMaterials(serviceId: number, materials: InsertServiceMaterial[]): Promise<ServiceMaterial[]>;
+  getOrderItemMaterials(orderId: number): Promise<OrderItemMaterial[]>;
+  
+  // Stock Movements
+  getInventoryMovements(inventoryId: number, limit: number): Promise<InventoryMovement[]>;
+  recordInventoryMovements(movements: InsertInventoryMovement[]): Promise<InventoryMovement[]>;
+  
+  // Suppliers
+  getSupplier(id: number): Promise<Supplier | undefined>;
+  getSuppliers(): Promise<Supplier[]>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: number, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  
+  // Purchase Orders
+  getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined>;
+  getPurchaseOrders(status?: string): Promise<PurchaseOrder[]>;
+  getPurchaseOrderItems(purchaseOrderIds: number[]): Promise<PurchaseOrderItem[]>;
+  createPurchaseOrder(order: InsertPurchaseOrder, items: Omit<InsertPurchaseOrderItem, "purchaseOrderId">[]): Promise<PurchaseOrder>;
+  updatePurchaseOrder(id: number, order: Partial<InsertPurchaseOrder>, items: Omit<InsertPurchaseOrderItem, "purchaseOrderId">[]): Promise<PurchaseOrder | undefined>;
+  deletePurchaseOrder(id: number): Promise<boolean>;
+  sendPurchaseOrder(id: number): Promise<PurchaseOrder | undefined>;
+  receivePurchaseOrder(id: number, receipt: PurchaseOrderReceipt, expense?: InsertExpense): Promise<PurchaseOrder | undefined>;
+  
+  // Stocktakes
+  getStocktake(id: number): Promise<Stocktake | undefined>;
+  getCountingStocktake(): Promise<Stocktake | undefined>;
+  getStocktakes(limit: number): Promise<Stocktake[]>;
+  startStocktake(stocktake: InsertStocktake): Promise<Stocktake | undefined>;
+  getStocktakeCounts(stocktakeId: number): Promise<StocktakeCount[]>;
+  saveStocktakeCounts(stocktakeId: number, counts: StocktakeCountRequest[], countedBy: number): Promise<StocktakeCount[] | undefined>;
+  postStocktake(id: number, postedBy: number, unitCosts: Map<number, number | null>): Promise<Stocktake | undefined>;
+  cancelStocktake(id: number, cancelledBy: number): Promise<Stocktake | undefined>;
+  
   // Customer Management
   getCustomer(id: number): Promise<Customer | undefined>;
   getCustomerByName(name: string): Promise<Customer[]>;
@@ -58,49 +198,280 @@ export interface IStorage {
   getExpenses(category?: string): Promise<Expense[]>;
   createExpense(expense: InsertExpense): Promise<Expense>;
   
+  // Cash Drawer Sessions
+  getCashSession(id: number): Promise<CashSession | undefined>;
+  getOpenCashSession(): Promise<CashSession | undefined>;
+  getCashSessions(limit: number): Promise<CashSession[]>;
+  openCashSession(session: InsertCashSession): Promise<CashSession | undefined>;
+  closeCashSession(id: number, closing: CashSessionClosing): Promise<CashSession | undefined>;
+  getCashSessionPayments(sessionId: number): Promise<OrderPayment[]>;
+  getCashMovements(sessionId: number): Promise<CashMovement[]>;
+  createCashMovement(movement: InsertCashMovement, expense?: InsertExpense): Promise<CashMovement>;
+  getOrderCashRefunds(orderId: number): Promise<number>;
+  
   // Dashboard Data
   getDailySales(): Promise<{ date: string; total: number }[]>;
   getTodaySalesTotal(): Promise<number>;
   getOrderCountsByStatus(): Promise<{ status: string; count: number }[]>;
   getRecentOrders(limit: number): Promise<Order[]>;
+  getOrdersDueBy(until: Date): Promise<Order[]>;
   getRecentExpenses(limit: number): Promise<Expense[]>;
+  
+  // Reports
+  getTopServices(range: ReportRange): Promise<TopServiceReport[]>;
+  getServiceCosts(range: ReportRange): Promise<ServiceCost[]>;
+  getInventoryUsage(range: ReportRange): Promise<InventoryUsageReport[]>;
+  getExpensesByCategory(range: ReportRange): Promise<ExpenseCategoryReport[]>;
+  getReversalSummary(range: ReportRange): Promise<ReversalReport[]>;
+  getVatSummary(range: ReportRange): Promise<VatSummaryReport>;
+  
+  // Audit Log
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]>;
+  
+  // Notification Outbox
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getDueNotifications(now: Date, limit: number): Promise<Notification[]>;
+  getOrderNotifications(orderId: number): Promise<Notification[]>;
+  markNotificationSent(id: number): Promise<Notification | undefined>;
+  markNotificationFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<Notification | undefined>;
+  
+  // Settings
+  getSetting(key: string): Promise<Setting | undefined>;
+  saveSetting(key: string, value: unknown, updatedBy: number | null): Promise<Setting>;
+}
+
+// One sale movement per item an order used, taking the stock out (or putting it back)
+function toSaleMovements(
+  materials: OrderItemMaterial[],
+  direction: 1 | -1,
+  createdBy: number,
+  notes: string | null = null
+): InsertInventoryMovement[] {
+  const movements = new Map<string, InsertInventoryMovement>();
+  for (const material of materials) {
+    const key = `${material.orderId}:${material.inventoryId}`;
+    const movement = movements.get(key) || {
+      inventoryId: material.inventoryId,
+      type: 'sale',
+      quantity: 0,
+      unitCost: material.unitCost,
+      orderId: material.orderId,
+      notes,
+      createdBy
+    };
+    movement.quantity = roundQuantity(movement.quantity + direction * material.quantity);
+    movements.set(key, movement);
+  }
+  return Array.from(movements.values());
+}
+
+// The uploaded file an order line refers to, if any
+function getLineFileId(item: PlannedOrderLine["item"]): number | null {
+  const fileId = (item.specifications as Record<string, any> | null)?.fileId;
+  return fileId === undefined || fileId === null ? null : Number(fileId);
+}
+
+// Whether a payment still fits the order, given what has already been paid against it
+function fitsBalance(order: Order, amountPaid: number, amount: number): boolean {
+  return !isOrderClosed(order) && amount <= getBalanceDue({ total: order.total, amountPaid }) + PRICE_TOLERANCE;
+}
+
+// Order changes made by approving a reversal
+function applyReversal(order: Order, reversal: OrderReversal): Partial<Order> {
+  if (reversal.type !== "refund") {
+    return { status: REVERSED_ORDER_STATUS[reversal.type as ReversalType] };
+  }
+  
+  const refundedAmount = roundPrice((order.refundedAmount || 0) + reversal.amount);
+  return isFullyRefunded({ total: order.total, refundedAmount })
+    ? { refundedAmount, status: REVERSED_ORDER_STATUS.refund }
+    : { refundedAmount };
+}
+
+// Whether a reversal still holds against the order and the cash it hands back, checked again once the order is locked
+function isApprovable(
+  order: Order,
+  reversal: OrderReversal,
+  lines: { items: OrderItem[]; refunded: RefundedLine[]; reversed: RefundedLine[] },
+  cash: { payments: OrderPayment[]; returned: number; session: CashSession | undefined },
+  cashRefund: InsertCashMovement | null
+): boolean {
+  if (!canApproveReversal(order, reversal)) return false;
+  
+  // A cancellation hands back the deposit, which may have grown since the request
+  if (reversal.type === 'cancel' && Math.abs(reversal.amount - (order.amountPaid || 0)) > PRICE_TOLERANCE) {
+    return false;
+  }
+  if (reversal.type === 'refund') {
+    if ((order.refundedAmount || 0) + reversal.amount > order.total + PRICE_TOLERANCE) return false;
+    
+    const refundable = getRefundableLines(order, lines.items, lines.refunded);
+    const fits = lines.reversed.every(item => {
+      const line = refundable.find(entry => entry.orderItemId === item.orderItemId);
+      return !!line && item.quantity <= line.quantity && item.amount <= line.amount + PRICE_TOLERANCE;
+    });
+    if (!fits) return false;
+  }
+  
+  const amount = getCashRefundAmount(reversal, cash.payments, cash.returned, cash.session?.id);
+  return cashRefund
+    ? cashRefund.sessionId === cash.session?.id && Math.abs(cashRefund.amount - amount) <= PRICE_TOLERANCE
+    : amount <= 0;
+}
+
+// Whether each delivered line is still outstanding, checked again once the purchase order is locked
+function isReceivable(items: PurchaseOrderItem[], lines: PurchaseOrderReceipt["lines"]): boolean {
+  return lines.every(line => {
+    const item = items.find(entry => entry.id === line.itemId);
+    return !!item && roundQuantity(item.receivedQuantity + line.quantity) <= item.quantity;
+  });
+}
+
+// The receipt movement for stock delivered against a purchase order line, at the price ordered
+function toReceiptMovement(
+  order: PurchaseOrder,
+  item: PurchaseOrderItem,
+  quantity: number,
+  receipt: PurchaseOrderReceipt
+): InsertInventoryMovement {
+  return {
+    inventoryId: item.inventoryId,
+    type: 'receipt',
+    quantity,
+    unitCost: item.unitCost,
+    purchaseOrderId: order.id,
+    notes: receipt.notes ? `${order.poNumber}: ${receipt.notes}` : order.poNumber,
+    createdBy: receipt.receivedBy
+  };
+}
+
+// The adjustment that brings an item's stock in line with its count, if it was off
+function toStocktakeAdjustment(stocktakeId: number, count: StocktakeCount, postedBy: number): InsertInventoryMovement | null {
+  const variance = getStocktakeVariance(count.systemQuantity, count.countedQuantity);
+  if (variance === 0) return null;
+  
+  return {
+    inventoryId: count.inventoryId,
+    type: 'adjustment',
+    quantity: variance,
+    stocktakeId,
+    notes: `Stocktake #${stocktakeId}`,
+    createdBy: postedBy
+  };
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private services: Map<number, Service>;
+  private priceVersions: Map<number, ServicePriceVersion>;
   private orders: Map<number, Order>;
   private orderItems: Map<number, OrderItem>;
+  private orderFiles: Map<number, OrderFile>;
+  private orderPayments: Map<number, OrderPayment>;
+  private orderReversals: Map<number, OrderReversal>;
+  private orderReversalItems: Map<number, OrderReversalItem>;
+  private orderDocuments: Map<number, OrderDocument>;
+  private documentSequences: Map<string, number>;
   private inventoryItems: Map<number, Inventory>;
+  private serviceMaterials: Map<number, ServiceMaterial>;
+  private orderItemMaterials: Map<number, OrderItemMaterial>;
+  private inventoryMovements: Map<number, InventoryMovement>;
+  private suppliers: Map<number, Supplier>;
+  private purchaseOrders: Map<number, PurchaseOrder>;
+  private purchaseOrderItems: Map<number, PurchaseOrderItem>;
+  private stocktakes: Map<number, Stocktake>;
+  private stocktakeCounts: Map<number, StocktakeCount>;
   private expenseItems: Map<number, Expense>;
+  private cashSessions: Map<number, CashSession>;
+  private cashMovements: Map<number, CashMovement>;
   private customers: Map<number, Customer>;
+  private auditEvents: Map<number, AuditEvent>;
+  private notifications: Map<number, Notification>;
+  private settings: Map<string, Setting>;
   
   private userCurrentId: number;
   private serviceCurrentId: number;
+  private priceVersionCurrentId: number;
   private orderCurrentId: number;
   private orderItemCurrentId: number;
+  private orderFileCurrentId: number;
+  private orderPaymentCurrentId: number;
+  private orderReversalCurrentId: number;
+  private orderReversalItemCurrentId: number;
+  private orderDocumentCurrentId: number;
   private inventoryCurrentId: number;
+  private serviceMaterialCurrentId: number;
+  private orderItemMaterialCurrentId: number;
+  private inventoryMovementCurrentId: number;
+  private supplierCurrentId: number;
+  private purchaseOrderCurrentId: number;
+  private purchaseOrderItemCurrentId: number;
+  private stocktakeCurrentId: number;
+  private stocktakeCountCurrentId: number;
   private expenseCurrentId: number;
+  private cashSessionCurrentId: number;
+  private cashMovementCurrentId: number;
   private customerCurrentId: number;
+  private auditEventCurrentId: number;
+  private notificationCurrentId: number;
   
   private orderNumbers: Set<string>;
   
   constructor() {
     this.users = new Map();
     this.services = new Map();
+    this.priceVersions = new Map();
     this.orders = new Map();
     this.orderItems = new Map();
+    this.orderFiles = new Map();
+    this.orderPayments = new Map();
+    this.orderReversals = new Map();
+    this.orderReversalItems = new Map();
+    this.orderDocuments = new Map();
+    this.documentSequences = new Map();
     this.inventoryItems = new Map();
+    this.serviceMaterials = new Map();
+    this.orderItemMaterials = new Map();
+    this.inventoryMovements = new Map();
+    this.suppliers = new Map();
+    this.purchaseOrders = new Map();
+    this.purchaseOrderItems = new Map();
+    this.stocktakes = new Map();
+    this.stocktakeCounts = new Map();
     this.expenseItems = new Map();
+    this.cashSessions = new Map();
+    this.cashMovements = new Map();
     this.customers = new Map();
+    this.auditEvents = new Map();
+    this.notifications = new Map();
+    this.settings = new Map();
     
     this.userCurrentId = 1;
     this.serviceCurrentId = 1;
+    this.priceVersionCurrentId = 1;
     this.orderCurrentId = 1;
     this.orderItemCurrentId = 1;
+    this.orderFileCurrentId = 1;
+    this.orderPaymentCurrentId = 1;
+    this.orderReversalCurrentId = 1;
+    this.orderReversalItemCurrentId = 1;
+    this.orderDocumentCurrentId = 1;
     this.inventoryCurrentId = 1;
+    this.serviceMaterialCurrentId = 1;
+    this.orderItemMaterialCurrentId = 1;
+    this.inventoryMovementCurrentId = 1;
+    this.supplierCurrentId = 1;
+    this.purchaseOrderCurrentId = 1;
+    this.purchaseOrderItemCurrentId = 1;
+    this.stocktakeCurrentId = 1;
+    this.stocktakeCountCurrentId = 1;
     this.expenseCurrentId = 1;
+    this.cashSessionCurrentId = 1;
+    this.cashMovementCurrentId = 1;
     this.customerCurrentId = 1;
+    this.auditEventCurrentId = 1;
+    this.notificationCurrentId = 1;
     
     this.orderNumbers = new Set();
     
@@ -112,7 +483,7 @@ export class MemStorage implements IStorage {
     // Create admin user
     this.createUser({
       username: "admin",
-      password: "admin123", // In a real app this would be hashed
+      password: "admin123", // Hashed at startup by migratePlaintextPasswords
       name: "Administrator",
       role: "admin"
     });
@@ -140,25 +511,9 @@ export class MemStorage implements IStorage {
       category: "dynamic",
       type: "document",
       basePrice: 8,
-      pricingRules: {
-        paperSizes: {
-          "A4": 1.0,
-          "Letter": 1.05,
-          "Legal": 1.2,
-          "A5": 0.7
-        },
-        paperTypes: {
-          "Standard": 1.0,
-          "Glossy": 1.5,
-          "Matte": 1.3,
-          "High Quality": 1.8
-        },
-        colorModes: {
-          "Black & White": 1.0,
-          "Color": 3.0
-        }
-      },
-      active: true
+      pricingRules: defaultPricingRules.document,
+      active: true,
+      turnaroundHours: 1
     });
     
     this.createService({
@@ -167,12 +522,9 @@ export class MemStorage implements IStorage {
       category: "dynamic",
       type: "tarpaulin",
       basePrice: 25, // per sq.ft
-      pricingRules: {
-        eyelets: 10, // per eyelet
-        rope: 50,
-        stand: 200
-      },
-      active: true
+      pricingRules: defaultPricingRules.tarpaulin,
+      active: true,
+      turnaroundHours: 48
     });
     
     this.createService({
@@ -181,16 +533,9 @@ export class MemStorage implements IStorage {
       category: "dynamic",
       type: "lamination",
       basePrice: 25,
-      pricingRules: {
-        sizes: {
-          "ID Size": 1.0,
-          "Big ID": 1.5,
-          "A4": 2.5,
-          "Long": 2.0,
-          "A5": 1.8
-        }
-      },
-      active: true
+      pricingRules: defaultPricingRules.lamination,
+      active: true,
+      turnaroundHours: 1
     });
     
     this.createService({
@@ -199,7 +544,8 @@ export class MemStorage implements IStorage {
       category: "standard",
       type: "standard",
       basePrice: 125,
-      active: true
+      active: true,
+      turnaroundHours: 24
     });
     
     this.createService({
@@ -208,7 +554,8 @@ export class MemStorage implements IStorage {
       category: "standard",
       type: "standard",
       basePrice: 180,
-      active: true
+      active: true,
+      turnaroundHours: 72
     });
     
     // Create some inventory items
@@ -360,7 +707,7 @@ export class MemStorage implements IStorage {
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userCurrentId++;
     const now = new Date();
-    const user: User = { ...insertUser, id, createdAt: now };
+    const user: User = { mustChangePassword: false, ...insertUser, id, passwordChangedAt: null, createdAt: now };
     this.users.set(id, user);
     return user;
   }
@@ -369,6 +716,15 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values());
   }
   
+  async updateUserPassword(id: number, password: string, mustChangePassword: boolean): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, password, mustChangePassword, passwordChangedAt: new Date() };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
   // Services Management
   async getService(id: number): Promise<Service | undefined> {
     return this.services.get(id);
@@ -390,7 +746,7 @@ export class MemStorage implements IStorage {
   
   async createService(insertService: InsertService): Promise<Service> {
     const id = this.serviceCurrentId++;
-    const service: Service = { ...insertService, id };
+    const service: Service = { turnaroundHours: null, vatExempt: false, ...insertService, id };
     this.services.set(id, service);
     return service;
   }
@@ -404,6 +760,66 @@ export class MemStorage implements IStorage {
     return updatedService;
   }
   
+  // Service Price Versions
+  async getServicePriceVersions(serviceId: number): Promise<ServicePriceVersion[]> {
+    return Array.from(this.priceVersions.values())
+      .filter(version => version.serviceId === serviceId)
+      .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime());
+  }
+  
+  async getServicePriceVersion(id: number): Promise<ServicePriceVersion | undefined> {
+    return this.priceVersions.get(id);
+  }
+  
+  async getEffectivePriceVersion(serviceId: number, at: Date): Promise<ServicePriceVersion | undefined> {
+    return (await this.getCurrentPriceVersions(at)).find(version => version.serviceId === serviceId);
+  }
+  
+  async getCurrentPriceVersions(at: Date): Promise<ServicePriceVersion[]> {
+    return Array.from(this.priceVersions.values()).filter(version =>
+      version.effectiveFrom <= at && (!version.effectiveTo || version.effectiveTo > at)
+    );
+  }
+  
+  async createServicePriceVersion(insertVersion: InsertServicePriceVersion): Promise<ServicePriceVersion> {
+    const { serviceId, effectiveFrom } = insertVersion;
+    const history = await this.getServicePriceVersions(serviceId);
+    
+    // Close the version running when this one starts; run until the next one starts
+    const previous = history.find(version => version.effectiveFrom < effectiveFrom);
+    const next = history.filter(version => version.effectiveFrom > effectiveFrom).pop();
+    if (previous) {
+      previous.effectiveTo = effectiveFrom;
+    }
+    
+    const id = this.priceVersionCurrentId++;
+    const version: ServicePriceVersion = {
+      pricingRules: null,
+      notes: null,
+      createdBy: null,
+      ...insertVersion,
+      id,
+      effectiveTo: next ? next.effectiveFrom : null,
+      createdAt: new Date()
+    };
+    this.priceVersions.set(id, version);
+    return version;
+  }
+  
+  async deleteServicePriceVersion(id: number): Promise<boolean> {
+    const version = this.priceVersions.get(id);
+    if (!version) return false;
+    
+    // The previous version runs on until whatever followed the deleted one
+    Array.from(this.priceVersions.values()).forEach(other => {
+      if (other.serviceId === version.serviceId && other.effectiveTo?.getTime() === version.effectiveFrom.getTime()) {
+        other.effectiveTo = version.effectiveTo;
+      }
+    });
+    
+    return this.priceVersions.delete(id);
+  }
+  
   // Order Management
   async getOrder(id: number): Promise<Order | undefined> {
     return this.orders.get(id);
@@ -459,25 +875,67 @@ export class MemStorage implements IStorage {
     
     this.orderNumbers.add(insertOrder.orderNumber);
     
-    const order: Order = { ...insertOrder, id, createdAt: now };
+    const order: Order = {
+      vatableSales: 0,
+      vatAmount: 0,
+      exemptSales: 0,
+      vatInclusive: true,
+      ...insertOrder,
+      id,
+      refundedAmount: 0,
+      createdAt: now,
+      completedAt: null,
+      dueAt: insertOrder.dueAt ?? null
+    };
     this.orders.set(id, order);
     return order;
   }
   
-  async updateOrderStatus(id: number, status: string): Promise<Order | undefined> {
-    const order = this.orders.get(id);
-    if (!order) return undefined;
+  async placeOrder(
+    insertOrder: InsertOrder,
+    lines: PlannedOrderLine[],
+    payments: Omit<InsertOrderPayment, "orderId">[],
+    createdBy: number
+  ): Promise<{ order: Order; items: OrderItem[]; payments: OrderPayment[] } | undefined> {
+    // Nothing is written unless every upload can still be claimed
+    const isClaimed = (fileId: number) => {
+      const file = this.orderFiles.get(fileId);
+      return !file || file.orderItemId !== null || !!file.purgedAt;
+    };
+    if (lines.some(line => { const fileId = getLineFileId(line.item); return fileId !== null && isClaimed(fileId); })) {
+      return undefined;
+    }
     
-    const updatedOrder = { ...order, status };
-    this.orders.set(id, updatedOrder);
-    return updatedOrder;
+    const order = await this.createOrder(insertOrder);
+    const items: OrderItem[] = [];
+    const materials: InsertOrderItemMaterial[] = [];
+    for (const line of lines) {
+      const item = await this.createOrderItem({ ...line.item, orderId: order.id });
+      items.push(item);
+      
+      const fileId = getLineFileId(line.item);
+      if (fileId !== null) {
+        this.orderFiles.set(fileId, { ...this.orderFiles.get(fileId)!, orderItemId: item.id });
+      }
+      materials.push(...line.materials.map(usage => ({ ...usage, orderId: order.id, orderItemId: item.id })));
+    }
+    this.consumeOrderMaterials(materials, createdBy);
+    
+    const tenders: OrderPayment[] = [];
+    for (const payment of payments) {
+      const tender = await this.createOrderPayment({ ...payment, orderId: order.id });
+      if (tender) tenders.push(tender);
+    }
+    
+    return { order: this.orders.get(order.id)!, items, payments: tenders };
   }
   
-  async updateOrderPayment(id: number, paymentMethod: string, paymentStatus: string): Promise<Order | undefined> {
+  async updateOrderStatus(id: number, status: string): Promise<Order | undefined> {
     const order = this.orders.get(id);
     if (!order) return undefined;
     
-    const updatedOrder = { ...order, paymentMethod, paymentStatus };
+    const completedAt = status === 'completed' ? new Date() : order.completedAt;
+    const updatedOrder = { ...order, status, completedAt };
     this.orders.set(id, updatedOrder);
     return updatedOrder;
   }
@@ -490,501 +948,2563 @@ export class MemStorage implements IStorage {
   
   async createOrderItem(insertOrderItem: InsertOrderItem): Promise<OrderItem> {
     const id = this.orderItemCurrentId++;
-    const orderItem: OrderItem = { ...insertOrderItem, id };
+    const orderItem: OrderItem = {
+      specifications: null,
+      priceVersionId: null,
+      ...insertOrderItem,
+      id,
+      productionStage: 'queued',
+      assignedTo: null,
+      printingAt: null,
+      finishingAt: null,
+      qcAt: null,
+      doneAt: null
+    };
     this.orderItems.set(id, orderItem);
     return orderItem;
   }
   
-  // Inventory Management
-  async getInventory(id: number): Promise<Inventory | undefined> {
-    return this.inventoryItems.get(id);
+  async getOrderItemsWithInlineFiles(): Promise<OrderItem[]> {
+    return Array.from(this.orderItems.values())
+      .filter(item => !!(item.specifications as Record<string, unknown> | null)?.fileData);
   }
   
-  async getAllInventory(): Promise<Inventory[]> {
-    return Array.from(this.inventoryItems.values());
+  async updateOrderItemSpecifications(id: number, specifications: unknown): Promise<OrderItem | undefined> {
+    const item = this.orderItems.get(id);
+    if (!item) return undefined;
+    
+    const updatedItem = { ...item, specifications };
+    this.orderItems.set(id, updatedItem);
+    return updatedItem;
   }
   
-  async createInventory(insertInventory: InsertInventory): Promise<Inventory> {
-    const id = this.inventoryCurrentId++;
-    const inventory: Inventory = { ...insertInventory, id, lastRestocked: new Date() };
-    this.inventoryItems.set(id, inventory);
-    return inventory;
+  // Production Board
+  async getOrderItem(id: number): Promise<OrderItem | undefined> {
+    return this.orderItems.get(id);
   }
   
-  async updateInventoryStock(id: number, quantity: number): Promise<Inventory | undefined> {
-    const item = this.inventoryItems.get(id);
-    if (!item) return undefined;
+  async getProductionItems(): Promise<ProductionItem[]> {
+    const items: ProductionItem[] = [];
     
-    const updatedItem = { 
-      ...item, 
-      currentStock: item.currentStock + quantity,
-      lastRestocked: quantity > 0 ? new Date() : item.lastRestocked
-    };
+    for (const item of Array.from(this.orderItems.values())) {
+      const order = this.orders.get(item.orderId);
+      const service = this.services.get(item.serviceId);
+      if (!order || !service || !PRODUCTION_ORDER_STATUSES.includes(order.status)) continue;
+      
+      items.push({
+        ...item,
+        orderNumber: order.orderNumber,
+        customerName: order.customerName,
+        orderNotes: order.notes,
+        orderCreatedAt: order.createdAt,
+        orderDueAt: order.dueAt,
+        serviceName: service.name,
+        serviceType: service.type
+      });
+    }
+    
+    // Soonest promised first, like the database query
+    const dueTime = (item: ProductionItem) => item.orderDueAt?.getTime() ?? Infinity;
+    return items.sort((a, b) =>
+      dueTime(a) - dueTime(b) || (a.orderCreatedAt?.getTime() ?? 0) - (b.orderCreatedAt?.getTime() ?? 0) || a.id - b.id
+    );
+  }
+  
+  async updateOrderItemStage(id: number, stage: ProductionStage): Promise<{ item: OrderItem; order: Order } | undefined> {
+    const item = this.orderItems.get(id);
+    const order = item && this.orders.get(item.orderId);
+    if (!item || !order) return undefined;
     
-    this.inventoryItems.set(id, updatedItem);
+    const updatedItem = { ...item, ...stageTimestampChanges(stage, new Date()), productionStage: stage };
+    this.orderItems.set(id, updatedItem);
+    
+    let updatedOrder = order;
+    if (isInProduction(order)) {
+      const stages = (await this.getOrderItems(order.id)).map(each => each.productionStage);
+      updatedOrder = { ...order, status: deriveOrderStatus(stages) };
+      this.orders.set(order.id, updatedOrder);
+    }
+    
+    return { item: updatedItem, order: updatedOrder };
+  }
+  
+  async assignOrderItem(id: number, assignedTo: number | null): Promise<OrderItem | undefined> {
+    const item = this.orderItems.get(id);
+    if (!item) return undefined;
+    
+    const updatedItem = { ...item, assignedTo };
+    this.orderItems.set(id, updatedItem);
     return updatedItem;
   }
   
-  async getLowStockItems(): Promise<Inventory[]> {
-    return Array.from(this.inventoryItems.values())
-      .filter(item => item.currentStock <= item.lowStockThreshold);
+  async getQueuedItemsOfFinishedOrders(): Promise<OrderItem[]> {
+    return Array.from(this.orderItems.values()).filter(item => {
+      const order = this.orders.get(item.orderId);
+      return item.productionStage === 'queued' && !!order && ['ready', 'completed'].includes(order.status);
+    });
   }
   
-  // Expense Management
-  async getExpense(id: number): Promise<Expense | undefined> {
-    return this.expenseItems.get(id);
+  // Order Files
+  async getOrderFile(id: number): Promise<OrderFile | undefined> {
+    return this.orderFiles.get(id);
   }
   
-  async getExpenses(category?: string): Promise<Expense[]> {
-    let expenses = Array.from(this.expenseItems.values())
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    
-    if (category) {
-      expenses = expenses.filter(expense => expense.category === category);
-    }
-    
-    return expenses;
+  async getOrderFiles(orderId: number): Promise<OrderFile[]> {
+    const itemIds = new Set((await this.getOrderItems(orderId)).map(item => item.id));
+    return Array.from(this.orderFiles.values())
+      .filter(file => file.orderItemId !== null && itemIds.has(file.orderItemId));
   }
   
-  async createExpense(insertExpense: InsertExpense): Promise<Expense> {
-    const id = this.expenseCurrentId++;
-    const now = new Date();
-    const expense: Expense = { ...insertExpense, id, createdAt: now };
-    this.expenseItems.set(id, expense);
-    return expense;
+  async createOrderFile(insertFile: InsertOrderFile): Promise<OrderFile> {
+    const id = this.orderFileCurrentId++;
+    const file: OrderFile = {
+      orderItemId: null,
+      createdAt: new Date(),
+      ...insertFile,
+      id,
+      purgedAt: null,
+      analysis: null
+    };
+    this.orderFiles.set(id, file);
+    return file;
   }
   
-  // Dashboard Data
-  async getDailySales(): Promise<{ date: string; total: number }[]> {
-    const orders = Array.from(this.orders.values());
-    const salesByDate = new Map<string, number>();
-    
-    // Generate sales data for the last 7 days
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateString = date.toISOString().split('T')[0];
-      salesByDate.set(dateString, 0);
-    }
-    
-    // Populate with actual sales data
-    orders.forEach(order => {
-      if (order.paymentStatus === 'paid') {
-        const orderDate = new Date(order.createdAt).toISOString().split('T')[0];
-        
-        if (salesByDate.has(orderDate)) {
-          salesByDate.set(orderDate, (salesByDate.get(orderDate) || 0) + order.total);
-        }
+  async getExpiredOrderFiles(closedBefore: Date, uploadedBefore: Date): Promise<OrderFile[]> {
+    return Array.from(this.orderFiles.values()).filter(file => {
+      if (file.purgedAt) return false;
+      if (file.orderItemId === null) {
+        return !!file.createdAt && file.createdAt < uploadedBefore;
+      }
+      
+      const item = this.orderItems.get(file.orderItemId);
+      const order = item && this.orders.get(item.orderId);
+      if (!order) return false;
+      if (!isOrderClosed(order)) {
+        return !!order.completedAt && order.completedAt < closedBefore;
       }
+      
+      // A closed order counts from its last approved reversal
+      const closedAt = Array.from(this.orderReversals.values())
+        .filter(reversal => reversal.orderId === order.id && reversal.status === 'approved' && reversal.reviewedAt)
+        .reduce<Date | null>((latest, reversal) =>
+          !latest || reversal.reviewedAt! > latest ? reversal.reviewedAt : latest, null);
+      const since = closedAt || order.completedAt || order.createdAt;
+      return !!since && since < closedBefore;
     });
-    
-    return Array.from(salesByDate.entries()).map(([date, total]) => ({ date, total }));
   }
   
-  async getTodaySalesTotal(): Promise<number> {
-    const today = new Date().toISOString().split('T')[0];
-    const orders = Array.from(this.orders.values());
+  async markOrderFilePurged(id: number): Promise<OrderFile | undefined> {
+    const file = this.orderFiles.get(id);
+    if (!file) return undefined;
     
-    return orders
-      .filter(order => 
-        order.paymentStatus === 'paid' && 
-        new Date(order.createdAt).toISOString().split('T')[0] === today
-      )
-      .reduce((total, order) => total + order.total, 0);
+    const purgedFile = { ...file, purgedAt: new Date() };
+    this.orderFiles.set(id, purgedFile);
+    return purgedFile;
   }
   
-  async getOrderCountsByStatus(): Promise<{ status: string; count: number }[]> {
-    const orders = Array.from(this.orders.values());
-    const counts = new Map<string, number>();
-    
-    // Initialize all statuses with 0 count
-    ['pending', 'in_progress', 'ready', 'completed'].forEach(status => {
-      counts.set(status, 0);
-    });
-    
-    // Count orders by status
-    orders.forEach(order => {
-      counts.set(order.status, (counts.get(order.status) || 0) + 1);
-    });
+  async setOrderFileAnalysis(id: number, analysis: unknown): Promise<OrderFile | undefined> {
+    const file = this.orderFiles.get(id);
+    if (!file) return undefined;
     
-    return Array.from(counts.entries()).map(([status, count]) => ({ status, count }));
+    const analyzedFile = { ...file, analysis };
+    this.orderFiles.set(id, analyzedFile);
+    return analyzedFile;
   }
   
-  async getRecentOrders(limit: number): Promise<Order[]> {
+  async isFileContentInUse(sha256: string): Promise<boolean> {
+    return Array.from(this.orderFiles.values())
+      .some(file => file.sha256 === sha256 && !file.purgedAt);
+  }
+  
+  // Order Payments
+  async getOrderPayments(orderId: number): Promise<OrderPayment[]> {
+    return Array.from(this.orderPayments.values())
+      .filter(payment => payment.orderId === orderId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getPaidOrdersWithoutPayments(): Promise<Order[]> {
+    const paidOrderIds = new Set(Array.from(this.orderPayments.values()).map(payment => payment.orderId));
     return Array.from(this.orders.values())
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-      .slice(0, limit);
+      .filter(order => order.paymentStatus === 'paid' && !paidOrderIds.has(order.id));
   }
   
-  async getRecentExpenses(limit: number): Promise<Expense[]> {
-    return Array.from(this.expenseItems.values())
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-      .slice(0, limit);
+  async createOrderPayment(insertPayment: InsertOrderPayment): Promise<OrderPayment | undefined> {
+    const existing = this.orders.get(insertPayment.orderId);
+    const paid = (await this.getOrderPayments(insertPayment.orderId)).reduce((sum, p) => sum + p.amount, 0);
+    if (existing && !fitsBalance(existing, paid, insertPayment.amount)) return undefined;
+    
+    const id = this.orderPaymentCurrentId++;
+    const payment: OrderPayment = {
+      referenceNumber: null,
+      cashSessionId: null,
+      createdAt: new Date(),
+      ...insertPayment,
+      id
+    };
+    this.orderPayments.set(id, payment);
+    
+    const order = this.orders.get(payment.orderId);
+    if (order) {
+      const amountPaid = roundPrice((await this.getOrderPayments(order.id))
+        .reduce((sum, p) => sum + p.amount, 0));
+      this.orders.set(order.id, {
+        ...order,
+        amountPaid,
+        paymentStatus: derivePaymentStatus(order.total, amountPaid),
+        paymentMethod: payment.method
+      });
+    }
+    
+    return payment;
   }
   
-  // Customer Management Methods
-  async getCustomer(id: number): Promise<Customer | undefined> {
-    return this.customers.get(id);
+  // Order Reversals
+  async getOrderReversal(id: number): Promise<OrderReversal | undefined> {
+    return this.orderReversals.get(id);
   }
   
-  async getCustomerByName(name: string): Promise<Customer[]> {
-    const lcName = name.toLowerCase();
-    return Array.from(this.customers.values()).filter(customer => 
-      customer.name.toLowerCase().includes(lcName)
-    );
+  async getOrderReversals(orderId: number): Promise<OrderReversal[]> {
+    return Array.from(this.orderReversals.values())
+      .filter(reversal => reversal.orderId === orderId)
+      .sort((a, b) => b.id - a.id);
   }
   
-  async getCustomers(): Promise<Customer[]> {
-    return Array.from(this.customers.values());
+  async getPendingOrderReversals(): Promise<OrderReversal[]> {
+    return Array.from(this.orderReversals.values())
+      .filter(reversal => reversal.status === 'pending')
+      .sort((a, b) => a.id - b.id);
   }
   
-  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
-    const id = this.customerCurrentId++;
-    const now = new Date();
-    const customer: Customer = { 
-      ...insertCustomer, 
-      id, 
-      createdAt: now, 
-      updatedAt: now 
+  async getOrderReversalItems(reversalIds: number[]): Promise<OrderReversalItem[]> {
+    return Array.from(this.orderReversalItems.values())
+      .filter(item => reversalIds.includes(item.reversalId));
+  }
+  
+  async createOrderReversal(
+    insertReversal: InsertOrderReversal,
+    items: Omit<InsertOrderReversalItem, "reversalId">[]
+  ): Promise<OrderReversal | undefined> {
+    const pending = Array.from(this.orderReversals.values())
+      .some(reversal => reversal.orderId === insertReversal.orderId && reversal.status === 'pending');
+    if (pending) return undefined;
+    
+    const id = this.orderReversalCurrentId++;
+    const reversal: OrderReversal = {
+      amount: 0,
+      ...insertReversal,
+      id,
+      status: 'pending',
+      requestedAt: new Date(),
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewNotes: null
     };
-    this.customers.set(id, customer);
-    return customer;
+    this.orderReversals.set(id, reversal);
+    
+    items.forEach(item => {
+      const itemId = this.orderReversalItemCurrentId++;
+      this.orderReversalItems.set(itemId, { ...item, id: itemId, reversalId: id });
+    });
+    
+    return reversal;
   }
   
-  async updateCustomer(id: number, customerData: Partial<InsertCustomer>): Promise<Customer | undefined> {
-    const customer = this.customers.get(id);
-    if (!customer) {
-      return undefined;
+  async reviewOrderReversal(
+    id: number,
+    approved: boolean,
+    reviewedBy: number,
+    reviewNotes: string | null = null,
+    cashRefund: InsertCashMovement | null = null
+  ): Promise<OrderReversal | undefined> {
+    const reversal = this.orderReversals.get(id);
+    if (!reversal || reversal.status !== 'pending') return undefined;
+    
+    const order = this.orders.get(reversal.orderId);
+    if (approved) {
+      if (!order) return undefined;
+      
+      const refunds = (await this.getOrderReversals(order.id))
+        .filter(entry => entry.type === 'refund' && entry.status === 'approved');
+      const lines = {
+        items: await this.getOrderItems(order.id),
+        refunded: await this.getOrderReversalItems(refunds.map(entry => entry.id)),
+        reversed: await this.getOrderReversalItems([id])
+      };
+      const cash = {
+        payments: await this.getOrderPayments(order.id),
+        returned: await this.getOrderCashRefunds(order.id),
+        session: await this.getOpenCashSession()
+      };
+      if (!isApprovable(order, reversal, lines, cash, cashRefund)) return undefined;
     }
     
-    const updatedCustomer: Customer = {
-      ...customer,
-      ...customerData,
-      updatedAt: new Date()
+    const reviewed: OrderReversal = {
+      ...reversal,
+      status: approved ? 'approved' : 'rejected',
+      reviewedBy,
+      reviewedAt: new Date(),
+      reviewNotes
     };
+    this.orderReversals.set(id, reviewed);
     
-    this.customers.set(id, updatedCustomer);
-    return updatedCustomer;
+    if (approved && order) {
+      const changes = applyReversal(order, reviewed);
+      this.orders.set(order.id, { ...order, ...changes });
+      
+      if (changes.status && UNSOLD_ORDER_STATUSES.includes(changes.status)) {
+        this.restoreOrderMaterials(order.id, reviewedBy);
+      }
+      if (cashRefund) {
+        await this.createCashMovement({ ...cashRefund, reversalId: id });
+      }
+    }
+    
+    return reviewed;
   }
   
-  async deleteCustomer(id: number): Promise<boolean> {
-    if (!this.customers.has(id)) {
-      return false;
-    }
-    this.customers.delete(id);
-    return true;
+  // Invoices and Official Receipts
+  async getOrderDocument(id: number): Promise<OrderDocument | undefined> {
+    return this.orderDocuments.get(id);
   }
   
-  async getOrdersByCustomerId(customerId: number): Promise<Order[]> {
-    return Array.from(this.orders.values())
-      .filter(order => order.customerId === customerId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  async getOrderDocuments(orderId: number): Promise<OrderDocument[]> {
+    return Array.from(this.orderDocuments.values())
+      .filter(document => document.orderId === orderId)
+      .sort((a, b) => a.id - b.id);
   }
-}
-
-import { db } from './db';
-import { eq, sql, desc, gt, lt, and, or, like } from 'drizzle-orm';
-
-// Database Storage Implementation
-export class DatabaseStorage implements IStorage {
-  // Customer Management
-  async getOrdersByCustomerId(customerId: number): Promise<Order[]> {
-    const result = await db.select().from(orders).where(eq(orders.customerId, customerId))
-      .orderBy(desc(orders.createdAt));
-    return result;
+  
+  async issueOrderDocument(orderId: number, type: OrderDocumentType, issuedBy: number, snapshot: unknown): Promise<OrderDocument> {
+    const existing = Array.from(this.orderDocuments.values())
+      .find(document => document.orderId === orderId && document.type === type);
+    if (existing) return existing;
+    
+    const number = (this.documentSequences.get(type) || 0) + 1;
+    this.documentSequences.set(type, number);
+    
+    const id = this.orderDocumentCurrentId++;
+    const document: OrderDocument = {
+      id,
+      orderId,
+      type,
+      number,
+      documentNumber: formatDocumentNumber(type, number),
+      snapshot,
+      issuedBy,
+      issuedAt: new Date()
+    };
+    this.orderDocuments.set(id, document);
+    return document;
   }
-  // Customer Management
-  async getCustomer(id: number): Promise<Customer | undefined> {
-    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
-    return customer || undefined;
+  
+  // Inventory Management
+  async getInventory(id: number): Promise<Inventory | undefined> {
+    return this.inventoryItems.get(id);
   }
   
-  async getCustomerByName(name: string): Promise<Customer[]> {
-    return await db.select().from(customers).where(like(customers.name, `%${name}%`));
+  async getAllInventory(): Promise<Inventory[]> {
+    return Array.from(this.inventoryItems.values());
   }
-
-  async getCustomers(): Promise<Customer[]> {
-    return await db.select().from(customers);
+  
+  async createInventory(insertInventory: InsertInventory, createdBy: number | null = null): Promise<Inventory> {
+    const id = this.inventoryCurrentId++;
+    this.inventoryItems.set(id, {
+      description: null,
+      reorderQuantity: 0,
+      supplierId: null,
+      averageCost: null,
+      ...insertInventory,
+      id,
+      currentStock: 0,
+      lastRestocked: null
+    });
+    
+    if (insertInventory.currentStock !== 0) {
+      this.applyInventoryMovement({
+        inventoryId: id,
+        type: 'adjustment',
+        quantity: insertInventory.currentStock,
+        unitCost: insertInventory.averageCost ?? null,
+        notes: 'Opening stock',
+        createdBy
+      });
+    }
+    return this.inventoryItems.get(id)!;
   }
   
-  async createCustomer(customer: InsertCustomer): Promise<Customer> {
-    const [newCustomer] = await db
-      .insert(customers)
-      .values(customer)
-      .returning();
-    return newCustomer;
+  async getLowStockItems(): Promise<Inventory[]> {
+    return Array.from(this.inventoryItems.values())
+      .filter(item => item.currentStock <= item.lowStockThreshold);
   }
-
-async deleteOrder(orderId: number): Promise<boolean> {
-  try {
-    console.log("Deleting order ID:", orderId);
-
-    // 1. Delete all order items first (must come before order deletion)
-    await db.delete(orderItems).where(eq(orderItems.orderId, orderId));
-
-    // 2. Delete the main order
-    const result = await db.delete(orders).where(eq(orders.id, orderId));
-
-    // 3. Debug output (see what was deleted)
-    console.log("Deleted order result:", result);
-
-    // 4. Return true if the order was deleted (rowCount > 0)
-    return !!result?.rowCount && result.rowCount > 0;
+  
+  // Bills of Materials
+  async getServiceMaterials(serviceId: number): Promise<ServiceMaterial[]> {
+    return Array.from(this.serviceMaterials.values())
+      .filter(material => material.serviceId === serviceId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async saveServiceMaterials(serviceId: number, materials: InsertServiceMaterial[]): Promise<ServiceMaterial[]> {
+    for (const material of await this.getServiceMaterials(serviceId)) {
+      this.serviceMaterials.delete(material.id);
+    }
     
-  } catch (error) {
-    console.error("Error deleting order:", error);
-    throw new Error("Failed to delete order");
+    return materials.map(insertMaterial => {
+      const id = this.serviceMaterialCurrentId++;
+      const material: ServiceMaterial = {
+        basis: 'unit',
+        conditions: null,
+        ...insertMaterial,
+        serviceId,
+        id
+      };
+      this.serviceMaterials.set(id, material);
+      return material;
+    });
+  }
+  
+  async getOrderItemMaterials(orderId: number): Promise<OrderItemMaterial[]> {
+    return Array.from(this.orderItemMaterials.values())
+      .filter(material => material.orderId === orderId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Take the stock a new order uses, valued at each item's average cost
+  private consumeOrderMaterials(materials: InsertOrderItemMaterial[], createdBy: number) {
+    const consumed = materials.map(insertMaterial => {
+      const id = this.orderItemMaterialCurrentId++;
+      const material: OrderItemMaterial = {
+        ...insertMaterial,
+        id,
+        unitCost: this.inventoryItems.get(insertMaterial.inventoryId)?.averageCost ?? null,
+        createdAt: new Date(),
+        restoredAt: null
+      };
+      this.orderItemMaterials.set(id, material);
+      return material;
+    });
     
+    toSaleMovements(consumed, -1, createdBy).forEach(movement => this.applyInventoryMovement(movement));
   }
   
-}
-
-
+  // Put back the stock a cancelled or voided order took
+  private restoreOrderMaterials(orderId: number, restoredBy: number) {
+    const now = new Date();
+    const restored = Array.from(this.orderItemMaterials.values())
+      .filter(material => material.orderId === orderId && !material.restoredAt);
+    
+    restored.forEach(material => this.orderItemMaterials.set(material.id, { ...material, restoredAt: now }));
+    toSaleMovements(restored, 1, restoredBy, 'Order cancelled')
+      .forEach(movement => this.applyInventoryMovement(movement));
+  }
   
-  async updateCustomer(id: number, customerData: Partial<InsertCustomer>): Promise<Customer | undefined> {
-    const [updatedCustomer] = await db
-      .update(customers)
-      .set(customerData)
-      .where(eq(customers.id, id))
-      .returning();
-    return updatedCustomer || undefined;
+  // Stock Movements
+  async getInventoryMovements(inventoryId: number, limit: number): Promise<InventoryMovement[]> {
+    return Array.from(this.inventoryMovements.values())
+      .filter(movement => movement.inventoryId === inventoryId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
   }
   
-  async deleteCustomer(id: number): Promise<boolean> {
-    const result = await db
-      .delete(customers)
-      .where(eq(customers.id, id))
-      .returning({ id: customers.id });
-    return result.length > 0;
+  async recordInventoryMovements(movements: InsertInventoryMovement[]): Promise<InventoryMovement[]> {
+    return movements.map(movement => this.applyInventoryMovement(movement));
   }
   
-  // Service Management with Delete functionality
-  async deleteService(id: number): Promise<boolean> {
-    const result = await db
-      .delete(services)
-      .where(eq(services.id, id))
-      .returning({ id: services.id });
-    return result.length > 0;
+  // Write a movement to the ledger and move the item's stock balance, and its cost, with it
+  private applyInventoryMovement(insertMovement: InsertInventoryMovement): InventoryMovement {
+    const item = this.inventoryItems.get(insertMovement.inventoryId);
+    const balance = roundQuantity((item?.currentStock || 0) + insertMovement.quantity);
+    if (item) {
+      const { quantity, unitCost } = insertMovement;
+      this.inventoryItems.set(item.id, {
+        ...item,
+        currentStock: balance,
+        averageCost: quantity > 0 && unitCost != null ? getAverageCost(item, quantity, unitCost) : item.averageCost,
+        lastRestocked: insertMovement.type === 'receipt' ? new Date() : item.lastRestocked
+      });
+    }
+    
+    const id = this.inventoryMovementCurrentId++;
+    const movement: InventoryMovement = {
+      unitCost: null,
+      orderId: null,
+      transferInventoryId: null,
+      purchaseOrderId: null,
+      stocktakeId: null,
+      notes: null,
+      createdBy: null,
+      ...insertMovement,
+      id,
+      balance,
+      createdAt: new Date()
+    };
+    this.inventoryMovements.set(id, movement);
+    return movement;
   }
   
-  // Inventory Management with Update and Delete
-  async updateInventory(id: number, itemData: Partial<InsertInventory>): Promise<Inventory | undefined> {
-    const [updatedItem] = await db
-      .update(inventory)
-      .set(itemData)
-      .where(eq(inventory.id, id))
-      .returning();
-    return updatedItem || undefined;
+  // Suppliers
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    return this.suppliers.get(id);
   }
   
-  async deleteInventory(id: number): Promise<boolean> {
-    const result = await db
-      .delete(inventory)
-      .where(eq(inventory.id, id))
-      .returning({ id: inventory.id });
-    return result.length > 0;
+  async getSuppliers(): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
   }
-  async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user || undefined;
+  
+  async createSupplier(insertSupplier: InsertSupplier): Promise<Supplier> {
+    const id = this.supplierCurrentId++;
+    const now = new Date();
+    const supplier: Supplier = {
+      contactName: null,
+      phone: null,
+      email: null,
+      address: null,
+      notes: null,
+      ...insertSupplier,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.suppliers.set(id, supplier);
+    return supplier;
   }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
-    return user || undefined;
+  
+  async updateSupplier(id: number, supplierData: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const supplier = this.suppliers.get(id);
+    if (!supplier) return undefined;
+    
+    const updated: Supplier = { ...supplier, ...supplierData, updatedAt: new Date() };
+    this.suppliers.set(id, updated);
+    return updated;
   }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(insertUser)
-      .returning();
-    return user;
+  
+  // Purchase Orders
+  async getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
+    return this.purchaseOrders.get(id);
   }
   
-  async getUsers(): Promise<User[]> {
-    return await db.select().from(users);
+  async getPurchaseOrders(status?: string): Promise<PurchaseOrder[]> {
+    return Array.from(this.purchaseOrders.values())
+      .filter(order => !status || order.status === status)
+      .sort((a, b) => b.id - a.id);
   }
-
-  // Services Management
-  async getService(id: number): Promise<Service | undefined> {
-    const [service] = await db.select().from(services).where(eq(services.id, id));
-    return service || undefined;
+  
+  async getPurchaseOrderItems(purchaseOrderIds: number[]): Promise<PurchaseOrderItem[]> {
+    return Array.from(this.purchaseOrderItems.values())
+      .filter(item => purchaseOrderIds.includes(item.purchaseOrderId))
+      .sort((a, b) => a.id - b.id);
   }
   
-  async getServices(category?: string, type?: string): Promise<Service[]> {
-    let query = db.select().from(services);
+  async createPurchaseOrder(
+    insertOrder: InsertPurchaseOrder,
+    items: Omit<InsertPurchaseOrderItem, "purchaseOrderId">[]
+  ): Promise<PurchaseOrder> {
+    const number = (this.documentSequences.get(PURCHASE_ORDER_SERIES) || 0) + 1;
+    this.documentSequences.set(PURCHASE_ORDER_SERIES, number);
     
-    if (category && type) {
-      query = query.where(and(eq(services.category, category), eq(services.type, type)));
-    } else if (category) {
-      query = query.where(eq(services.category, category));
-    } else if (type) {
-      query = query.where(eq(services.type, type));
+    const id = this.purchaseOrderCurrentId++;
+    const order: PurchaseOrder = {
+      notes: null,
+      ...insertOrder,
+      id,
+      poNumber: formatPurchaseOrderNumber(number),
+      status: 'draft',
+      createdAt: new Date(),
+      sentAt: null,
+      receivedAt: null
+    };
+    this.purchaseOrders.set(id, order);
+    this.setPurchaseOrderItems(id, items);
+    return order;
+  }
+  
+  async updatePurchaseOrder(
+    id: number,
+    orderData: Partial<InsertPurchaseOrder>,
+    items: Omit<InsertPurchaseOrderItem, "purchaseOrderId">[]
+  ): Promise<PurchaseOrder | undefined> {
+    const order = this.purchaseOrders.get(id);
+    if (!order || order.status !== 'draft') return undefined;
+    
+    const updated: PurchaseOrder = { ...order, ...orderData };
+    this.purchaseOrders.set(id, updated);
+    this.setPurchaseOrderItems(id, items);
+    return updated;
+  }
+  
+  // Replace a draft's lines
+  private setPurchaseOrderItems(purchaseOrderId: number, items: Omit<InsertPurchaseOrderItem, "purchaseOrderId">[]) {
+    Array.from(this.purchaseOrderItems.values())
+      .filter(item => item.purchaseOrderId === purchaseOrderId)
+      .forEach(item => this.purchaseOrderItems.delete(item.id));
+    
+    for (const insertItem of items) {
+      const id = this.purchaseOrderItemCurrentId++;
+      this.purchaseOrderItems.set(id, { ...insertItem, id, purchaseOrderId, receivedQuantity: 0 });
     }
+  }
+  
+  async deletePurchaseOrder(id: number): Promise<boolean> {
+    const order = this.purchaseOrders.get(id);
+    if (!order || order.status !== 'draft') return false;
     
-    return await query;
+    this.setPurchaseOrderItems(id, []);
+    return this.purchaseOrders.delete(id);
   }
   
-  async createService(insertService: InsertService): Promise<Service> {
-    const [service] = await db
-      .insert(services)
-      .values(insertService)
-      .returning();
-    return service;
+  async sendPurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
+    const order = this.purchaseOrders.get(id);
+    if (!order || order.status !== 'draft') return undefined;
+    
+    const sent: PurchaseOrder = { ...order, status: 'sent', sentAt: new Date() };
+    this.purchaseOrders.set(id, sent);
+    return sent;
   }
   
-  async updateService(id: number, serviceUpdate: Partial<InsertService>): Promise<Service | undefined> {
-    const [updatedService] = await db
-      .update(services)
-      .set(serviceUpdate)
-      .where(eq(services.id, id))
-      .returning();
-    return updatedService;
+  async receivePurchaseOrder(id: number, receipt: PurchaseOrderReceipt, expense?: InsertExpense): Promise<PurchaseOrder | undefined> {
+    const order = this.purchaseOrders.get(id);
+    if (!order || !RECEIVABLE_PURCHASE_ORDER_STATUSES.includes(order.status)) return undefined;
+    if (!isReceivable(await this.getPurchaseOrderItems([id]), receipt.lines)) return undefined;
+    
+    for (const line of receipt.lines) {
+      const item = this.purchaseOrderItems.get(line.itemId);
+      if (!item || item.purchaseOrderId !== id) continue;
+      
+      this.purchaseOrderItems.set(item.id, {
+        ...item,
+        receivedQuantity: roundQuantity(item.receivedQuantity + line.quantity)
+      });
+      this.applyInventoryMovement(toReceiptMovement(order, item, line.quantity, receipt));
+    }
+    if (expense) {
+      await this.createExpense(expense);
+    }
+    
+    const status = getReceivedStatus(await this.getPurchaseOrderItems([id]));
+    const received: PurchaseOrder = {
+      ...order,
+      status,
+      receivedAt: status === 'received' ? new Date() : null
+    };
+    this.purchaseOrders.set(id, received);
+    return received;
   }
-
-  // Order Management
-  async getOrder(id: number): Promise<Order | undefined> {
-    const [order] = await db.select().from(orders).where(eq(orders.id, id));
-    return order || undefined;
+  
+  // Stocktakes
+  async getStocktake(id: number): Promise<Stocktake | undefined> {
+    return this.stocktakes.get(id);
   }
   
-  async getOrderByNumber(orderNumber: string): Promise<Order | undefined> {
-    const [order] = await db.select().from(orders).where(eq(orders.orderNumber, orderNumber));
-    return order || undefined;
+  async getCountingStocktake(): Promise<Stocktake | undefined> {
+    return Array.from(this.stocktakes.values()).find(stocktake => stocktake.status === 'counting');
   }
   
-  async getOrders(status?: string): Promise<Order[]> {
-    let query = db.select().from(orders).orderBy(desc(orders.createdAt));
+  async getStocktakes(limit: number): Promise<Stocktake[]> {
+    return Array.from(this.stocktakes.values())
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async startStocktake(insertStocktake: InsertStocktake): Promise<Stocktake | undefined> {
+    if (await this.getCountingStocktake()) return undefined;
     
-    if (status) {
-      query = query.where(eq(orders.status, status));
+    const id = this.stocktakeCurrentId++;
+    const stocktake: Stocktake = {
+      notes: null,
+      ...insertStocktake,
+      id,
+      status: 'counting',
+      startedAt: new Date(),
+      closedBy: null,
+      closedAt: null
+    };
+    this.stocktakes.set(id, stocktake);
+    return stocktake;
+  }
+  
+  async getStocktakeCounts(stocktakeId: number): Promise<StocktakeCount[]> {
+    return Array.from(this.stocktakeCounts.values())
+      .filter(count => count.stocktakeId === stocktakeId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async saveStocktakeCounts(
+    stocktakeId: number,
+    counts: StocktakeCountRequest[],
+    countedBy: number
+  ): Promise<StocktakeCount[] | undefined> {
+    if (this.stocktakes.get(stocktakeId)?.status !== 'counting') return undefined;
+    
+    const existing = await this.getStocktakeCounts(stocktakeId);
+    const saved: StocktakeCount[] = [];
+    for (const { inventoryId, countedQuantity } of counts) {
+      const previous = existing.find(count => count.inventoryId === inventoryId);
+      if (previous) this.stocktakeCounts.delete(previous.id);
+      if (countedQuantity === null) continue;
+      
+      const id = previous?.id ?? this.stocktakeCountCurrentId++;
+      const count: StocktakeCount = {
+        id,
+        stocktakeId,
+        inventoryId,
+        systemQuantity: this.inventoryItems.get(inventoryId)?.currentStock || 0,
+        countedQuantity,
+        unitCost: null,
+        countedBy,
+        countedAt: new Date()
+      };
+      this.stocktakeCounts.set(id, count);
+      saved.push(count);
     }
+    return saved;
+  }
+  
+  async postStocktake(id: number, postedBy: number, unitCosts: Map<number, number | null>): Promise<Stocktake | undefined> {
+    const stocktake = this.stocktakes.get(id);
+    if (!stocktake || stocktake.status !== 'counting') return undefined;
     
-    return await query;
+    for (const count of await this.getStocktakeCounts(id)) {
+      this.stocktakeCounts.set(count.id, { ...count, unitCost: unitCosts.get(count.inventoryId) ?? null });
+      const movement = toStocktakeAdjustment(id, count, postedBy);
+      if (movement) this.applyInventoryMovement(movement);
+    }
+    
+    const posted: Stocktake = { ...stocktake, status: 'posted', closedBy: postedBy, closedAt: new Date() };
+    this.stocktakes.set(id, posted);
+    return posted;
   }
   
-  async createOrder(insertOrder: InsertOrder): Promise<Order> {
-    // Generate order number if not provided
-    if (!insertOrder.orderNumber) {
-      // Get current date in YYMMDD format
+  async cancelStocktake(id: number, cancelledBy: number): Promise<Stocktake | undefined> {
+    const stocktake = this.stocktakes.get(id);
+    if (!stocktake || stocktake.status !== 'counting') return undefined;
+    
+    const cancelled: Stocktake = { ...stocktake, status: 'cancelled', closedBy: cancelledBy, closedAt: new Date() };
+    this.stocktakes.set(id, cancelled);
+    return cancelled;
+  }
+  
+  // Expense Management
+  async getExpense(id: number): Promise<Expense | undefined> {
+    return this.expenseItems.get(id);
+  }
+  
+  async getExpenses(category?: string): Promise<Expense[]> {
+    let expenses = Array.from(this.expenseItems.values())
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    
+    if (category) {
+      expenses = expenses.filter(expense => expense.category === category);
+    }
+    
+    return expenses;
+  }
+  
+  async createExpense(insertExpense: InsertExpense): Promise<Expense> {
+    const id = this.expenseCurrentId++;
+    const now = new Date();
+    const expense: Expense = { ...insertExpense, id, createdAt: now };
+    this.expenseItems.set(id, expense);
+    return expense;
+  }
+  
+  // Cash Drawer Sessions
+  async getCashSession(id: number): Promise<CashSession | undefined> {
+    return this.cashSessions.get(id);
+  }
+  
+  async getOpenCashSession(): Promise<CashSession | undefined> {
+    return Array.from(this.cashSessions.values()).find(session => session.status === 'open');
+  }
+  
+  async getCashSessions(limit: number): Promise<CashSession[]> {
+    return Array.from(this.cashSessions.values())
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async openCashSession(insertSession: InsertCashSession): Promise<CashSession | undefined> {
+    if (await this.getOpenCashSession()) return undefined;
+    
+    const id = this.cashSessionCurrentId++;
+    const session: CashSession = {
+      openingNotes: null,
+      ...insertSession,
+      id,
+      status: 'open',
+      openedAt: new Date(),
+      closedBy: null,
+      closedAt: null,
+      denominations: null,
+      countedCash: null,
+      expectedCash: null,
+      variance: null,
+      closingNotes: null,
+      zReading: null
+    };
+    this.cashSessions.set(id, session);
+    return session;
+  }
+  
+  async closeCashSession(id: number, closing: CashSessionClosing): Promise<CashSession | undefined> {
+    const session = this.cashSessions.get(id);
+    if (!session || session.status !== 'open') return undefined;
+    
+    const closed: CashSession = { ...session, ...closing, status: 'closed', closedAt: new Date() };
+    this.cashSessions.set(id, closed);
+    return closed;
+  }
+  
+  async getCashSessionPayments(sessionId: number): Promise<OrderPayment[]> {
+    return Array.from(this.orderPayments.values())
+      .filter(payment => payment.cashSessionId === sessionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getCashMovements(sessionId: number): Promise<CashMovement[]> {
+    return Array.from(this.cashMovements.values())
+      .filter(movement => movement.sessionId === sessionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createCashMovement(insertMovement: InsertCashMovement, expense?: InsertExpense): Promise<CashMovement> {
+    const expenseId = expense ? (await this.createExpense(expense)).id : null;
+    
+    const id = this.cashMovementCurrentId++;
+    const movement: CashMovement = {
+      reversalId: null,
+      ...insertMovement,
+      expenseId,
+      id,
+      createdAt: new Date()
+    };
+    this.cashMovements.set(id, movement);
+    return movement;
+  }
+  
+  async getOrderCashRefunds(orderId: number): Promise<number> {
+    const reversalIds = new Set((await this.getOrderReversals(orderId)).map(reversal => reversal.id));
+    return roundPrice(Array.from(this.cashMovements.values())
+      .filter(movement => movement.reversalId !== null && reversalIds.has(movement.reversalId))
+      .reduce((sum, movement) => sum + movement.amount, 0));
+  }
+  
+  // Dashboard Data
+  async getDailySales(): Promise<{ date: string; total: number }[]> {
+    const orders = Array.from(this.orders.values());
+    const salesByDate = new Map<string, number>();
+    
+    // Generate sales data for the last 7 days
+    for (let i = 6; i >= 0; i--) {
       const date = new Date();
-      const year = date.getFullYear().toString().substr(-2);
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      const dateString = `${year}${month}${day}`;
-      
-      // Count orders for today to get sequential number
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
-      
-      const todayEnd = new Date();
-      todayEnd.setHours(23, 59, 59, 999);
-      
-      const todayOrders = await db.select({ count: sql<number>`count(*)` })
-        .from(orders)
-        .where(
-          and(
-            gt(orders.createdAt, todayStart),
-            lt(orders.createdAt, todayEnd)
-          )
-        );
-      
-      const count = todayOrders[0]?.count || 0;
-      const sequentialNum = String(count + 1).padStart(4, '0');
-      
-      insertOrder.orderNumber = `ORD-${dateString}-${sequentialNum}`;
+      date.setDate(date.getDate() - i);
+      const dateString = date.toISOString().split('T')[0];
+      salesByDate.set(dateString, 0);
     }
     
-    const [order] = await db
-      .insert(orders)
-      .values(insertOrder)
-      .returning();
+    // Populate with actual sales data
+    orders.forEach(order => {
+      if (order.paymentStatus === 'paid' && !UNSOLD_ORDER_STATUSES.includes(order.status)) {
+        const orderDate = new Date(order.createdAt).toISOString().split('T')[0];
+        
+        if (salesByDate.has(orderDate)) {
+          salesByDate.set(orderDate, (salesByDate.get(orderDate) || 0) + order.total);
+        }
+      }
+    });
+    
+    // Refunds come off the day they were given
+    this.getApprovedRefunds().forEach(refund => {
+      const refundDate = new Date(refund.reviewedAt!).toISOString().split('T')[0];
+      
+      if (salesByDate.has(refundDate)) {
+        salesByDate.set(refundDate, (salesByDate.get(refundDate) || 0) - refund.amount);
+      }
+    });
+    
+    return Array.from(salesByDate.entries()).map(([date, total]) => ({ date, total }));
+  }
+  
+  async getTodaySalesTotal(): Promise<number> {
+    const today = new Date().toISOString().split('T')[0];
+    const orders = Array.from(this.orders.values());
+    
+    const sales = orders
+      .filter(order => 
+        order.paymentStatus === 'paid' && 
+        !UNSOLD_ORDER_STATUSES.includes(order.status) &&
+        new Date(order.createdAt).toISOString().split('T')[0] === today
+      )
+      .reduce((total, order) => total + order.total, 0);
+    
+    const refunds = this.getApprovedRefunds()
+      .filter(refund => new Date(refund.reviewedAt!).toISOString().split('T')[0] === today)
+      .reduce((total, refund) => total + refund.amount, 0);
+    
+    return roundPrice(sales - refunds);
+  }
+  
+  private getApprovedRefunds(): OrderReversal[] {
+    return Array.from(this.orderReversals.values())
+      .filter(reversal => reversal.type === 'refund' && reversal.status === 'approved');
+  }
+  
+  async getOrderCountsByStatus(): Promise<{ status: string; count: number }[]> {
+    const orders = Array.from(this.orders.values());
+    const counts = new Map<string, number>();
+    
+    // Initialize all statuses with 0 count
+    ['pending', 'in_progress', 'ready', 'completed'].forEach(status => {
+      counts.set(status, 0);
+    });
+    
+    // Count orders by status
+    orders.forEach(order => {
+      counts.set(order.status, (counts.get(order.status) || 0) + 1);
+    });
+    
+    return Array.from(counts.entries()).map(([status, count]) => ({ status, count }));
+  }
+  
+  async getRecentOrders(limit: number): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, limit);
+  }
+  
+  async getOrdersDueBy(until: Date): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => !!order.dueAt && order.dueAt <= until && DUE_TRACKED_STATUSES.includes(order.status))
+      .sort((a, b) => a.dueAt!.getTime() - b.dueAt!.getTime());
+  }
+  
+  async getRecentExpenses(limit: number): Promise<Expense[]> {
+    return Array.from(this.expenseItems.values())
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, limit);
+  }
+  
+  // Reports
+  async getTopServices(range: ReportRange): Promise<TopServiceReport[]> {
+    const report = new Map<number, TopServiceReport & { orderIds: Set<number> }>();
+    
+    for (const item of Array.from(this.orderItems.values())) {
+      const order = this.orders.get(item.orderId);
+      if (!order || order.paymentStatus !== 'paid' || UNSOLD_ORDER_STATUSES.includes(order.status)) continue;
+      if (!isInRange(order.createdAt, range)) continue;
+      
+      const service = this.services.get(item.serviceId);
+      const entry = report.get(item.serviceId) || {
+        serviceId: item.serviceId,
+        name: service?.name || `Service #${item.serviceId}`,
+        sales: 0,
+        netSales: 0,
+        count: 0,
+        quantity: 0,
+        orderIds: new Set<number>()
+      };
+      
+      entry.sales += item.amount;
+      entry.netSales += getNetLineSales(item.amount, order);
+      entry.quantity += item.quantity;
+      entry.orderIds.add(order.id);
+      report.set(item.serviceId, entry);
+    }
+    
+    const refunds = new Map<number, ServiceRefund>();
+    const refundIds = this.getApprovedRefunds()
+      .filter(refund => isInRange(refund.reviewedAt, range))
+      .map(refund => refund.id);
+    
+    for (const refunded of await this.getOrderReversalItems(refundIds)) {
+      const item = this.orderItems.get(refunded.orderItemId);
+      const order = item && this.orders.get(item.orderId);
+      if (!item || !order) continue;
+      
+      const entry = refunds.get(item.serviceId) || {
+        serviceId: item.serviceId,
+        name: this.services.get(item.serviceId)?.name || `Service #${item.serviceId}`,
+        amount: 0,
+        netAmount: 0,
+        quantity: 0
+      };
+      entry.amount += refunded.amount;
+      entry.netAmount += getNetRefund(refunded.amount, order);
+      entry.quantity += refunded.quantity;
+      refunds.set(item.serviceId, entry);
+    }
+    
+    return deductServiceRefunds(
+      Array.from(report.values()).map(({ orderIds, ...entry }) => ({
+        ...entry,
+        netSales: roundPrice(entry.netSales),
+        count: orderIds.size
+      })),
+      Array.from(refunds.values())
+    );
+  }
+  
+  async getServiceCosts(range: ReportRange): Promise<ServiceCost[]> {
+    const costs = new Map<number, number>();
+    
+    for (const material of Array.from(this.orderItemMaterials.values())) {
+      const order = this.orders.get(material.orderId);
+      const item = this.orderItems.get(material.orderItemId);
+      if (!order || !item || material.restoredAt) continue;
+      if (order.paymentStatus !== 'paid' || UNSOLD_ORDER_STATUSES.includes(order.status)) continue;
+      if (!isInRange(order.createdAt, range)) continue;
+      
+      costs.set(item.serviceId, (costs.get(item.serviceId) || 0) + material.quantity * (material.unitCost || 0));
+    }
+    
+    return Array.from(costs.entries()).map(([serviceId, cost]) => ({ serviceId, cost: roundPrice(cost) }));
+  }
+  
+  async getInventoryUsage(range: ReportRange): Promise<InventoryUsageReport[]> {
+    const lines = Array.from(this.orderItems.values())
+      .filter(item => {
+        const order = this.orders.get(item.orderId);
+        return order !== undefined && !UNSOLD_ORDER_STATUSES.includes(order.status) && isInRange(order.createdAt, range);
+      })
+      .map(item => ({
+        ...item,
+        serviceType: this.services.get(item.serviceId)?.type || 'standard'
+      }));
+    
+    return estimateInventoryUsage(lines, Array.from(this.inventoryItems.values()));
+  }
+  
+  async getExpensesByCategory(range: ReportRange): Promise<ExpenseCategoryReport[]> {
+    const totals = new Map<string, number>();
+    
+    Array.from(this.expenseItems.values())
+      .filter(expense => isInRange(expense.createdAt, range))
+      .forEach(expense => {
+        totals.set(expense.category, (totals.get(expense.category) || 0) + expense.amount);
+      });
+    
+    return Array.from(totals.entries())
+      .map(([category, amount]) => ({ category, amount }))
+      .sort((a, b) => b.amount - a.amount);
+  }
+  
+  async getReversalSummary(range: ReportRange): Promise<ReversalReport[]> {
+    const summary = new Map<string, ReversalReport>();
+    
+    Array.from(this.orderReversals.values())
+      .filter(reversal => reversal.status === 'approved' && isInRange(reversal.reviewedAt, range))
+      .forEach(reversal => {
+        const entry = summary.get(reversal.type) || { type: reversal.type, count: 0, amount: 0 };
+        entry.count += 1;
+        entry.amount = roundPrice(entry.amount + reversal.amount);
+        summary.set(reversal.type, entry);
+      });
+    
+    return Array.from(summary.values());
+  }
+  
+  async getVatSummary(range: ReportRange): Promise<VatSummaryReport> {
+    const sales = { orders: 0, vatableSales: 0, vatAmount: 0, exemptSales: 0, total: 0 };
+    
+    Array.from(this.orders.values())
+      .filter(order => order.paymentStatus === 'paid' && !UNSOLD_ORDER_STATUSES.includes(order.status))
+      .filter(order => isInRange(order.createdAt, range))
+      .forEach(order => {
+        sales.orders += 1;
+        sales.vatableSales += order.vatableSales || 0;
+        sales.vatAmount += order.vatAmount || 0;
+        sales.exemptSales += order.exemptSales || 0;
+        sales.total += order.total;
+      });
+    
+    // Refunds come off the range they were given in
+    const refunds: VatRefund[] = [];
+    for (const refund of this.getApprovedRefunds().filter(refund => isInRange(refund.reviewedAt, range))) {
+      const order = this.orders.get(refund.orderId);
+      if (!order) continue;
+      refunds.push({
+        amount: refund.amount,
+        order: {
+          vatableSales: order.vatableSales || 0,
+          vatAmount: order.vatAmount || 0,
+          exemptSales: order.exemptSales || 0,
+          total: order.total
+        }
+      });
+    }
+    
+    return deductVatRefunds(sales, refunds);
+  }
+  
+  // Audit Log
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const id = this.auditEventCurrentId++;
+    const event: AuditEvent = {
+      entityId: null,
+      actorId: null,
+      actorName: null,
+      ipAddress: null,
+      before: null,
+      after: null,
+      ...insertEvent,
+      id,
+      createdAt: new Date()
+    };
+    this.auditEvents.set(id, event);
+    return event;
+  }
+  
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]> {
+    return Array.from(this.auditEvents.values())
+      .filter(event =>
+        (!filter.entityType || event.entityType === filter.entityType) &&
+        (!filter.entityId || event.entityId === filter.entityId) &&
+        (!filter.action || event.action === filter.action) &&
+        (filter.actorId === undefined || event.actorId === filter.actorId) &&
+        (!filter.from || event.createdAt! >= filter.from) &&
+        (!filter.to || event.createdAt! <= filter.to)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filter.limit);
+  }
+  
+  // Notification Outbox
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = this.notificationCurrentId++;
+    const now = new Date();
+    const notification: Notification = {
+      orderId: null,
+      customerId: null,
+      subject: null,
+      ...insertNotification,
+      id,
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: insertNotification.nextAttemptAt ?? now,
+      sentAt: null,
+      createdAt: now
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+  
+  async getDueNotifications(now: Date, limit: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.status === 'pending' && notification.nextAttemptAt! <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, limit);
+  }
+  
+  async getOrderNotifications(orderId: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.orderId === orderId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async markNotificationSent(id: number): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification) return undefined;
+    
+    const updated: Notification = {
+      ...notification,
+      status: 'sent',
+      attempts: notification.attempts + 1,
+      lastError: null,
+      sentAt: new Date()
+    };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+  
+  async markNotificationFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification) return undefined;
+    
+    const updated: Notification = {
+      ...notification,
+      status: nextAttemptAt ? 'pending' : 'failed',
+      attempts: notification.attempts + 1,
+      lastError: error,
+      nextAttemptAt: nextAttemptAt ?? notification.nextAttemptAt
+    };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+  
+  // Settings
+  async getSetting(key: string): Promise<Setting | undefined> {
+    return this.settings.get(key);
+  }
+  
+  async saveSetting(key: string, value: unknown, updatedBy: number | null): Promise<Setting> {
+    const setting: Setting = { key, value, updatedBy, updatedAt: new Date() };
+    this.settings.set(key, setting);
+    return setting;
+  }
+  
+  // Customer Management Methods
+  async getCustomer(id: number): Promise<Customer | undefined> {
+    return this.customers.get(id);
+  }
+  
+  async getCustomerByName(name: string): Promise<Customer[]> {
+    const lcName = name.toLowerCase();
+    return Array.from(this.customers.values()).filter(customer => 
+      customer.name.toLowerCase().includes(lcName)
+    );
+  }
+  
+  async getCustomers(): Promise<Customer[]> {
+    return Array.from(this.customers.values());
+  }
+  
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const id = this.customerCurrentId++;
+    const now = new Date();
+    const customer: Customer = { 
+      notificationsOptOut: false,
+      ...insertCustomer, 
+      id, 
+      createdAt: now, 
+      updatedAt: now 
+    };
+    this.customers.set(id, customer);
+    return customer;
+  }
+  
+  async updateCustomer(id: number, customerData: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const customer = this.customers.get(id);
+    if (!customer) {
+      return undefined;
+    }
+    
+    const updatedCustomer: Customer = {
+      ...customer,
+      ...customerData,
+      updatedAt: new Date()
+    };
+    
+    this.customers.set(id, updatedCustomer);
+    return updatedCustomer;
+  }
+  
+  async deleteCustomer(id: number): Promise<boolean> {
+    if (!this.customers.has(id)) {
+      return false;
+    }
+    this.customers.delete(id);
+    return true;
+  }
+  
+  async getOrdersByCustomerId(customerId: number): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(order => order.customerId === customerId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+}
+
+import { db } from './db';
+import { eq, sql, asc, desc, gt, lt, gte, lte, and, or, like, isNull, inArray, notInArray } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Write movements to the ledger, moving each item's stock balance, and its cost, with them
+async function applyInventoryMovements(tx: Transaction, movements: InsertInventoryMovement[]): Promise<InventoryMovement[]> {
+  const recorded: InventoryMovement[] = [];
+  
+  for (const movement of movements) {
+    // Stock coming in at a known cost is averaged into what is already held
+    let averageCost: number | undefined;
+    if (movement.quantity > 0 && movement.unitCost != null) {
+      const [current] = await tx
+        .select({ currentStock: inventory.currentStock, averageCost: inventory.averageCost })
+        .from(inventory)
+        .where(eq(inventory.id, movement.inventoryId))
+        .for('update');
+      averageCost = current ? getAverageCost(current, movement.quantity, movement.unitCost) : undefined;
+    }
+    
+    const [item] = await tx
+      .update(inventory)
+      .set({
+        currentStock: sql`${inventory.currentStock} + ${movement.quantity}`,
+        ...(averageCost !== undefined ? { averageCost } : {}),
+        ...(movement.type === 'receipt' ? { lastRestocked: new Date() } : {})
+      })
+      .where(eq(inventory.id, movement.inventoryId))
+      .returning({ currentStock: inventory.currentStock });
+    
+    const [entry] = await tx
+      .insert(inventoryMovements)
+      .values({ ...movement, balance: item?.currentStock ?? movement.quantity })
+      .returning();
+    recorded.push(entry);
+  }
+  
+  return recorded;
+}
+
+// Database Storage Implementation
+export class DatabaseStorage implements IStorage {
+  // Customer Management
+  async getOrdersByCustomerId(customerId: number): Promise<Order[]> {
+    const result = await db.select().from(orders).where(eq(orders.customerId, customerId))
+      .orderBy(desc(orders.createdAt));
+    return result;
+  }
+  // Customer Management
+  async getCustomer(id: number): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+    return customer || undefined;
+  }
+  
+  async getCustomerByName(name: string): Promise<Customer[]> {
+    return await db.select().from(customers).where(like(customers.name, `%${name}%`));
+  }
+
+  async getCustomers(): Promise<Customer[]> {
+    return await db.select().from(customers);
+  }
+  
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    const [newCustomer] = await db
+      .insert(customers)
+      .values(customer)
+      .returning();
+    return newCustomer;
+  }
+
+
+
+  
+  async updateCustomer(id: number, customerData: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const [updatedCustomer] = await db
+      .update(customers)
+      .set(customerData)
+      .where(eq(customers.id, id))
+      .returning();
+    return updatedCustomer || undefined;
+  }
+  
+  async deleteCustomer(id: number): Promise<boolean> {
+    const result = await db
+      .delete(customers)
+      .where(eq(customers.id, id))
+      .returning({ id: customers.id });
+    return result.length > 0;
+  }
+  
+  // Service Management with Delete functionality
+  async deleteService(id: number): Promise<boolean> {
+    await db.delete(servicePriceVersions).where(eq(servicePriceVersions.serviceId, id));
+    
+    const result = await db
+      .delete(services)
+      .where(eq(services.id, id))
+      .returning({ id: services.id });
+    return result.length > 0;
+  }
+  
+  // Inventory Management with Update and Delete
+  async updateInventory(id: number, itemData: Partial<InsertInventory>): Promise<Inventory | undefined> {
+    const [updatedItem] = await db
+      .update(inventory)
+      .set(itemData)
+      .where(eq(inventory.id, id))
+      .returning();
+    return updatedItem || undefined;
+  }
+  
+  async deleteInventory(id: number): Promise<boolean> {
+    const result = await db
+      .delete(inventory)
+      .where(eq(inventory.id, id))
+      .returning({ id: inventory.id });
+    return result.length > 0;
+  }
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values(insertUser)
+      .returning();
+    return user;
+  }
+  
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users);
+  }
+  
+  async updateUserPassword(id: number, password: string, mustChangePassword: boolean): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ password, mustChangePassword, passwordChangedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  // Services Management
+  async getService(id: number): Promise<Service | undefined> {
+    const [service] = await db.select().from(services).where(eq(services.id, id));
+    return service || undefined;
+  }
+  
+  async getServices(category?: string, type?: string): Promise<Service[]> {
+    let query = db.select().from(services);
+    
+    if (category && type) {
+      query = query.where(and(eq(services.category, category), eq(services.type, type)));
+    } else if (category) {
+      query = query.where(eq(services.category, category));
+    } else if (type) {
+      query = query.where(eq(services.type, type));
+    }
+    
+    return await query;
+  }
+  
+  async createService(insertService: InsertService): Promise<Service> {
+    const [service] = await db
+      .insert(services)
+      .values(insertService)
+      .returning();
+    return service;
+  }
+  
+  async updateService(id: number, serviceUpdate: Partial<InsertService>): Promise<Service | undefined> {
+    const [updatedService] = await db
+      .update(services)
+      .set(serviceUpdate)
+      .where(eq(services.id, id))
+      .returning();
+    return updatedService;
+  }
+  
+  // Service Price Versions
+  async getServicePriceVersions(serviceId: number): Promise<ServicePriceVersion[]> {
+    return await db
+      .select()
+      .from(servicePriceVersions)
+      .where(eq(servicePriceVersions.serviceId, serviceId))
+      .orderBy(desc(servicePriceVersions.effectiveFrom));
+  }
+  
+  async getServicePriceVersion(id: number): Promise<ServicePriceVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(servicePriceVersions)
+      .where(eq(servicePriceVersions.id, id));
+    return version || undefined;
+  }
+  
+  async getEffectivePriceVersion(serviceId: number, at: Date): Promise<ServicePriceVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(servicePriceVersions)
+      .where(
+        and(
+          eq(servicePriceVersions.serviceId, serviceId),
+          lte(servicePriceVersions.effectiveFrom, at),
+          or(isNull(servicePriceVersions.effectiveTo), gt(servicePriceVersions.effectiveTo, at))
+        )
+      )
+      .orderBy(desc(servicePriceVersions.effectiveFrom))
+      .limit(1);
+    return version || undefined;
+  }
+  
+  async getCurrentPriceVersions(at: Date): Promise<ServicePriceVersion[]> {
+    return await db
+      .select()
+      .from(servicePriceVersions)
+      .where(
+        and(
+          lte(servicePriceVersions.effectiveFrom, at),
+          or(isNull(servicePriceVersions.effectiveTo), gt(servicePriceVersions.effectiveTo, at))
+        )
+      );
+  }
+  
+  async createServicePriceVersion(insertVersion: InsertServicePriceVersion): Promise<ServicePriceVersion> {
+    const { serviceId, effectiveFrom } = insertVersion;
+    
+    return await db.transaction(async (tx) => {
+      // Lock the service so two schedules for it cannot leave overlapping versions
+      await tx.select({ id: services.id }).from(services).where(eq(services.id, serviceId)).for('update');
+      
+      // The new version runs until the next scheduled one, if any
+      const [next] = await tx
+        .select()
+        .from(servicePriceVersions)
+        .where(and(eq(servicePriceVersions.serviceId, serviceId), gt(servicePriceVersions.effectiveFrom, effectiveFrom)))
+        .orderBy(asc(servicePriceVersions.effectiveFrom))
+        .limit(1);
+      
+      // Close the version running when this one starts
+      await tx
+        .update(servicePriceVersions)
+        .set({ effectiveTo: effectiveFrom })
+        .where(
+          and(
+            eq(servicePriceVersions.serviceId, serviceId),
+            lt(servicePriceVersions.effectiveFrom, effectiveFrom),
+            or(isNull(servicePriceVersions.effectiveTo), gt(servicePriceVersions.effectiveTo, effectiveFrom))
+          )
+        );
+      
+      const [version] = await tx
+        .insert(servicePriceVersions)
+        .values({ ...insertVersion, effectiveTo: next ? next.effectiveFrom : null })
+        .returning();
+      return version;
+    });
+  }
+  
+  async deleteServicePriceVersion(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(servicePriceVersions).where(eq(servicePriceVersions.id, id));
+      if (!existing) return false;
+      
+      // Under the same service lock as scheduling, so the versions are rejoined without a gap
+      await tx.select({ id: services.id }).from(services).where(eq(services.id, existing.serviceId)).for('update');
+      
+      const [version] = await tx
+        .delete(servicePriceVersions)
+        .where(eq(servicePriceVersions.id, id))
+        .returning();
+      
+      if (!version) return false;
+      
+      // The previous version runs on until whatever followed the deleted one
+      await tx
+        .update(servicePriceVersions)
+        .set({ effectiveTo: version.effectiveTo })
+        .where(
+          and(
+            eq(servicePriceVersions.serviceId, version.serviceId),
+            eq(servicePriceVersions.effectiveTo, version.effectiveFrom)
+          )
+        );
+      return true;
+    });
+  }
+
+  // Order Management
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    return order || undefined;
+  }
+  
+  async getOrderByNumber(orderNumber: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.orderNumber, orderNumber));
+    return order || undefined;
+  }
+  
+  async getOrders(status?: string): Promise<Order[]> {
+    let query = db.select().from(orders).orderBy(desc(orders.createdAt));
+    
+    if (status) {
+      query = query.where(eq(orders.status, status));
+    }
+    
+    return await query;
+  }
+  
+  // Next ORD-YYMMDD-XXXX number, counting the orders taken today
+  private async nextOrderNumber(): Promise<string> {
+    // Get current date in YYMMDD format
+    const date = new Date();
+    const year = date.getFullYear().toString().substr(-2);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    const dateString = `${year}${month}${day}`;
+    
+    // Count orders for today to get sequential number
+    const todayStart = new Date();
+    todayStart.setHours(0, 0, 0, 0);
+    
+    const todayEnd = new Date();
+    todayEnd.setHours(23, 59, 59, 999);
+    
+    const todayOrders = await db.select({ count: sql<number>`count(*)` })
+      .from(orders)
+      .where(
+        and(
+          gt(orders.createdAt, todayStart),
+          lt(orders.createdAt, todayEnd)
+        )
+      );
+    
+    const count = todayOrders[0]?.count || 0;
+    const sequentialNum = String(count + 1).padStart(4, '0');
+    
+    return `ORD-${dateString}-${sequentialNum}`;
+  }
+  
+  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+    // Generate order number if not provided
+    if (!insertOrder.orderNumber) {
+      insertOrder.orderNumber = await this.nextOrderNumber();
+    }
+    
+    const [order] = await db
+      .insert(orders)
+      .values(insertOrder)
+      .returning();
     return order;
   }
   
-  async updateOrderStatus(id: number, status: string): Promise<Order | undefined> {
-    const [updatedOrder] = await db
-      .update(orders)
-      .set({ status })
-      .where(eq(orders.id, id))
-      .returning();
-    return updatedOrder;
+  async placeOrder(
+    insertOrder: InsertOrder,
+    lines: PlannedOrderLine[],
+    payments: Omit<InsertOrderPayment, "orderId">[],
+    createdBy: number
+  ): Promise<{ order: Order; items: OrderItem[]; payments: OrderPayment[] } | undefined> {
+    const orderNumber = insertOrder.orderNumber || await this.nextOrderNumber();
+    const fileIds = lines.map(line => getLineFileId(line.item)).filter((id): id is number => id !== null);
+    
+    // The order, its lines, file claims, stock and tenders are written together or not at all
+    return await db.transaction(async (tx) => {
+      // Lock the uploads first; one claimed by another order in the meantime stops the sale
+      if (fileIds.length > 0) {
+        const claimable = await tx
+          .select({ id: orderFiles.id })
+          .from(orderFiles)
+          .where(and(inArray(orderFiles.id, fileIds), isNull(orderFiles.orderItemId), isNull(orderFiles.purgedAt)))
+          .for('update');
+        if (claimable.length !== new Set(fileIds).size) return undefined;
+      }
+      
+      const [order] = await tx
+        .insert(orders)
+        .values({ ...insertOrder, orderNumber })
+        .returning();
+      
+      const items: OrderItem[] = [];
+      const materials: InsertOrderItemMaterial[] = [];
+      for (const line of lines) {
+        const [item] = await tx
+          .insert(orderItems)
+          .values({ ...line.item, orderId: order.id })
+          .returning();
+        items.push(item);
+        
+        const fileId = getLineFileId(line.item);
+        if (fileId !== null) {
+          await tx
+            .update(orderFiles)
+            .set({ orderItemId: item.id })
+            .where(eq(orderFiles.id, fileId));
+        }
+        materials.push(...line.materials.map(usage => ({ ...usage, orderId: order.id, orderItemId: item.id })));
+      }
+      
+      if (materials.length > 0) {
+        const costs = await tx
+          .select({ id: inventory.id, averageCost: inventory.averageCost })
+          .from(inventory)
+          .where(inArray(inventory.id, materials.map(material => material.inventoryId)));
+        
+        const consumed = await tx
+          .insert(orderItemMaterials)
+          .values(materials.map(material => ({
+            ...material,
+            unitCost: costs.find(item => item.id === material.inventoryId)?.averageCost ?? null
+          })))
+          .returning();
+        await applyInventoryMovements(tx, toSaleMovements(consumed, -1, createdBy));
+      }
+      
+      if (payments.length === 0) {
+        return { order, items, payments: [] };
+      }
+      
+      const tenders = await tx
+        .insert(orderPayments)
+        .values(payments.map(payment => ({ ...payment, orderId: order.id })))
+        .returning();
+      const amountPaid = roundPrice(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+      const [paidOrder] = await tx
+        .update(orders)
+        .set({
+          amountPaid,
+          paymentStatus: derivePaymentStatus(order.total, amountPaid),
+          paymentMethod: tenders[tenders.length - 1].method
+        })
+        .where(eq(orders.id, order.id))
+        .returning();
+      
+      return { order: paidOrder, items, payments: tenders };
+    });
+  }
+  
+  async updateOrderStatus(id: number, status: string): Promise<Order | undefined> {
+    const [updatedOrder] = await db
+      .update(orders)
+      .set(status === 'completed' ? { status, completedAt: new Date() } : { status })
+      .where(eq(orders.id, id))
+      .returning();
+    return updatedOrder;
+  }
+  
+  // Order Items Management
+  async getOrderItems(orderId: number): Promise<OrderItem[]> {
+    return await db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId));
+  }
+  
+  async createOrderItem(insertOrderItem: InsertOrderItem): Promise<OrderItem> {
+    const [orderItem] = await db
+      .insert(orderItems)
+      .values(insertOrderItem)
+      .returning();
+    return orderItem;
+  }
+  
+  async getOrderItemsWithInlineFiles(): Promise<OrderItem[]> {
+    return await db
+      .select()
+      .from(orderItems)
+      .where(sql`${orderItems.specifications} ? 'fileData' AND ${orderItems.specifications}->>'fileData' IS NOT NULL`);
+  }
+  
+  async updateOrderItemSpecifications(id: number, specifications: unknown): Promise<OrderItem | undefined> {
+    const [updatedItem] = await db
+      .update(orderItems)
+      .set({ specifications })
+      .where(eq(orderItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+  
+  // Production Board
+  async getOrderItem(id: number): Promise<OrderItem | undefined> {
+    const [item] = await db.select().from(orderItems).where(eq(orderItems.id, id));
+    return item;
+  }
+  
+  async getProductionItems(): Promise<ProductionItem[]> {
+    const rows = await db
+      .select({
+        item: orderItems,
+        orderNumber: orders.orderNumber,
+        customerName: orders.customerName,
+        orderNotes: orders.notes,
+        orderCreatedAt: orders.createdAt,
+        orderDueAt: orders.dueAt,
+        serviceName: services.name,
+        serviceType: services.type
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(services, eq(orderItems.serviceId, services.id))
+      .where(inArray(orders.status, PRODUCTION_ORDER_STATUSES))
+      .orderBy(sql`${orders.dueAt} ASC NULLS LAST`, asc(orders.createdAt), asc(orderItems.id));
+    
+    return rows.map(({ item, ...order }) => ({ ...item, ...order }));
+  }
+  
+  async updateOrderItemStage(id: number, stage: ProductionStage): Promise<{ item: OrderItem; order: Order } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx.select().from(orderItems).where(eq(orderItems.id, id));
+      if (!item) return undefined;
+      
+      // Lock the order so items finishing at the same time both count
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, item.orderId))
+        .for('update');
+      
+      const [updatedItem] = await tx
+        .update(orderItems)
+        .set({ ...stageTimestampChanges(stage, new Date()), productionStage: stage })
+        .where(eq(orderItems.id, id))
+        .returning();
+      
+      if (!isInProduction(order)) {
+        return { item: updatedItem, order };
+      }
+      
+      const stages = await tx
+        .select({ stage: orderItems.productionStage })
+        .from(orderItems)
+        .where(eq(orderItems.orderId, order.id));
+      
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({ status: deriveOrderStatus(stages.map(each => each.stage)) })
+        .where(eq(orders.id, order.id))
+        .returning();
+      
+      return { item: updatedItem, order: updatedOrder };
+    });
+  }
+  
+  async assignOrderItem(id: number, assignedTo: number | null): Promise<OrderItem | undefined> {
+    const [updatedItem] = await db
+      .update(orderItems)
+      .set({ assignedTo })
+      .where(eq(orderItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+  
+  async getQueuedItemsOfFinishedOrders(): Promise<OrderItem[]> {
+    const rows = await db
+      .select({ item: orderItems })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(
+        and(
+          eq(orderItems.productionStage, 'queued'),
+          inArray(orders.status, ['ready', 'completed'])
+        )
+      );
+    return rows.map(row => row.item);
+  }
+  
+  // Order Files
+  async getOrderFile(id: number): Promise<OrderFile | undefined> {
+    const [file] = await db.select().from(orderFiles).where(eq(orderFiles.id, id));
+    return file;
+  }
+  
+  async getOrderFiles(orderId: number): Promise<OrderFile[]> {
+    const rows = await db
+      .select({ file: orderFiles })
+      .from(orderFiles)
+      .innerJoin(orderItems, eq(orderFiles.orderItemId, orderItems.id))
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(asc(orderFiles.id));
+    return rows.map(row => row.file);
+  }
+  
+  async createOrderFile(insertFile: InsertOrderFile): Promise<OrderFile> {
+    const [file] = await db
+      .insert(orderFiles)
+      .values(insertFile)
+      .returning();
+    return file;
+  }
+  
+  async getExpiredOrderFiles(closedBefore: Date, uploadedBefore: Date): Promise<OrderFile[]> {
+    // A closed order counts from its last approved reversal
+    const closedAt = sql`COALESCE(
+      (SELECT MAX(${orderReversals.reviewedAt}) FROM ${orderReversals}
+        WHERE ${orderReversals.orderId} = ${orders.id} AND ${orderReversals.status} = 'approved'),
+      ${orders.completedAt},
+      ${orders.createdAt}
+    )`;
+    
+    const rows = await db
+      .select({ file: orderFiles })
+      .from(orderFiles)
+      .leftJoin(orderItems, eq(orderFiles.orderItemId, orderItems.id))
+      .leftJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(
+        and(
+          isNull(orderFiles.purgedAt),
+          or(
+            and(isNull(orderFiles.orderItemId), lt(orderFiles.createdAt, uploadedBefore)),
+            and(notInArray(orders.status, CLOSED_ORDER_STATUSES), lt(orders.completedAt, closedBefore)),
+            and(inArray(orders.status, CLOSED_ORDER_STATUSES), lt(closedAt, closedBefore))
+          )
+        )
+      );
+    return rows.map(row => row.file);
+  }
+  
+  async markOrderFilePurged(id: number): Promise<OrderFile | undefined> {
+    const [file] = await db
+      .update(orderFiles)
+      .set({ purgedAt: new Date() })
+      .where(eq(orderFiles.id, id))
+      .returning();
+    return file;
+  }
+  
+  async setOrderFileAnalysis(id: number, analysis: unknown): Promise<OrderFile | undefined> {
+    const [file] = await db
+      .update(orderFiles)
+      .set({ analysis })
+      .where(eq(orderFiles.id, id))
+      .returning();
+    return file;
+  }
+  
+  async isFileContentInUse(sha256: string): Promise<boolean> {
+    const [file] = await db
+      .select({ id: orderFiles.id })
+      .from(orderFiles)
+      .where(and(eq(orderFiles.sha256, sha256), isNull(orderFiles.purgedAt)))
+      .limit(1);
+    return !!file;
+  }
+  
+  // Order Payments
+  async getOrderPayments(orderId: number): Promise<OrderPayment[]> {
+    return await db
+      .select()
+      .from(orderPayments)
+      .where(eq(orderPayments.orderId, orderId))
+      .orderBy(asc(orderPayments.createdAt), asc(orderPayments.id));
+  }
+  
+  async getPaidOrdersWithoutPayments(): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.paymentStatus, 'paid'),
+          sql`NOT EXISTS (SELECT 1 FROM ${orderPayments} WHERE ${orderPayments.orderId} = ${orders.id})`
+        )
+      );
+  }
+  
+  async createOrderPayment(insertPayment: InsertOrderPayment): Promise<OrderPayment | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the order so concurrent payments both count towards the balance
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, insertPayment.orderId))
+        .for('update');
+      
+      const paidSum = async () => {
+        const [{ total }] = await tx
+          .select({ total: sql<number>`COALESCE(SUM(${orderPayments.amount}), 0)`.mapWith(Number) })
+          .from(orderPayments)
+          .where(eq(orderPayments.orderId, order.id));
+        return total;
+      };
+      
+      // The route checked the balance before the lock; another payment may have landed since
+      if (!order || !fitsBalance(order, await paidSum(), insertPayment.amount)) return undefined;
+      
+      const [payment] = await tx
+        .insert(orderPayments)
+        .values(insertPayment)
+        .returning();
+      
+      const amountPaid = roundPrice(await paidSum());
+      await tx
+        .update(orders)
+        .set({
+          amountPaid,
+          paymentStatus: derivePaymentStatus(order.total, amountPaid),
+          paymentMethod: payment.method
+        })
+        .where(eq(orders.id, order.id));
+      
+      return payment;
+    });
+  }
+  
+  // Order Reversals
+  async getOrderReversal(id: number): Promise<OrderReversal | undefined> {
+    const [reversal] = await db.select().from(orderReversals).where(eq(orderReversals.id, id));
+    return reversal || undefined;
+  }
+  
+  async getOrderReversals(orderId: number): Promise<OrderReversal[]> {
+    return await db
+      .select()
+      .from(orderReversals)
+      .where(eq(orderReversals.orderId, orderId))
+      .orderBy(desc(orderReversals.id));
+  }
+  
+  async getPendingOrderReversals(): Promise<OrderReversal[]> {
+    return await db
+      .select()
+      .from(orderReversals)
+      .where(eq(orderReversals.status, 'pending'))
+      .orderBy(asc(orderReversals.id));
+  }
+  
+  async getOrderReversalItems(reversalIds: number[]): Promise<OrderReversalItem[]> {
+    if (reversalIds.length === 0) return [];
+    
+    return await db
+      .select()
+      .from(orderReversalItems)
+      .where(inArray(orderReversalItems.reversalId, reversalIds));
+  }
+  
+  async createOrderReversal(
+    insertReversal: InsertOrderReversal,
+    items: Omit<InsertOrderReversalItem, "reversalId">[]
+  ): Promise<OrderReversal | undefined> {
+    return await db.transaction(async (tx) => {
+      // The partial unique index turns a second pending reversal of the order into a no-op
+      const [reversal] = await tx
+        .insert(orderReversals)
+        .values(insertReversal)
+        .onConflictDoNothing()
+        .returning();
+      
+      if (reversal && items.length > 0) {
+        await tx
+          .insert(orderReversalItems)
+          .values(items.map(item => ({ ...item, reversalId: reversal.id })));
+      }
+      
+      return reversal;
+    });
+  }
+  
+  async reviewOrderReversal(
+    id: number,
+    approved: boolean,
+    reviewedBy: number,
+    reviewNotes: string | null = null,
+    cashRefund: InsertCashMovement | null = null
+  ): Promise<OrderReversal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [pending] = await tx.select().from(orderReversals).where(eq(orderReversals.id, id));
+      if (!pending) return undefined;
+      
+      // Lock the order, then check the reversal still holds against it
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, pending.orderId))
+        .for('update');
+      
+      if (approved && !(await this.isReversalApprovable(tx, order, pending, cashRefund))) {
+        return undefined;
+      }
+      
+      // Only a pending reversal can be reviewed, so approving twice is a no-op
+      const [reversal] = await tx
+        .update(orderReversals)
+        .set({
+          status: approved ? 'approved' : 'rejected',
+          reviewedBy,
+          reviewedAt: new Date(),
+          reviewNotes
+        })
+        .where(and(eq(orderReversals.id, id), eq(orderReversals.status, 'pending')))
+        .returning();
+      
+      if (!reversal || !approved) return reversal;
+      
+      const changes = applyReversal(order, reversal);
+      await tx
+        .update(orders)
+        .set(changes)
+        .where(eq(orders.id, order.id));
+      
+      // A cancelled or voided order never used its materials
+      if (changes.status && UNSOLD_ORDER_STATUSES.includes(changes.status)) {
+        const restored = await tx
+          .update(orderItemMaterials)
+          .set({ restoredAt: new Date() })
+          .where(and(eq(orderItemMaterials.orderId, order.id), isNull(orderItemMaterials.restoredAt)))
+          .returning();
+        
+        await applyInventoryMovements(tx, toSaleMovements(restored, 1, reviewedBy, 'Order cancelled'));
+      }
+      
+      // Cash handed back comes out of the drawer with the approval
+      if (cashRefund) {
+        await tx.insert(cashMovements).values({ ...cashRefund, reversalId: reversal.id });
+      }
+      
+      return reversal;
+    });
+  }
+  
+  // The order lines, payments and open drawer a reversal is checked against, read under the order lock
+  private async isReversalApprovable(
+    tx: Transaction,
+    order: Order,
+    reversal: OrderReversal,
+    cashRefund: InsertCashMovement | null
+  ): Promise<boolean> {
+    const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+    const refunded = await tx
+      .select({ orderItemId: orderReversalItems.orderItemId, quantity: orderReversalItems.quantity, amount: orderReversalItems.amount })
+      .from(orderReversalItems)
+      .innerJoin(orderReversals, eq(orderReversalItems.reversalId, orderReversals.id))
+      .where(
+        and(
+          eq(orderReversals.orderId, order.id),
+          eq(orderReversals.type, 'refund'),
+          eq(orderReversals.status, 'approved')
+        )
+      );
+    const reversed = await tx.select().from(orderReversalItems).where(eq(orderReversalItems.reversalId, reversal.id));
+    
+    const payments = await tx.select().from(orderPayments).where(eq(orderPayments.orderId, order.id));
+    const [{ returned }] = await tx
+      .select({ returned: sql<number>`COALESCE(SUM(${cashMovements.amount}), 0)`.mapWith(Number) })
+      .from(cashMovements)
+      .innerJoin(orderReversals, eq(cashMovements.reversalId, orderReversals.id))
+      .where(eq(orderReversals.orderId, order.id));
+    const [session] = await tx
+      .select()
+      .from(cashSessions)
+      .where(eq(cashSessions.status, 'open'))
+      .for('update');
+    
+    return isApprovable(order, reversal, { items, refunded, reversed }, { payments, returned, session }, cashRefund);
+  }
+  
+  // Invoices and Official Receipts
+  async getOrderDocument(id: number): Promise<OrderDocument | undefined> {
+    const [document] = await db.select().from(orderDocuments).where(eq(orderDocuments.id, id));
+    return document;
+  }
+  
+  async getOrderDocuments(orderId: number): Promise<OrderDocument[]> {
+    return await db
+      .select()
+      .from(orderDocuments)
+      .where(eq(orderDocuments.orderId, orderId))
+      .orderBy(asc(orderDocuments.id));
+  }
+  
+  async issueOrderDocument(orderId: number, type: OrderDocumentType, issuedBy: number, snapshot: unknown): Promise<OrderDocument> {
+    return await db.transaction(async (tx) => {
+      // Numbers are taken from a locked counter row rather than a Postgres
+      // sequence, so a failed issue rolls the number back and the series
+      // never has gaps
+      await tx
+        .insert(documentSequences)
+        .values({ series: type, lastNumber: 0 })
+        .onConflictDoNothing();
+      
+      const [sequence] = await tx
+        .select()
+        .from(documentSequences)
+        .where(eq(documentSequences.series, type))
+        .for('update');
+      
+      // Checked under the lock so two clerks issuing at once get one document
+      const [existing] = await tx
+        .select()
+        .from(orderDocuments)
+        .where(and(eq(orderDocuments.orderId, orderId), eq(orderDocuments.type, type)));
+      if (existing) return existing;
+      
+      const number = sequence.lastNumber + 1;
+      const [document] = await tx
+        .insert(orderDocuments)
+        .values({
+          orderId,
+          type,
+          number,
+          documentNumber: formatDocumentNumber(type, number),
+          snapshot,
+          issuedBy
+        })
+        .returning();
+      
+      await tx
+        .update(documentSequences)
+        .set({ lastNumber: number })
+        .where(eq(documentSequences.series, type));
+      
+      return document;
+    });
+  }
+
+  // Inventory Management
+  async getInventory(id: number): Promise<Inventory | undefined> {
+    const [item] = await db
+      .select()
+      .from(inventory)
+      .where(eq(inventory.id, id));
+    return item || undefined;
+  }
+  
+  async getAllInventory(): Promise<Inventory[]> {
+    return await db.select().from(inventory);
+  }
+  
+  async createInventory(insertInventory: InsertInventory, createdBy: number | null = null): Promise<Inventory> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx
+        .insert(inventory)
+        .values({ ...insertInventory, currentStock: 0 })
+        .returning();
+      
+      if (insertInventory.currentStock === 0) return item;
+      
+      await applyInventoryMovements(tx, [{
+        inventoryId: item.id,
+        type: 'adjustment',
+        quantity: insertInventory.currentStock,
+        unitCost: insertInventory.averageCost ?? null,
+        notes: 'Opening stock',
+        createdBy
+      }]);
+      return { ...item, currentStock: insertInventory.currentStock };
+    });
+  }
+  
+  async getLowStockItems(): Promise<Inventory[]> {
+    return await db
+      .select()
+      .from(inventory)
+      .where(
+        sql`${inventory.currentStock} <= ${inventory.lowStockThreshold}`
+      );
+  }
+  
+  // Bills of Materials
+  async getServiceMaterials(serviceId: number): Promise<ServiceMaterial[]> {
+    return await db
+      .select()
+      .from(serviceMaterials)
+      .where(eq(serviceMaterials.serviceId, serviceId))
+      .orderBy(asc(serviceMaterials.id));
+  }
+  
+  async saveServiceMaterials(serviceId: number, materials: InsertServiceMaterial[]): Promise<ServiceMaterial[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(serviceMaterials).where(eq(serviceMaterials.serviceId, serviceId));
+      if (materials.length === 0) return [];
+      
+      return await tx
+        .insert(serviceMaterials)
+        .values(materials.map(material => ({ ...material, serviceId })))
+        .returning();
+    });
+  }
+  
+  async getOrderItemMaterials(orderId: number): Promise<OrderItemMaterial[]> {
+    return await db
+      .select()
+      .from(orderItemMaterials)
+      .where(eq(orderItemMaterials.orderId, orderId))
+      .orderBy(asc(orderItemMaterials.id));
+  }
+  
+  // Stock Movements
+  async getInventoryMovements(inventoryId: number, limit: number): Promise<InventoryMovement[]> {
+    return await db
+      .select()
+      .from(inventoryMovements)
+      .where(eq(inventoryMovements.inventoryId, inventoryId))
+      .orderBy(desc(inventoryMovements.id))
+      .limit(limit);
+  }
+  
+  async recordInventoryMovements(movements: InsertInventoryMovement[]): Promise<InventoryMovement[]> {
+    if (movements.length === 0) return [];
+    
+    return await db.transaction(async (tx) => applyInventoryMovements(tx, movements));
+  }
+
+  // Suppliers
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier || undefined;
+  }
+  
+  async getSuppliers(): Promise<Supplier[]> {
+    return await db.select().from(suppliers).orderBy(asc(suppliers.name));
+  }
+  
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const [newSupplier] = await db
+      .insert(suppliers)
+      .values(supplier)
+      .returning();
+    return newSupplier;
+  }
+  
+  async updateSupplier(id: number, supplierData: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const [updatedSupplier] = await db
+      .update(suppliers)
+      .set({ ...supplierData, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return updatedSupplier || undefined;
+  }
+  
+  // Purchase Orders
+  async getPurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
+    const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return order || undefined;
+  }
+  
+  async getPurchaseOrders(status?: string): Promise<PurchaseOrder[]> {
+    return await db
+      .select()
+      .from(purchaseOrders)
+      .where(status ? eq(purchaseOrders.status, status) : undefined)
+      .orderBy(desc(purchaseOrders.id));
+  }
+  
+  async getPurchaseOrderItems(purchaseOrderIds: number[]): Promise<PurchaseOrderItem[]> {
+    if (purchaseOrderIds.length === 0) return [];
+    
+    return await db
+      .select()
+      .from(purchaseOrderItems)
+      .where(inArray(purchaseOrderItems.purchaseOrderId, purchaseOrderIds))
+      .orderBy(asc(purchaseOrderItems.id));
+  }
+  
+  async createPurchaseOrder(
+    insertOrder: InsertPurchaseOrder,
+    items: Omit<InsertPurchaseOrderItem, "purchaseOrderId">[]
+  ): Promise<PurchaseOrder> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .insert(documentSequences)
+        .values({ series: PURCHASE_ORDER_SERIES, lastNumber: 0 })
+        .onConflictDoNothing();
+      
+      const [sequence] = await tx
+        .update(documentSequences)
+        .set({ lastNumber: sql`${documentSequences.lastNumber} + 1` })
+        .where(eq(documentSequences.series, PURCHASE_ORDER_SERIES))
+        .returning();
+      
+      const [order] = await tx
+        .insert(purchaseOrders)
+        .values({ ...insertOrder, poNumber: formatPurchaseOrderNumber(sequence.lastNumber) })
+        .returning();
+      
+      if (items.length > 0) {
+        await tx.insert(purchaseOrderItems).values(items.map(item => ({ ...item, purchaseOrderId: order.id })));
+      }
+      return order;
+    });
+  }
+  
+  async updatePurchaseOrder(
+    id: number,
+    orderData: Partial<InsertPurchaseOrder>,
+    items: Omit<InsertPurchaseOrderItem, "purchaseOrderId">[]
+  ): Promise<PurchaseOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only drafts can change; once sent the supplier has the order as it was
+      const [order] = await tx
+        .update(purchaseOrders)
+        .set(orderData)
+        .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.status, 'draft')))
+        .returning();
+      if (!order) return undefined;
+      
+      await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      if (items.length > 0) {
+        await tx.insert(purchaseOrderItems).values(items.map(item => ({ ...item, purchaseOrderId: id })));
+      }
+      return order;
+    });
+  }
+  
+  async deletePurchaseOrder(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.status, 'draft')))
+        .for('update');
+      if (!order) return false;
+      
+      await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+      await tx.delete(purchaseOrders).where(eq(purchaseOrders.id, id));
+      return true;
+    });
   }
   
-  async updateOrderPayment(id: number, paymentMethod: string, paymentStatus: string): Promise<Order | undefined> {
-    const [updatedOrder] = await db
-      .update(orders)
-      .set({ paymentMethod, paymentStatus })
-      .where(eq(orders.id, id))
+  async sendPurchaseOrder(id: number): Promise<PurchaseOrder | undefined> {
+    const [order] = await db
+      .update(purchaseOrders)
+      .set({ status: 'sent', sentAt: new Date() })
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.status, 'draft')))
       .returning();
-    return updatedOrder;
-  }
-
-  // Order Items Management
-  async getOrderItems(orderId: number): Promise<OrderItem[]> {
-    return await db
-      .select()
-      .from(orderItems)
-      .where(eq(orderItems.orderId, orderId));
+    return order;
   }
   
-  async createOrderItem(insertOrderItem: InsertOrderItem): Promise<OrderItem> {
-    const [orderItem] = await db
-      .insert(orderItems)
-      .values(insertOrderItem)
-      .returning();
-    return orderItem;
+  async receivePurchaseOrder(id: number, receipt: PurchaseOrderReceipt, expense?: InsertExpense): Promise<PurchaseOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locked so two deliveries booked at once cannot both count the same outstanding stock
+      const [order] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(and(eq(purchaseOrders.id, id), inArray(purchaseOrders.status, RECEIVABLE_PURCHASE_ORDER_STATUSES)))
+        .for('update');
+      if (!order) return undefined;
+      
+      const lines = await tx
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, id));
+      if (!isReceivable(lines, receipt.lines)) return undefined;
+      
+      const movements: InsertInventoryMovement[] = [];
+      for (const line of receipt.lines) {
+        const [item] = await tx
+          .update(purchaseOrderItems)
+          .set({ receivedQuantity: sql`${purchaseOrderItems.receivedQuantity} + ${line.quantity}` })
+          .where(and(eq(purchaseOrderItems.id, line.itemId), eq(purchaseOrderItems.purchaseOrderId, id)))
+          .returning();
+        if (item) {
+          movements.push(toReceiptMovement(order, item, line.quantity, receipt));
+        }
+      }
+      await applyInventoryMovements(tx, movements);
+      
+      if (expense) {
+        await tx.insert(expenses).values(expense);
+      }
+      
+      const items = await tx
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, id));
+      const status = getReceivedStatus(items);
+      
+      const [received] = await tx
+        .update(purchaseOrders)
+        .set({ status, receivedAt: status === 'received' ? new Date() : null })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return received;
+    });
   }
 
-  // Inventory Management
-  async getInventory(id: number): Promise<Inventory | undefined> {
-    const [item] = await db
-      .select()
-      .from(inventory)
-      .where(eq(inventory.id, id));
-    return item || undefined;
+  // Stocktakes
+  async getStocktake(id: number): Promise<Stocktake | undefined> {
+    const [stocktake] = await db.select().from(stocktakes).where(eq(stocktakes.id, id));
+    return stocktake;
   }
   
-  async getAllInventory(): Promise<Inventory[]> {
-    return await db.select().from(inventory);
+  async getCountingStocktake(): Promise<Stocktake | undefined> {
+    const [stocktake] = await db.select().from(stocktakes).where(eq(stocktakes.status, 'counting'));
+    return stocktake;
   }
   
-  async createInventory(insertInventory: InsertInventory): Promise<Inventory> {
-    const [item] = await db
-      .insert(inventory)
-      .values(insertInventory)
-      .returning();
-    return item;
+  async getStocktakes(limit: number): Promise<Stocktake[]> {
+    return await db
+      .select()
+      .from(stocktakes)
+      .orderBy(desc(stocktakes.id))
+      .limit(limit);
   }
   
-  async updateInventoryStock(id: number, quantity: number): Promise<Inventory | undefined> {
-    const [item] = await db
-      .select()
-      .from(inventory)
-      .where(eq(inventory.id, id));
-      
-    if (!item) return undefined;
-    
-    const [updatedItem] = await db
-      .update(inventory)
-      .set({ 
-        currentStock: quantity,
-        lastRestocked: new Date()
-      })
-      .where(eq(inventory.id, id))
+  async startStocktake(insertStocktake: InsertStocktake): Promise<Stocktake | undefined> {
+    // The partial unique index turns a second stocktake under way into a no-op
+    const [stocktake] = await db
+      .insert(stocktakes)
+      .values(insertStocktake)
+      .onConflictDoNothing()
       .returning();
-    
-    return updatedItem;
+    return stocktake;
   }
   
-  async getLowStockItems(): Promise<Inventory[]> {
+  async getStocktakeCounts(stocktakeId: number): Promise<StocktakeCount[]> {
     return await db
       .select()
-      .from(inventory)
-      .where(
-        sql`${inventory.currentStock} <= ${inventory.lowStockThreshold}`
-      );
+      .from(stocktakeCounts)
+      .where(eq(stocktakeCounts.stocktakeId, stocktakeId))
+      .orderBy(asc(stocktakeCounts.id));
+  }
+  
+  async saveStocktakeCounts(
+    stocktakeId: number,
+    counts: StocktakeCountRequest[],
+    countedBy: number
+  ): Promise<StocktakeCount[] | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locked so counts cannot land after the stocktake has been posted
+      const [stocktake] = await tx
+        .select()
+        .from(stocktakes)
+        .where(and(eq(stocktakes.id, stocktakeId), eq(stocktakes.status, 'counting')))
+        .for('update');
+      if (!stocktake) return undefined;
+      
+      const saved: StocktakeCount[] = [];
+      for (const { inventoryId, countedQuantity } of counts) {
+        if (countedQuantity === null) {
+          await tx
+            .delete(stocktakeCounts)
+            .where(and(eq(stocktakeCounts.stocktakeId, stocktakeId), eq(stocktakeCounts.inventoryId, inventoryId)));
+          continue;
+        }
+        
+        const [item] = await tx
+          .select({ currentStock: inventory.currentStock })
+          .from(inventory)
+          .where(eq(inventory.id, inventoryId));
+        const values = {
+          systemQuantity: item?.currentStock ?? 0,
+          countedQuantity,
+          countedBy,
+          countedAt: new Date()
+        };
+        
+        const [count] = await tx
+          .insert(stocktakeCounts)
+          .values({ ...values, stocktakeId, inventoryId })
+          .onConflictDoUpdate({ target: [stocktakeCounts.stocktakeId, stocktakeCounts.inventoryId], set: values })
+          .returning();
+        saved.push(count);
+      }
+      return saved;
+    });
+  }
+  
+  async postStocktake(id: number, postedBy: number, unitCosts: Map<number, number | null>): Promise<Stocktake | undefined> {
+    return await db.transaction(async (tx) => {
+      const [posted] = await tx
+        .update(stocktakes)
+        .set({ status: 'posted', closedBy: postedBy, closedAt: new Date() })
+        .where(and(eq(stocktakes.id, id), eq(stocktakes.status, 'counting')))
+        .returning();
+      if (!posted) return undefined;
+      
+      const counts = await tx
+        .select()
+        .from(stocktakeCounts)
+        .where(eq(stocktakeCounts.stocktakeId, id));
+      
+      const movements: InsertInventoryMovement[] = [];
+      for (const count of counts) {
+        await tx
+          .update(stocktakeCounts)
+          .set({ unitCost: unitCosts.get(count.inventoryId) ?? null })
+          .where(eq(stocktakeCounts.id, count.id));
+        
+        const movement = toStocktakeAdjustment(id, count, postedBy);
+        if (movement) movements.push(movement);
+      }
+      await applyInventoryMovements(tx, movements);
+      
+      return posted;
+    });
+  }
+  
+  async cancelStocktake(id: number, cancelledBy: number): Promise<Stocktake | undefined> {
+    const [stocktake] = await db
+      .update(stocktakes)
+      .set({ status: 'cancelled', closedBy: cancelledBy, closedAt: new Date() })
+      .where(and(eq(stocktakes.id, id), eq(stocktakes.status, 'counting')))
+      .returning();
+    return stocktake;
   }
 
   // Expense Management
@@ -1013,6 +3533,85 @@ async deleteOrder(orderId: number): Promise<boolean> {
       .returning();
     return expense;
   }
+  
+  // Cash Drawer Sessions
+  async getCashSession(id: number): Promise<CashSession | undefined> {
+    const [session] = await db.select().from(cashSessions).where(eq(cashSessions.id, id));
+    return session;
+  }
+  
+  async getOpenCashSession(): Promise<CashSession | undefined> {
+    const [session] = await db.select().from(cashSessions).where(eq(cashSessions.status, 'open'));
+    return session;
+  }
+  
+  async getCashSessions(limit: number): Promise<CashSession[]> {
+    return await db
+      .select()
+      .from(cashSessions)
+      .orderBy(desc(cashSessions.id))
+      .limit(limit);
+  }
+  
+  async openCashSession(insertSession: InsertCashSession): Promise<CashSession | undefined> {
+    // The partial unique index turns a second open session into a no-op
+    const [session] = await db
+      .insert(cashSessions)
+      .values(insertSession)
+      .onConflictDoNothing()
+      .returning();
+    return session;
+  }
+  
+  async closeCashSession(id: number, closing: CashSessionClosing): Promise<CashSession | undefined> {
+    const [session] = await db
+      .update(cashSessions)
+      .set({ ...closing, status: 'closed', closedAt: new Date() })
+      .where(and(eq(cashSessions.id, id), eq(cashSessions.status, 'open')))
+      .returning();
+    return session;
+  }
+  
+  async getCashSessionPayments(sessionId: number): Promise<OrderPayment[]> {
+    return await db
+      .select()
+      .from(orderPayments)
+      .where(eq(orderPayments.cashSessionId, sessionId))
+      .orderBy(orderPayments.id);
+  }
+  
+  async getCashMovements(sessionId: number): Promise<CashMovement[]> {
+    return await db
+      .select()
+      .from(cashMovements)
+      .where(eq(cashMovements.sessionId, sessionId))
+      .orderBy(cashMovements.id);
+  }
+  
+  async createCashMovement(insertMovement: InsertCashMovement, expense?: InsertExpense): Promise<CashMovement> {
+    return await db.transaction(async (tx) => {
+      let expenseId: number | null = null;
+      if (expense) {
+        const [created] = await tx.insert(expenses).values(expense).returning();
+        expenseId = created.id;
+      }
+      
+      const [movement] = await tx
+        .insert(cashMovements)
+        .values({ ...insertMovement, expenseId })
+        .returning();
+      return movement;
+    });
+  }
+  
+  async getOrderCashRefunds(orderId: number): Promise<number> {
+    const [{ total }] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${cashMovements.amount}), 0)`.mapWith(Number) })
+      .from(cashMovements)
+      .innerJoin(orderReversals, eq(cashMovements.reversalId, orderReversals.id))
+      .where(eq(orderReversals.orderId, orderId));
+    return roundPrice(total);
+  }
 
   // Dashboard Data
   async getDailySales(): Promise<{ date: string; total: number }[]> {
@@ -1020,22 +3619,39 @@ async deleteOrder(orderId: number): Promise<boolean> {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - 30);
     
-    const result = await db
+    const sales = await db
       .select({
         date: sql<string>`TO_CHAR(${orders.createdAt}, 'YYYY-MM-DD')`,
-        total: sql<number>`SUM(${orders.total})`
+        total: sql<number>`SUM(${orders.total})`.mapWith(Number)
       })
       .from(orders)
       .where(
         and(
           gt(orders.createdAt, startDate),
-          eq(orders.paymentStatus, 'paid')
+          eq(orders.paymentStatus, 'paid'),
+          notInArray(orders.status, UNSOLD_ORDER_STATUSES)
         )
       )
       .groupBy(sql`TO_CHAR(${orders.createdAt}, 'YYYY-MM-DD')`)
       .orderBy(sql`TO_CHAR(${orders.createdAt}, 'YYYY-MM-DD')`);
     
-    return result;
+    // Refunds come off the day they were given
+    const refunds = await db
+      .select({
+        date: sql<string>`TO_CHAR(${orderReversals.reviewedAt}, 'YYYY-MM-DD')`,
+        total: sql<number>`SUM(${orderReversals.amount})`.mapWith(Number)
+      })
+      .from(orderReversals)
+      .where(
+        and(
+          gt(orderReversals.reviewedAt, startDate),
+          eq(orderReversals.type, 'refund'),
+          eq(orderReversals.status, 'approved')
+        )
+      )
+      .groupBy(sql`TO_CHAR(${orderReversals.reviewedAt}, 'YYYY-MM-DD')`);
+    
+    return deductDailyRefunds(sales, refunds);
   }
   
   async getTodaySalesTotal(): Promise<number> {
@@ -1045,20 +3661,35 @@ async deleteOrder(orderId: number): Promise<boolean> {
     const todayEnd = new Date();
     todayEnd.setHours(23, 59, 59, 999);
     
-    const result = await db
+    const [sales] = await db
       .select({
-        total: sql<number>`COALESCE(SUM(${orders.total}), 0)`
+        total: sql<number>`COALESCE(SUM(${orders.total}), 0)`.mapWith(Number)
       })
       .from(orders)
       .where(
         and(
           gt(orders.createdAt, todayStart),
           lt(orders.createdAt, todayEnd),
-          eq(orders.paymentStatus, 'paid')
+          eq(orders.paymentStatus, 'paid'),
+          notInArray(orders.status, UNSOLD_ORDER_STATUSES)
+        )
+      );
+    
+    const [refunds] = await db
+      .select({
+        total: sql<number>`COALESCE(SUM(${orderReversals.amount}), 0)`.mapWith(Number)
+      })
+      .from(orderReversals)
+      .where(
+        and(
+          gt(orderReversals.reviewedAt, todayStart),
+          lt(orderReversals.reviewedAt, todayEnd),
+          eq(orderReversals.type, 'refund'),
+          eq(orderReversals.status, 'approved')
         )
       );
     
-    return result[0]?.total || 0;
+    return roundPrice((sales?.total || 0) - (refunds?.total || 0));
   }
   
   async getOrderCountsByStatus(): Promise<{ status: string; count: number }[]> {
@@ -1079,6 +3710,19 @@ async deleteOrder(orderId: number): Promise<boolean> {
       .limit(limit);
   }
   
+  async getOrdersDueBy(until: Date): Promise<Order[]> {
+    return await db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          lte(orders.dueAt, until),
+          inArray(orders.status, DUE_TRACKED_STATUSES)
+        )
+      )
+      .orderBy(asc(orders.dueAt));
+  }
+  
   async getRecentExpenses(limit: number): Promise<Expense[]> {
     return await db
       .select()
@@ -1086,6 +3730,292 @@ async deleteOrder(orderId: number): Promise<boolean> {
       .orderBy(desc(expenses.createdAt))
       .limit(limit);
   }
+
+  // Reports
+  async getTopServices(range: ReportRange): Promise<TopServiceReport[]> {
+    const sales = await db
+      .select({
+        serviceId: services.id,
+        name: services.name,
+        sales: sql<number>`COALESCE(SUM(${orderItems.amount}), 0)`.mapWith(Number),
+        // Each line's share of its order's takings without VAT, as getNetLineSales works it out
+        netSales: sql<number>`ROUND(COALESCE(SUM(
+          ${orderItems.amount} * (${orders.total} - COALESCE(${orders.vatAmount}, 0))
+          / NULLIF(${orders.total} + COALESCE(${orders.discount}, 0)
+            - CASE WHEN ${orders.vatInclusive} = false THEN COALESCE(${orders.vatAmount}, 0) ELSE 0 END, 0)
+        ), 0)::numeric, 2)`.mapWith(Number),
+        count: sql<number>`COUNT(DISTINCT ${orders.id})`.mapWith(Number),
+        quantity: sql<number>`COALESCE(SUM(${orderItems.quantity}), 0)`.mapWith(Number)
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(services, eq(orderItems.serviceId, services.id))
+      .where(
+        and(
+          gte(orders.createdAt, range.from),
+          lte(orders.createdAt, range.to),
+          eq(orders.paymentStatus, 'paid'),
+          notInArray(orders.status, UNSOLD_ORDER_STATUSES)
+        )
+      )
+      .groupBy(services.id, services.name)
+      .orderBy(desc(sql`SUM(${orderItems.amount})`));
+    
+    const refunds = await db
+      .select({
+        serviceId: services.id,
+        name: services.name,
+        amount: sql<number>`COALESCE(SUM(${orderReversalItems.amount}), 0)`.mapWith(Number),
+        netAmount: sql<number>`ROUND(COALESCE(SUM(
+          ${orderReversalItems.amount} * (${orders.total} - COALESCE(${orders.vatAmount}, 0)) / NULLIF(${orders.total}, 0)
+        ), 0)::numeric, 2)`.mapWith(Number),
+        quantity: sql<number>`COALESCE(SUM(${orderReversalItems.quantity}), 0)`.mapWith(Number)
+      })
+      .from(orderReversalItems)
+      .innerJoin(orderReversals, eq(orderReversalItems.reversalId, orderReversals.id))
+      .innerJoin(orderItems, eq(orderReversalItems.orderItemId, orderItems.id))
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(services, eq(orderItems.serviceId, services.id))
+      .where(
+        and(
+          gte(orderReversals.reviewedAt, range.from),
+          lte(orderReversals.reviewedAt, range.to),
+          eq(orderReversals.status, 'approved')
+        )
+      )
+      .groupBy(services.id, services.name);
+    
+    return deductServiceRefunds(sales, refunds);
+  }
+  
+  // What the stock used by each service's sold order lines cost, the same lines getTopServices counts
+  async getServiceCosts(range: ReportRange): Promise<ServiceCost[]> {
+    return await db
+      .select({
+        serviceId: orderItems.serviceId,
+        cost: sql<number>`ROUND(COALESCE(SUM(${orderItemMaterials.quantity} * ${orderItemMaterials.unitCost}), 0)::numeric, 2)`.mapWith(Number)
+      })
+      .from(orderItemMaterials)
+      .innerJoin(orderItems, eq(orderItemMaterials.orderItemId, orderItems.id))
+      .innerJoin(orders, eq(orderItemMaterials.orderId, orders.id))
+      .where(
+        and(
+          gte(orders.createdAt, range.from),
+          lte(orders.createdAt, range.to),
+          eq(orders.paymentStatus, 'paid'),
+          notInArray(orders.status, UNSOLD_ORDER_STATUSES),
+          isNull(orderItemMaterials.restoredAt)
+        )
+      )
+      .groupBy(orderItems.serviceId);
+  }
+  
+  async getInventoryUsage(range: ReportRange): Promise<InventoryUsageReport[]> {
+    const lines = await db
+      .select({
+        serviceType: services.type,
+        quantity: orderItems.quantity,
+        unitPrice: orderItems.unitPrice,
+        amount: orderItems.amount,
+        specifications: orderItems.specifications
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .innerJoin(services, eq(orderItems.serviceId, services.id))
+      .where(
+        and(
+          gte(orders.createdAt, range.from),
+          lte(orders.createdAt, range.to),
+          notInArray(orders.status, UNSOLD_ORDER_STATUSES)
+        )
+      );
+    
+    return estimateInventoryUsage(lines, await this.getAllInventory());
+  }
+  
+  async getExpensesByCategory(range: ReportRange): Promise<ExpenseCategoryReport[]> {
+    return await db
+      .select({
+        category: expenses.category,
+        amount: sql<number>`COALESCE(SUM(${expenses.amount}), 0)`.mapWith(Number)
+      })
+      .from(expenses)
+      .where(
+        and(
+          gte(expenses.createdAt, range.from),
+          lte(expenses.createdAt, range.to)
+        )
+      )
+      .groupBy(expenses.category)
+      .orderBy(desc(sql`SUM(${expenses.amount})`));
+  }
+  
+  async getReversalSummary(range: ReportRange): Promise<ReversalReport[]> {
+    return await db
+      .select({
+        type: orderReversals.type,
+        count: sql<number>`COUNT(*)`.mapWith(Number),
+        amount: sql<number>`COALESCE(SUM(${orderReversals.amount}), 0)`.mapWith(Number)
+      })
+      .from(orderReversals)
+      .where(
+        and(
+          gte(orderReversals.reviewedAt, range.from),
+          lte(orderReversals.reviewedAt, range.to),
+          eq(orderReversals.status, 'approved')
+        )
+      )
+      .groupBy(orderReversals.type);
+  }
+  
+  async getVatSummary(range: ReportRange): Promise<VatSummaryReport> {
+    const [sales] = await db
+      .select({
+        orders: sql<number>`COUNT(*)`.mapWith(Number),
+        vatableSales: sql<number>`COALESCE(SUM(${orders.vatableSales}), 0)`.mapWith(Number),
+        vatAmount: sql<number>`COALESCE(SUM(${orders.vatAmount}), 0)`.mapWith(Number),
+        exemptSales: sql<number>`COALESCE(SUM(${orders.exemptSales}), 0)`.mapWith(Number),
+        total: sql<number>`COALESCE(SUM(${orders.total}), 0)`.mapWith(Number)
+      })
+      .from(orders)
+      .where(
+        and(
+          gte(orders.createdAt, range.from),
+          lte(orders.createdAt, range.to),
+          eq(orders.paymentStatus, 'paid'),
+          notInArray(orders.status, UNSOLD_ORDER_STATUSES)
+        )
+      );
+    
+    // Refunds come off the range they were given in
+    const refunds = await db
+      .select({
+        amount: orderReversals.amount,
+        order: {
+          vatableSales: sql<number>`COALESCE(${orders.vatableSales}, 0)`.mapWith(Number),
+          vatAmount: sql<number>`COALESCE(${orders.vatAmount}, 0)`.mapWith(Number),
+          exemptSales: sql<number>`COALESCE(${orders.exemptSales}, 0)`.mapWith(Number),
+          total: orders.total
+        }
+      })
+      .from(orderReversals)
+      .innerJoin(orders, eq(orderReversals.orderId, orders.id))
+      .where(
+        and(
+          gte(orderReversals.reviewedAt, range.from),
+          lte(orderReversals.reviewedAt, range.to),
+          eq(orderReversals.type, 'refund'),
+          eq(orderReversals.status, 'approved')
+        )
+      );
+    
+    return deductVatRefunds(sales, refunds);
+  }
+  
+  // Audit Log
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await db
+      .insert(auditEvents)
+      .values(insertEvent)
+      .returning();
+    return event;
+  }
+  
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]> {
+    const conditions = [];
+    
+    if (filter.entityType) conditions.push(eq(auditEvents.entityType, filter.entityType));
+    if (filter.entityId) conditions.push(eq(auditEvents.entityId, filter.entityId));
+    if (filter.action) conditions.push(eq(auditEvents.action, filter.action));
+    if (filter.actorId !== undefined) conditions.push(eq(auditEvents.actorId, filter.actorId));
+    if (filter.from) conditions.push(gte(auditEvents.createdAt, filter.from));
+    if (filter.to) conditions.push(lte(auditEvents.createdAt, filter.to));
+    
+    return await db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(filter.limit);
+  }
+  
+  // Notification Outbox
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await db
+      .insert(notificationOutbox)
+      .values(insertNotification)
+      .returning();
+    return notification;
+  }
+  
+  async getDueNotifications(now: Date, limit: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notificationOutbox)
+      .where(
+        and(
+          eq(notificationOutbox.status, 'pending'),
+          lte(notificationOutbox.nextAttemptAt, now)
+        )
+      )
+      .orderBy(asc(notificationOutbox.nextAttemptAt))
+      .limit(limit);
+  }
+  
+  async getOrderNotifications(orderId: number): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notificationOutbox)
+      .where(eq(notificationOutbox.orderId, orderId))
+      .orderBy(asc(notificationOutbox.id));
+  }
+  
+  async markNotificationSent(id: number): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notificationOutbox)
+      .set({
+        status: 'sent',
+        attempts: sql`${notificationOutbox.attempts} + 1`,
+        lastError: null,
+        sentAt: new Date()
+      })
+      .where(eq(notificationOutbox.id, id))
+      .returning();
+    return notification;
+  }
+  
+  async markNotificationFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notificationOutbox)
+      .set({
+        status: nextAttemptAt ? 'pending' : 'failed',
+        attempts: sql`${notificationOutbox.attempts} + 1`,
+        lastError: error,
+        ...(nextAttemptAt ? { nextAttemptAt } : {})
+      })
+      .where(eq(notificationOutbox.id, id))
+      .returning();
+    return notification;
+  }
+  
+  // Settings
+  async getSetting(key: string): Promise<Setting | undefined> {
+    const [setting] = await db.select().from(settings).where(eq(settings.key, key));
+    return setting;
+  }
+  
+  async saveSetting(key: string, value: unknown, updatedBy: number | null): Promise<Setting> {
+    const updatedAt = new Date();
+    const [setting] = await db
+      .insert(settings)
+      .values({ key, value, updatedBy, updatedAt })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: { value, updatedBy, updatedAt }
+      })
+      .returning();
+    return setting;
+  }
 }
 
 // Use the database storage implementation
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { roundPrice } from "./pricing";
+
+// Philippine bills and coins, largest first, as counted at closing
+export const CASH_DENOMINATIONS = [1000, 500, 200, 100, 50, 20, 10, 5, 1, 0.25, 0.1, 0.05, 0.01] as const;
+
+export const CASH_MOVEMENT_TYPES = ["cash_in", "cash_out"] as const;
+
+export type CashMovementType = typeof CASH_MOVEMENT_TYPES[number];
+
+export const openCashSessionRequestSchema = z.object({
+  openingFloat: z.coerce.number().min(0, "Opening float cannot be negative"),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+export const cashMovementRequestSchema = z.object({
+  type: z.enum(CASH_MOVEMENT_TYPES),
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  reason: z.string().trim().min(1, "Reason is required").max(200),
+  // A paid-out for supplies and the like is also recorded as an expense in this category
+  expenseCategory: z.string().trim().min(1).optional().nullable(),
+}).refine(movement => movement.type === "cash_out" || !movement.expenseCategory, {
+  message: "Only cash taken out of the drawer can be recorded as an expense",
+  path: ["expenseCategory"],
+});
+
+export type CashMovementRequest = z.infer<typeof cashMovementRequestSchema>;
+
+// Number of each bill and coin in the drawer, keyed by face value
+export const denominationCountSchema = z.record(
+  z.string().refine(value => CASH_DENOMINATIONS.some(denomination => String(denomination) === value), {
+    message: "Unknown denomination",
+  }),
+  z.coerce.number().int("Count whole bills and coins").min(0, "Count cannot be negative")
+);
+
+export type DenominationCount = z.infer<typeof denominationCountSchema>;
+
+export const closeCashSessionRequestSchema = z.object({
+  denominations: denominationCountSchema,
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+/**
+ * Total cash represented by a denomination count
+ */
+export function countCash(denominations: DenominationCount): number {
+  return roundPrice(Object.entries(denominations)
+    .reduce((sum, [denomination, count]) => sum + Number(denomination) * count, 0));
+}
+
+/**
+ * Cash to hand back on approving a reversal. Refunds and cancellations
+ * return cash first, up to the cash paid on the order less any already
+ * returned. A voided sale drops out of its session's takings instead, so
+ * only cash taken in another session than `sessionId` leaves the drawer.
+ */
+export function getCashRefundAmount(
+  reversal: { type: string; amount: number },
+  payments: { method: string; amount: number; cashSessionId: number | null }[],
+  returned: number,
+  sessionId: number | undefined,
+): number {
+  const cash = payments.filter(payment => payment.method === "cash");
+  const sum = (amounts: number[]) => roundPrice(amounts.reduce((total, amount) => total + amount, 0));
+
+  return reversal.type === "void"
+    ? sum(cash.filter(payment => payment.cashSessionId !== sessionId).map(payment => payment.amount))
+    : roundPrice(Math.min(reversal.amount, Math.max(sum(cash.map(payment => payment.amount)) - returned, 0)));
+}
+
+// X is read mid-shift and can be taken any number of times; Z is taken once, at closing
+export type CashReadingType = "X" | "Z";
+
+/**
+ * What the drawer took during a session and how much cash it should hold
+ */
+export interface CashReading {
+  type: CashReadingType;
+  sessionId: number;
+  generatedAt: string;
+  openedAt: string | null;
+  openedByName: string;
+  closedAt: string | null;
+  closedByName: string | null;
+  openingFloat: number;
+  byMethod: { method: string; count: number; amount: number }[];
+  byCashier: { userId: number; name: string; count: number; cash: number; total: number }[];
+  totalPayments: number;
+  cashPayments: number;
+  cashIn: number;
+  cashOut: number; // Includes paid-outs and refunds
+  paidOuts: number; // Cash out recorded as expenses
+  refunds: number; // Cash handed back on approved reversals
+  movements: {
+    type: CashMovementType;
+    amount: number;
+    reason: string;
+    expenseId: number | null;
+    reversalId: number | null;
+    createdByName: string;
+    createdAt: string | null;
+  }[];
+  expectedCash: number;
+  countedCash: number | null;
+  variance: number | null; // Counted less expected; negative when the drawer is short
+  denominations: DenominationCount | null;
+}
@@ -0,0 +1,53 @@
+import type { DocumentAnalysis } from "./pricing";
+
+// Paper sizes we print on, in PDF points (1/72 inch), portrait
+export const PAPER_SIZES_PT: Record<string, [number, number]> = {
+  A4: [595, 842],
+  Letter: [612, 792],
+  Long: [612, 936], // 8.5 x 13 in
+  A5: [420, 595],
+};
+
+// How far a page may be from a paper size and still count as it
+const PAPER_SIZE_TOLERANCE_PT = 6;
+
+// One page of an analyzed document
+export interface PageAnalysis {
+  page: number;
+  width: number; // points
+  height: number; // points
+  paperSize: string | null;
+  color: boolean;
+}
+
+// The server's analysis of an uploaded file; it prices "Auto Detect" jobs
+export interface FileAnalysis extends DocumentAnalysis {
+  pages: PageAnalysis[];
+}
+
+/**
+ * Name the paper size a page matches in either orientation, if any
+ */
+export function detectPaperSize(width: number, height: number): string | null {
+  const [shortSide, longSide] = width < height ? [width, height] : [height, width];
+
+  for (const [name, [w, h]] of Object.entries(PAPER_SIZES_PT)) {
+    if (Math.abs(shortSide - w) <= PAPER_SIZE_TOLERANCE_PT && Math.abs(longSide - h) <= PAPER_SIZE_TOLERANCE_PT) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Summarise per-page results into the counts pricing works from
+ */
+export function summarizePages(pages: PageAnalysis[]): FileAnalysis {
+  const colorPages = pages.filter(page => page.color).length;
+  return {
+    pageCount: pages.length,
+    colorPages,
+    bwPages: pages.length - colorPages,
+    pages,
+  };
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { roundPrice } from "./pricing";
+
+export const INVENTORY_MOVEMENT_TYPES = ["receipt", "sale", "waste", "adjustment", "transfer"] as const;
+
+export type InventoryMovementType = typeof INVENTORY_MOVEMENT_TYPES[number];
+
+// Movements recorded by hand; sales are recorded by the orders that use the stock
+export const MANUAL_MOVEMENT_TYPES = ["receipt", "waste", "adjustment", "transfer"] as const;
+
+export const inventoryMovementRequestSchema = z.object({
+  type: z.enum(MANUAL_MOVEMENT_TYPES),
+  // Signed for adjustments; receipts, waste and transfers take the amount moved
+  quantity: z.coerce.number().refine(quantity => quantity !== 0, "Quantity cannot be zero"),
+  unitCost: z.coerce.number().min(0, "Unit cost cannot be negative").optional().nullable(),
+  toInventoryId: z.coerce.number().int().optional().nullable(),
+  notes: z.string().trim().max(500).optional().nullable(),
+}).superRefine((movement, ctx) => {
+  if (movement.type !== "adjustment" && movement.quantity < 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["quantity"], message: "Enter the amount moved as a positive number" });
+  }
+  if (movement.type === "transfer" && !movement.toInventoryId) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["toInventoryId"], message: "Choose the item to transfer to" });
+  }
+  if (movement.type !== "receipt" && movement.unitCost !== undefined && movement.unitCost !== null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["unitCost"], message: "Only receipts have a unit cost" });
+  }
+});
+
+export type InventoryMovementRequest = z.infer<typeof inventoryMovementRequestSchema>;
+
+/**
+ * The change a movement makes to the item's stock: receipts add to it,
+ * waste and transfers take from it and adjustments keep their own sign
+ */
+export function getStockChange(type: string, quantity: number): number {
+  switch (type) {
+    case "waste":
+    case "transfer":
+      return -Math.abs(quantity);
+    case "receipt":
+      return Math.abs(quantity);
+    default:
+      return quantity;
+  }
+}
+
+/**
+ * An item's weighted average cost once stock comes in at a known cost.
+ * Stock at or below zero has no cost to average with, so the new stock
+ * sets it outright.
+ */
+export function getAverageCost(
+  item: { currentStock: number; averageCost: number | null },
+  quantity: number,
+  unitCost: number,
+): number {
+  if (item.averageCost === null || item.currentStock <= 0) return unitCost;
+
+  const average = (item.currentStock * item.averageCost + quantity * unitCost) / (item.currentStock + quantity);
+  return Math.round(average * 10000) / 10000; // Four places keeps a per-sheet cost exact enough
+}
+
+// What the stock on hand is worth at its average cost; null when it has none
+export function getStockValue(item: { currentStock: number; averageCost: number | null }): number | null {
+  if (item.averageCost === null) return null;
+  return roundPrice(Math.max(item.currentStock, 0) * item.averageCost);
+}
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { isOrderClosed } from "./reversals";
+
+// Settings key the business details printed on invoices are stored under
+export const BUSINESS_SETTINGS_KEY = "business";
+
+export const businessSettingsSchema = z.object({
+  businessName: z.string().trim().min(1, "Business name is required").max(100).default("PrintSphere"),
+  tin: z.string().trim()
+    .regex(/^(\d{3}-\d{3}-\d{3}(-\d{3,5})?)?$/, "Enter the TIN as 000-000-000-000")
+    .default(""),
+  address: z.string().trim().max(300).default(""),
+  phone: z.string().trim().max(50).default(""),
+  email: z.string().trim().email("Invalid email").or(z.literal("")).default(""),
+});
+
+export type BusinessSettings = z.infer<typeof businessSettingsSchema>;
+
+export const DEFAULT_BUSINESS_SETTINGS: BusinessSettings = businessSettingsSchema.parse({});
+
+export const ORDER_DOCUMENT_TYPES = ["invoice", "official_receipt"] as const;
+
+export type OrderDocumentType = typeof ORDER_DOCUMENT_TYPES[number];
+
+// Each type is numbered in its own series, independent of order numbers
+export const ORDER_DOCUMENT_PREFIXES: Record<OrderDocumentType, string> = {
+  invoice: "INV",
+  official_receipt: "OR",
+};
+
+export const ORDER_DOCUMENT_TITLES: Record<OrderDocumentType, string> = {
+  invoice: "Sales Invoice",
+  official_receipt: "Official Receipt",
+};
+
+export const orderDocumentRequestSchema = z.object({
+  type: z.enum(ORDER_DOCUMENT_TYPES),
+});
+
+/**
+ * Printed number of a document, e.g. INV-000042
+ */
+export function formatDocumentNumber(type: OrderDocumentType, number: number): string {
+  return `${ORDER_DOCUMENT_PREFIXES[type]}-${String(number).padStart(6, "0")}`;
+}
+
+/**
+ * What a document shows, frozen when it is issued so reprints match the
+ * original even after the order, customer or business details change
+ */
+export interface OrderDocumentSnapshot {
+  business: BusinessSettings;
+  customer: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+  };
+  order: {
+    orderNumber: string;
+    createdAt: string | null;
+    subtotal: number;
+    discount: number;
+    tax: number; // VAT amount
+    // VAT split; absent on documents issued before VAT was tracked
+    vatableSales?: number;
+    exemptSales?: number;
+    vatInclusive?: boolean;
+    total: number;
+    amountPaid: number;
+    balanceDue: number;
+  };
+  lines: {
+    description: string;
+    details: string | null;
+    quantity: number;
+    unitPrice: number;
+    amount: number;
+  }[];
+  payments: {
+    method: string;
+    referenceNumber: string | null;
+    amount: number;
+    receivedAt: string | null;
+  }[];
+}
+
+/**
+ * Reasons a document cannot be issued for an order. An official receipt
+ * acknowledges payment, so it needs the order to be paid in full.
+ */
+export function getDocumentIssueErrors(
+  order: { status: string; paymentStatus?: string | null },
+  type: OrderDocumentType
+): string[] {
+  const errors: string[] = [];
+
+  if (isOrderClosed(order)) {
+    errors.push(`Order is ${order.status}`);
+  }
+  if (type === "official_receipt" && order.paymentStatus !== "paid") {
+    errors.push("An official receipt can only be issued once the order is paid in full");
+  }
+
+  return errors;
+}
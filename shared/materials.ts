@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+// What a material's quantity is counted per: each unit ordered (copy, piece
+// or tarp), each printed page, each colour or black page, or each square foot
+export const MATERIAL_BASES = ["unit", "page", "color_page", "bw_page", "sq_ft"] as const;
+
+export type MaterialBasis = typeof MATERIAL_BASES[number];
+
+// Bases that only a service of the given type can measure
+const TYPED_BASES: Partial<Record<MaterialBasis, string>> = {
+  page: "document",
+  color_page: "document",
+  bw_page: "document",
+  sq_ft: "tarpaulin",
+};
+
+export const serviceMaterialRequestSchema = z.object({
+  inventoryId: z.coerce.number().int(),
+  quantity: z.coerce.number().positive("Quantity must be greater than zero"),
+  basis: z.enum(MATERIAL_BASES).default("unit"),
+  conditions: z.record(z.string().trim().min(1), z.string().trim().min(1)).optional().nullable(),
+});
+
+// A service's whole bill of materials, saved at once
+export const serviceMaterialsRequestSchema = z.object({
+  materials: z.array(serviceMaterialRequestSchema),
+});
+
+export type ServiceMaterialRequest = z.infer<typeof serviceMaterialRequestSchema>;
+
+// A bill of materials line as needed to work out usage
+export interface MaterialRule {
+  inventoryId: number;
+  quantity: number;
+  basis: string;
+  conditions?: unknown;
+}
+
+// An order line as needed to work out the materials it uses
+export interface MaterialLine {
+  quantity: number;
+  specifications?: Record<string, any> | null;
+}
+
+export interface MaterialUsage {
+  inventoryId: number;
+  quantity: number;
+}
+
+/**
+ * Round a stock quantity, keeping enough places for per-page ink use
+ */
+export function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 10000) / 10000;
+}
+
+/**
+ * Check a bill of materials line can be measured for a service of this type
+ */
+export function getMaterialBasisErrors(serviceType: string, basis: string): string[] {
+  const requiredType = TYPED_BASES[basis as MaterialBasis];
+  if (requiredType && requiredType !== serviceType) {
+    return [`Only ${requiredType} services can use materials per ${basis.replace("_", " ")}`];
+  }
+  return [];
+}
+
+function matchesConditions(conditions: unknown, specs: Record<string, any>): boolean {
+  if (!conditions || typeof conditions !== "object") return true;
+  return Object.entries(conditions as Record<string, string>)
+    .every(([key, value]) => String(specs[key] ?? "") === value);
+}
+
+// Printed pages per copy of a document line, split by colour
+function countPages(specs: Record<string, any>): { color: number; bw: number } {
+  const analysis = specs.documentAnalysis;
+  const pages = Number(analysis?.pageCount) || 1;
+
+  if (specs.colorMode === "Color") return { color: pages, bw: 0 };
+  if (specs.colorMode === "Black & White") return { color: 0, bw: pages };
+
+  // Auto Detect counts each page by its own colour, and in colour until analyzed
+  if (analysis) {
+    const color = Number(analysis.colorPages) || 0;
+    return { color, bw: Math.max(pages - color, 0) };
+  }
+  return { color: pages, bw: 0 };
+}
+
+function measure(line: MaterialLine, basis: string): number {
+  const specs = line.specifications || {};
+
+  switch (basis) {
+    case "page": {
+      const pages = countPages(specs);
+      return (pages.color + pages.bw) * line.quantity;
+    }
+    case "color_page":
+      return countPages(specs).color * line.quantity;
+    case "bw_page":
+      return countPages(specs).bw * line.quantity;
+    case "sq_ft":
+      return (Number(specs.width) || 0) * (Number(specs.height) || 0) * line.quantity;
+    default:
+      return line.quantity;
+  }
+}
+
+/**
+ * Work out the stock an order line uses from its service's bill of
+ * materials. Lines limited to specification options (e.g. glossy A4 paper)
+ * only count when the order line has every one of them.
+ */
+export function calculateMaterialUsage(line: MaterialLine, rules: MaterialRule[]): MaterialUsage[] {
+  const usage = new Map<number, number>();
+  const specs = line.specifications || {};
+
+  for (const rule of rules) {
+    if (!matchesConditions(rule.conditions, specs)) continue;
+
+    const quantity = rule.quantity * measure(line, rule.basis);
+    if (quantity > 0) {
+      usage.set(rule.inventoryId, (usage.get(rule.inventoryId) || 0) + quantity);
+    }
+  }
+
+  return Array.from(usage.entries())
+    .map(([inventoryId, quantity]) => ({ inventoryId, quantity: roundQuantity(quantity) }));
+}
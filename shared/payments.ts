@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { roundPrice, PRICE_TOLERANCE } from "./pricing";
+
+export const PAYMENT_METHOD_VALUES = ["cash", "gcash", "card"] as const;
+
+export type PaymentStatus = "unpaid" | "partial" | "paid";
+
+export const orderPaymentRequestSchema = z.object({
+  method: z.enum(PAYMENT_METHOD_VALUES),
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  referenceNumber: z.string().trim().max(100).optional().nullable(),
+}).refine(payment => payment.method === "cash" || !!payment.referenceNumber, {
+  message: "A reference number is required for GCash and card payments",
+  path: ["referenceNumber"],
+});
+
+export type OrderPaymentRequest = z.infer<typeof orderPaymentRequestSchema>;
+
+// The tenders of a single checkout, e.g. part cash and part GCash
+export const orderTendersSchema = z.array(orderPaymentRequestSchema).min(1, "Add at least one tender");
+
+/**
+ * Payment status follows from what has been collected against the total
+ */
+export function derivePaymentStatus(total: number, amountPaid: number): PaymentStatus {
+  if (amountPaid <= 0) return "unpaid";
+  return amountPaid >= total - PRICE_TOLERANCE ? "paid" : "partial";
+}
+
+/**
+ * Amount still to be collected on an order
+ */
+export function getBalanceDue(order: { total: number; amountPaid?: number | null }): number {
+  return Math.max(roundPrice(order.total - (order.amountPaid || 0)), 0);
+}
+
+/**
+ * Change owed on a checkout. Card and GCash tenders are charged exactly, so
+ * change only ever comes out of the cash handed over.
+ */
+export function calculateChange(tenders: { method: string; amount: number }[], cashReceived: number): number {
+  const cashDue = tenders
+    .filter(tender => tender.method === "cash")
+    .reduce((sum, tender) => sum + tender.amount, 0);
+  return Math.max(roundPrice(cashReceived - cashDue), 0);
+}
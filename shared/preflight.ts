@@ -0,0 +1,107 @@
+// Lowest resolution, in dots per inch at print size, artwork should have
+// for large format; tarpaulins are viewed from a distance so this is low
+export const DEFAULT_MIN_PRINT_DPI = 72;
+
+// How far the artwork's proportions may drift from the ordered size
+const ASPECT_RATIO_TOLERANCE = 0.02; // within this it prints as supplied
+const ASPECT_RATIO_LIMIT = 0.1; // beyond this it has to be redone
+
+export type PreflightStatus = "pass" | "warn" | "fail";
+
+// What the server measured on the first page of an artwork file
+export interface ArtworkInfo {
+  pageCount: number;
+  width: number; // points
+  height: number; // points
+  // Lowest resolution among the raster images on the page, in pixels per
+  // inch at the artwork's own size; null when the page is vector only
+  imagePpi: number | null;
+}
+
+export interface PreflightCheck {
+  name: string;
+  status: PreflightStatus;
+  message: string;
+}
+
+export interface PreflightReport {
+  status: PreflightStatus;
+  effectiveDpi: number | null;
+  checks: PreflightCheck[];
+}
+
+const STATUS_RANK: Record<PreflightStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+/**
+ * Relative difference between two aspect ratios, e.g. 0.05 for 5%
+ */
+function aspectRatioDifference(a: number, b: number): number {
+  return Math.abs(a - b) / Math.min(a, b);
+}
+
+/**
+ * Check artwork against the size it was ordered at (in feet): whether its
+ * proportions match, and whether its images hold up once enlarged
+ */
+export function runPreflight(
+  artwork: ArtworkInfo,
+  printWidthFt: number,
+  printHeightFt: number,
+  minDpi: number = DEFAULT_MIN_PRINT_DPI
+): PreflightReport {
+  const checks: PreflightCheck[] = [];
+  const artworkRatio = artwork.width / artwork.height;
+  const printRatio = printWidthFt / printHeightFt;
+  const difference = aspectRatioDifference(artworkRatio, printRatio);
+
+  if (difference <= ASPECT_RATIO_TOLERANCE) {
+    checks.push({ name: "Aspect ratio", status: "pass", message: "Artwork matches the ordered proportions" });
+  } else if (aspectRatioDifference(artworkRatio, 1 / printRatio) <= ASPECT_RATIO_TOLERANCE) {
+    checks.push({
+      name: "Aspect ratio",
+      status: "warn",
+      message: `Artwork is ${artworkRatio > 1 ? "landscape" : "portrait"}; it will be rotated to fit ${printWidthFt} × ${printHeightFt} ft`,
+    });
+  } else {
+    checks.push({
+      name: "Aspect ratio",
+      status: difference <= ASPECT_RATIO_LIMIT ? "warn" : "fail",
+      message: `Artwork proportions are ${Math.round(difference * 100)}% off ${printWidthFt} × ${printHeightFt} ft and will be stretched or cropped`,
+    });
+  }
+
+  // Scale from the artwork's own size to the printed size; with the ratio
+  // checked above, the larger of the two sides decides how much detail is lost
+  const scale = Math.max(
+    (printWidthFt * 12) / (artwork.width / 72),
+    (printHeightFt * 12) / (artwork.height / 72)
+  );
+  const effectiveDpi = artwork.imagePpi === null ? null : Math.round(artwork.imagePpi / scale);
+
+  if (effectiveDpi === null) {
+    checks.push({ name: "Resolution", status: "pass", message: "Vector artwork prints sharp at any size" });
+  } else if (effectiveDpi >= minDpi) {
+    checks.push({ name: "Resolution", status: "pass", message: `${effectiveDpi} dpi at print size` });
+  } else {
+    checks.push({
+      name: "Resolution",
+      status: "warn",
+      message: `${effectiveDpi} dpi at print size, below the ${minDpi} dpi minimum; the print will look blurry or pixelated`,
+    });
+  }
+
+  if (artwork.pageCount > 1) {
+    checks.push({
+      name: "Pages",
+      status: "warn",
+      message: `File has ${artwork.pageCount} pages; only the first page is printed`,
+    });
+  }
+
+  const status = checks.reduce<PreflightStatus>(
+    (worst, check) => (STATUS_RANK[check.status] > STATUS_RANK[worst] ? check.status : worst),
+    "pass"
+  );
+
+  return { status, effectiveDpi, checks };
+}
@@ -0,0 +1,463 @@
+import { z } from "zod";
+
+export interface DocumentPrintingParams {
+  paperSize: string;
+  paperType: string;
+  copies: number;
+  colorMode: string;
+}
+
+export interface TarpaulinPrintingParams {
+  width: number;
+  height: number;
+  eyelets: number;
+  rope: boolean;
+  stand: boolean;
+}
+
+export interface LaminationParams {
+  size: string;
+  quantity: number;
+}
+
+export interface DocumentAnalysis {
+  pageCount: number;
+  colorPages: number;
+  bwPages: number;
+}
+
+export interface PriceCalculation {
+  unitPrice: number;
+  total: number;
+  breakdown: Record<string, any>;
+}
+
+// The parts of a service that determine its price
+export interface PricedService {
+  type: string;
+  basePrice: number;
+  pricingRules?: unknown;
+}
+
+// Largest difference between a submitted and a computed amount we accept
+export const PRICE_TOLERANCE = 0.01;
+
+const PAPER_SIZES = ["A4", "Letter", "Long", "A5"] as const;
+const COLOR_MODES = ["Black & White", "Color", "Auto Detect"] as const;
+
+type PaperType = "Standard" | "Glossy" | "Matte" | "High Quality";
+type LaminationSize = "ID Size" | "Big ID" | "A4" | "Long" | "A5";
+
+const rate = z.coerce.number().min(0, "Rate cannot be negative");
+const rateTable = z.record(z.string(), rate);
+
+// Per-page rates plus a per-page surcharge for each paper type
+export const documentPricingRulesSchema = z.object({
+  colorPageRate: rate,
+  blackPageRate: rate,
+  paperTypes: rateTable,
+  // Legacy multipliers, kept on rule sets saved before per-page rates
+  paperSizes: rateTable.optional(),
+  colorModes: rateTable.optional(),
+  basePrice: rate.optional(),
+});
+
+// Price per square foot plus fixed add-on prices
+export const tarpaulinPricingRulesSchema = z.object({
+  basePrice: rate,
+  eyelets: rate,
+  rope: rate,
+  stand: rate,
+});
+
+// Price per piece scaled by a multiplier for each size
+export const laminationPricingRulesSchema = z.object({
+  basePrice: rate,
+  sizes: rateTable,
+});
+
+/**
+ * Validates a service's pricing rules against the shape its type expects.
+ * Standard services are priced by base price alone and store no rules.
+ */
+export const servicePricingSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("document"), pricingRules: documentPricingRulesSchema }),
+  z.object({ type: z.literal("tarpaulin"), pricingRules: tarpaulinPricingRulesSchema }),
+  z.object({ type: z.literal("lamination"), pricingRules: laminationPricingRulesSchema }),
+  z.object({ type: z.literal("standard"), pricingRules: z.any().transform(() => null) }),
+]);
+
+export type DocumentPricingRules = z.infer<typeof documentPricingRulesSchema>;
+export type TarpaulinPricingRules = z.infer<typeof tarpaulinPricingRulesSchema>;
+export type LaminationPricingRules = z.infer<typeof laminationPricingRulesSchema>;
+export type ServicePricing = z.infer<typeof servicePricingSchema>;
+
+// Default pricing rules in case we can't get them from the server
+export const defaultPricingRules: {
+  document: DocumentPricingRules;
+  tarpaulin: TarpaulinPricingRules;
+  lamination: LaminationPricingRules;
+} = {
+  document: {
+    // Base rates for each page type (in PHP Peso)
+    colorPageRate: 2.0, // Base rate for colored page (₱14.00)
+    blackPageRate: 1.0, // Base rate for black page (₱7.00)
+
+    // Paper type adds an additional cost per page
+    paperTypes: {
+      Standard: 0.0, // No additional cost
+      Glossy: 1.0, // ₱1 extra per page
+      Matte: 1.5, // ₱1.50 extra per page
+      "High Quality": 2.0, // ₱2 extra per page
+    },
+
+    // These are kept for backwards compatibility
+    paperSizes: {
+      A4: 1.0,
+      Letter: 1.05,
+      Long: 1.2,
+      A5: 0.7,
+    },
+    colorModes: {
+      "Black & White": 1.0,
+      Color: 2.0,
+      "Auto Detect": 1.5,
+    },
+    basePrice: 8, // Legacy base price per page
+  },
+  tarpaulin: {
+    basePrice: 25, // Base price per sq.ft
+    eyelets: 10, // Price per eyelet
+    rope: 50, // Price for rope
+    stand: 200, // Price for stand
+  },
+  lamination: {
+    sizes: {
+      "ID Size": 1.0,
+      "Big ID": 1.5,
+      A4: 2.5,
+      Long: 2.0,
+      A5: 1.8,
+    },
+    basePrice: 25, // Base price per piece
+  },
+};
+
+const measure = z.coerce.number().min(0, "Cannot be negative");
+
+// An option that must be one of the entries in a rate table
+function rateTableKey(table: Record<string, number>) {
+  return z.string().refine(
+    value => Object.prototype.hasOwnProperty.call(table, value),
+    value => ({ message: `Unknown option "${value}"` }),
+  );
+}
+
+/**
+ * The specifications an order line of this service is priced from, with
+ * options limited to the ones its rate card prices. Other details the POS
+ * keeps on a line, such as the file and notes, pass through unchanged.
+ */
+export function serviceSpecificationsSchema(service: PricedService) {
+  switch (service.type) {
+    case "document":
+      return z.object({
+        paperSize: z.enum(PAPER_SIZES),
+        paperType: rateTableKey(resolvePricingRules("document", service).paperTypes),
+        colorMode: z.enum(COLOR_MODES),
+        // Only the page count is taken from the client, for files the server cannot analyze
+        documentAnalysis: z.object({
+          pageCount: z.coerce.number().int("Must be a whole number").min(1, "Must be at least 1"),
+          // Set by staff who counted the pages of a file the server cannot analyze
+          pageCountConfirmed: z.boolean().optional(),
+        }).passthrough().optional(),
+      }).passthrough();
+    case "tarpaulin":
+      return z.object({
+        width: measure,
+        height: measure,
+        eyelets: measure.int("Must be a whole number"),
+        rope: z.boolean().optional(),
+        stand: z.boolean().optional(),
+      }).passthrough();
+    case "lamination":
+      return z.object({
+        size: rateTableKey(resolvePricingRules("lamination", service).sizes),
+      }).passthrough();
+    default:
+      return z.record(z.string(), z.any()).nullish();
+  }
+}
+
+/**
+ * Calculate price for document printing
+ */
+export function calculateDocumentPrintingPrice(
+  params: DocumentPrintingParams,
+  rules: DocumentPricingRules = defaultPricingRules.document,
+  documentAnalysis?: DocumentAnalysis,
+): PriceCalculation {
+  // Handle null or undefined values safely
+  if (!params) {
+    return { unitPrice: 0, total: 0, breakdown: {} };
+  }
+
+  const { paperSize, paperType, copies, colorMode } = params;
+
+  // Make sure copies is a number
+  const copiesCount = copies && !isNaN(Number(copies)) ? Number(copies) : 1;
+
+  // Get paper type additional cost (defaults to 0 if not found)
+  const paperTypeRate =
+    paperType && rules.paperTypes[paperType as PaperType] !== undefined
+      ? rules.paperTypes[paperType as PaperType]
+      : 0.0;
+
+  // If auto detect mode is selected and we have document analysis
+  if (colorMode === "Auto Detect" && documentAnalysis) {
+    // Get the number of color and black & white pages
+    const colorPages = documentAnalysis.colorPages || 0;
+    const bwPages = documentAnalysis.bwPages || 0;
+    const totalPages = colorPages + bwPages;
+
+    // Calculate cost for each page type (base rate + paper type surcharge)
+    const colorPageRate = rules.colorPageRate + paperTypeRate;
+    const blackPageRate = rules.blackPageRate + paperTypeRate;
+
+    // Calculate total cost for each page type
+    const colorPagesTotal = colorPages * colorPageRate;
+    const bwPagesTotal = bwPages * blackPageRate;
+
+    // Calculate total for one copy
+    const totalPerCopy = colorPagesTotal + bwPagesTotal;
+
+    // Final total based on number of copies
+    const total = totalPerCopy * copiesCount;
+
+    // Calculate average unit price per page
+    const unitPrice = totalPages > 0 ? totalPerCopy / totalPages : 0;
+
+    return {
+      unitPrice,
+      total,
+      breakdown: {
+        colorPages,
+        bwPages,
+        totalPages,
+        colorPageRate,
+        blackPageRate,
+        colorPagesTotal,
+        bwPagesTotal,
+        totalPerCopy,
+        copies: copiesCount,
+      },
+    };
+  }
+  // For Color or Black & White modes without document analysis
+  else {
+    // Determine the base rate based on the selected color mode
+    let baseRate = 0;
+    if (colorMode === "Color") {
+      baseRate = rules.colorPageRate;
+    } else if (colorMode === "Black & White") {
+      baseRate = rules.blackPageRate;
+    } else {
+      // Fallback for Auto Detect without document analysis
+      baseRate = (rules.colorPageRate + rules.blackPageRate) / 2;
+    }
+
+    // Add paper type surcharge
+    const pageRate = baseRate + paperTypeRate;
+
+    // Use the analyzed page count when we have one, otherwise assume 1 page
+    const pageCount = documentAnalysis?.pageCount || 1;
+    const totalPerCopy = pageRate * pageCount;
+    const total = totalPerCopy * copiesCount;
+
+    return {
+      unitPrice: pageRate,
+      total,
+      breakdown: {
+        baseRate,
+        paperTypeRate,
+        pageRate,
+        pageCount,
+        copies: copiesCount,
+      },
+    };
+  }
+}
+
+/**
+ * Calculate price for tarpaulin printing
+ */
+export function calculateTarpaulinPrintingPrice(
+  params: TarpaulinPrintingParams,
+  rules: TarpaulinPricingRules = defaultPricingRules.tarpaulin,
+): PriceCalculation {
+  // Handle null or undefined values safely
+  if (!params) {
+    return { unitPrice: 0, total: 0, breakdown: {} };
+  }
+
+  const { width, height, eyelets, rope, stand } = params;
+
+  // Calculate area in square feet with safety checks
+  const safeWidth = width && !isNaN(Number(width)) ? Number(width) : 0;
+  const safeHeight = height && !isNaN(Number(height)) ? Number(height) : 0;
+  const area = safeWidth * safeHeight;
+
+  // Calculate base price for tarpaulin
+  const baseCost = area * rules.basePrice;
+
+  // Calculate add-ons with safety checks
+  const safeEyelets = eyelets && !isNaN(Number(eyelets)) ? Number(eyelets) : 0;
+  const eyeletCost = safeEyelets * rules.eyelets;
+  const ropeCost = rope ? rules.rope : 0;
+  const standCost = stand ? rules.stand : 0;
+
+  const total = baseCost + eyeletCost + ropeCost + standCost;
+
+  return {
+    unitPrice: baseCost, // Unit price is just the base tarp price without add-ons
+    total,
+    breakdown: {
+      dimensions: `${safeWidth} × ${safeHeight} ft`,
+      area,
+      baseCost,
+      eyeletCost,
+      eyelets: safeEyelets,
+      ropeCost,
+      standCost,
+    },
+  };
+}
+
+/**
+ * Calculate price for lamination
+ */
+export function calculateLaminationPrice(
+  params: LaminationParams,
+  rules: LaminationPricingRules = defaultPricingRules.lamination,
+): PriceCalculation {
+  // Handle null or undefined values safely
+  if (!params) {
+    return { unitPrice: 0, total: 0, breakdown: {} };
+  }
+
+  const { size, quantity } = params;
+
+  // Safely get size multiplier with fallback
+  const sizeMultiplier =
+    size && rules.sizes[size as LaminationSize] !== undefined
+      ? rules.sizes[size as LaminationSize]
+      : 1.0;
+
+  // Make sure quantity is a number
+  const safeQuantity =
+    quantity && !isNaN(Number(quantity)) ? Number(quantity) : 1;
+
+  const unitPrice = rules.basePrice * sizeMultiplier;
+  const total = unitPrice * safeQuantity;
+
+  return {
+    unitPrice,
+    total,
+    breakdown: {
+      basePrice: rules.basePrice,
+      sizeMultiplier,
+      quantity: safeQuantity,
+    },
+  };
+}
+
+type PricingRuleSets = typeof defaultPricingRules;
+
+/**
+ * Merge a service's stored pricing rules over the defaults for its type.
+ * Tarpaulin and lamination rules fall back to the service's base price.
+ */
+export function resolvePricingRules<T extends keyof PricingRuleSets>(
+  type: T,
+  service: Omit<PricedService, "type">,
+): PricingRuleSets[T] {
+  const defaults = defaultPricingRules[type];
+  const stored = (service.pricingRules || {}) as Record<string, any>;
+  const resolved: Record<string, any> = { ...defaults };
+
+  if (type !== "document") {
+    resolved.basePrice = service.basePrice;
+  }
+
+  for (const [key, value] of Object.entries(stored)) {
+    const fallback = (defaults as Record<string, any>)[key];
+    // Merge nested rate tables so a partial table keeps the default entries
+    resolved[key] =
+      fallback && typeof fallback === "object" && value && typeof value === "object"
+        ? { ...fallback, ...value }
+        : value;
+  }
+
+  return resolved as PricingRuleSets[T];
+}
+
+/**
+ * Calculate the price of an order line from its service, quantity and
+ * specifications. This is the single source of truth for both the POS and
+ * the server, which recomputes every submitted order item with it.
+ */
+export function calculateServicePrice(
+  service: PricedService,
+  quantity: number,
+  specifications?: Record<string, any> | null,
+): PriceCalculation {
+  const specs = specifications || {};
+
+  switch (service.type) {
+    case "document":
+      return calculateDocumentPrintingPrice(
+        {
+          paperSize: specs.paperSize,
+          paperType: specs.paperType,
+          colorMode: specs.colorMode,
+          copies: quantity,
+        },
+        resolvePricingRules("document", service),
+        specs.documentAnalysis,
+      );
+    case "tarpaulin": {
+      const calculation = calculateTarpaulinPrintingPrice(
+        {
+          width: specs.width,
+          height: specs.height,
+          eyelets: specs.eyelets,
+          rope: !!specs.rope,
+          stand: !!specs.stand,
+        },
+        resolvePricingRules("tarpaulin", service),
+      );
+      return { ...calculation, total: calculation.total * quantity };
+    }
+    case "lamination":
+      return calculateLaminationPrice(
+        { size: specs.size, quantity },
+        resolvePricingRules("lamination", service),
+      );
+    default:
+      return {
+        unitPrice: service.basePrice,
+        total: service.basePrice * quantity,
+        breakdown: {
+          basePrice: service.basePrice,
+          quantity,
+        },
+      };
+  }
+}
+
+/**
+ * Round an amount to centavos
+ */
+export function roundPrice(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
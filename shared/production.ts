@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+// Workflow stages an order item moves through on the production board
+export const PRODUCTION_STAGES = ["queued", "printing", "finishing", "qc", "done"] as const;
+
+export type ProductionStage = typeof PRODUCTION_STAGES[number];
+
+// Order statuses that follow from the items' stages; "completed" (picked up)
+// and the reversal statuses are still set on the order itself
+export const PRODUCTION_ORDER_STATUSES = ["pending", "in_progress", "ready"];
+
+// Order item column recording when the item entered each stage; queued
+// items are dated by their order
+export const STAGE_TIMESTAMP_FIELDS = {
+  printing: "printingAt",
+  finishing: "finishingAt",
+  qc: "qcAt",
+  done: "doneAt",
+} as const;
+
+type StageTimestampField = typeof STAGE_TIMESTAMP_FIELDS[keyof typeof STAGE_TIMESTAMP_FIELDS];
+
+export const productionStageRequestSchema = z.object({
+  stage: z.enum(PRODUCTION_STAGES),
+});
+
+export const productionAssignmentRequestSchema = z.object({
+  assignedTo: z.number().int().positive().nullable(),
+});
+
+/**
+ * Timestamp columns to set when an item moves to a stage: the stage it
+ * enters is stamped and any later stages are cleared, so an item sent back
+ * from QC shows the rework rather than the first pass
+ */
+export function stageTimestampChanges(stage: ProductionStage, at: Date): Partial<Record<StageTimestampField, Date | null>> {
+  const changes: Partial<Record<StageTimestampField, Date | null>> = {};
+  const entered = PRODUCTION_STAGES.indexOf(stage);
+
+  PRODUCTION_STAGES.forEach((each, index) => {
+    if (each === "queued" || index < entered) return;
+    changes[STAGE_TIMESTAMP_FIELDS[each]] = index === entered ? at : null;
+  });
+
+  return changes;
+}
+
+/**
+ * An order is pending until work starts on any item, and ready once every
+ * item is done
+ */
+export function deriveOrderStatus(stages: string[]): "pending" | "in_progress" | "ready" {
+  if (stages.every(stage => stage === "queued")) return "pending";
+  if (stages.every(stage => stage === "done")) return "ready";
+  return "in_progress";
+}
+
+/**
+ * Whether an order's status is still driven by its items
+ */
+export function isInProduction(order: { status: string }): boolean {
+  return PRODUCTION_ORDER_STATUSES.includes(order.status);
+}
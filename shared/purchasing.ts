@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { roundPrice } from "./pricing";
+import { roundQuantity } from "./materials";
+
+export const PURCHASE_ORDER_STATUSES = ["draft", "sent", "partially_received", "received"] as const;
+
+export type PurchaseOrderStatus = typeof PURCHASE_ORDER_STATUSES[number];
+
+// Orders whose stock has not all come in yet
+export const OPEN_PURCHASE_ORDER_STATUSES = ["draft", "sent", "partially_received"];
+
+// Orders stock can be received against
+export const RECEIVABLE_PURCHASE_ORDER_STATUSES = ["sent", "partially_received"];
+
+export const purchaseOrderRequestSchema = z.object({
+  supplierId: z.coerce.number().int(),
+  notes: z.string().trim().max(500).optional().nullable(),
+  items: z.array(z.object({
+    inventoryId: z.coerce.number().int(),
+    quantity: z.coerce.number().positive("Quantity must be greater than zero"),
+    unitCost: z.coerce.number().min(0, "Unit cost cannot be negative"),
+  })).min(1, "Add at least one item to the purchase order"),
+}).refine(order => new Set(order.items.map(item => item.inventoryId)).size === order.items.length, {
+  message: "Each inventory item can only be on the purchase order once",
+  path: ["items"],
+});
+
+export type PurchaseOrderRequest = z.infer<typeof purchaseOrderRequestSchema>;
+
+export const receivePurchaseOrderRequestSchema = z.object({
+  lines: z.array(z.object({
+    itemId: z.coerce.number().int(),
+    quantity: z.coerce.number().positive("Quantity must be greater than zero"),
+  })).min(1, "Enter the quantity received of at least one item"),
+  // Records what the delivery cost as an expense in this category
+  expenseCategory: z.string().trim().min(1).optional().nullable(),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+export type ReceivePurchaseOrderRequest = z.infer<typeof receivePurchaseOrderRequestSchema>;
+
+// Numbered from the same locked counter as invoices, in a series of their own
+export const PURCHASE_ORDER_SERIES = "purchase_order";
+
+/**
+ * Printed number of a purchase order, e.g. PO-000042
+ */
+export function formatPurchaseOrderNumber(number: number): string {
+  return `PO-${String(number).padStart(6, "0")}`;
+}
+
+/**
+ * How much of an item to order to bring its stock back up to its
+ * threshold plus its reorder quantity, in whole stock units
+ */
+export function getReorderQuantity(item: { currentStock: number; lowStockThreshold: number; reorderQuantity: number }): number {
+  return Math.max(0, Math.ceil(item.lowStockThreshold + item.reorderQuantity - item.currentStock));
+}
+
+/**
+ * Status of a sent order from how much of each line has come in
+ */
+export function getReceivedStatus(items: { quantity: number; receivedQuantity: number }[]): PurchaseOrderStatus {
+  if (items.every(item => roundQuantity(item.receivedQuantity) >= roundQuantity(item.quantity))) {
+    return "received";
+  }
+  return items.some(item => item.receivedQuantity > 0) ? "partially_received" : "sent";
+}
+
+export function getPurchaseOrderTotal(items: { quantity: number; unitCost: number }[]): number {
+  return roundPrice(items.reduce((total, item) => total + item.quantity * item.unitCost, 0));
+}
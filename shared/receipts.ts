@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+// Settings key the receipt printer configuration is stored under
+export const RECEIPT_PRINTER_SETTINGS_KEY = "receipt_printer";
+
+// Port thermal printers accept raw ESC/POS jobs on
+export const RAW_PRINT_PORT = 9100;
+
+export const RECEIPT_PAPER_WIDTHS = ["58", "80"] as const;
+
+export type ReceiptPaperWidth = typeof RECEIPT_PAPER_WIDTHS[number];
+
+// Characters per line (font A) and printable dots per line for each roll width
+export const RECEIPT_PAPER_LAYOUTS: Record<ReceiptPaperWidth, { columns: number; dots: number }> = {
+  "58": { columns: 32, dots: 384 },
+  "80": { columns: 48, dots: 576 },
+};
+
+// Logos are kept in the settings as a data URL, so they must stay small
+export const MAX_RECEIPT_LOGO_BYTES = 256 * 1024;
+
+export const receiptPrinterSettingsSchema = z.object({
+  paperWidth: z.enum(RECEIPT_PAPER_WIDTHS).default("80"),
+  // Left empty when there is no network printer; receipts are then
+  // downloaded or printed from the browser
+  printerHost: z.string().trim().max(255)
+    .regex(/^[A-Za-z0-9.:-]*$/, "Enter an IP address or host name")
+    .default(""),
+  printerPort: z.coerce.number().int().min(1).max(65535).default(RAW_PRINT_PORT),
+  shopName: z.string().trim().min(1, "Shop name is required").max(64).default("PrintSphere POS"),
+  // Printed under the shop name, e.g. the address, phone number and TIN
+  headerLines: z.string().max(500).default(""),
+  footerMessage: z.string().max(200).default("Thank you for your business!"),
+  logo: z.string()
+    .regex(/^data:image\/(png|jpeg);base64,/, "The logo must be a PNG or JPEG image")
+    .max(Math.ceil(MAX_RECEIPT_LOGO_BYTES * 4 / 3) + 32, "The logo must be under 256 KB")
+    .nullable()
+    .default(null),
+  printQrCode: z.boolean().default(true),
+});
+
+export type ReceiptPrinterSettings = z.infer<typeof receiptPrinterSettingsSchema>;
+
+export const DEFAULT_RECEIPT_PRINTER_SETTINGS: ReceiptPrinterSettings = receiptPrinterSettingsSchema.parse({});
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { roundPrice, PRICE_TOLERANCE } from "./pricing";
+
+export const REVERSAL_TYPES = ["cancel", "void", "refund"] as const;
+
+export type ReversalType = typeof REVERSAL_TYPES[number];
+
+// Statuses that end an order; nothing on it can change afterwards
+export const CLOSED_ORDER_STATUSES = ["cancelled", "voided", "refunded"];
+
+// Reversed orders that never count as a sale; refunds are deducted on the day they are given instead
+export const UNSOLD_ORDER_STATUSES = ["cancelled", "voided"];
+
+// Status an order ends in once a reversal of each type is approved in full
+export const REVERSED_ORDER_STATUS: Record<ReversalType, string> = {
+  cancel: "cancelled",
+  void: "voided",
+  refund: "refunded",
+};
+
+export const orderReversalRequestSchema = z.object({
+  type: z.enum(REVERSAL_TYPES),
+  reason: z.string().trim().min(3, "Please give a reason"),
+  items: z.array(z.object({
+    orderItemId: z.number().int(),
+    quantity: z.number().int().positive("Quantity must be at least 1"),
+    // Refund less than the line is worth, e.g. as a goodwill partial refund
+    amount: z.number().positive("Amount must be greater than zero").optional(),
+  })).default([]),
+}).refine(request => request.type !== "refund" || request.items.length > 0, {
+  message: "Select at least one item to refund",
+  path: ["items"],
+});
+
+export type OrderReversalRequest = z.infer<typeof orderReversalRequestSchema>;
+
+// The parts of an order that decide how it can be reversed
+export interface ReversibleOrder {
+  status: string;
+  paymentStatus: string | null;
+  total: number;
+  refundedAmount?: number | null;
+  createdAt: Date | string | null;
+}
+
+export interface ReversibleItem {
+  id: number;
+  quantity: number;
+  amount: number;
+}
+
+// An order line already refunded by an approved reversal
+export interface RefundedLine {
+  orderItemId: number;
+  quantity: number;
+  amount: number;
+}
+
+// What is left to refund on an order line
+export interface RefundableLine {
+  orderItemId: number;
+  quantity: number;
+  amount: number;
+}
+
+export function isOrderClosed(order: { status: string }): boolean {
+  return CLOSED_ORDER_STATUSES.includes(order.status);
+}
+
+/**
+ * Reversals an order allows. Unpaid and part-paid orders are cancelled, any
+ * deposit being returned; paid orders can be voided on the day they were
+ * sold and refunded (fully or per item) after.
+ */
+export function getAllowedReversalTypes(order: ReversibleOrder, now: Date = new Date()): ReversalType[] {
+  if (isOrderClosed(order)) return [];
+  if (order.paymentStatus !== "paid") return ["cancel"];
+
+  const soldToday = !!order.createdAt && new Date(order.createdAt).toDateString() === now.toDateString();
+  const partlyRefunded = (order.refundedAmount || 0) > 0;
+
+  return soldToday && !partlyRefunded ? ["void", "refund"] : ["refund"];
+}
+
+/**
+ * Whether a pending reversal can still be approved; the order may have been
+ * paid or closed since it was requested. Voids are judged on the request day.
+ */
+export function canApproveReversal(
+  order: ReversibleOrder,
+  reversal: { type: string; requestedAt: Date | string | null }
+): boolean {
+  const requestedAt = reversal.requestedAt ? new Date(reversal.requestedAt) : new Date();
+  return getAllowedReversalTypes(order, requestedAt).includes(reversal.type as ReversalType);
+}
+
+/**
+ * Remaining quantity and value of each order line. A line is worth its
+ * share of the order total, so order discounts are refunded pro rata.
+ */
+export function getRefundableLines(
+  order: ReversibleOrder,
+  items: ReversibleItem[],
+  refunded: RefundedLine[]
+): RefundableLine[] {
+  const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
+  const ratio = subtotal > 0 ? order.total / subtotal : 0;
+
+  return items.map(item => {
+    const lines = refunded.filter(line => line.orderItemId === item.id);
+    const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+    const amount = lines.reduce((sum, line) => sum + line.amount, 0);
+
+    return {
+      orderItemId: item.id,
+      quantity: Math.max(item.quantity - quantity, 0),
+      amount: Math.max(roundPrice(item.amount * ratio - amount), 0),
+    };
+  });
+}
+
+/**
+ * Value of refunding `quantity` units of a line; refunding what is left of
+ * the line returns its exact remainder so rounding never drifts.
+ */
+export function calculateRefundAmount(line: RefundableLine, quantity: number): number {
+  if (line.quantity <= 0) return 0;
+  if (quantity >= line.quantity) return line.amount;
+  return roundPrice(line.amount * quantity / line.quantity);
+}
+
+/**
+ * Check whether approved refunds cover the whole order
+ */
+export function isFullyRefunded(order: { total: number; refundedAmount?: number | null }): boolean {
+  return (order.refundedAmount || 0) >= order.total - PRICE_TOLERANCE;
+}
@@ -1,7 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real, json, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, json, jsonb, varchar, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // User Schema
 export const users = pgTable("users", {
@@ -10,14 +10,42 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   role: text("role").notNull(), // 'admin', 'cashier', 'staff'
+  mustChangePassword: boolean("must_change_password").default(false), // Set by admin password resets
+  passwordChangedAt: timestamp("password_changed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({
+// Password policy for new and changed passwords
+export const passwordSchema = z.string()
+  .min(8, "Password must be at least 8 characters")
+  .regex(/[A-Za-z]/, "Password must contain a letter")
+  .regex(/[0-9]/, "Password must contain a number");
+
+export const insertUserSchema = createInsertSchema(users, {
+  password: passwordSchema,
+}).omit({
   id: true,
+  passwordChangedAt: true,
   createdAt: true,
 });
 
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+}).refine(data => data.newPassword !== data.currentPassword, {
+  message: "New password must be different from the current password",
+  path: ["newPassword"],
+});
+
+// Login Sessions Schema (managed by connect-pg-simple; declared so db:push keeps it)
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
 // Services Schema
 export const services = pgTable("services", {
   id: serial("id").primaryKey(),
@@ -32,12 +60,35 @@ export const services = pgTable("services", {
   featured: boolean("featured").default(false), // Featured services
   displayOrder: integer("display_order").default(0), // For sorting in online store
   onlineAvailable: boolean("online_available").default(true), // Can customers order online
+  turnaroundHours: integer("turnaround_hours"), // Usual time to complete; sets the default due date at checkout
+  vatExempt: boolean("vat_exempt").default(false), // Sold without VAT even when the business is VAT-registered
 });
 
 export const insertServiceSchema = createInsertSchema(services).omit({
   id: true,
 });
 
+// Service Price Versions Schema
+export const servicePriceVersions = pgTable("service_price_versions", {
+  id: serial("id").primaryKey(),
+  serviceId: integer("service_id").notNull().references(() => services.id),
+  basePrice: real("base_price").notNull(),
+  pricingRules: jsonb("pricing_rules"),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveTo: timestamp("effective_to"), // null until a later version takes over
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertServicePriceVersionSchema = createInsertSchema(servicePriceVersions).omit({
+  id: true,
+  effectiveTo: true,
+  createdAt: true,
+}).extend({
+  effectiveFrom: z.coerce.date(),
+});
+
 // Orders Schema
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
@@ -46,17 +97,32 @@ export const orders = pgTable("orders", {
   customerId: integer("customer_id").references(() => customers.id),
   total: real("total").notNull(),
   discount: real("discount").default(0),
-  status: text("status").notNull().default('pending'), // 'pending', 'in_progress', 'ready', 'completed'
-  paymentMethod: text("payment_method"), // 'cash', 'gcash', 'card'
-  paymentStatus: text("payment_status").default('unpaid'), // 'paid', 'unpaid'
+  // VAT split of the total, fixed at checkout under the tax settings in effect
+  vatableSales: real("vatable_sales").default(0),
+  vatAmount: real("vat_amount").default(0),
+  exemptSales: real("exempt_sales").default(0),
+  vatInclusive: boolean("vat_inclusive").default(true), // false when the VAT was added on top of the prices
+  status: text("status").notNull().default('pending'), // 'pending', 'in_progress', 'ready', 'completed', 'cancelled', 'voided', 'refunded'
+  paymentMethod: text("payment_method"), // 'cash', 'gcash', 'card' (latest payment)
+  paymentStatus: text("payment_status").default('unpaid'), // 'unpaid', 'partial', 'paid'; derived from order_payments
+  amountPaid: real("amount_paid").default(0), // Sum of order_payments
+  refundedAmount: real("refunded_amount").default(0), // Sum of approved refunds
   notes: text("notes"),
   createdBy: integer("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  completedAt: timestamp("completed_at"), // Set when the order is marked completed; starts the file retention clock
+  dueAt: timestamp("due_at"), // Pickup time promised to the customer
+}, (table) => [
+  index("orders_due_at_idx").on(table.dueAt),
+]);
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   createdAt: true,
+  completedAt: true,
+  refundedAmount: true, // Only approved refunds add to it
+}).extend({
+  dueAt: z.coerce.date().nullable().optional(),
 });
 
 // Order Items Schema
@@ -68,10 +134,142 @@ export const orderItems = pgTable("order_items", {
   unitPrice: real("unit_price").notNull(),
   amount: real("amount").notNull(),
   specifications: jsonb("specifications"), // Store service-specific details
-});
+  priceVersionId: integer("price_version_id").references(() => servicePriceVersions.id), // Rate card used to price the line
+  productionStage: text("production_stage").notNull().default('queued'), // 'queued', 'printing', 'finishing', 'qc', 'done'
+  assignedTo: integer("assigned_to").references(() => users.id), // Staff member working on the item
+  // When the item last entered each stage; cleared if it is sent back to an earlier one
+  printingAt: timestamp("printing_at"),
+  finishingAt: timestamp("finishing_at"),
+  qcAt: timestamp("qc_at"),
+  doneAt: timestamp("done_at"),
+}, (table) => [
+  index("order_items_production_stage_idx").on(table.productionStage),
+]);
 
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
+  productionStage: true,
+  assignedTo: true,
+  printingAt: true,
+  finishingAt: true,
+  qcAt: true,
+  doneAt: true,
+});
+
+// Order Files Schema (customer artwork and documents; contents live in the file store)
+export const orderFiles = pgTable("order_files", {
+  id: serial("id").primaryKey(),
+  orderItemId: integer("order_item_id").references(() => orderItems.id), // Null until the cart item is ordered
+  sha256: text("sha256").notNull(), // Content address in the file store
+  originalName: text("original_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  uploadedBy: integer("uploaded_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  purgedAt: timestamp("purged_at"), // Contents removed by the retention policy
+  analysis: jsonb("analysis"), // Page count, sizes and colour per page, once analyzed
+});
+
+export const insertOrderFileSchema = createInsertSchema(orderFiles).omit({
+  id: true,
+  purgedAt: true,
+  analysis: true,
+});
+
+// Order Payments Schema (deposits, balance payments and full payments)
+export const orderPayments = pgTable("order_payments", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  method: text("method").notNull(), // 'cash', 'gcash', 'card'
+  amount: real("amount").notNull(),
+  referenceNumber: text("reference_number"), // GCash or card transaction reference
+  receivedBy: integer("received_by").notNull().references(() => users.id),
+  cashSessionId: integer("cash_session_id").references(() => cashSessions.id), // Drawer session open when it was taken
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertOrderPaymentSchema = createInsertSchema(orderPayments).omit({
+  id: true,
+});
+
+// Order Reversals Schema (cancellations, voids and refunds awaiting or given manager approval)
+export const orderReversals = pgTable("order_reversals", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  type: text("type").notNull(), // 'cancel', 'void', 'refund'
+  status: text("status").notNull().default('pending'), // 'pending', 'approved', 'rejected'
+  reason: text("reason").notNull(),
+  amount: real("amount").notNull().default(0), // Money returned to the customer
+  requestedBy: integer("requested_by").notNull().references(() => users.id),
+  requestedAt: timestamp("requested_at").defaultNow(),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+}, (table) => [
+  // Approving one reversal changes what another can do, so an order has one awaiting approval at a time
+  uniqueIndex("order_reversals_one_pending_idx").on(table.orderId).where(sql`status = 'pending'`),
+]);
+
+export const insertOrderReversalSchema = createInsertSchema(orderReversals).omit({
+  id: true,
+  status: true,
+  requestedAt: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  reviewNotes: true,
+});
+
+// Order lines covered by a refund
+export const orderReversalItems = pgTable("order_reversal_items", {
+  id: serial("id").primaryKey(),
+  reversalId: integer("reversal_id").notNull().references(() => orderReversals.id),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id),
+  quantity: integer("quantity").notNull(),
+  amount: real("amount").notNull(),
+});
+
+export const insertOrderReversalItemSchema = createInsertSchema(orderReversalItems).omit({
+  id: true,
+});
+
+// Document Numbering Schema (last number used in each gap-free series)
+export const documentSequences = pgTable("document_sequences", {
+  series: text("series").primaryKey(), // 'invoice', 'official_receipt', 'purchase_order'
+  lastNumber: integer("last_number").notNull().default(0),
+});
+
+// Order Documents Schema (invoices and official receipts issued for orders)
+export const orderDocuments = pgTable("order_documents", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  type: text("type").notNull(), // 'invoice', 'official_receipt'
+  number: integer("number").notNull(), // Position in the type's series
+  documentNumber: text("document_number").notNull().unique(), // Printed number, e.g. 'INV-000042'
+  snapshot: jsonb("snapshot").notNull(), // Everything the document shows, as issued
+  issuedBy: integer("issued_by").notNull().references(() => users.id),
+  issuedAt: timestamp("issued_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("order_documents_type_number_idx").on(table.type, table.number),
+  uniqueIndex("order_documents_order_type_idx").on(table.orderId, table.type),
+]);
+
+// Suppliers Schema
+export const suppliers = pgTable("suppliers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  contactName: text("contact_name"),
+  phone: text("phone"),
+  email: text("email"),
+  address: text("address"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 // Inventory Schema
@@ -81,14 +279,159 @@ export const inventory = pgTable("inventory", {
   description: text("description"),
   category: text("category").notNull(), // 'paper', 'ink', 'material', etc.
   unit: text("unit").notNull(), // 'sheets', 'bottles', 'pieces', etc.
-  currentStock: integer("current_stock").notNull(),
+  currentStock: real("current_stock").notNull(), // Balance of the item's movements; fractional once materials are used per page
   lowStockThreshold: integer("low_stock_threshold").notNull(),
+  reorderQuantity: integer("reorder_quantity").notNull().default(0), // Ordered on top of the threshold when restocking
+  supplierId: integer("supplier_id").references(() => suppliers.id), // Usual supplier, for purchase orders raised from low stock
+  averageCost: real("average_cost"), // Weighted average cost per stock unit; null until stock comes in at a known cost
   lastRestocked: timestamp("last_restocked"),
 });
 
 export const insertInventorySchema = createInsertSchema(inventory).omit({
   id: true,
   lastRestocked: true,
+}).extend({
+  averageCost: z.number().min(0, "Unit cost cannot be negative").nullable().optional(), // What the opening stock cost
+});
+
+// Service Materials Schema (bill of materials: the stock a service uses up)
+export const serviceMaterials = pgTable("service_materials", {
+  id: serial("id").primaryKey(),
+  serviceId: integer("service_id").notNull().references(() => services.id),
+  inventoryId: integer("inventory_id").notNull().references(() => inventory.id),
+  quantity: real("quantity").notNull(), // Stock units used per basis unit
+  basis: text("basis").notNull().default('unit'), // 'unit', 'page', 'color_page', 'bw_page', 'sq_ft'
+  conditions: jsonb("conditions"), // Specification options a line must have, e.g. { paperSize: 'A4' }; null for every line
+}, (table) => [
+  index("service_materials_service_id_idx").on(table.serviceId),
+]);
+
+export const insertServiceMaterialSchema = createInsertSchema(serviceMaterials).omit({
+  id: true,
+});
+
+// Order Item Materials Schema (stock taken for each order line when the order was placed)
+export const orderItemMaterials = pgTable("order_item_materials", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id),
+  inventoryId: integer("inventory_id").notNull().references(() => inventory.id),
+  quantity: real("quantity").notNull(),
+  unitCost: real("unit_cost"), // Item's average cost when the order used it, for cost of goods sold
+  createdAt: timestamp("created_at").defaultNow(),
+  restoredAt: timestamp("restored_at"), // Put back in stock when the order was cancelled or voided
+}, (table) => [
+  index("order_item_materials_order_id_idx").on(table.orderId),
+]);
+
+export const insertOrderItemMaterialSchema = createInsertSchema(orderItemMaterials).omit({
+  id: true,
+  unitCost: true,
+  createdAt: true,
+  restoredAt: true,
+});
+
+// Inventory Movements Schema (ledger of every change to an item's stock)
+export const inventoryMovements = pgTable("inventory_movements", {
+  id: serial("id").primaryKey(),
+  inventoryId: integer("inventory_id").notNull().references(() => inventory.id),
+  type: text("type").notNull(), // 'receipt', 'sale', 'waste', 'adjustment', 'transfer'
+  quantity: real("quantity").notNull(), // Positive into stock, negative out of it
+  unitCost: real("unit_cost"), // Per stock unit: price paid for receipts, average cost for sales and transfers
+  balance: real("balance").notNull(), // Item's stock after this movement
+  orderId: integer("order_id").references(() => orders.id), // Order that used, or gave back, the stock
+  transferInventoryId: integer("transfer_inventory_id").references(() => inventory.id), // Other side of a transfer
+  purchaseOrderId: integer("purchase_order_id").references(() => purchaseOrders.id), // Purchase order a receipt was delivered against
+  stocktakeId: integer("stocktake_id").references(() => stocktakes.id), // Stocktake an adjustment was posted from
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id), // null for stock set up by the system
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("inventory_movements_inventory_id_idx").on(table.inventoryId, table.createdAt),
+]);
+
+export const insertInventoryMovementSchema = createInsertSchema(inventoryMovements).omit({
+  id: true,
+  balance: true,
+  createdAt: true,
+});
+
+// Purchase Orders Schema (stock ordered from a supplier)
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: serial("id").primaryKey(),
+  poNumber: text("po_number").notNull().unique(),
+  supplierId: integer("supplier_id").notNull().references(() => suppliers.id),
+  status: text("status").notNull().default('draft'), // 'draft', 'sent', 'partially_received', 'received'
+  notes: text("notes"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+  receivedAt: timestamp("received_at"), // When the last of the stock came in
+}, (table) => [
+  index("purchase_orders_status_idx").on(table.status),
+]);
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
+  id: true,
+  poNumber: true,
+  status: true,
+  createdAt: true,
+  sentAt: true,
+  receivedAt: true,
+});
+
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: serial("id").primaryKey(),
+  purchaseOrderId: integer("purchase_order_id").notNull().references(() => purchaseOrders.id),
+  inventoryId: integer("inventory_id").notNull().references(() => inventory.id),
+  quantity: real("quantity").notNull(), // Ordered, in the item's stock unit
+  unitCost: real("unit_cost").notNull(),
+  receivedQuantity: real("received_quantity").notNull().default(0),
+}, (table) => [
+  index("purchase_order_items_purchase_order_id_idx").on(table.purchaseOrderId),
+]);
+
+export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({
+  id: true,
+  receivedQuantity: true,
+});
+
+// Stocktakes Schema (a physical count of the stock, posted as one batch of adjustments)
+export const stocktakes = pgTable("stocktakes", {
+  id: serial("id").primaryKey(),
+  status: text("status").notNull().default('counting'), // 'counting', 'posted', 'cancelled'
+  notes: text("notes"),
+  startedBy: integer("started_by").notNull().references(() => users.id),
+  startedAt: timestamp("started_at").defaultNow(),
+  closedBy: integer("closed_by").references(() => users.id), // Who posted or cancelled it
+  closedAt: timestamp("closed_at"),
+}, (table) => [
+  // Counts would overlap, so only one stocktake can be under way at a time
+  uniqueIndex("stocktakes_one_counting_idx").on(table.status).where(sql`status = 'counting'`),
+]);
+
+export const insertStocktakeSchema = createInsertSchema(stocktakes).pick({
+  notes: true,
+  startedBy: true,
+});
+
+export const stocktakeCounts = pgTable("stocktake_counts", {
+  id: serial("id").primaryKey(),
+  stocktakeId: integer("stocktake_id").notNull().references(() => stocktakes.id),
+  inventoryId: integer("inventory_id").notNull().references(() => inventory.id),
+  systemQuantity: real("system_quantity").notNull(), // Item's stock when it was counted, so later sales don't skew the variance
+  countedQuantity: real("counted_quantity").notNull(),
+  unitCost: real("unit_cost"), // What the variance was valued at when posted
+  countedBy: integer("counted_by").notNull().references(() => users.id),
+  countedAt: timestamp("counted_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("stocktake_counts_item_idx").on(table.stocktakeId, table.inventoryId),
+]);
+
+export const insertStocktakeCountSchema = createInsertSchema(stocktakeCounts).omit({
+  id: true,
+  unitCost: true,
+  countedAt: true,
 });
 
 // Customers Schema
@@ -99,6 +442,7 @@ export const customers = pgTable("customers", {
   email: text("email"),
   address: text("address"),
   notes: text("notes"),
+  notificationsOptOut: boolean("notifications_opt_out").default(false), // No SMS or email about orders
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -109,6 +453,35 @@ export const insertCustomerSchema = createInsertSchema(customers).omit({
   updatedAt: true,
 });
 
+// Notification Outbox Schema (messages to customers, sent and retried by the dispatcher)
+export const notificationOutbox = pgTable("notification_outbox", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => orders.id),
+  customerId: integer("customer_id").references(() => customers.id),
+  event: text("event").notNull(), // Template used, e.g. 'order.ready'
+  channel: text("channel").notNull(), // 'sms', 'email'
+  recipient: text("recipient").notNull(), // Phone number or email address
+  subject: text("subject"), // Email only
+  body: text("body").notNull(),
+  status: text("status").notNull().default('pending'), // 'pending', 'sent', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("notification_outbox_due_idx").on(table.status, table.nextAttemptAt),
+]);
+
+export const insertNotificationSchema = createInsertSchema(notificationOutbox).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+});
+
 // Expenses Schema
 export const expenses = pgTable("expenses", {
   id: serial("id").primaryKey(),
@@ -125,6 +498,82 @@ export const insertExpenseSchema = createInsertSchema(expenses).omit({
   createdAt: true,
 });
 
+// Cash Drawer Sessions Schema (a shift of the shop's drawer, from opening float to closing count)
+export const cashSessions = pgTable("cash_sessions", {
+  id: serial("id").primaryKey(),
+  status: text("status").notNull().default('open'), // 'open', 'closed'
+  openingFloat: real("opening_float").notNull(),
+  openingNotes: text("opening_notes"),
+  openedBy: integer("opened_by").notNull().references(() => users.id),
+  openedAt: timestamp("opened_at").defaultNow(),
+  closedBy: integer("closed_by").references(() => users.id),
+  closedAt: timestamp("closed_at"),
+  denominations: jsonb("denominations"), // Closing count of each bill and coin
+  countedCash: real("counted_cash"),
+  expectedCash: real("expected_cash"),
+  variance: real("variance"), // Counted less expected; negative when short
+  closingNotes: text("closing_notes"),
+  zReading: jsonb("z_reading"), // End-of-day reading, frozen at closing
+}, (table) => [
+  // The shop has one drawer, so only one session can be open at a time
+  uniqueIndex("cash_sessions_one_open_idx").on(table.status).where(sql`status = 'open'`),
+]);
+
+export const insertCashSessionSchema = createInsertSchema(cashSessions).pick({
+  openingFloat: true,
+  openingNotes: true,
+  openedBy: true,
+});
+
+// Cash Movements Schema (cash put into or taken out of the drawer other than for sales)
+export const cashMovements = pgTable("cash_movements", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => cashSessions.id),
+  type: text("type").notNull(), // 'cash_in', 'cash_out'
+  amount: real("amount").notNull(),
+  reason: text("reason").notNull(),
+  expenseId: integer("expense_id").references(() => expenses.id), // Paid-outs recorded as expenses
+  reversalId: integer("reversal_id").references(() => orderReversals.id), // Cash handed back on an approved reversal
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("cash_movements_session_id_idx").on(table.sessionId),
+]);
+
+export const insertCashMovementSchema = createInsertSchema(cashMovements).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Audit Events Schema
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  action: text("action").notNull(), // e.g. 'order.status', 'inventory.stock', 'customer.delete'
+  entityType: text("entity_type").notNull(), // 'order', 'order_item', 'service', 'inventory', 'user', 'customer'
+  entityId: text("entity_id"),
+  actorId: integer("actor_id").references(() => users.id),
+  actorName: text("actor_name"),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  ipAddress: text("ip_address"),
+  before: jsonb("before"), // Entity snapshot before the change
+  after: jsonb("after"), // Entity snapshot after the change
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Settings Schema (shop-wide configuration, one JSON value per key)
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(), // e.g. 'receipt_printer'
+  value: jsonb("value").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Define relations between tables
 export const ordersRelations = relations(orders, ({ one }) => ({
   customer: one(customers, {
@@ -144,17 +593,72 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Service = typeof services.$inferSelect;
 export type InsertService = z.infer<typeof insertServiceSchema>;
 
+export type ServicePriceVersion = typeof servicePriceVersions.$inferSelect;
+export type InsertServicePriceVersion = z.infer<typeof insertServicePriceVersionSchema>;
+
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 
+export type OrderFile = typeof orderFiles.$inferSelect;
+export type InsertOrderFile = z.infer<typeof insertOrderFileSchema>;
+
+export type OrderPayment = typeof orderPayments.$inferSelect;
+export type InsertOrderPayment = z.infer<typeof insertOrderPaymentSchema>;
+
+export type OrderReversal = typeof orderReversals.$inferSelect;
+export type InsertOrderReversal = z.infer<typeof insertOrderReversalSchema>;
+
+export type OrderReversalItem = typeof orderReversalItems.$inferSelect;
+export type InsertOrderReversalItem = z.infer<typeof insertOrderReversalItemSchema>;
+
+export type OrderDocument = typeof orderDocuments.$inferSelect;
+
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+
 export type Inventory = typeof inventory.$inferSelect;
 export type InsertInventory = z.infer<typeof insertInventorySchema>;
 
+export type ServiceMaterial = typeof serviceMaterials.$inferSelect;
+export type InsertServiceMaterial = z.infer<typeof insertServiceMaterialSchema>;
+
+export type OrderItemMaterial = typeof orderItemMaterials.$inferSelect;
+export type InsertOrderItemMaterial = z.infer<typeof insertOrderItemMaterialSchema>;
+
+export type InventoryMovement = typeof inventoryMovements.$inferSelect;
+export type InsertInventoryMovement = z.infer<typeof insertInventoryMovementSchema>;
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+
+export type Stocktake = typeof stocktakes.$inferSelect;
+export type InsertStocktake = z.infer<typeof insertStocktakeSchema>;
+
+export type StocktakeCount = typeof stocktakeCounts.$inferSelect;
+export type InsertStocktakeCount = z.infer<typeof insertStocktakeCountSchema>;
+
 export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 
+export type Notification = typeof notificationOutbox.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
 export type Expense = typeof expenses.$inferSelect;
 export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+
+export type CashSession = typeof cashSessions.$inferSelect;
+export type InsertCashSession = z.infer<typeof insertCashSessionSchema>;
+
+export type CashMovement = typeof cashMovements.$inferSelect;
+export type InsertCashMovement = z.infer<typeof insertCashMovementSchema>;
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+
+export type Setting = typeof settings.$inferSelect;
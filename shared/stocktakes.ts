@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { roundPrice } from "./pricing";
+import { roundQuantity } from "./materials";
+
+export const STOCKTAKE_STATUSES = ["counting", "posted", "cancelled"] as const;
+
+export type StocktakeStatus = typeof STOCKTAKE_STATUSES[number];
+
+export const startStocktakeRequestSchema = z.object({
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+export const stocktakeCountsRequestSchema = z.object({
+  // A null count clears an item so it is left out of the stocktake
+  counts: z.array(z.object({
+    inventoryId: z.coerce.number().int(),
+    countedQuantity: z.coerce.number().min(0, "Counted quantity cannot be negative").nullable(),
+  })).min(1, "Enter at least one count"),
+});
+
+export type StocktakeCountRequest = z.infer<typeof stocktakeCountsRequestSchema>["counts"][number];
+
+/**
+ * One item of a stocktake: what the system held when it was counted
+ * against what was on the shelf, and what the difference is worth
+ */
+export interface StocktakeLine {
+  inventoryId: number;
+  name: string;
+  category: string;
+  unit: string;
+  systemQuantity: number; // Current stock until the item is counted
+  countedQuantity: number | null;
+  variance: number | null; // Counted less system; negative when stock is missing
+  unitCost: number | null;
+  costImpact: number | null;
+  countedByName: string | null;
+}
+
+export interface StocktakeSummary {
+  itemCount: number;
+  countedCount: number;
+  varianceCount: number;
+  shortage: number; // Value of the stock missing, as a positive amount
+  surplus: number; // Value of the stock found
+  netCostImpact: number;
+}
+
+export function getStocktakeVariance(systemQuantity: number, countedQuantity: number): number {
+  return roundQuantity(countedQuantity - systemQuantity);
+}
+
+export function summarizeStocktake(lines: StocktakeLine[]): StocktakeSummary {
+  const impacts = lines.map(line => line.costImpact || 0);
+  const shortage = roundPrice(impacts.filter(impact => impact < 0).reduce((sum, impact) => sum - impact, 0));
+  const surplus = roundPrice(impacts.filter(impact => impact > 0).reduce((sum, impact) => sum + impact, 0));
+
+  return {
+    itemCount: lines.length,
+    countedCount: lines.filter(line => line.countedQuantity !== null).length,
+    varianceCount: lines.filter(line => line.variance !== null && line.variance !== 0).length,
+    shortage,
+    surplus,
+    netCostImpact: roundPrice(surplus - shortage),
+  };
+}
@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { roundPrice } from "./pricing";
+
+// Settings key the VAT configuration is stored under
+export const TAX_SETTINGS_KEY = "tax";
+
+export const taxSettingsSchema = z.object({
+  vatRegistered: z.boolean().default(false),
+  vatRate: z.coerce.number().min(0, "Rate cannot be negative").max(100, "Rate cannot exceed 100%").default(12),
+  // Whether service prices already include VAT, or VAT is added on top at checkout
+  pricesIncludeVat: z.boolean().default(true),
+});
+
+export type TaxSettings = z.infer<typeof taxSettingsSchema>;
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = taxSettingsSchema.parse({});
+
+// An order line as needed to work out its tax
+export interface TaxableLine {
+  amount: number;
+  vatExempt?: boolean | null;
+}
+
+// How an order's total splits for VAT, as stored on the order
+export interface OrderTax {
+  vatableSales: number;
+  vatAmount: number;
+  exemptSales: number;
+  vatInclusive: boolean;
+  total: number;
+}
+
+/**
+ * Work out an order's VAT. The discount is spread over vatable and exempt
+ * lines in proportion to their amounts. Inclusive prices have the VAT taken
+ * out of the vatable lines; exclusive prices have it added to the total.
+ * A business that is not VAT-registered charges no VAT at all.
+ */
+export function calculateOrderTax(lines: TaxableLine[], discount: number, settings: TaxSettings): OrderTax {
+  const subtotal = roundPrice(lines.reduce((sum, line) => sum + line.amount, 0));
+  const net = roundPrice(Math.max(subtotal - discount, 0));
+
+  if (!settings.vatRegistered) {
+    return { vatableSales: 0, vatAmount: 0, exemptSales: 0, vatInclusive: true, total: net };
+  }
+
+  const exemptGross = lines.reduce((sum, line) => sum + (line.vatExempt ? line.amount : 0), 0);
+  const exemptSales = subtotal > 0 ? roundPrice(exemptGross * net / subtotal) : 0;
+  const vatableGross = roundPrice(net - exemptSales);
+  const rate = settings.vatRate / 100;
+
+  if (settings.pricesIncludeVat) {
+    const vatableSales = roundPrice(vatableGross / (1 + rate));
+    const vatAmount = roundPrice(vatableGross - vatableSales);
+    return { vatableSales, vatAmount, exemptSales, vatInclusive: true, total: net };
+  }
+
+  const vatAmount = roundPrice(vatableGross * rate);
+  return { vatableSales: vatableGross, vatAmount, exemptSales, vatInclusive: false, total: roundPrice(net + vatAmount) };
+}
+
+/**
+ * An order's amount before its discount, not counting VAT added on top
+ */
+export function getOrderSubtotal(order: {
+  total: number;
+  discount?: number | null;
+  vatAmount?: number | null;
+  vatInclusive?: boolean | null;
+}): number {
+  const addedVat = order.vatInclusive === false ? order.vatAmount || 0 : 0;
+  return roundPrice(order.total + (order.discount || 0) - addedVat);
+}
+
+/**
+ * Whether an order was sold with VAT, so its receipts show the breakdown
+ */
+export function hasVatBreakdown(order: { vatableSales?: number | null; exemptSales?: number | null }): boolean {
+  return (order.vatableSales || 0) > 0 || (order.exemptSales || 0) > 0;
+}
@@ -0,0 +1,38 @@
+// Turnaround assumed for services that do not set their own
+export const DEFAULT_TURNAROUND_HOURS = 24;
+
+// Statuses in which an order can still miss its due date; ready orders
+// are finished and only waiting for the customer
+export const DUE_TRACKED_STATUSES = ["pending", "in_progress"];
+
+export type DueState = "overdue" | "due_today" | "upcoming";
+
+/**
+ * Pickup time to promise for an order: the slowest of its services'
+ * turnaround times, counted from when the order is taken
+ */
+export function getDefaultDueAt(from: Date, turnaroundHours: (number | null | undefined)[]): Date {
+  const hours = turnaroundHours.length > 0
+    ? Math.max(...turnaroundHours.map(each => each ?? DEFAULT_TURNAROUND_HOURS))
+    : DEFAULT_TURNAROUND_HOURS;
+  return new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Where an order stands against its due date; null when it has none or
+ * is no longer being worked on
+ */
+export function getDueState(
+  order: { status: string; dueAt?: Date | string | null },
+  now: Date = new Date()
+): DueState | null {
+  if (!order.dueAt || !DUE_TRACKED_STATUSES.includes(order.status)) return null;
+
+  const dueAt = new Date(order.dueAt);
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+
+  if (dueAt.getTime() < now.getTime()) return "overdue";
+  if (dueAt.getTime() <= endOfToday.getTime()) return "due_today";
+  return "upcoming";
+}